@@ -2,7 +2,7 @@ import { Ionicons } from "@expo/vector-icons";
 import { Image } from "expo-image";
 import { LinearGradient } from "expo-linear-gradient";
 import { router, useFocusEffect } from "expo-router";
-import React, { useCallback, useState } from "react";
+import React, { useCallback, useRef, useState } from "react";
 import {
   Alert,
   FlatList,
@@ -13,33 +13,56 @@ import {
   View,
 } from "react-native";
 
+import { ActivityFeed } from "@/components/ActivityFeed";
 import { Button } from "@/components/Button";
+import { ReportUserModal } from "@/components/ReportUserModal";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Colors } from "@/constants/Colors";
+import { ReportContext } from "@/constants/Reports";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { requireAuth } from "@/utils/auth";
 import {
   acceptFriendRequest,
+  blockUser,
   declineFriendRequest,
-  FriendProfile,
   FriendRequest,
   Friendship,
   getFriends,
   getPendingFriendRequests,
+  Relationship,
   searchUsers,
   sendFriendRequest,
+  unblockUser,
+  UserSearchResult,
 } from "@/utils/friends";
+import {
+  dismissSharedWorkout,
+  getIncomingSharedWorkouts,
+  saveSharedWorkout,
+  SharedWorkout,
+} from "@/utils/sharedWorkouts";
 
 export default function FriendsScreen() {
   const [friends, setFriends] = useState<Friendship[]>([]);
   const [friendRequests, setFriendRequests] = useState<FriendRequest[]>([]);
-  const [searchResults, setSearchResults] = useState<FriendProfile[]>([]);
+  const [sharedWorkouts, setSharedWorkouts] = useState<SharedWorkout[]>([]);
+  const [searchResults, setSearchResults] = useState<UserSearchResult[]>([]);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  // The query being typed, so slower responses to older queries are ignored
+  const latestQuery = useRef("");
   const [isLoading, setIsLoading] = useState(true);
   const [isSearching, setIsSearching] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [activeTab, setActiveTab] = useState<"friends" | "requests">("friends");
+  const [activeTab, setActiveTab] = useState<"feed" | "friends" | "requests">(
+    "feed"
+  );
+  const [reportTarget, setReportTarget] = useState<{
+    userId: string;
+    username?: string;
+    context: ReportContext;
+  } | null>(null);
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
 
@@ -58,6 +81,7 @@ export default function FriendsScreen() {
       if (isAuth) {
         await loadFriendsData();
         await loadFriendRequests();
+        await loadSharedWorkouts();
       }
     } catch (error) {
       console.error("Error checking auth:", error);
@@ -84,39 +108,85 @@ export default function FriendsScreen() {
     }
   };
 
+  const loadSharedWorkouts = async () => {
+    const { shares, error } = await getIncomingSharedWorkouts();
+    if (error) {
+      console.error("Error loading shared workouts:", error);
+    } else {
+      setSharedWorkouts(shares);
+    }
+  };
+
   const handleSearch = async (query: string) => {
     setSearchQuery(query);
+    latestQuery.current = query;
     if (query.trim().length < 2) {
       setSearchResults([]);
+      setHasMoreResults(false);
+      setIsSearching(false);
       return;
     }
 
     setIsSearching(true);
-    const { users, error } = await searchUsers(query);
+    const { users, hasMore, error } = await searchUsers(query);
+    if (latestQuery.current !== query) return;
     if (error) {
       console.error("Error searching users:", error);
       Alert.alert("Error", "Failed to search users");
     } else {
       setSearchResults(users);
+      setHasMoreResults(hasMore);
     }
     setIsSearching(false);
   };
 
+  const handleLoadMoreResults = async () => {
+    const query = searchQuery;
+    const { users, hasMore, error } = await searchUsers(
+      query,
+      searchResults.length
+    );
+    if (latestQuery.current !== query) return;
+    if (error) {
+      console.error("Error searching users:", error);
+      Alert.alert("Error", "Failed to search users");
+    } else {
+      setSearchResults((prev) => [...prev, ...users]);
+      setHasMoreResults(hasMore);
+    }
+  };
+
+  // Show the new relationship on a search result after acting on it
+  const updateSearchResult = (userId: string, relationship: Relationship) => {
+    setSearchResults((prev) =>
+      prev.map((result) =>
+        result.id === userId
+          ? { ...result, relationship, request_id: null }
+          : result
+      )
+    );
+  };
+
   const handleSendFriendRequest = async (userId: string, username: string) => {
     const { success, error } = await sendFriendRequest(userId);
     if (success) {
       Alert.alert("Success", `Friend request sent to ${username}!`);
-      setSearchResults([]);
-      setSearchQuery("");
+      updateSearchResult(userId, "request_sent");
     } else {
       Alert.alert("Error", error || "Failed to send friend request");
     }
   };
 
-  const handleAcceptFriendRequest = async (requestId: string) => {
+  const handleAcceptFriendRequest = async (
+    requestId: string,
+    senderId?: string
+  ) => {
     const { success, error } = await acceptFriendRequest(requestId);
     if (success) {
       Alert.alert("Success", "Friend request accepted!");
+      if (senderId) {
+        updateSearchResult(senderId, "friend");
+      }
       await loadFriendsData();
       await loadFriendRequests();
     } else {
@@ -133,6 +203,79 @@ export default function FriendsScreen() {
     }
   };
 
+  const handleBlockUser = (userId: string, username?: string) => {
+    Alert.alert(
+      "Block User",
+      `${username || "This user"} won't be able to find you or send you friend requests, and any friendship between you will end.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Block",
+          style: "destructive",
+          onPress: async () => {
+            const { success, error } = await blockUser(userId);
+            if (success) {
+              updateSearchResult(userId, "blocked");
+              await loadFriendsData();
+              await loadFriendRequests();
+              await loadSharedWorkouts();
+            } else {
+              Alert.alert("Error", error || "Failed to block user");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleUnblockUser = async (userId: string) => {
+    const { success, error } = await unblockUser(userId);
+    if (success) {
+      updateSearchResult(userId, "none");
+    } else {
+      Alert.alert("Error", error || "Failed to unblock user");
+    }
+  };
+
+  // Offered on long press of a search result or friend request
+  const showSafetyActions = (
+    userId: string,
+    username: string | undefined,
+    context: ReportContext
+  ) => {
+    Alert.alert(username || "User", undefined, [
+      {
+        text: "Report",
+        onPress: () => setReportTarget({ userId, username, context }),
+      },
+      {
+        text: "Block",
+        style: "destructive",
+        onPress: () => handleBlockUser(userId, username),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const handleSaveSharedWorkout = async (share: SharedWorkout) => {
+    const { error } = await saveSharedWorkout(share);
+    if (error) {
+      Alert.alert("Error", error || "Failed to save workout");
+      return;
+    }
+    Alert.alert("Saved", "The workout is now in your workouts.");
+    await loadSharedWorkouts();
+  };
+
+  const handleDismissSharedWorkout = async (shareId: string) => {
+    const { success, error } = await dismissSharedWorkout(shareId);
+    if (success) {
+      await loadSharedWorkouts();
+    } else {
+      Alert.alert("Error", error || "Failed to dismiss workout");
+    }
+  };
+
   const calculateAge = (dateOfBirth: string | undefined) => {
     if (!dateOfBirth) return "Unknown";
     const birthDate = new Date(dateOfBirth);
@@ -200,7 +343,17 @@ export default function FriendsScreen() {
   );
 
   const renderFriendRequestItem = ({ item }: { item: FriendRequest }) => (
-    <View style={[styles.requestItem, { borderBottomColor: colors.border }]}>
+    <TouchableOpacity
+      style={[styles.requestItem, { borderBottomColor: colors.border }]}
+      activeOpacity={1}
+      onLongPress={() =>
+        showSafetyActions(
+          item.sender_id,
+          item.sender_profile?.username,
+          "friend_request"
+        )
+      }
+    >
       {item.sender_profile?.profile_picture_url ? (
         <Image
           source={{
@@ -247,12 +400,115 @@ export default function FriendsScreen() {
           <Ionicons name="close" size={20} color={colors.text} />
         </TouchableOpacity>
       </View>
-    </View>
+    </TouchableOpacity>
   );
 
-  const renderSearchResultItem = ({ item }: { item: FriendProfile }) => (
-    <View
+  const renderSharedWorkoutItem = ({ item }: { item: SharedWorkout }) => (
+    <TouchableOpacity
+      style={[styles.requestItem, { borderBottomColor: colors.border }]}
+      onPress={() =>
+        router.push({
+          pathname: "/workout-detail",
+          params: {
+            workoutData: JSON.stringify(item.workout_data),
+            sharedWorkout: JSON.stringify(item),
+          },
+        })
+      }
+    >
+      <View
+        style={[
+          styles.friendAvatar,
+          { backgroundColor: colorScheme === "dark" ? "#4D4D5D" : "#FFE5E5" },
+        ]}
+      >
+        <Ionicons name="barbell-outline" size={24} color={colors.primary} />
+      </View>
+      <View style={styles.requestInfo}>
+        <ThemedText style={styles.friendName}>
+          {item.workout_data?.title || "Workout"}
+        </ThemedText>
+        <ThemedText style={styles.requestText} numberOfLines={2}>
+          Sent by {item.sender_profile?.username}
+          {item.message ? ` · "${item.message}"` : ""}
+        </ThemedText>
+      </View>
+      <View style={styles.requestActions}>
+        <TouchableOpacity
+          style={[styles.acceptButton, { backgroundColor: colors.primary }]}
+          onPress={() => handleSaveSharedWorkout(item)}
+        >
+          <Ionicons name="download-outline" size={20} color="white" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.declineButton,
+            { backgroundColor: colors.text + "20" },
+          ]}
+          onPress={() => handleDismissSharedWorkout(item.id)}
+        >
+          <Ionicons name="close" size={20} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderSearchAction = (item: UserSearchResult) => {
+    switch (item.relationship) {
+      case "friend":
+        return <ThemedText style={styles.statusText}>Friends</ThemedText>;
+      case "request_sent":
+        return <ThemedText style={styles.statusText}>Pending</ThemedText>;
+      case "blocked":
+        return (
+          <TouchableOpacity
+            style={[styles.addButton, { backgroundColor: colors.text + "20" }]}
+            onPress={() => handleUnblockUser(item.id)}
+          >
+            <ThemedText style={styles.unblockButtonText}>Unblock</ThemedText>
+          </TouchableOpacity>
+        );
+      case "request_received":
+        return (
+          <TouchableOpacity
+            style={[styles.addButton, { backgroundColor: colors.primary }]}
+            onPress={() =>
+              item.request_id &&
+              handleAcceptFriendRequest(item.request_id, item.id)
+            }
+          >
+            <Ionicons name="checkmark" size={16} color="white" />
+            <ThemedText style={styles.addButtonText}>Accept</ThemedText>
+          </TouchableOpacity>
+        );
+      default:
+        return (
+          <TouchableOpacity
+            style={[styles.addButton, { backgroundColor: colors.primary }]}
+            onPress={() => handleSendFriendRequest(item.id, item.username)}
+          >
+            <Ionicons name="person-add" size={16} color="white" />
+            <ThemedText style={styles.addButtonText}>Add</ThemedText>
+          </TouchableOpacity>
+        );
+    }
+  };
+
+  const renderSearchResultItem = ({ item }: { item: UserSearchResult }) => (
+    <TouchableOpacity
       style={[styles.searchResultItem, { borderBottomColor: colors.border }]}
+      activeOpacity={item.relationship === "friend" ? 0.2 : 1}
+      onPress={() =>
+        item.relationship === "friend" &&
+        router.push({
+          pathname: "/friend-profile",
+          params: { friendId: item.id },
+        })
+      }
+      onLongPress={() =>
+        item.relationship !== "blocked" &&
+        showSafetyActions(item.id, item.username, "search")
+      }
     >
       {item.profile_picture_url ? (
         <Image
@@ -286,14 +542,8 @@ export default function FriendsScreen() {
             : ""}
         </ThemedText>
       </View>
-      <TouchableOpacity
-        style={[styles.addButton, { backgroundColor: colors.primary }]}
-        onPress={() => handleSendFriendRequest(item.id, item.username)}
-      >
-        <Ionicons name="person-add" size={16} color="white" />
-        <ThemedText style={styles.addButtonText}>Add</ThemedText>
-      </TouchableOpacity>
-    </View>
+      {renderSearchAction(item)}
+    </TouchableOpacity>
   );
 
   if (isLoading) {
@@ -352,9 +602,21 @@ export default function FriendsScreen() {
       />
 
       <View style={styles.header}>
-        <ThemedText type="title" style={styles.title}>
-          Friends
-        </ThemedText>
+        <View style={styles.titleRow}>
+          <View style={styles.headerSpacer} />
+          <ThemedText type="title" style={[styles.title, styles.headerTitle]}>
+            Friends
+          </ThemedText>
+          <TouchableOpacity
+            style={[
+              styles.challengesButton,
+              { backgroundColor: colors.primary },
+            ]}
+            onPress={() => router.push("/challenges")}
+          >
+            <Ionicons name="trophy" size={20} color="white" />
+          </TouchableOpacity>
+        </View>
 
         {/* Search Bar */}
         <View
@@ -380,6 +642,22 @@ export default function FriendsScreen() {
 
         {/* Tabs */}
         <View style={styles.tabContainer}>
+          <TouchableOpacity
+            style={[
+              styles.tab,
+              activeTab === "feed" && { backgroundColor: colors.primary },
+            ]}
+            onPress={() => setActiveTab("feed")}
+          >
+            <ThemedText
+              style={[
+                styles.tabText,
+                activeTab === "feed" && { color: "white" },
+              ]}
+            >
+              Feed
+            </ThemedText>
+          </TouchableOpacity>
           <TouchableOpacity
             style={[
               styles.tab,
@@ -409,12 +687,12 @@ export default function FriendsScreen() {
                 activeTab === "requests" && { color: "white" },
               ]}
             >
-              Requests ({friendRequests.length})
+              Requests ({friendRequests.length + sharedWorkouts.length})
             </ThemedText>
-            {friendRequests.length > 0 && (
+            {friendRequests.length + sharedWorkouts.length > 0 && (
               <View style={styles.notificationBadge}>
                 <ThemedText style={styles.badgeText}>
-                  {friendRequests.length}
+                  {friendRequests.length + sharedWorkouts.length}
                 </ThemedText>
               </View>
             )}
@@ -432,16 +710,37 @@ export default function FriendsScreen() {
             ) : searchResults.length === 0 ? (
               <ThemedText style={styles.emptyText}>No users found</ThemedText>
             ) : (
-              <FlatList
-                data={searchResults}
-                renderItem={renderSearchResultItem}
-                keyExtractor={(item) => item.id}
-                scrollEnabled={false}
-              />
+              <>
+                <FlatList
+                  data={searchResults}
+                  renderItem={renderSearchResultItem}
+                  keyExtractor={(item) => item.id}
+                  scrollEnabled={false}
+                />
+                {hasMoreResults && (
+                  <TouchableOpacity
+                    style={styles.loadMoreButton}
+                    onPress={handleLoadMoreResults}
+                  >
+                    <ThemedText
+                      style={[styles.loadMoreText, { color: colors.primary }]}
+                    >
+                      Show More
+                    </ThemedText>
+                  </TouchableOpacity>
+                )}
+              </>
             )}
           </View>
         )}
 
+        {/* Activity Feed Tab */}
+        {activeTab === "feed" && (
+          <View style={styles.section}>
+            <ActivityFeed />
+          </View>
+        )}
+
         {/* Friends Tab */}
         {activeTab === "friends" && (
           <View style={styles.section}>
@@ -471,7 +770,7 @@ export default function FriendsScreen() {
         {/* Friend Requests Tab */}
         {activeTab === "requests" && (
           <View style={styles.section}>
-            {friendRequests.length === 0 ? (
+            {friendRequests.length === 0 && sharedWorkouts.length === 0 ? (
               <View style={styles.emptyContainer}>
                 <Ionicons
                   name="notifications-outline"
@@ -482,20 +781,57 @@ export default function FriendsScreen() {
                   No friend requests
                 </ThemedText>
                 <ThemedText style={styles.emptySubtext}>
-                  When someone sends you a friend request, it will appear here
+                  When someone sends you a friend request or a workout, it
+                  will appear here
                 </ThemedText>
               </View>
             ) : (
-              <FlatList
-                data={friendRequests}
-                renderItem={renderFriendRequestItem}
-                keyExtractor={(item) => item.id}
-                scrollEnabled={false}
-              />
+              <>
+                {sharedWorkouts.length > 0 && (
+                  <>
+                    <ThemedText style={styles.sectionTitle}>
+                      Shared Workouts
+                    </ThemedText>
+                    <FlatList
+                      data={sharedWorkouts}
+                      renderItem={renderSharedWorkoutItem}
+                      keyExtractor={(item) => item.id}
+                      scrollEnabled={false}
+                    />
+                  </>
+                )}
+                {friendRequests.length > 0 && (
+                  <>
+                    {sharedWorkouts.length > 0 && (
+                      <ThemedText
+                        style={[styles.sectionTitle, styles.sectionSpacing]}
+                      >
+                        Friend Requests
+                      </ThemedText>
+                    )}
+                    <FlatList
+                      data={friendRequests}
+                      renderItem={renderFriendRequestItem}
+                      keyExtractor={(item) => item.id}
+                      scrollEnabled={false}
+                    />
+                  </>
+                )}
+              </>
             )}
           </View>
         )}
       </ScrollView>
+
+      {reportTarget && (
+        <ReportUserModal
+          visible
+          userId={reportTarget.userId}
+          username={reportTarget.username}
+          context={reportTarget.context}
+          onClose={() => setReportTarget(null)}
+        />
+      )}
     </ThemedView>
   );
 }
@@ -520,6 +856,26 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingBottom: 16,
   },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  headerTitle: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  challengesButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
   title: {
     fontSize: 28,
     fontWeight: "bold",
@@ -595,6 +951,9 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     marginBottom: 12,
   },
+  sectionSpacing: {
+    marginTop: 24,
+  },
   friendItem: {
     flexDirection: "row",
     alignItems: "center",
@@ -675,6 +1034,23 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "500",
   },
+  unblockButtonText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: "500",
+    opacity: 0.6,
+  },
+  loadMoreButton: {
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  loadMoreText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
   emptyContainer: {
     alignItems: "center",
     paddingVertical: 60,
@@ -29,6 +29,8 @@ import {
   showDeleteConfirmation,
   showImagePickerOptions,
 } from "@/utils/imagePicker";
+import { getRegionLabel, parseInjuries } from "@/utils/injuries";
+import { formatQuantity, parseUnitSystem } from "@/utils/units";
 
 export default function ProfileScreen() {
   const [profile, setProfile] = useState<UserProfile | null>(null);
@@ -275,6 +277,8 @@ export default function ProfileScreen() {
     );
   }
 
+  const injuryDetails = parseInjuries(profile.injury_details);
+
   return (
     <ThemedView style={styles.container}>
       <LinearGradient
@@ -364,7 +368,10 @@ export default function ProfileScreen() {
                 <ThemedText style={styles.infoLabel}>Height</ThemedText>
                 <ThemedText style={styles.infoValue}>
                   {profile.height
-                    ? `${profile.height} ${profile.height_unit}`
+                    ? formatQuantity(
+                        { kind: "height", value: profile.height },
+                        parseUnitSystem(profile.unit_system)
+                      )
                     : "Not set"}
                 </ThemedText>
               </View>
@@ -373,7 +380,10 @@ export default function ProfileScreen() {
                 <ThemedText style={styles.infoLabel}>Weight</ThemedText>
                 <ThemedText style={styles.infoValue}>
                   {profile.weight
-                    ? `${profile.weight} ${profile.weight_unit}`
+                    ? formatQuantity(
+                        { kind: "bodyWeight", value: profile.weight },
+                        parseUnitSystem(profile.unit_system)
+                      )
                     : "Not set"}
                 </ThemedText>
               </View>
@@ -393,7 +403,7 @@ export default function ProfileScreen() {
               <View style={styles.infoItem}>
                 <ThemedText style={styles.infoLabel}>Injuries</ThemedText>
                 <ThemedText style={styles.infoValue}>
-                  {profile.injuries ? "Yes" : "No"}
+                  {profile.injuries || injuryDetails.length > 0 ? "Yes" : "No"}
                 </ThemedText>
               </View>
             </View>
@@ -408,14 +418,21 @@ export default function ProfileScreen() {
             </View>
           )}
 
-          {profile.injuries && (
+          {(profile.injuries || injuryDetails.length > 0) && (
             <View style={styles.infoSection}>
               <ThemedText style={styles.sectionTitle}>
                 Injuries/Limitations
               </ThemedText>
-              <ThemedText style={styles.injuryText}>
-                {profile.injuries}
-              </ThemedText>
+              {injuryDetails.map((injury) => (
+                <ThemedText key={injury.region} style={styles.injuryText}>
+                  • {getRegionLabel(injury.region)} ({injury.severity})
+                </ThemedText>
+              ))}
+              {profile.injuries && (
+                <ThemedText style={styles.injuryText}>
+                  {profile.injuries}
+                </ThemedText>
+              )}
             </View>
           )}
 
@@ -426,6 +443,20 @@ export default function ProfileScreen() {
               style={styles.editButton}
             />
 
+            <Button
+              title="Body Measurements"
+              onPress={() => router.push("/body-measurements")}
+              style={styles.measurementsButton}
+              variant="secondary"
+            />
+
+            <Button
+              title="Privacy Settings"
+              onPress={() => router.push("/privacy-settings")}
+              style={styles.privacyButton}
+              variant="secondary"
+            />
+
             <Button
               title="Send Feedback"
               onPress={() => setShowFeedbackModal(true)}
@@ -569,6 +600,12 @@ const styles = StyleSheet.create({
   editButton: {
     width: "100%",
   },
+  measurementsButton: {
+    width: "100%",
+  },
+  privacyButton: {
+    width: "100%",
+  },
   feedbackButton: {
     width: "100%",
   },
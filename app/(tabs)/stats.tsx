@@ -0,0 +1,416 @@
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useMemo, useState } from "react";
+import { ScrollView, StyleSheet, View } from "react-native";
+
+import { BarChart } from "@/components/BarChart";
+import { Button } from "@/components/Button";
+import { DistributionChart } from "@/components/DistributionChart";
+import { LineChart } from "@/components/LineChart";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  getCachedWorkoutHistory,
+  getWorkoutHistory,
+  requireAuth,
+  WorkoutHistory,
+} from "@/utils/auth";
+import { computeWorkoutStats } from "@/utils/workoutStats";
+
+const WORKOUT_TYPE_LABELS: Record<string, string> = {
+  strength: "Strength Training",
+  cardio: "Cardio",
+  both: "Strength & Cardio",
+  flexibility: "Flexibility",
+  hiit: "HIIT",
+  yoga: "Yoga",
+};
+
+const MUSCLE_FOCUS_LABELS: Record<string, string> = {
+  "full-body": "Full Body",
+  "upper-body": "Upper Body",
+  "lower-body": "Lower Body",
+};
+
+function formatMuscleFocus(value: string) {
+  return (
+    MUSCLE_FOCUS_LABELS[value] || value.charAt(0).toUpperCase() + value.slice(1)
+  );
+}
+
+function formatWeekLabel(date: Date) {
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+}
+
+export default function StatsScreen() {
+  const [workouts, setWorkouts] = useState<WorkoutHistory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  // Reload whenever the tab comes into focus so new workouts show up
+  useFocusEffect(
+    useCallback(() => {
+      checkAuthAndLoadStats();
+    }, [])
+  );
+
+  const checkAuthAndLoadStats = async () => {
+    setIsLoading(true);
+    try {
+      const isAuth = await requireAuth(false);
+      setIsAuthenticated(isAuth);
+
+      if (isAuth) {
+        // Show stats from the cache right away, then refresh them
+        const { workouts: cachedWorkouts } = await getCachedWorkoutHistory();
+        if (cachedWorkouts.length > 0) {
+          setWorkouts(cachedWorkouts);
+          setIsLoading(false);
+        }
+
+        const { workouts, error } = await getWorkoutHistory();
+        if (error) {
+          console.error("Error loading workouts for stats:", error);
+        } else {
+          setWorkouts(workouts || []);
+        }
+      }
+    } catch (error) {
+      console.error("Error checking auth:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const stats = useMemo(() => computeWorkoutStats(workouts), [workouts]);
+
+  const background = (
+    <LinearGradient
+      colors={
+        colorScheme === "dark"
+          ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+          : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+      }
+      style={styles.background}
+    />
+  );
+
+  if (isLoading) {
+    return (
+      <ThemedView style={[styles.container, styles.loadingContainer]}>
+        {background}
+        <ThemedText>Loading stats...</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <ThemedView style={styles.container}>
+        {background}
+        <View style={styles.content}>
+          <ThemedText type="title" style={styles.title}>
+            Stats
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>
+            Login to track your progress
+          </ThemedText>
+          <Button
+            title="Login"
+            onPress={() => router.push("/login")}
+            style={styles.loginButton}
+          />
+        </View>
+      </ThemedView>
+    );
+  }
+
+  const cardColors: [string, string] =
+    colorScheme === "dark"
+      ? ["rgba(255, 255, 255, 0.08)", "rgba(255, 255, 255, 0.02)"]
+      : ["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.5)"];
+  const hasRatings = stats.averageRatingPerWeek.some(
+    (week) => week.averageRating !== null
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      {background}
+
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.headerTitle}>
+          Your Progress
+        </ThemedText>
+      </View>
+
+      {workouts.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons
+            name="stats-chart-outline"
+            size={64}
+            color={colors.text}
+            style={{ opacity: 0.5 }}
+          />
+          <ThemedText style={styles.emptyText}>No stats yet</ThemedText>
+          <ThemedText style={styles.emptySubtext}>
+            Save your first workout to start tracking your progress
+          </ThemedText>
+          <Button
+            title="Create Workout"
+            onPress={() => router.push("/workout-builder/workout-type")}
+            style={styles.emptyButton}
+          />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {/* Summary */}
+          <View style={styles.summaryGrid}>
+            <SummaryCard
+              icon="barbell"
+              value={stats.completedWorkouts}
+              label="Completed"
+              color={colors.primary}
+            />
+            <SummaryCard
+              icon="time"
+              value={stats.totalMinutes}
+              label="Minutes"
+              color={colors.secondary}
+            />
+            <SummaryCard
+              icon="flame"
+              value={stats.currentStreak}
+              label="Day Streak"
+              color={colors.primary}
+            />
+            <SummaryCard
+              icon="trophy"
+              value={stats.longestStreak}
+              label="Best Streak"
+              color={colors.secondary}
+            />
+          </View>
+
+          {/* Workouts per week */}
+          <View style={styles.sectionCard}>
+            <LinearGradient colors={cardColors} style={styles.cardGradient}>
+              <ThemedText style={styles.sectionTitle}>
+                Workouts per Week
+              </ThemedText>
+              <BarChart
+                data={stats.workoutsPerWeek.map((week) => ({
+                  label: formatWeekLabel(week.weekStart),
+                  value: week.count,
+                }))}
+              />
+            </LinearGradient>
+          </View>
+
+          {/* Average rating over time */}
+          <View style={styles.sectionCard}>
+            <LinearGradient colors={cardColors} style={styles.cardGradient}>
+              <ThemedText style={styles.sectionTitle}>
+                Average Rating
+              </ThemedText>
+              {hasRatings ? (
+                <LineChart
+                  data={stats.averageRatingPerWeek.map((week) => ({
+                    label: formatWeekLabel(week.weekStart),
+                    value: week.averageRating,
+                  }))}
+                  minValue={1}
+                  maxValue={5}
+                />
+              ) : (
+                <ThemedText style={styles.emptyChartText}>
+                  Rate your workouts to see how they feel over time
+                </ThemedText>
+              )}
+            </LinearGradient>
+          </View>
+
+          {/* Workout type distribution */}
+          <View style={styles.sectionCard}>
+            <LinearGradient colors={cardColors} style={styles.cardGradient}>
+              <ThemedText style={styles.sectionTitle}>Workout Types</ThemedText>
+              <DistributionChart
+                data={stats.workoutTypeDistribution.map((entry) => ({
+                  label: WORKOUT_TYPE_LABELS[entry.value] || entry.value,
+                  count: entry.count,
+                }))}
+              />
+            </LinearGradient>
+          </View>
+
+          {/* Muscle focus distribution */}
+          <View style={styles.sectionCard}>
+            <LinearGradient colors={cardColors} style={styles.cardGradient}>
+              <ThemedText style={styles.sectionTitle}>Muscle Focus</ThemedText>
+              <DistributionChart
+                data={stats.muscleFocusDistribution.map((entry) => ({
+                  label: formatMuscleFocus(entry.value),
+                  count: entry.count,
+                }))}
+                color={colors.secondary}
+              />
+            </LinearGradient>
+          </View>
+        </ScrollView>
+      )}
+    </ThemedView>
+  );
+}
+
+function SummaryCard({
+  icon,
+  value,
+  label,
+  color,
+}: {
+  icon: keyof typeof Ionicons.glyphMap;
+  value: number;
+  label: string;
+  color: string;
+}) {
+  const colorScheme = useColorScheme();
+
+  return (
+    <View
+      style={[
+        styles.summaryCard,
+        { backgroundColor: colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF" },
+      ]}
+    >
+      <Ionicons name={icon} size={22} color={color} />
+      <ThemedText style={styles.summaryValue}>{value}</ThemedText>
+      <ThemedText style={styles.summaryLabel}>{label}</ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: "bold",
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 18,
+    textAlign: "center",
+    opacity: 0.8,
+    marginBottom: 32,
+  },
+  loginButton: {
+    width: "80%",
+    marginTop: 16,
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: "bold",
+    textAlign: "center",
+    marginTop: 8,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginTop: 24,
+    textAlign: "center",
+  },
+  emptySubtext: {
+    fontSize: 16,
+    textAlign: "center",
+    opacity: 0.7,
+    marginTop: 8,
+    marginBottom: 32,
+  },
+  emptyButton: {
+    width: "80%",
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  summaryGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+    rowGap: 12,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    width: "48%",
+    borderRadius: 16,
+    padding: 16,
+    alignItems: "center",
+    gap: 4,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  summaryValue: {
+    fontSize: 26,
+    fontWeight: "bold",
+    lineHeight: 32,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  sectionCard: {
+    borderRadius: 16,
+    overflow: "hidden",
+    marginBottom: 16,
+  },
+  cardGradient: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 16,
+  },
+  emptyChartText: {
+    fontSize: 14,
+    opacity: 0.7,
+    textAlign: "center",
+  },
+});
@@ -14,10 +14,12 @@ import { Button } from "@/components/Button";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { WorkoutRating } from "@/components/WorkoutRating";
+import { WorkoutSchedule } from "@/components/WorkoutSchedule";
 import { Colors } from "@/constants/Colors";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import {
   deleteWorkout,
+  getCachedWorkoutHistory,
   getWorkoutHistory,
   requireAuth,
   updateWorkoutRating,
@@ -31,6 +33,7 @@ export default function WorkoutsScreen() {
   const [ratingUpdates, setRatingUpdates] = useState<{
     [key: string]: boolean;
   }>({});
+  const [view, setView] = useState<"history" | "schedule">("history");
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
 
@@ -48,6 +51,13 @@ export default function WorkoutsScreen() {
       setIsAuthenticated(isAuth);
 
       if (isAuth) {
+        // Show the cached workouts right away, then refresh them
+        const { workouts: cachedWorkouts } = await getCachedWorkoutHistory();
+        if (cachedWorkouts.length > 0) {
+          setWorkouts(cachedWorkouts);
+          setIsLoading(false);
+        }
+
         const { workouts, error } = await getWorkoutHistory();
         if (error) {
           console.error("Error loading workouts:", error);
@@ -67,7 +77,20 @@ export default function WorkoutsScreen() {
   };
 
   const handleCreateWorkout = () => {
-    router.push("/workout-builder/workout-type");
+    Alert.alert("New Workout", "How would you like to create it?", [
+      {
+        text: "Generate for Me",
+        onPress: () => router.push("/workout-builder/workout-type"),
+      },
+      {
+        text: "Build It Myself",
+        onPress: () => router.push("/workout-editor"),
+      },
+      {
+        text: "Cancel",
+        style: "cancel",
+      },
+    ]);
   };
 
   const handleWorkoutPress = (workout: WorkoutHistory) => {
@@ -272,6 +295,12 @@ export default function WorkoutsScreen() {
       />
 
       <View style={styles.header}>
+        <TouchableOpacity
+          style={[styles.createButton, { backgroundColor: colors.primary }]}
+          onPress={() => router.push("/programs")}
+        >
+          <Ionicons name="calendar" size={22} color="white" />
+        </TouchableOpacity>
         <ThemedText type="title" style={styles.headerTitle}>
           Your Workouts
         </ThemedText>
@@ -283,7 +312,31 @@ export default function WorkoutsScreen() {
         </TouchableOpacity>
       </View>
 
-      {workouts.length === 0 ? (
+      <View style={styles.viewToggle}>
+        {(["history", "schedule"] as const).map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.viewToggleButton,
+              view === option && { backgroundColor: colors.primary },
+            ]}
+            onPress={() => setView(option)}
+          >
+            <ThemedText
+              style={[
+                styles.viewToggleText,
+                view === option && { color: "#FFFFFF" },
+              ]}
+            >
+              {option === "history" ? "History" : "Schedule"}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {view === "schedule" ? (
+        <WorkoutSchedule />
+      ) : workouts.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Ionicons
             name="fitness-outline"
@@ -491,6 +544,24 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: "rgba(255, 255, 255, 0.2)",
   },
+  viewToggle: {
+    flexDirection: "row",
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 4,
+    borderRadius: 20,
+    backgroundColor: "rgba(136, 136, 136, 0.15)",
+  },
+  viewToggleButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 16,
+    alignItems: "center",
+  },
+  viewToggleText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: "center",
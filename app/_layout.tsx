@@ -6,9 +6,11 @@ import {
 import { useFonts } from "expo-font";
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
+import { useEffect } from "react";
 import "react-native-reanimated";
 
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { startWorkoutSync } from "@/utils/workoutCache";
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -16,6 +18,9 @@ export default function RootLayout() {
     SpaceMono: require("../assets/fonts/SpaceMono-Regular.ttf"),
   });
 
+  // Send workout changes made offline once the connection is back
+  useEffect(() => startWorkoutSync(), []);
+
   if (!loaded) {
     // Async font loading only occurs in development.
     return null;
@@ -31,7 +36,26 @@ export default function RootLayout() {
         <Stack.Screen name="profile-setup" options={{ headerShown: false }} />
         <Stack.Screen name="workout-builder" options={{ headerShown: false }} />
         <Stack.Screen name="workout-detail" options={{ headerShown: false }} />
+        <Stack.Screen name="workout-editor" options={{ headerShown: false }} />
+        <Stack.Screen
+          name="workout-player"
+          options={{ headerShown: false, gestureEnabled: false }}
+        />
         <Stack.Screen name="friend-profile" options={{ headerShown: false }} />
+        <Stack.Screen name="programs" options={{ headerShown: false }} />
+        <Stack.Screen name="challenges" options={{ headerShown: false }} />
+        <Stack.Screen
+          name="schedule-workout"
+          options={{ headerShown: false }}
+        />
+        <Stack.Screen
+          name="privacy-settings"
+          options={{ headerShown: false }}
+        />
+        <Stack.Screen
+          name="body-measurements"
+          options={{ headerShown: false }}
+        />
       </Stack>
       <StatusBar style="auto" />
     </ThemeProvider>
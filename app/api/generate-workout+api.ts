@@ -0,0 +1,70 @@
+import type { WorkoutParams } from "@/utils/openai";
+import {
+  authenticateRequest,
+  generateWorkoutForUser,
+} from "@/utils/workoutServer";
+import { WorkoutValidationError } from "@/utils/workoutValidation";
+
+const REQUIRED_PARAMS: (keyof WorkoutParams)[] = [
+  "workoutType",
+  "timeAvailable",
+  "mood",
+  "muscleFocus",
+  "equipment",
+];
+
+/**
+ * POST /api/generate-workout
+ * Generates a workout for the caller identified by their Supabase JWT
+ */
+export async function POST(request: Request) {
+  const { user, supabase, error: authError } = await authenticateRequest(
+    request
+  );
+
+  if (authError || !user || !supabase) {
+    return Response.json(
+      { error: authError?.message || "User not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  let body: Partial<WorkoutParams>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const missing = REQUIRED_PARAMS.filter(
+    (key) => typeof body?.[key] !== "string" || !body[key]
+  );
+  if (missing.length > 0) {
+    return Response.json(
+      { error: `Missing workout parameters: ${missing.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const workout = await generateWorkoutForUser(
+      supabase,
+      user.id,
+      body as WorkoutParams
+    );
+    return Response.json(workout);
+  } catch (error) {
+    if (error instanceof WorkoutValidationError) {
+      return Response.json(
+        { error: "Generated workout failed validation", details: error.errors },
+        { status: 502 }
+      );
+    }
+
+    console.error("Error generating workout:", error);
+    return Response.json(
+      { error: "Failed to generate workout plan" },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,482 @@
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Button } from "@/components/Button";
+import { LineChart } from "@/components/LineChart";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { getUserProfile } from "@/utils/auth";
+import {
+  BodyMeasurement,
+  BodyMeasurementInput,
+  deleteBodyMeasurement,
+  formatMeasurement,
+  getBodyMeasurements,
+  getMeasurementTrend,
+  getMeasurementUnit,
+  logBodyMeasurement,
+  MEASUREMENT_METRICS,
+  MeasurementMetric,
+  MOVING_AVERAGE_WINDOW,
+  parseMeasurementInput,
+} from "@/utils/bodyMeasurements";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  parseUnitSystem,
+  roundQuantity,
+  UnitSystem,
+} from "@/utils/units";
+
+// Most recent entries shown on the trend chart
+const CHART_POINTS = 12;
+
+// Date labels shown under the chart, spread evenly across it
+const CHART_LABELS = 6;
+
+function formatShortDate(dateString: string) {
+  const date = new Date(dateString);
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+}
+
+export default function BodyMeasurementsScreen() {
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+  const [unitSystem, setUnitSystem] =
+    useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const [values, setValues] = useState<
+    Partial<Record<MeasurementMetric, string>>
+  >({});
+  const [selectedMetric, setSelectedMetric] =
+    useState<MeasurementMetric>("weight");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [])
+  );
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      const [{ profile }, { measurements: data, error }] = await Promise.all([
+        getUserProfile(),
+        getBodyMeasurements(),
+      ]);
+
+      if (profile) {
+        setUnitSystem(parseUnitSystem(profile.unit_system));
+      }
+
+      if (error) {
+        console.error("Error loading measurements:", error);
+      } else {
+        setMeasurements(data);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const input: BodyMeasurementInput = {};
+    for (const { value: metric, label } of MEASUREMENT_METRICS) {
+      const text = values[metric]?.trim();
+      if (!text) continue;
+
+      const value = parseMeasurementInput(metric, text, unitSystem);
+      if (value === null) {
+        Alert.alert("Invalid Value", `Please enter a valid ${label}`);
+        return;
+      }
+      input[metric] = value;
+    }
+
+    if (MEASUREMENT_METRICS.every(({ value }) => input[value] == null)) {
+      Alert.alert("Nothing to Log", "Enter at least one measurement");
+      return;
+    }
+
+    setIsSaving(true);
+    const { measurement, error } = await logBodyMeasurement(input);
+    setIsSaving(false);
+
+    if (error || !measurement) {
+      console.error("Error logging measurement:", error);
+      Alert.alert("Error", "Failed to save measurement. Please try again.");
+      return;
+    }
+
+    setMeasurements((prev) => [measurement, ...prev]);
+    setValues({});
+  };
+
+  const handleDelete = (measurement: BodyMeasurement) => {
+    Alert.alert(
+      "Delete Entry",
+      `Delete the measurements from ${new Date(
+        measurement.measured_at
+      ).toLocaleDateString()}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            const { error } = await deleteBodyMeasurement(measurement.id);
+            if (error) {
+              Alert.alert("Error", "Failed to delete entry");
+              return;
+            }
+            setMeasurements((prev) =>
+              prev.filter((entry) => entry.id !== measurement.id)
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  const describeMeasurement = (measurement: BodyMeasurement) =>
+    MEASUREMENT_METRICS.filter(({ value }) => measurement[value] != null)
+      .map(
+        ({ value, label }) =>
+          `${label} ${formatMeasurement(
+            value,
+            Number(measurement[value]),
+            unitSystem
+          )}`
+      )
+      .join(" · ");
+
+  const trend = getMeasurementTrend(measurements, selectedMetric, unitSystem);
+  const chartPoints = trend.points.slice(-CHART_POINTS);
+  const chartAverage = trend.movingAverage.slice(-CHART_POINTS);
+  const chartValues = [
+    ...chartPoints.map((point) => point.value),
+    ...chartAverage,
+  ];
+  const labelEvery = Math.ceil(chartPoints.length / CHART_LABELS);
+  const latest = trend.points[trend.points.length - 1];
+  const first = trend.points[0];
+  const change = latest && first ? latest.value - first.value : 0;
+
+  const chipStyle = (isSelected: boolean) => [
+    styles.chip,
+    {
+      backgroundColor: isSelected
+        ? colors.primary
+        : colorScheme === "dark"
+          ? "#3D3D4D"
+          : "#FFFFFF",
+      borderColor: isSelected
+        ? colors.primary
+        : colorScheme === "dark"
+          ? "#4D4D5D"
+          : "#E5E5E5",
+    },
+  ];
+
+  const chipTextStyle = (isSelected: boolean) => [
+    styles.chipText,
+    isSelected && { color: "#FFFFFF" },
+  ];
+
+  const cardStyle = [
+    styles.card,
+    { backgroundColor: colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF" },
+  ];
+
+  return (
+    <ThemedView style={styles.container}>
+      <LinearGradient
+        colors={
+          colorScheme === "dark"
+            ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+            : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+        }
+        style={styles.background}
+      />
+
+      {/* Custom Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle}>Body Measurements</ThemedText>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {/* Trend */}
+          <View style={cardStyle}>
+            <View style={styles.chipRow}>
+              {MEASUREMENT_METRICS.map(({ value, label }) => (
+                <TouchableOpacity
+                  key={value}
+                  style={chipStyle(selectedMetric === value)}
+                  onPress={() => setSelectedMetric(value)}
+                >
+                  <ThemedText style={chipTextStyle(selectedMetric === value)}>
+                    {label}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {isLoading ? (
+              <ThemedText style={styles.hintText}>Loading...</ThemedText>
+            ) : chartPoints.length === 0 ? (
+              <ThemedText style={styles.hintText}>
+                Log a measurement below to start tracking it over time
+              </ThemedText>
+            ) : (
+              <>
+                <View style={styles.summaryRow}>
+                  <ThemedText style={styles.latestValue}>
+                    {latest.value} {trend.unit}
+                  </ThemedText>
+                  {trend.points.length > 1 && (
+                    <ThemedText style={styles.changeText}>
+                      {change > 0 ? "+" : ""}
+                      {roundQuantity(change)} {trend.unit} since{" "}
+                      {formatShortDate(first.measuredAt)}
+                    </ThemedText>
+                  )}
+                </View>
+                <LineChart
+                  data={chartPoints.map((point, index) => ({
+                    label:
+                      index % labelEvery === 0
+                        ? formatShortDate(point.measuredAt)
+                        : "",
+                    value: point.value,
+                  }))}
+                  trend={chartAverage}
+                  minValue={Math.floor(Math.min(...chartValues))}
+                  maxValue={Math.ceil(Math.max(...chartValues))}
+                />
+                <ThemedText style={styles.legendText}>
+                  Dashed line: average of the last {MOVING_AVERAGE_WINDOW}{" "}
+                  entries
+                </ThemedText>
+              </>
+            )}
+          </View>
+
+          {/* Log form */}
+          <ThemedText style={styles.sectionTitle}>Log Measurements</ThemedText>
+          <View style={cardStyle}>
+            {MEASUREMENT_METRICS.map(({ value, label }) => (
+              <View key={value} style={styles.inputRow}>
+                <ThemedText style={styles.inputLabel}>{label}</ThemedText>
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      color: colors.text,
+                      borderColor:
+                        colorScheme === "dark" ? "#4D4D5D" : "#E5E5E5",
+                    },
+                  ]}
+                  placeholder="—"
+                  placeholderTextColor={colors.text + "60"}
+                  keyboardType="decimal-pad"
+                  value={values[value] || ""}
+                  onChangeText={(text) =>
+                    setValues((prev) => ({ ...prev, [value]: text }))
+                  }
+                />
+                <ThemedText style={styles.unitText}>
+                  {getMeasurementUnit(value, unitSystem)}
+                </ThemedText>
+              </View>
+            ))}
+            <Button
+              title="Save"
+              onPress={handleSave}
+              loading={isSaving}
+              style={styles.saveButton}
+            />
+          </View>
+
+          {/* History */}
+          {measurements.length > 0 && (
+            <>
+              <ThemedText style={styles.sectionTitle}>History</ThemedText>
+              {measurements.map((measurement) => (
+                <TouchableOpacity
+                  key={measurement.id}
+                  style={cardStyle}
+                  onLongPress={() => handleDelete(measurement)}
+                >
+                  <ThemedText style={styles.historyDate}>
+                    {new Date(measurement.measured_at).toLocaleDateString()}
+                  </ThemedText>
+                  <ThemedText style={styles.historyValues}>
+                    {describeMeasurement(measurement)}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+              <ThemedText style={styles.legendText}>
+                Long press an entry to delete it
+              </ThemedText>
+            </>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  flex: {
+    flex: 1,
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    flex: 1,
+    textAlign: "center",
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 12,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    borderRadius: 20,
+    borderWidth: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  hintText: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  latestValue: {
+    fontSize: 24,
+    fontWeight: "bold",
+    lineHeight: 30,
+  },
+  changeText: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  legendText: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 8,
+    textAlign: "center",
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  inputLabel: {
+    flex: 1,
+    fontSize: 16,
+  },
+  input: {
+    width: 90,
+    height: 40,
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    textAlign: "right",
+  },
+  unitText: {
+    width: 32,
+    marginLeft: 8,
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+  historyDate: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  historyValues: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+});
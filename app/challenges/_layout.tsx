@@ -0,0 +1,12 @@
+import { Stack } from "expo-router";
+import React from "react";
+
+export default function ChallengesLayout() {
+  return (
+    <Stack>
+      <Stack.Screen name="index" options={{ headerShown: false }} />
+      <Stack.Screen name="create" options={{ headerShown: false }} />
+      <Stack.Screen name="detail" options={{ headerShown: false }} />
+    </Stack>
+  );
+}
@@ -0,0 +1,402 @@
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Button } from "@/components/Button";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  CHALLENGE_DURATION_OPTIONS,
+  CHALLENGE_TEMPLATES,
+  CHALLENGE_WORKOUT_TYPES,
+  ChallengeMetric,
+  ChallengeTemplate,
+  createChallenge,
+  describeChallengeGoal,
+  MAX_CHALLENGE_TITLE_LENGTH,
+} from "@/utils/challenges";
+import { Friendship, getFriends } from "@/utils/friends";
+
+export default function CreateChallengeScreen() {
+  const [title, setTitle] = useState("");
+  const [metric, setMetric] = useState<ChallengeMetric>("workouts");
+  const [workoutType, setWorkoutType] = useState<string | null>(null);
+  const [hasGoal, setHasGoal] = useState(true);
+  const [goal, setGoal] = useState("12");
+  const [durationDays, setDurationDays] = useState(30);
+  const [friends, setFriends] = useState<Friendship[]>([]);
+  const [inviteeIds, setInviteeIds] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  useFocusEffect(
+    useCallback(() => {
+      loadFriends();
+    }, [])
+  );
+
+  const loadFriends = async () => {
+    const { friends: friendsData, error } = await getFriends();
+    if (error) {
+      console.error("Error loading friends:", error);
+    } else {
+      setFriends(friendsData);
+    }
+  };
+
+  const applyTemplate = (template: ChallengeTemplate) => {
+    setTitle(template.title);
+    setMetric(template.metric);
+    setWorkoutType(template.workoutType);
+    setHasGoal(template.goal !== null);
+    if (template.goal !== null) {
+      setGoal(String(template.goal));
+    }
+    setDurationDays(template.durationDays);
+  };
+
+  const toggleInvitee = (friendId: string) => {
+    setInviteeIds((prev) =>
+      prev.includes(friendId)
+        ? prev.filter((id) => id !== friendId)
+        : [...prev, friendId]
+    );
+  };
+
+  const handleCreateChallenge = async () => {
+    const goalValue = hasGoal ? parseInt(goal, 10) : null;
+    if (hasGoal && (!goalValue || goalValue <= 0)) {
+      Alert.alert("Set a Goal", "Please enter a goal greater than zero");
+      return;
+    }
+    if (inviteeIds.length === 0) {
+      Alert.alert("Invite Friends", "Please invite at least one friend");
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const { challengeId, error } = await createChallenge({
+        title:
+          title.trim() ||
+          describeChallengeGoal({
+            metric,
+            workout_type: workoutType,
+            goal: goalValue,
+          }),
+        metric,
+        workoutType,
+        goal: goalValue,
+        durationDays,
+        inviteeIds,
+      });
+
+      if (error || !challengeId) {
+        console.error("Error creating challenge:", error);
+        Alert.alert("Error", "Failed to create challenge. Please try again.");
+        return;
+      }
+
+      router.replace({
+        pathname: "/challenges/detail",
+        params: { challengeId },
+      });
+    } catch (error) {
+      console.error("Error in handleCreateChallenge:", error);
+      Alert.alert("Error", "An unexpected error occurred. Please try again.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const chipStyle = (isSelected: boolean) => [
+    styles.chip,
+    {
+      backgroundColor: isSelected
+        ? colors.primary
+        : colorScheme === "dark"
+          ? "#3D3D4D"
+          : "#FFFFFF",
+      borderColor: isSelected
+        ? colors.primary
+        : colorScheme === "dark"
+          ? "#4D4D5D"
+          : "#E5E5E5",
+    },
+  ];
+
+  const chipTextStyle = (isSelected: boolean) => [
+    styles.chipText,
+    isSelected && { color: "#FFFFFF" },
+  ];
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+      color: colors.text,
+      borderColor: colorScheme === "dark" ? "#4D4D5D" : "#E5E5E5",
+    },
+  ];
+
+  return (
+    <ThemedView style={styles.container}>
+      <LinearGradient
+        colors={
+          colorScheme === "dark"
+            ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+            : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+        }
+        style={styles.background}
+      />
+
+      {/* Custom Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle}>New Challenge</ThemedText>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <ThemedText style={styles.questionText}>Start from an idea</ThemedText>
+        <View style={styles.chipRow}>
+          {CHALLENGE_TEMPLATES.map((template) => (
+            <TouchableOpacity
+              key={template.title}
+              style={chipStyle(title === template.title)}
+              onPress={() => applyTemplate(template)}
+            >
+              <ThemedText style={chipTextStyle(title === template.title)}>
+                {template.title}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ThemedText style={styles.questionText}>Name</ThemedText>
+        <TextInput
+          style={inputStyle}
+          placeholder="e.g. Summer Shred"
+          placeholderTextColor={colors.text + "60"}
+          value={title}
+          onChangeText={setTitle}
+          maxLength={MAX_CHALLENGE_TITLE_LENGTH}
+        />
+
+        <ThemedText style={styles.questionText}>What counts?</ThemedText>
+        <View style={styles.chipRow}>
+          {(["workouts", "minutes"] as const).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={chipStyle(metric === option)}
+              onPress={() => setMetric(option)}
+            >
+              <ThemedText style={chipTextStyle(metric === option)}>
+                {option === "workouts" ? "Completed workouts" : "Minutes"}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ThemedText style={styles.questionText}>Workout type</ThemedText>
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={chipStyle(workoutType === null)}
+            onPress={() => setWorkoutType(null)}
+          >
+            <ThemedText style={chipTextStyle(workoutType === null)}>
+              Any
+            </ThemedText>
+          </TouchableOpacity>
+          {CHALLENGE_WORKOUT_TYPES.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={chipStyle(workoutType === option.value)}
+              onPress={() => setWorkoutType(option.value)}
+            >
+              <ThemedText style={chipTextStyle(workoutType === option.value)}>
+                {option.label}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ThemedText style={styles.questionText}>How do you win?</ThemedText>
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={chipStyle(hasGoal)}
+            onPress={() => setHasGoal(true)}
+          >
+            <ThemedText style={chipTextStyle(hasGoal)}>Reach a goal</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={chipStyle(!hasGoal)}
+            onPress={() => setHasGoal(false)}
+          >
+            <ThemedText style={chipTextStyle(!hasGoal)}>Most wins</ThemedText>
+          </TouchableOpacity>
+        </View>
+        {hasGoal && (
+          <TextInput
+            style={[inputStyle, styles.goalInput]}
+            placeholder={metric === "minutes" ? "Minutes" : "Workouts"}
+            placeholderTextColor={colors.text + "60"}
+            value={goal}
+            onChangeText={(text) => setGoal(text.replace(/[^0-9]/g, ""))}
+            keyboardType="number-pad"
+          />
+        )}
+
+        <ThemedText style={styles.questionText}>How long?</ThemedText>
+        <View style={styles.chipRow}>
+          {CHALLENGE_DURATION_OPTIONS.map((days) => (
+            <TouchableOpacity
+              key={days}
+              style={chipStyle(durationDays === days)}
+              onPress={() => setDurationDays(days)}
+            >
+              <ThemedText style={chipTextStyle(durationDays === days)}>
+                {days} days
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ThemedText style={styles.questionText}>Invite friends</ThemedText>
+        {friends.length === 0 ? (
+          <ThemedText style={styles.hintText}>
+            Add friends from the Friends tab to challenge them
+          </ThemedText>
+        ) : (
+          <View style={styles.chipRow}>
+            {friends.map((friendship) => (
+              <TouchableOpacity
+                key={friendship.friend_id}
+                style={chipStyle(inviteeIds.includes(friendship.friend_id))}
+                onPress={() => toggleInvitee(friendship.friend_id)}
+              >
+                <ThemedText
+                  style={chipTextStyle(
+                    inviteeIds.includes(friendship.friend_id)
+                  )}
+                >
+                  {friendship.friend_profile?.username}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Button
+          title="Create Challenge"
+          onPress={handleCreateChallenge}
+          loading={isCreating}
+          style={styles.nextButton}
+        />
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 120,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    flex: 1,
+    textAlign: "center",
+  },
+  questionText: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 20,
+    borderWidth: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  input: {
+    height: 50,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    borderWidth: 1,
+  },
+  goalInput: {
+    marginTop: 12,
+  },
+  hintText: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  footer: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 20,
+    backgroundColor: "transparent",
+  },
+  nextButton: {
+    width: "100%",
+  },
+});
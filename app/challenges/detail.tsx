@@ -0,0 +1,458 @@
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Button } from "@/components/Button";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  Challenge,
+  ChallengeParticipant,
+  describeChallengeGoal,
+  describeChallengeMetric,
+  finalizeChallenges,
+  getChallenge,
+  getChallengeLeaderboard,
+  getDaysRemaining,
+  joinChallenge,
+  LeaderboardEntry,
+  leaveChallenge,
+} from "@/utils/challenges";
+import { supabase } from "@/utils/supabase";
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+
+export default function ChallengeDetailScreen() {
+  const params = useLocalSearchParams();
+  const challengeId = params.challengeId as string;
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [participants, setParticipants] = useState<ChallengeParticipant[]>(
+    []
+  );
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  // Reload on focus so workouts finished since are counted
+  useFocusEffect(
+    useCallback(() => {
+      loadChallenge();
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [challengeId])
+  );
+
+  const loadChallenge = async () => {
+    if (!challengeId) return;
+
+    setIsLoading(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id ?? null);
+
+      // Store the results first if the challenge has just ended
+      await finalizeChallenges();
+
+      const [challengeResult, leaderboardResult] = await Promise.all([
+        getChallenge(challengeId),
+        getChallengeLeaderboard(challengeId),
+      ]);
+      if (challengeResult.error) {
+        console.error("Error loading challenge:", challengeResult.error);
+      }
+      if (leaderboardResult.error) {
+        console.error("Error loading leaderboard:", leaderboardResult.error);
+      }
+      setChallenge(challengeResult.challenge);
+      setParticipants(challengeResult.participants);
+      setLeaderboard(leaderboardResult.entries);
+    } catch (error) {
+      console.error("Error in loadChallenge:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    setIsUpdating(true);
+    const { error } = await joinChallenge(challengeId);
+    setIsUpdating(false);
+    if (error) {
+      Alert.alert("Error", error);
+      return;
+    }
+    loadChallenge();
+  };
+
+  const handleLeave = (isInvite: boolean) => {
+    Alert.alert(
+      isInvite ? "Decline Challenge" : "Leave Challenge",
+      isInvite
+        ? "Decline this challenge invite?"
+        : "You'll be removed from the leaderboard. You can rejoin while the challenge is running.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: isInvite ? "Decline" : "Leave",
+          style: "destructive",
+          onPress: async () => {
+            setIsUpdating(true);
+            const { error } = await leaveChallenge(challengeId);
+            setIsUpdating(false);
+            if (error) {
+              Alert.alert("Error", error);
+              return;
+            }
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  const myStatus = participants.find(
+    (participant) => participant.user_id === currentUserId
+  )?.status;
+  const pendingInvites = participants.filter(
+    (participant) => participant.status === "invited"
+  );
+  const isFinished = challenge?.status === "completed";
+  const daysLeft = challenge ? getDaysRemaining(challenge) : 0;
+  // Bars fill towards the goal, or towards the leader when the most wins
+  const barTarget =
+    challenge?.goal ||
+    Math.max(1, ...leaderboard.map((entry) => entry.progress));
+
+  const renderEntry = (entry: LeaderboardEntry) => {
+    const isWinner =
+      isFinished &&
+      (challenge?.goal ? entry.reached_goal : entry.rank === 1);
+    return (
+      <View
+        key={entry.user_id}
+        style={[
+          styles.entryRow,
+          {
+            backgroundColor: colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+            borderColor:
+              entry.user_id === currentUserId ? colors.primary : "transparent",
+          },
+        ]}
+      >
+        <ThemedText style={styles.entryRank}>{entry.rank}</ThemedText>
+        <View style={styles.entryText}>
+          <View style={styles.entryHeader}>
+            <ThemedText style={styles.entryName}>
+              {entry.user_id === currentUserId ? "You" : entry.username}
+            </ThemedText>
+            {isWinner && <Ionicons name="trophy" size={16} color="#FFD700" />}
+            {!isFinished && entry.reached_goal && (
+              <Ionicons name="checkmark-circle" size={16} color="#4BB543" />
+            )}
+          </View>
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  backgroundColor: colors.primary,
+                  width: `${Math.min(
+                    100,
+                    Math.round((entry.progress / barTarget) * 100)
+                  )}%`,
+                },
+              ]}
+            />
+          </View>
+        </View>
+        <ThemedText style={styles.entryProgress}>
+          {Math.round(entry.progress)}
+          {challenge?.goal ? `/${challenge.goal}` : ""}
+        </ThemedText>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <LinearGradient
+        colors={
+          colorScheme === "dark"
+            ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+            : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+        }
+        style={styles.background}
+      />
+
+      {/* Custom Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle} numberOfLines={1}>
+          {challenge?.title || "Challenge"}
+        </ThemedText>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {isLoading && !challenge ? (
+        <View style={styles.emptyContainer}>
+          <ThemedText>Loading challenge...</ThemedText>
+        </View>
+      ) : !challenge ? (
+        <View style={styles.emptyContainer}>
+          <ThemedText>Challenge not found</ThemedText>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View
+            style={[
+              styles.summaryCard,
+              {
+                backgroundColor: colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+              },
+            ]}
+          >
+            <ThemedText style={styles.summaryGoal}>
+              {describeChallengeGoal(challenge)}
+            </ThemedText>
+            <ThemedText style={styles.summaryMeta}>
+              {formatDate(challenge.starts_at)} –{" "}
+              {formatDate(challenge.ends_at)}
+            </ThemedText>
+            <ThemedText style={styles.summaryMeta}>
+              {isFinished
+                ? "Finished"
+                : daysLeft === 1
+                  ? "1 day left"
+                  : `${daysLeft} days left`}
+            </ThemedText>
+
+            {!isFinished && myStatus === "invited" && (
+              <View style={styles.actionRow}>
+                <Button
+                  title="Join Challenge"
+                  onPress={handleJoin}
+                  loading={isUpdating}
+                  style={styles.actionButton}
+                />
+                <Button
+                  title="Decline"
+                  variant="outline"
+                  onPress={() => handleLeave(true)}
+                  style={styles.actionButton}
+                />
+              </View>
+            )}
+            {!isFinished && myStatus === "left" && (
+              <Button
+                title="Rejoin Challenge"
+                onPress={handleJoin}
+                loading={isUpdating}
+                style={styles.singleAction}
+              />
+            )}
+          </View>
+
+          <ThemedText style={styles.sectionTitle}>
+            {isFinished ? "Final Results" : "Leaderboard"}
+          </ThemedText>
+          <ThemedText style={styles.sectionSubtitle}>
+            Ranked by {describeChallengeMetric(challenge)}
+          </ThemedText>
+          {leaderboard.length === 0 ? (
+            <ThemedText style={styles.hintText}>
+              No one has joined yet
+            </ThemedText>
+          ) : (
+            leaderboard.map(renderEntry)
+          )}
+
+          {!isFinished && pendingInvites.length > 0 && (
+            <>
+              <ThemedText style={styles.sectionTitle}>Invited</ThemedText>
+              <ThemedText style={styles.hintText}>
+                {pendingInvites
+                  .map((participant) => participant.profile?.username)
+                  .join(", ")}
+              </ThemedText>
+            </>
+          )}
+
+          {!isFinished && myStatus === "joined" && (
+            <TouchableOpacity
+              style={styles.leaveButton}
+              onPress={() => handleLeave(false)}
+              disabled={isUpdating}
+            >
+              <ThemedText style={styles.leaveText}>Leave Challenge</ThemedText>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    flex: 1,
+    textAlign: "center",
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  summaryCard: {
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  summaryGoal: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 6,
+  },
+  summaryMeta: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 4,
+  },
+  actionRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  singleAction: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginBottom: 12,
+  },
+  hintText: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  entryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 12,
+    borderWidth: 2,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  entryRank: {
+    fontSize: 18,
+    fontWeight: "bold",
+    width: 24,
+    textAlign: "center",
+  },
+  entryText: {
+    flex: 1,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  entryName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  entryProgress: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 8,
+    backgroundColor: "rgba(136, 136, 136, 0.2)",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+  leaveButton: {
+    alignItems: "center",
+    paddingVertical: 16,
+    marginTop: 16,
+  },
+  leaveText: {
+    color: "#FF3B30",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
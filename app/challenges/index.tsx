@@ -0,0 +1,293 @@
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import { SectionList, StyleSheet, TouchableOpacity, View } from "react-native";
+
+import { Button } from "@/components/Button";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  describeChallengeGoal,
+  getChallenges,
+  getDaysRemaining,
+  UserChallenge,
+} from "@/utils/challenges";
+
+export default function ChallengesScreen() {
+  const [challenges, setChallenges] = useState<UserChallenge[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  // Reload when returning from a challenge so invites and results stay
+  // current
+  useFocusEffect(
+    useCallback(() => {
+      loadChallenges();
+    }, [])
+  );
+
+  const loadChallenges = async () => {
+    setIsLoading(true);
+    try {
+      const { challenges, error } = await getChallenges();
+      if (error) {
+        console.error("Error loading challenges:", error);
+      } else {
+        setChallenges(challenges);
+      }
+    } catch (error) {
+      console.error("Error in loadChallenges:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateChallenge = () => {
+    router.push("/challenges/create");
+  };
+
+  const sections = [
+    {
+      title: "Invites",
+      data: challenges.filter(
+        (item) => item.status === "active" && item.my_status === "invited"
+      ),
+    },
+    {
+      title: "Active",
+      data: challenges.filter(
+        (item) => item.status === "active" && item.my_status === "joined"
+      ),
+    },
+    {
+      title: "Finished",
+      data: challenges.filter((item) => item.status === "completed"),
+    },
+  ].filter((section) => section.data.length > 0);
+
+  const renderChallenge = ({ item }: { item: UserChallenge }) => {
+    const daysLeft = getDaysRemaining(item);
+    return (
+      <TouchableOpacity
+        style={[
+          styles.challengeCard,
+          {
+            backgroundColor: colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+          },
+        ]}
+        onPress={() =>
+          router.push({
+            pathname: "/challenges/detail",
+            params: { challengeId: item.id },
+          })
+        }
+      >
+        <View style={styles.challengeHeader}>
+          <ThemedText style={styles.challengeTitle}>{item.title}</ThemedText>
+          {item.my_status === "invited" && (
+            <View style={styles.inviteBadge}>
+              <ThemedText style={styles.inviteText}>Invited</ThemedText>
+            </View>
+          )}
+        </View>
+        <ThemedText style={styles.challengeMeta}>
+          {describeChallengeGoal(item)}
+        </ThemedText>
+        <View style={styles.challengeFooter}>
+          <Ionicons name="people-outline" size={16} color={colors.text} />
+          <ThemedText style={styles.challengeFooterText}>
+            {item.participant_count} joined
+          </ThemedText>
+          <Ionicons name="time-outline" size={16} color={colors.text} />
+          <ThemedText style={styles.challengeFooterText}>
+            {item.status === "completed"
+              ? "Finished"
+              : daysLeft === 1
+                ? "1 day left"
+                : `${daysLeft} days left`}
+          </ThemedText>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <LinearGradient
+        colors={
+          colorScheme === "dark"
+            ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+            : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+        }
+        style={styles.background}
+      />
+
+      {/* Custom Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle}>Challenges</ThemedText>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={handleCreateChallenge}
+        >
+          <Ionicons name="add" size={26} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.emptyContainer}>
+          <ThemedText>Loading challenges...</ThemedText>
+        </View>
+      ) : challenges.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons
+            name="trophy-outline"
+            size={64}
+            color={colors.text}
+            style={{ opacity: 0.5 }}
+          />
+          <ThemedText style={styles.emptyText}>No challenges yet</ThemedText>
+          <ThemedText style={styles.emptySubtext}>
+            Challenge your friends to a workout goal and see who comes out on
+            top
+          </ThemedText>
+          <Button
+            title="Start a Challenge"
+            onPress={handleCreateChallenge}
+            style={styles.emptyButton}
+          />
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          renderItem={renderChallenge}
+          renderSectionHeader={({ section }) => (
+            <ThemedText style={styles.sectionTitle}>{section.title}</ThemedText>
+          )}
+          stickySectionHeadersEnabled={false}
+        />
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    flex: 1,
+    textAlign: "center",
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginTop: 24,
+    textAlign: "center",
+  },
+  emptySubtext: {
+    fontSize: 16,
+    textAlign: "center",
+    opacity: 0.7,
+    marginTop: 8,
+    marginBottom: 32,
+  },
+  emptyButton: {
+    width: "80%",
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  challengeCard: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  challengeHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  challengeTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    flex: 1,
+  },
+  challengeMeta: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  inviteBadge: {
+    backgroundColor: "rgba(255, 107, 107, 0.1)",
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+    marginLeft: 8,
+  },
+  inviteText: {
+    fontSize: 12,
+    color: "#FF6B6B",
+    fontWeight: "600",
+  },
+  challengeFooter: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  challengeFooterText: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginRight: 12,
+  },
+});
@@ -13,17 +13,22 @@ import {
 } from "react-native";
 
 import { Button } from "@/components/Button";
+import { ReportUserModal } from "@/components/ReportUserModal";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Colors } from "@/constants/Colors";
+import { PrivacyField } from "@/constants/Privacy";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { useUnitSystem } from "@/hooks/useUnitSystem";
 import { requireAuth } from "@/utils/auth";
 import {
+  blockUser,
   FriendProfile,
   getFriendWorkoutHistory,
   removeFriend,
 } from "@/utils/friends";
 import { supabase } from "@/utils/supabase";
+import { formatQuantity } from "@/utils/units";
 
 export default function FriendProfileScreen() {
   const { friendId } = useLocalSearchParams();
@@ -34,8 +39,10 @@ export default function FriendProfileScreen() {
   const [isLoading, setIsLoading] = useState(true);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [activeTab, setActiveTab] = useState<"profile" | "workouts">("profile");
+  const [showReportModal, setShowReportModal] = useState(false);
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
+  const unitSystem = useUnitSystem();
 
   useFocusEffect(
     useCallback(() => {
@@ -65,9 +72,9 @@ export default function FriendProfileScreen() {
   const loadFriendProfile = async () => {
     try {
       const { data, error } = await supabase
-        .from("profiles")
+        .from("public_profiles")
         .select(
-          "id, username, sex, date_of_birth, weight, weight_unit, height, height_unit, fitness_goals, profile_picture_url"
+          "id, username, sex, date_of_birth, weight, height, fitness_goals, profile_picture_url, hidden_fields"
         )
         .eq("id", friendId)
         .single();
@@ -94,8 +101,12 @@ export default function FriendProfileScreen() {
     }
   };
 
+  // Fields left out by the friend's privacy settings come back empty
+  const getEmptyLabel = (field: PrivacyField) =>
+    friendProfile?.hidden_fields?.includes(field) ? "Private" : "Not set";
+
   const calculateAge = (dateOfBirth: string | undefined) => {
-    if (!dateOfBirth) return "Not set";
+    if (!dateOfBirth) return getEmptyLabel("age");
     const birthDate = new Date(dateOfBirth);
     const today = new Date();
     let age = today.getFullYear() - birthDate.getFullYear();
@@ -132,6 +143,29 @@ export default function FriendProfileScreen() {
     );
   };
 
+  const handleBlockUser = () => {
+    Alert.alert(
+      "Block User",
+      `${friendProfile?.username} will be removed as a friend and won't be able to find you or send you friend requests.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Block",
+          style: "destructive",
+          onPress: async () => {
+            const { success, error } = await blockUser(friendId as string);
+            if (success) {
+              Alert.alert("Blocked", `${friendProfile?.username} is blocked`);
+              router.back();
+            } else {
+              Alert.alert("Error", error || "Failed to block user");
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // Helper function to format dates nicely
   const formatWorkoutDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -502,7 +536,7 @@ export default function FriendProfileScreen() {
                       {friendProfile.sex
                         ? friendProfile.sex.charAt(0).toUpperCase() +
                           friendProfile.sex.slice(1)
-                        : "Not set"}
+                        : getEmptyLabel("body_metrics")}
                     </ThemedText>
                   </View>
 
@@ -519,8 +553,11 @@ export default function FriendProfileScreen() {
                     <ThemedText style={styles.infoLabel}>Height</ThemedText>
                     <ThemedText style={styles.infoValue}>
                       {friendProfile.height
-                        ? `${friendProfile.height} ${friendProfile.height_unit}`
-                        : "Not set"}
+                        ? formatQuantity(
+                            { kind: "height", value: friendProfile.height },
+                            unitSystem
+                          )
+                        : getEmptyLabel("body_metrics")}
                     </ThemedText>
                   </View>
 
@@ -528,8 +565,11 @@ export default function FriendProfileScreen() {
                     <ThemedText style={styles.infoLabel}>Weight</ThemedText>
                     <ThemedText style={styles.infoValue}>
                       {friendProfile.weight
-                        ? `${friendProfile.weight} ${friendProfile.weight_unit}`
-                        : "Not set"}
+                        ? formatQuantity(
+                            { kind: "bodyWeight", value: friendProfile.weight },
+                            unitSystem
+                          )
+                        : getEmptyLabel("body_metrics")}
                     </ThemedText>
                   </View>
                 </View>
@@ -553,6 +593,26 @@ export default function FriendProfileScreen() {
                   style={styles.removeButton}
                   variant="outline"
                 />
+                <View style={styles.safetyActions}>
+                  <TouchableOpacity
+                    style={styles.safetyButton}
+                    onPress={handleBlockUser}
+                  >
+                    <Ionicons name="ban-outline" size={16} color="#FF3B30" />
+                    <ThemedText style={styles.safetyButtonText}>
+                      Block
+                    </ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.safetyButton}
+                    onPress={() => setShowReportModal(true)}
+                  >
+                    <Ionicons name="flag-outline" size={16} color="#FF3B30" />
+                    <ThemedText style={styles.safetyButtonText}>
+                      Report
+                    </ThemedText>
+                  </TouchableOpacity>
+                </View>
               </View>
             </>
           )}
@@ -567,12 +627,27 @@ export default function FriendProfileScreen() {
                     size={64}
                     color={colors.text + "40"}
                   />
-                  <ThemedText style={styles.emptyText}>
-                    No completed workouts
-                  </ThemedText>
-                  <ThemedText style={styles.emptySubtext}>
-                    {friendProfile.username} hasn't completed any workouts yet
-                  </ThemedText>
+                  {friendProfile.hidden_fields?.includes("workout_history") ? (
+                    <>
+                      <ThemedText style={styles.emptyText}>
+                        Workouts are private
+                      </ThemedText>
+                      <ThemedText style={styles.emptySubtext}>
+                        {friendProfile.username} keeps their workout history
+                        to themselves
+                      </ThemedText>
+                    </>
+                  ) : (
+                    <>
+                      <ThemedText style={styles.emptyText}>
+                        No completed workouts
+                      </ThemedText>
+                      <ThemedText style={styles.emptySubtext}>
+                        {friendProfile.username} hasn&apos;t completed any
+                        workouts yet
+                      </ThemedText>
+                    </>
+                  )}
                 </View>
               ) : (
                 <FlatList
@@ -587,6 +662,14 @@ export default function FriendProfileScreen() {
           )}
         </View>
       </ScrollView>
+
+      <ReportUserModal
+        visible={showReportModal}
+        userId={friendProfile.id}
+        username={friendProfile.username}
+        context="profile"
+        onClose={() => setShowReportModal(false)}
+      />
     </ThemedView>
   );
 }
@@ -724,6 +807,24 @@ const styles = StyleSheet.create({
   removeButton: {
     width: "100%",
   },
+  safetyActions: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 24,
+    marginTop: 16,
+    marginBottom: 20,
+  },
+  safetyButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    padding: 8,
+  },
+  safetyButtonText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#FF3B30",
+  },
   section: {
     marginTop: 8,
   },
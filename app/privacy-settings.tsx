@@ -0,0 +1,245 @@
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import {
+  PRIVACY_FIELD_OPTIONS,
+  PrivacyColumn,
+  ProfileVisibility,
+  VISIBILITY_OPTIONS,
+} from "@/constants/Privacy";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { getUserProfile, updateUserProfile, UserProfile } from "@/utils/auth";
+
+// Matches the column defaults for profiles saved before privacy settings
+const DEFAULT_VISIBILITY: ProfileVisibility = "friends";
+
+export default function PrivacySettingsScreen() {
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  useFocusEffect(
+    useCallback(() => {
+      loadProfile();
+    }, [])
+  );
+
+  const loadProfile = async () => {
+    setIsLoading(true);
+    const { profile: profileData, error } = await getUserProfile();
+    if (error) {
+      console.error("Error loading profile:", error);
+    } else {
+      setProfile(profileData);
+    }
+    setIsLoading(false);
+  };
+
+  const handleChangeVisibility = async (
+    column: PrivacyColumn,
+    visibility: ProfileVisibility
+  ) => {
+    if (!profile) return;
+
+    // Show the change straight away and put it back if saving fails
+    const previous = profile;
+    setProfile({ ...profile, [column]: visibility });
+
+    const { error } = await updateUserProfile({ [column]: visibility });
+    if (error) {
+      console.error("Error updating privacy settings:", error);
+      Alert.alert("Error", "Failed to update privacy settings");
+      setProfile(previous);
+    }
+  };
+
+  const chipStyle = (isSelected: boolean) => [
+    styles.chip,
+    {
+      backgroundColor: isSelected
+        ? colors.primary
+        : colorScheme === "dark"
+          ? "#3D3D4D"
+          : "#FFFFFF",
+      borderColor: isSelected
+        ? colors.primary
+        : colorScheme === "dark"
+          ? "#4D4D5D"
+          : "#E5E5E5",
+    },
+  ];
+
+  const chipTextStyle = (isSelected: boolean) => [
+    styles.chipText,
+    isSelected && { color: "#FFFFFF" },
+  ];
+
+  return (
+    <ThemedView style={styles.container}>
+      <LinearGradient
+        colors={
+          colorScheme === "dark"
+            ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+            : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+        }
+        style={styles.background}
+      />
+
+      {/* Custom Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle}>Privacy</ThemedText>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {isLoading ? (
+          <ThemedText style={styles.hintText}>Loading settings...</ThemedText>
+        ) : !profile ? (
+          <ThemedText style={styles.hintText}>
+            Your settings could not be loaded
+          </ThemedText>
+        ) : (
+          <>
+            <ThemedText style={styles.hintText}>
+              Choose who can see each part of your profile. Your username and
+              profile picture are always visible so friends can find you.
+              Injuries and fitness level are only ever visible to you.
+            </ThemedText>
+
+            {PRIVACY_FIELD_OPTIONS.map((field) => {
+              const visibility = profile[field.column] || DEFAULT_VISIBILITY;
+              return (
+                <View
+                  key={field.value}
+                  style={[
+                    styles.fieldCard,
+                    {
+                      backgroundColor:
+                        colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+                    },
+                  ]}
+                >
+                  <ThemedText style={styles.fieldLabel}>
+                    {field.label}
+                  </ThemedText>
+                  <ThemedText style={styles.fieldDescription}>
+                    {field.description}
+                  </ThemedText>
+                  <View style={styles.chipRow}>
+                    {VISIBILITY_OPTIONS.map((option) => (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={chipStyle(visibility === option.value)}
+                        onPress={() =>
+                          handleChangeVisibility(field.column, option.value)
+                        }
+                      >
+                        <ThemedText
+                          style={chipTextStyle(visibility === option.value)}
+                        >
+                          {option.label}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    flex: 1,
+    textAlign: "center",
+  },
+  hintText: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  fieldCard: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  fieldDescription: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 2,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 20,
+    borderWidth: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
@@ -19,9 +19,25 @@ import { Button } from "@/components/Button";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Colors } from "@/constants/Colors";
+import {
+  INJURY_REGION_OPTIONS,
+  INJURY_SEVERITY_OPTIONS,
+  InjurySeverity,
+} from "@/constants/Injuries";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { getUserProfile, updateUserProfile } from "@/utils/auth";
+import type { BodyRegion } from "@/utils/exerciseCatalog";
+import { parseInjuries, ProfileInjury } from "@/utils/injuries";
 import { supabase } from "@/utils/supabase";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  getDisplayUnit,
+  parseDisplayValue,
+  parseUnitSystem,
+  roundQuantity,
+  toInputText,
+  UnitSystem,
+} from "@/utils/units";
 
 // Sex options
 const SEX_OPTIONS = [
@@ -57,13 +73,14 @@ export default function ProfileSetupScreen() {
   const [fitnessLevel, setFitnessLevel] = useState<string>("");
   const [hasInjuries, setHasInjuries] = useState<string>("");
   const [injuries, setInjuries] = useState("");
+  const [injuryDetails, setInjuryDetails] = useState<ProfileInjury[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
   const [isNewUser, setIsNewUser] = useState(true);
 
-  // Unit states
-  const [weightUnit, setWeightUnit] = useState<"kg" | "lb">("kg");
-  const [heightUnit, setHeightUnit] = useState<"cm" | "in">("cm");
+  // Weight and height are typed in this system and saved in kg and cm
+  const [unitSystem, setUnitSystem] =
+    useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
 
   // Modal states
   const [showSexModal, setShowSexModal] = useState(false);
@@ -99,23 +116,28 @@ export default function ProfileSetupScreen() {
           }
           if (profile.sex) setSex(profile.sex);
 
+          const system = parseUnitSystem(profile.unit_system);
+          setUnitSystem(system);
+
           if (profile.weight) {
-            setWeight(profile.weight.toString());
-            if (profile.weight_unit)
-              setWeightUnit(profile.weight_unit as "kg" | "lb");
+            setWeight(
+              toInputText({ kind: "bodyWeight", value: profile.weight }, system)
+            );
           }
 
           if (profile.height) {
-            setHeight(profile.height.toString());
-            if (profile.height_unit)
-              setHeightUnit(profile.height_unit as "cm" | "in");
+            setHeight(
+              toInputText({ kind: "height", value: profile.height }, system)
+            );
           }
 
           if (profile.fitness_level) setFitnessLevel(profile.fitness_level);
 
-          if (profile.injuries) {
+          const details = parseInjuries(profile.injury_details);
+          if (profile.injuries || details.length > 0) {
             setHasInjuries("yes");
-            setInjuries(profile.injuries);
+            setInjuries(profile.injuries || "");
+            setInjuryDetails(details);
           } else {
             setHasInjuries("no");
           }
@@ -143,6 +165,21 @@ export default function ProfileSetupScreen() {
       return;
     }
 
+    if (hasInjuries === "yes" && injuryDetails.length === 0 && !injuries) {
+      Alert.alert(
+        "Missing Information",
+        "Please select the affected areas or describe your injuries"
+      );
+      return;
+    }
+
+    const weightQuantity = parseDisplayValue("bodyWeight", weight, unitSystem);
+    const heightQuantity = parseDisplayValue("height", height, unitSystem);
+    if (!weightQuantity || !heightQuantity) {
+      Alert.alert("Invalid Value", "Please enter a valid weight and height");
+      return;
+    }
+
     setIsLoading(true);
 
     try {
@@ -150,12 +187,12 @@ export default function ProfileSetupScreen() {
       const { error } = await updateUserProfile({
         date_of_birth: dateOfBirth.toISOString().split("T")[0], // Format as YYYY-MM-DD
         sex,
-        weight: parseFloat(weight),
-        weight_unit: weightUnit,
-        height: parseFloat(height),
-        height_unit: heightUnit,
+        weight: roundQuantity(weightQuantity.value, 2),
+        height: roundQuantity(heightQuantity.value),
+        unit_system: unitSystem,
         fitness_level: fitnessLevel,
         injuries: hasInjuries === "yes" ? injuries : "",
+        injury_details: hasInjuries === "yes" ? injuryDetails : [],
         updated_at: new Date().toISOString(),
       });
 
@@ -237,44 +274,47 @@ export default function ProfileSetupScreen() {
     setShowInjuriesModal(false);
   };
 
-  // Helper function to toggle weight unit
-  const toggleWeightUnit = () => {
-    if (weightUnit === "kg") {
-      // Convert kg to lb
-      if (weight) {
-        const weightInLb = (parseFloat(weight) * 2.20462).toFixed(1);
-        setWeight(weightInLb);
-      }
-      setWeightUnit("lb");
-    } else {
-      // Convert lb to kg
-      if (weight) {
-        const weightInKg = (parseFloat(weight) / 2.20462).toFixed(1);
-        setWeight(weightInKg);
-      }
-      setWeightUnit("kg");
-    }
+  // Helper function to add or remove an injured body region
+  const toggleInjuryRegion = (region: BodyRegion) => {
+    setInjuryDetails((previous) =>
+      previous.some((injury) => injury.region === region)
+        ? previous.filter((injury) => injury.region !== region)
+        : [...previous, { region, severity: "moderate" }]
+    );
   };
 
-  // Helper function to toggle height unit
-  const toggleHeightUnit = () => {
-    if (heightUnit === "cm") {
-      // Convert cm to in
-      if (height) {
-        const heightInInches = (parseFloat(height) / 2.54).toFixed(1);
-        setHeight(heightInInches);
-      }
-      setHeightUnit("in");
-    } else {
-      // Convert in to cm
-      if (height) {
-        const heightInCm = (parseFloat(height) * 2.54).toFixed(1);
-        setHeight(heightInCm);
-      }
-      setHeightUnit("cm");
+  // Helper function to set how severe an injury is
+  const selectInjurySeverity = (
+    region: BodyRegion,
+    severity: InjurySeverity
+  ) => {
+    setInjuryDetails((previous) =>
+      previous.map((injury) =>
+        injury.region === region ? { ...injury, severity } : injury
+      )
+    );
+  };
+
+  // Switch between metric and imperial, converting what has been typed
+  const toggleUnitSystem = () => {
+    const nextSystem = unitSystem === "metric" ? "imperial" : "metric";
+
+    const weightQuantity = parseDisplayValue("bodyWeight", weight, unitSystem);
+    if (weightQuantity) {
+      setWeight(toInputText(weightQuantity, nextSystem));
     }
+
+    const heightQuantity = parseDisplayValue("height", height, unitSystem);
+    if (heightQuantity) {
+      setHeight(toInputText(heightQuantity, nextSystem));
+    }
+
+    setUnitSystem(nextSystem);
   };
 
+  const weightUnit = getDisplayUnit("bodyWeight", unitSystem);
+  const heightUnit = getDisplayUnit("height", unitSystem);
+
   // Show loading while checking authentication
   if (isCheckingAuth) {
     return (
@@ -591,10 +631,12 @@ export default function ProfileSetupScreen() {
                 <ThemedText style={styles.label}>Weight</ThemedText>
                 <TouchableOpacity
                   style={styles.unitToggle}
-                  onPress={toggleWeightUnit}
+                  onPress={toggleUnitSystem}
                 >
                   <ThemedText style={styles.unitToggleText}>
-                    {weightUnit === "kg" ? "Switch to lb" : "Switch to kg"}
+                    {unitSystem === "metric"
+                      ? "Switch to lb, in"
+                      : "Switch to kg, cm"}
                   </ThemedText>
                 </TouchableOpacity>
               </View>
@@ -633,17 +675,7 @@ export default function ProfileSetupScreen() {
             </View>
 
             <View style={styles.inputContainer}>
-              <View style={styles.labelRow}>
-                <ThemedText style={styles.label}>Height</ThemedText>
-                <TouchableOpacity
-                  style={styles.unitToggle}
-                  onPress={toggleHeightUnit}
-                >
-                  <ThemedText style={styles.unitToggleText}>
-                    {heightUnit === "cm" ? "Switch to in" : "Switch to cm"}
-                  </ThemedText>
-                </TouchableOpacity>
-              </View>
+              <ThemedText style={styles.label}>Height</ThemedText>
               <View style={styles.inputWithUnit}>
                 <TextInput
                   style={[
@@ -741,7 +773,95 @@ export default function ProfileSetupScreen() {
             {hasInjuries === "yes" && (
               <View style={styles.inputContainer}>
                 <ThemedText style={styles.label}>
-                  Describe your injuries or limitations
+                  Which areas are affected?
+                </ThemedText>
+                <View style={styles.regionGrid}>
+                  {INJURY_REGION_OPTIONS.map((option) => {
+                    const isSelected = injuryDetails.some(
+                      (injury) => injury.region === option.value
+                    );
+                    return (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[
+                          styles.regionChip,
+                          {
+                            borderColor:
+                              colorScheme === "dark" ? "#4D4D5D" : "#E5E5E5",
+                          },
+                          isSelected && {
+                            backgroundColor: colors.primary,
+                            borderColor: colors.primary,
+                          },
+                        ]}
+                        onPress={() => toggleInjuryRegion(option.value)}
+                      >
+                        <ThemedText
+                          style={[
+                            styles.regionChipText,
+                            isSelected && { color: colors.buttonText },
+                          ]}
+                        >
+                          {option.label}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                {injuryDetails.map((injury) => (
+                  <View key={injury.region} style={styles.severityRow}>
+                    <ThemedText style={styles.severityRegion}>
+                      {
+                        INJURY_REGION_OPTIONS.find(
+                          (option) => option.value === injury.region
+                        )?.label
+                      }
+                    </ThemedText>
+                    <View style={styles.severityOptions}>
+                      {INJURY_SEVERITY_OPTIONS.map((option) => (
+                        <TouchableOpacity
+                          key={option.value}
+                          style={[
+                            styles.severityOption,
+                            injury.severity === option.value && {
+                              backgroundColor: colors.primary,
+                            },
+                          ]}
+                          onPress={() =>
+                            selectInjurySeverity(injury.region, option.value)
+                          }
+                        >
+                          <ThemedText
+                            style={[
+                              styles.severityOptionText,
+                              injury.severity === option.value && {
+                                color: colors.buttonText,
+                              },
+                            ]}
+                          >
+                            {option.label}
+                          </ThemedText>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                ))}
+
+                {injuryDetails.length > 0 && (
+                  <ThemedText style={styles.severityHint}>
+                    {INJURY_SEVERITY_OPTIONS.map(
+                      (option) => `${option.label}: ${option.description}`
+                    ).join("\n")}
+                  </ThemedText>
+                )}
+              </View>
+            )}
+
+            {hasInjuries === "yes" && (
+              <View style={styles.inputContainer}>
+                <ThemedText style={styles.label}>
+                  Anything else about your injuries? (optional)
                 </ThemedText>
                 <TextInput
                   style={[
@@ -1063,6 +1183,51 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  regionGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 8,
+  },
+  regionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  regionChipText: {
+    fontSize: 14,
+  },
+  severityRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 12,
+  },
+  severityRegion: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  severityOptions: {
+    flexDirection: "row",
+    backgroundColor: "rgba(136, 136, 136, 0.15)",
+    borderRadius: 8,
+    padding: 2,
+  },
+  severityOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  severityOptionText: {
+    fontSize: 13,
+  },
+  severityHint: {
+    fontSize: 12,
+    lineHeight: 18,
+    opacity: 0.7,
+    marginTop: 12,
+  },
   textArea: {
     height: 100,
     borderRadius: 12,
@@ -0,0 +1,350 @@
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Button } from "@/components/Button";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { EQUIPMENT_OPTIONS } from "@/constants/Equipment";
+import { TIME_OPTIONS } from "@/constants/TimeAvailable";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  PROGRAM_DURATION_OPTIONS,
+  PROGRAM_GOALS,
+  ProgramGoal,
+  SESSIONS_PER_WEEK_OPTIONS,
+} from "@/utils/programPlan";
+import { createProgram } from "@/utils/programs";
+
+export default function CreateProgramScreen() {
+  const [goal, setGoal] = useState<ProgramGoal | null>(null);
+  const [durationWeeks, setDurationWeeks] = useState(8);
+  const [sessionsPerWeek, setSessionsPerWeek] = useState(3);
+  const [timeAvailable, setTimeAvailable] = useState("40-60");
+  const [equipment, setEquipment] = useState<string[]>(["none"]);
+  const [isCreating, setIsCreating] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  const handleEquipmentToggle = (value: string) => {
+    // "No Equipment" can't be combined with anything else
+    if (value === "none") {
+      setEquipment(["none"]);
+      return;
+    }
+    setEquipment((prev) => {
+      const withoutNone = prev.filter((item) => item !== "none");
+      const next = withoutNone.includes(value)
+        ? withoutNone.filter((item) => item !== value)
+        : [...withoutNone, value];
+      return next.length > 0 ? next : ["none"];
+    });
+  };
+
+  const handleCreateProgram = async () => {
+    if (!goal) {
+      Alert.alert("Choose a Goal", "Please select a goal for your program");
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const { program, error } = await createProgram({
+        goal,
+        durationWeeks,
+        sessionsPerWeek,
+        timeAvailable,
+        equipment: equipment.join(","),
+      });
+
+      if (error || !program) {
+        console.error("Error creating program:", error);
+        Alert.alert("Error", "Failed to create program. Please try again.");
+        return;
+      }
+
+      router.replace({
+        pathname: "/programs/detail",
+        params: { programId: program.id },
+      });
+    } catch (error) {
+      console.error("Error in handleCreateProgram:", error);
+      Alert.alert("Error", "An unexpected error occurred. Please try again.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const chipStyle = (isSelected: boolean) => [
+    styles.chip,
+    {
+      backgroundColor: isSelected
+        ? colors.primary
+        : colorScheme === "dark"
+          ? "#3D3D4D"
+          : "#FFFFFF",
+      borderColor: isSelected
+        ? colors.primary
+        : colorScheme === "dark"
+          ? "#4D4D5D"
+          : "#E5E5E5",
+    },
+  ];
+
+  const chipTextStyle = (isSelected: boolean) => [
+    styles.chipText,
+    isSelected && { color: "#FFFFFF" },
+  ];
+
+  return (
+    <ThemedView style={styles.container}>
+      <LinearGradient
+        colors={
+          colorScheme === "dark"
+            ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+            : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+        }
+        style={styles.background}
+      />
+
+      {/* Custom Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle}>New Program</ThemedText>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <ThemedText style={styles.questionText}>
+          What do you want to achieve?
+        </ThemedText>
+        {PROGRAM_GOALS.map((option) => {
+          const isSelected = goal === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.goalCard,
+                {
+                  backgroundColor:
+                    colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+                  borderColor: isSelected
+                    ? colors.primary
+                    : colorScheme === "dark"
+                      ? "#4D4D5D"
+                      : "#E5E5E5",
+                  borderWidth: isSelected ? 2 : 1,
+                },
+              ]}
+              onPress={() => setGoal(option.value)}
+            >
+              <Ionicons
+                name={option.icon as keyof typeof Ionicons.glyphMap}
+                size={24}
+                color={colors.primary}
+              />
+              <View style={styles.goalText}>
+                <ThemedText style={styles.goalLabel}>{option.label}</ThemedText>
+                <ThemedText style={styles.goalDescription}>
+                  {option.description}
+                </ThemedText>
+              </View>
+              {isSelected && (
+                <Ionicons
+                  name="checkmark-circle"
+                  size={20}
+                  color={colors.primary}
+                />
+              )}
+            </TouchableOpacity>
+          );
+        })}
+
+        <ThemedText style={styles.questionText}>How many weeks?</ThemedText>
+        <View style={styles.chipRow}>
+          {PROGRAM_DURATION_OPTIONS.map((weeks) => (
+            <TouchableOpacity
+              key={weeks}
+              style={chipStyle(durationWeeks === weeks)}
+              onPress={() => setDurationWeeks(weeks)}
+            >
+              <ThemedText style={chipTextStyle(durationWeeks === weeks)}>
+                {weeks} weeks
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ThemedText style={styles.questionText}>Sessions per week</ThemedText>
+        <View style={styles.chipRow}>
+          {SESSIONS_PER_WEEK_OPTIONS.map((sessions) => (
+            <TouchableOpacity
+              key={sessions}
+              style={chipStyle(sessionsPerWeek === sessions)}
+              onPress={() => setSessionsPerWeek(sessions)}
+            >
+              <ThemedText style={chipTextStyle(sessionsPerWeek === sessions)}>
+                {sessions}x
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ThemedText style={styles.questionText}>
+          How long is each session?
+        </ThemedText>
+        <View style={styles.chipRow}>
+          {TIME_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={chipStyle(timeAvailable === option.value)}
+              onPress={() => setTimeAvailable(option.value)}
+            >
+              <ThemedText
+                style={chipTextStyle(timeAvailable === option.value)}
+              >
+                {option.label}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ThemedText style={styles.questionText}>
+          What equipment do you have?
+        </ThemedText>
+        <View style={styles.chipRow}>
+          {EQUIPMENT_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={chipStyle(equipment.includes(option.value))}
+              onPress={() => handleEquipmentToggle(option.value)}
+            >
+              <ThemedText
+                style={chipTextStyle(equipment.includes(option.value))}
+              >
+                {option.label}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Button
+          title="Create Program"
+          onPress={handleCreateProgram}
+          loading={isCreating}
+          style={styles.nextButton}
+        />
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 120,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    flex: 1,
+    textAlign: "center",
+  },
+  questionText: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  goalCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    gap: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  goalText: {
+    flex: 1,
+  },
+  goalLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  goalDescription: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 20,
+    borderWidth: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 20,
+    backgroundColor: "transparent",
+  },
+  nextButton: {
+    width: "100%",
+  },
+});
@@ -0,0 +1,462 @@
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Button } from "@/components/Button";
+import { MotivationalCarousel } from "@/components/MotivationalCarousel";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { getProgramGoal } from "@/utils/programPlan";
+import {
+  deleteProgram,
+  getProgramWithSessions,
+  prepareProgramSession,
+  Program,
+  ProgramSession,
+} from "@/utils/programs";
+
+const MUSCLE_FOCUS_LABELS: Record<string, string> = {
+  "full-body": "Full Body",
+  "upper-body": "Upper Body",
+  "lower-body": "Lower Body",
+};
+
+function formatMuscleFocus(value: string) {
+  return (
+    MUSCLE_FOCUS_LABELS[value] || value.charAt(0).toUpperCase() + value.slice(1)
+  );
+}
+
+export default function ProgramDetailScreen() {
+  const params = useLocalSearchParams();
+  const programId = params.programId as string;
+  const [program, setProgram] = useState<Program | null>(null);
+  const [sessions, setSessions] = useState<ProgramSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  // Reload on focus so sessions finished in the player are checked off
+  useFocusEffect(
+    useCallback(() => {
+      loadProgram();
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [programId])
+  );
+
+  const loadProgram = async () => {
+    if (!programId) return;
+
+    setIsLoading(true);
+    try {
+      const { program, sessions, error } =
+        await getProgramWithSessions(programId);
+      if (error) {
+        console.error("Error loading program:", error);
+      }
+      setProgram(program);
+      setSessions(sessions);
+    } catch (error) {
+      console.error("Error in loadProgram:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStartSession = async (session: ProgramSession) => {
+    if (!program) return;
+
+    setIsPreparing(true);
+    try {
+      const { session: preparedSession, error } = await prepareProgramSession(
+        program,
+        sessions,
+        session.id
+      );
+
+      if (error || !preparedSession?.workout_id) {
+        console.error("Error preparing session:", error);
+        Alert.alert(
+          "Error",
+          "Failed to generate this session. Please try again."
+        );
+        return;
+      }
+
+      setSessions((prev) =>
+        prev.map((item) =>
+          item.id === preparedSession.id ? preparedSession : item
+        )
+      );
+
+      router.push({
+        pathname: "/workout-player",
+        params: {
+          workoutId: preparedSession.workout_id,
+          workoutData: JSON.stringify(preparedSession.workout_data),
+          programId: program.id,
+          programSessionId: preparedSession.id,
+        },
+      });
+    } catch (error) {
+      console.error("Error in handleStartSession:", error);
+      Alert.alert("Error", "An unexpected error occurred.");
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleViewSession = (session: ProgramSession) => {
+    if (!session.workout_id || !session.workout_data) return;
+
+    router.push({
+      pathname: "/workout-detail",
+      params: {
+        workoutId: session.workout_id,
+        workoutData: JSON.stringify(session.workout_data),
+      },
+    });
+  };
+
+  const handleDeleteProgram = () => {
+    Alert.alert(
+      "Delete Program",
+      "Are you sure you want to delete this program? Workouts you already did stay in your history.",
+      [
+        {
+          text: "Cancel",
+          style: "cancel",
+        },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            const { error } = await deleteProgram(programId);
+            if (error) {
+              console.error("Error deleting program:", error);
+              Alert.alert(
+                "Error",
+                "Failed to delete program. Please try again."
+              );
+            } else {
+              router.back();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // The next session to do is the first one that isn't completed
+  const currentSession = sessions.find((session) => !session.completed_at);
+  const completedCount = sessions.filter(
+    (session) => session.completed_at
+  ).length;
+
+  const weeks = sessions.reduce<Record<number, ProgramSession[]>>(
+    (acc, session) => {
+      acc[session.week_number] = [
+        ...(acc[session.week_number] || []),
+        session,
+      ];
+      return acc;
+    },
+    {}
+  );
+
+  const background = (
+    <LinearGradient
+      colors={
+        colorScheme === "dark"
+          ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+          : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+      }
+      style={styles.background}
+    />
+  );
+
+  if (isPreparing) {
+    return (
+      <ThemedView style={styles.container}>
+        {background}
+        <View style={styles.generatingContainer}>
+          <View style={styles.headerLoading}>
+            <ThemedText type="title" style={styles.titleLoading}>
+              Preparing Your Next Session ✨
+            </ThemedText>
+          </View>
+          <MotivationalCarousel isVisible={isPreparing} />
+        </View>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      {background}
+
+      {/* Custom Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle} numberOfLines={1}>
+          {program?.name || "Program"}
+        </ThemedText>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={handleDeleteProgram}
+          disabled={!program}
+        >
+          <Ionicons name="trash-outline" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading && !program ? (
+        <View style={styles.emptyContainer}>
+          <ThemedText>Loading program...</ThemedText>
+        </View>
+      ) : !program ? (
+        <View style={styles.emptyContainer}>
+          <ThemedText>Program not found</ThemedText>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View
+            style={[
+              styles.summaryCard,
+              {
+                backgroundColor: colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+              },
+            ]}
+          >
+            <ThemedText style={styles.summaryGoal}>
+              {getProgramGoal(program.goal)?.label}
+            </ThemedText>
+            <ThemedText style={styles.summaryMeta}>
+              {program.duration_weeks} weeks · {program.sessions_per_week}x per
+              week · {program.time_available} min
+            </ThemedText>
+            <ThemedText style={styles.summaryMeta}>
+              {completedCount} of {sessions.length} sessions completed
+            </ThemedText>
+            {currentSession && (
+              <Button
+                title={`Start Week ${currentSession.week_number}, Session ${currentSession.session_number}`}
+                onPress={() => handleStartSession(currentSession)}
+                style={styles.startButton}
+              />
+            )}
+          </View>
+
+          {Object.entries(weeks).map(([weekNumber, weekSessions]) => {
+            const isDeload = weekSessions[0].phase === "deload";
+            return (
+              <View key={weekNumber} style={styles.weekSection}>
+                <View style={styles.weekHeader}>
+                  <ThemedText style={styles.weekTitle}>
+                    Week {weekNumber}
+                  </ThemedText>
+                  {isDeload && (
+                    <View style={styles.deloadBadge}>
+                      <ThemedText style={styles.deloadText}>Deload</ThemedText>
+                    </View>
+                  )}
+                </View>
+                {weekSessions.map((session) => {
+                  const isCurrent = session.id === currentSession?.id;
+                  const isCompleted = !!session.completed_at;
+                  return (
+                    <TouchableOpacity
+                      key={session.id}
+                      style={[
+                        styles.sessionRow,
+                        {
+                          backgroundColor:
+                            colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+                          borderColor: isCurrent
+                            ? colors.primary
+                            : "transparent",
+                        },
+                      ]}
+                      onPress={() => handleViewSession(session)}
+                      disabled={!isCompleted}
+                    >
+                      <Ionicons
+                        name={
+                          isCompleted
+                            ? "checkmark-circle"
+                            : isCurrent
+                              ? "play-circle"
+                              : "ellipse-outline"
+                        }
+                        size={24}
+                        color={
+                          isCompleted
+                            ? "#4BB543"
+                            : isCurrent
+                              ? colors.primary
+                              : colors.icon
+                        }
+                      />
+                      <View style={styles.sessionText}>
+                        <ThemedText style={styles.sessionTitle}>
+                          Session {session.session_number}
+                        </ThemedText>
+                        <ThemedText style={styles.sessionMeta}>
+                          {session.workout_data?.title ||
+                            formatMuscleFocus(session.muscle_focus)}
+                        </ThemedText>
+                      </View>
+                      {isCompleted && (
+                        <Ionicons
+                          name="chevron-forward"
+                          size={20}
+                          color={colors.icon}
+                        />
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    flex: 1,
+    textAlign: "center",
+  },
+  generatingContainer: {
+    flex: 1,
+    paddingTop: 120,
+  },
+  headerLoading: {
+    alignItems: "center",
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  titleLoading: {
+    fontSize: 24,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  summaryCard: {
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  summaryGoal: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 6,
+  },
+  summaryMeta: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 4,
+  },
+  startButton: {
+    marginTop: 16,
+  },
+  weekSection: {
+    marginBottom: 20,
+  },
+  weekHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  weekTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  deloadBadge: {
+    backgroundColor: "rgba(136, 136, 136, 0.2)",
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+    marginLeft: 8,
+  },
+  deloadText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  sessionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 12,
+    borderWidth: 2,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  sessionText: {
+    flex: 1,
+  },
+  sessionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  sessionMeta: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+});
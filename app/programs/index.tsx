@@ -0,0 +1,277 @@
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import { FlatList, StyleSheet, TouchableOpacity, View } from "react-native";
+
+import { Button } from "@/components/Button";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { getProgramGoal } from "@/utils/programPlan";
+import { getPrograms, Program } from "@/utils/programs";
+
+export default function ProgramsScreen() {
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  // Reload when returning from a program so progress stays current
+  useFocusEffect(
+    useCallback(() => {
+      loadPrograms();
+    }, [])
+  );
+
+  const loadPrograms = async () => {
+    setIsLoading(true);
+    try {
+      const { programs, error } = await getPrograms();
+      if (error) {
+        console.error("Error loading programs:", error);
+      } else {
+        setPrograms(programs);
+      }
+    } catch (error) {
+      console.error("Error in loadPrograms:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateProgram = () => {
+    router.push("/programs/create");
+  };
+
+  const getProgress = (program: Program) => {
+    if (program.status === "completed") return 1;
+    const completedSessions =
+      (program.current_week - 1) * program.sessions_per_week +
+      program.current_session -
+      1;
+    return (
+      completedSessions / (program.duration_weeks * program.sessions_per_week)
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <LinearGradient
+        colors={
+          colorScheme === "dark"
+            ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+            : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+        }
+        style={styles.background}
+      />
+
+      {/* Custom Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle}>Programs</ThemedText>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={handleCreateProgram}
+        >
+          <Ionicons name="add" size={26} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.emptyContainer}>
+          <ThemedText>Loading programs...</ThemedText>
+        </View>
+      ) : programs.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons
+            name="calendar-outline"
+            size={64}
+            color={colors.text}
+            style={{ opacity: 0.5 }}
+          />
+          <ThemedText style={styles.emptyText}>No programs yet</ThemedText>
+          <ThemedText style={styles.emptySubtext}>
+            Follow a multi-week plan that gets a little harder every week
+          </ThemedText>
+          <Button
+            title="Start a Program"
+            onPress={handleCreateProgram}
+            style={styles.emptyButton}
+          />
+        </View>
+      ) : (
+        <FlatList
+          data={programs}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          renderItem={({ item }) => {
+            const progress = getProgress(item);
+            return (
+              <TouchableOpacity
+                style={[
+                  styles.programCard,
+                  {
+                    backgroundColor:
+                      colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+                  },
+                ]}
+                onPress={() =>
+                  router.push({
+                    pathname: "/programs/detail",
+                    params: { programId: item.id },
+                  })
+                }
+              >
+                <View style={styles.programHeader}>
+                  <ThemedText style={styles.programName}>
+                    {item.name}
+                  </ThemedText>
+                  {item.status === "completed" && (
+                    <View style={styles.completedBadge}>
+                      <ThemedText style={styles.completedText}>
+                        Completed
+                      </ThemedText>
+                    </View>
+                  )}
+                </View>
+                <ThemedText style={styles.programMeta}>
+                  {getProgramGoal(item.goal)?.label} ·{" "}
+                  {item.sessions_per_week}x per week
+                </ThemedText>
+                {item.status !== "completed" && (
+                  <ThemedText style={styles.programMeta}>
+                    Week {item.current_week} of {item.duration_weeks},
+                    session {item.current_session}
+                  </ThemedText>
+                )}
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      {
+                        backgroundColor: colors.primary,
+                        width: `${Math.round(progress * 100)}%`,
+                      },
+                    ]}
+                  />
+                </View>
+              </TouchableOpacity>
+            );
+          }}
+        />
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    flex: 1,
+    textAlign: "center",
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginTop: 24,
+    textAlign: "center",
+  },
+  emptySubtext: {
+    fontSize: 16,
+    textAlign: "center",
+    opacity: 0.7,
+    marginTop: 8,
+    marginBottom: 32,
+  },
+  emptyButton: {
+    width: "80%",
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  programCard: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  programHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  programName: {
+    fontSize: 18,
+    fontWeight: "bold",
+    flex: 1,
+  },
+  programMeta: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 4,
+  },
+  completedBadge: {
+    backgroundColor: "rgba(75, 181, 67, 0.2)",
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+    marginLeft: 8,
+  },
+  completedText: {
+    fontSize: 12,
+    color: "#4BB543",
+    fontWeight: "600",
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 8,
+    backgroundColor: "rgba(136, 136, 136, 0.2)",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+});
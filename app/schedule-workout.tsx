@@ -0,0 +1,378 @@
+import { Ionicons } from "@expo/vector-icons";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Button } from "@/components/Button";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  REMINDER_OPTIONS,
+  requestNotificationPermission,
+} from "@/utils/notifications";
+import { rescheduleWorkout, scheduleWorkout } from "@/utils/scheduledWorkouts";
+
+// Default to the start of the next hour
+function getDefaultDate() {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+}
+
+export default function ScheduleWorkoutScreen() {
+  const params = useLocalSearchParams();
+  const workoutId = params.workoutId as string;
+  const workoutTitle = params.workoutTitle as string | undefined;
+  // Set when moving an existing schedule instead of creating one
+  const scheduleId = params.scheduleId as string | undefined;
+  const [scheduledFor, setScheduledFor] = useState(() =>
+    params.scheduledFor
+      ? new Date(params.scheduledFor as string)
+      : getDefaultDate()
+  );
+  const [reminderMinutes, setReminderMinutes] = useState<number | null>(() =>
+    params.reminderMinutes === undefined
+      ? 30
+      : params.reminderMinutes === ""
+        ? null
+        : parseInt(params.reminderMinutes as string, 10)
+  );
+  const [pickerMode, setPickerMode] = useState<"date" | "time" | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  const onPickerChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS !== "ios") {
+      setPickerMode(null);
+    }
+    if (selectedDate) {
+      setScheduledFor(selectedDate);
+    }
+  };
+
+  const handleSave = async () => {
+    if (scheduledFor.getTime() <= Date.now()) {
+      Alert.alert("Pick a Later Time", "Workouts can only be scheduled ahead");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (reminderMinutes !== null) {
+        const granted = await requestNotificationPermission();
+        if (!granted) {
+          Alert.alert(
+            "Reminders Disabled",
+            "Your workout will still be scheduled, but we can't remind you without notification permission."
+          );
+        }
+      }
+
+      const { error } = scheduleId
+        ? await rescheduleWorkout(scheduleId, scheduledFor, reminderMinutes)
+        : await scheduleWorkout(workoutId, scheduledFor, reminderMinutes);
+
+      if (error) {
+        console.error("Error scheduling workout:", error);
+        Alert.alert("Error", "Failed to schedule workout. Please try again.");
+        return;
+      }
+
+      router.back();
+    } catch (error) {
+      console.error("Error in handleSave:", error);
+      Alert.alert("Error", "An unexpected error occurred.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const cardStyle = [
+    styles.card,
+    { backgroundColor: colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF" },
+  ];
+
+  const picker = pickerMode && (
+    <DateTimePicker
+      value={scheduledFor}
+      mode={pickerMode}
+      display="spinner"
+      onChange={onPickerChange}
+      minimumDate={new Date()}
+      style={styles.datePicker}
+    />
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <LinearGradient
+        colors={
+          colorScheme === "dark"
+            ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+            : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+        }
+        style={styles.background}
+      />
+
+      {/* Custom Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle}>
+          {scheduleId ? "Reschedule Workout" : "Schedule Workout"}
+        </ThemedText>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {workoutTitle ? (
+          <ThemedText style={styles.workoutTitle}>{workoutTitle}</ThemedText>
+        ) : null}
+
+        <ThemedText style={styles.sectionTitle}>When</ThemedText>
+        <TouchableOpacity
+          style={cardStyle}
+          onPress={() => setPickerMode("date")}
+        >
+          <Ionicons name="calendar-outline" size={22} color={colors.primary} />
+          <ThemedText style={styles.cardText}>
+            {scheduledFor.toLocaleDateString("en-US", {
+              weekday: "long",
+              month: "long",
+              day: "numeric",
+            })}
+          </ThemedText>
+          <Ionicons name="chevron-forward" size={20} color={colors.icon} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={cardStyle}
+          onPress={() => setPickerMode("time")}
+        >
+          <Ionicons name="time-outline" size={22} color={colors.primary} />
+          <ThemedText style={styles.cardText}>
+            {scheduledFor.toLocaleTimeString("en-US", {
+              hour: "numeric",
+              minute: "2-digit",
+            })}
+          </ThemedText>
+          <Ionicons name="chevron-forward" size={20} color={colors.icon} />
+        </TouchableOpacity>
+
+        <ThemedText style={styles.sectionTitle}>Reminder</ThemedText>
+        {REMINDER_OPTIONS.map((option) => {
+          const isSelected = reminderMinutes === option.value;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={cardStyle}
+              onPress={() => setReminderMinutes(option.value)}
+            >
+              <Ionicons
+                name={
+                  option.value === null
+                    ? "notifications-off-outline"
+                    : "notifications-outline"
+                }
+                size={22}
+                color={colors.primary}
+              />
+              <ThemedText style={styles.cardText}>{option.label}</ThemedText>
+              {isSelected && (
+                <Ionicons
+                  name="checkmark-circle"
+                  size={20}
+                  color={colors.primary}
+                />
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Button
+          title={scheduleId ? "Save New Time" : "Schedule Workout"}
+          onPress={handleSave}
+          loading={isSaving}
+          style={styles.saveButton}
+        />
+      </View>
+
+      {pickerMode &&
+        (Platform.OS === "ios" ? (
+          <Modal
+            visible={!!pickerMode}
+            transparent={true}
+            animationType="slide"
+            onRequestClose={() => setPickerMode(null)}
+          >
+            <TouchableOpacity
+              style={styles.modalOverlay}
+              activeOpacity={1}
+              onPress={() => setPickerMode(null)}
+            >
+              <View
+                style={[
+                  styles.modalContent,
+                  {
+                    backgroundColor:
+                      colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+                  },
+                ]}
+              >
+                <View style={styles.datePickerHeader}>
+                  <ThemedText style={styles.modalTitle}>
+                    {pickerMode === "date" ? "Select Date" : "Select Time"}
+                  </ThemedText>
+                  <TouchableOpacity
+                    style={styles.datePickerConfirmButton}
+                    onPress={() => setPickerMode(null)}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.datePickerConfirmText,
+                        { color: colors.primary },
+                      ]}
+                    >
+                      Confirm
+                    </ThemedText>
+                  </TouchableOpacity>
+                </View>
+                {picker}
+              </View>
+            </TouchableOpacity>
+          </Modal>
+        ) : (
+          picker
+        ))}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    flex: 1,
+    textAlign: "center",
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 120,
+  },
+  workoutTitle: {
+    fontSize: 22,
+    fontWeight: "bold",
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    gap: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardText: {
+    flex: 1,
+    fontSize: 16,
+  },
+  footer: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 20,
+    backgroundColor: "transparent",
+  },
+  saveButton: {
+    width: "100%",
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  datePickerHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  datePickerConfirmButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: "rgba(255, 107, 107, 0.1)",
+  },
+  datePickerConfirmText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  datePicker: {
+    width: "100%",
+    height: 200,
+  },
+});
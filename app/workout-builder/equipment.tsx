@@ -8,32 +8,9 @@ import { Button } from "@/components/Button";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Colors } from "@/constants/Colors";
+import { EQUIPMENT_OPTIONS } from "@/constants/Equipment";
 import { useColorScheme } from "@/hooks/useColorScheme";
 
-// Equipment options
-const EQUIPMENT_OPTIONS = [
-  { label: "No Equipment", value: "none", icon: "body-outline" as const },
-  { label: "Dumbbells", value: "dumbbells", icon: "barbell-outline" as const },
-  {
-    label: "Kettlebells",
-    value: "kettlebells",
-    icon: "barbell-outline" as const,
-  },
-  {
-    label: "Resistance Bands",
-    value: "bands",
-    icon: "bandage-outline" as const,
-  },
-  { label: "Full Gym", value: "full-gym", icon: "fitness-outline" as const },
-  { label: "Treadmill", value: "treadmill", icon: "walk-outline" as const },
-  { label: "Yoga Mat", value: "yoga-mat", icon: "body-outline" as const },
-  {
-    label: "Exercise Ball",
-    value: "exercise-ball",
-    icon: "ellipse-outline" as const,
-  },
-];
-
 export default function EquipmentScreen() {
   const params = useLocalSearchParams();
   const workoutType = params.workoutType as string;
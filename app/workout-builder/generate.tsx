@@ -17,7 +17,8 @@ import { ThemedView } from "@/components/ThemedView";
 import { Colors } from "@/constants/Colors";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { requireAuth } from "@/utils/auth";
-import { generateWorkout } from "@/utils/openai";
+import { GenerationMode, generateWorkout } from "@/utils/openai";
+import { WorkoutValidationError } from "@/utils/workoutValidation";
 
 export default function GenerateWorkoutScreen() {
   const params = useLocalSearchParams();
@@ -32,7 +33,7 @@ export default function GenerateWorkoutScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
 
-  const handleGenerateWorkout = async () => {
+  const handleGenerateWorkout = async (mode: GenerationMode = "ai") => {
     // First check if the user is authenticated
     const isAuthenticated = await requireAuth(true);
     if (!isAuthenticated) {
@@ -42,14 +43,17 @@ export default function GenerateWorkoutScreen() {
     setIsGenerating(true);
 
     try {
-      // Call the OpenAI API through our utility function
-      const workoutPlan = await generateWorkout({
-        workoutType,
-        timeAvailable,
-        mood,
-        muscleFocus,
-        equipment,
-      });
+      // Generate through the server, or locally when offline mode is chosen
+      const workoutPlan = await generateWorkout(
+        {
+          workoutType,
+          timeAvailable,
+          mood,
+          muscleFocus,
+          equipment,
+        },
+        { mode }
+      );
 
       // Navigate to the preview screen with the generated workout
       const queryParams = new URLSearchParams({
@@ -58,6 +62,7 @@ export default function GenerateWorkoutScreen() {
         mood,
         muscleFocus,
         equipment,
+        generationMode: mode,
         workoutData: JSON.stringify(workoutPlan),
       }).toString();
 
@@ -66,7 +71,11 @@ export default function GenerateWorkoutScreen() {
       console.error("Error generating workout:", error);
       Alert.alert(
         "Error",
-        "Failed to generate workout. Please try again later.",
+        error instanceof WorkoutValidationError
+          ? `The generated workout was incomplete (${error.errors.join(
+              ", "
+            )}). Please try again.`
+          : "Failed to generate workout. Please try again later.",
         [{ text: "OK" }]
       );
     } finally {
@@ -252,7 +261,13 @@ export default function GenerateWorkoutScreen() {
           <View style={styles.footer}>
             <Button
               title="Let's Build Our Workout"
-              onPress={handleGenerateWorkout}
+              onPress={() => handleGenerateWorkout("ai")}
+              style={styles.generateButton}
+            />
+            <Button
+              title="Quick Offline Workout"
+              onPress={() => handleGenerateWorkout("offline")}
+              variant="outline"
               style={styles.generateButton}
             />
           </View>
@@ -319,7 +334,7 @@ const styles = StyleSheet.create({
   scrollContent: {
     flexGrow: 1,
     paddingHorizontal: 20,
-    paddingBottom: 100,
+    paddingBottom: 160,
   },
   header: {
     flexDirection: "row",
@@ -402,6 +417,7 @@ const styles = StyleSheet.create({
     left: 0,
     right: 0,
     padding: 20,
+    gap: 12,
     backgroundColor: "transparent",
   },
   generateButton: {
@@ -15,10 +15,34 @@ import { ExerciseVisual } from "@/components/ExerciseVisual";
 import { MotivationalCarousel } from "@/components/MotivationalCarousel";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
+import { WorkoutBlockLabel } from "@/components/WorkoutBlockLabel";
 import { Colors } from "@/constants/Colors";
 import { useColorScheme } from "@/hooks/useColorScheme";
-import { saveWorkout } from "@/utils/auth";
-import { generateWorkout, WorkoutResponse } from "@/utils/openai";
+import { getProfileInjuries, saveWorkout } from "@/utils/auth";
+import { ProfileInjury } from "@/utils/injuries";
+import {
+  GenerationMode,
+  generateWorkout,
+  WorkoutResponse,
+} from "@/utils/openai";
+import {
+  addExercise,
+  adjustExercise,
+  ExerciseAdjustment,
+  removeExercise,
+} from "@/utils/workoutAdjustments";
+import { getGroupedBlockStarts } from "@/utils/workoutSchema";
+
+// Per-exercise edits shown under each exercise
+const EXERCISE_ACTIONS: {
+  adjustment: ExerciseAdjustment;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}[] = [
+  { adjustment: "swap", label: "Swap", icon: "swap-horizontal" },
+  { adjustment: "easier", label: "Easier", icon: "arrow-down" },
+  { adjustment: "harder", label: "Harder", icon: "arrow-up" },
+];
 
 export default function WorkoutPreviewScreen() {
   const params = useLocalSearchParams();
@@ -28,10 +52,14 @@ export default function WorkoutPreviewScreen() {
   const muscleFocus = params.muscleFocus as string;
   const equipment = params.equipment as string;
   const workoutDataString = params.workoutData as string;
+  const generationMode = (params.generationMode as GenerationMode) || "ai";
 
   const [workout, setWorkout] = useState<WorkoutResponse | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const [showPersonalization, setShowPersonalization] = useState(false);
+  // Swapped and added exercises have to be safe for these
+  const [injuries, setInjuries] = useState<ProfileInjury[]>([]);
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
 
@@ -47,13 +75,19 @@ export default function WorkoutPreviewScreen() {
     }
   }, [workoutDataString]);
 
+  useEffect(() => {
+    getProfileInjuries().then((result) => setInjuries(result.injuries));
+  }, []);
+
+  const adjustmentContext = { workoutType, muscleFocus, equipment, injuries };
+
   const handleSaveWorkout = async () => {
     if (!workout) return;
 
     setIsSaving(true);
     try {
       // Save the workout to the user's history
-      const { error } = await saveWorkout(
+      const { data, error } = await saveWorkout(
         {
           workoutType,
           timeAvailable,
@@ -74,6 +108,7 @@ export default function WorkoutPreviewScreen() {
       router.replace({
         pathname: "/workout-detail",
         params: {
+          workoutId: data?.id,
           workoutData: JSON.stringify(workout),
         },
       });
@@ -89,14 +124,17 @@ export default function WorkoutPreviewScreen() {
     setIsRegenerating(true);
 
     try {
-      // Generate a new workout with the same parameters
-      const newWorkout = await generateWorkout({
-        workoutType,
-        timeAvailable,
-        mood,
-        muscleFocus,
-        equipment,
-      });
+      // Generate a new workout with the same parameters and a fresh seed
+      const newWorkout = await generateWorkout(
+        {
+          workoutType,
+          timeAvailable,
+          mood,
+          muscleFocus,
+          equipment,
+        },
+        { mode: generationMode, seed: Date.now() }
+      );
 
       // Update the workout state with the new workout
       setWorkout(newWorkout);
@@ -116,6 +154,54 @@ export default function WorkoutPreviewScreen() {
     }
   };
 
+  const handleAdjustExercise = (
+    index: number,
+    adjustment: ExerciseAdjustment
+  ) => {
+    if (!workout) return;
+
+    const updated = adjustExercise(
+      workout,
+      index,
+      adjustment,
+      adjustmentContext
+    );
+    if (!updated) {
+      Alert.alert(
+        "No Alternative Found",
+        adjustment === "swap"
+          ? "There's no other exercise for these muscles with your equipment."
+          : `This exercise can't be made any ${adjustment}.`
+      );
+      return;
+    }
+    setWorkout(updated);
+  };
+
+  const handleRemoveExercise = (index: number) => {
+    if (!workout) return;
+
+    if (workout.exercises.length <= 1) {
+      Alert.alert("Can't Remove", "A workout needs at least one exercise.");
+      return;
+    }
+    setWorkout(removeExercise(workout, index));
+  };
+
+  const handleAddExercise = () => {
+    if (!workout) return;
+
+    const updated = addExercise(workout, adjustmentContext);
+    if (!updated) {
+      Alert.alert(
+        "No Exercise Found",
+        "There are no more exercises for this focus with your equipment."
+      );
+      return;
+    }
+    setWorkout(updated);
+  };
+
   const scrollViewRef = React.useRef<ScrollView>(null);
 
   if (!workout) {
@@ -134,6 +220,8 @@ export default function WorkoutPreviewScreen() {
     );
   }
 
+  const blockStarts = getGroupedBlockStarts(workout);
+
   return (
     <ThemedView style={styles.container}>
       <LinearGradient
@@ -216,6 +304,76 @@ export default function WorkoutPreviewScreen() {
                   {workout.description}
                 </ThemedText>
 
+                {workout.generator === "offline" && (
+                  <View style={styles.offlineNotice}>
+                    <Ionicons
+                      name="cloud-offline-outline"
+                      size={16}
+                      color={colors.text}
+                    />
+                    <ThemedText style={styles.offlineNoticeText}>
+                      {generationMode === "offline"
+                        ? "Built offline from our exercise library"
+                        : "AI coach unavailable, built offline from our exercise library"}
+                    </ThemedText>
+                  </View>
+                )}
+
+                {workout.personalization &&
+                  workout.personalization.length > 0 && (
+                    <View style={styles.personalization}>
+                      <TouchableOpacity
+                        style={styles.personalizationHeader}
+                        onPress={() => setShowPersonalization((prev) => !prev)}
+                      >
+                        <Ionicons
+                          name="sparkles-outline"
+                          size={16}
+                          color={colors.primary}
+                        />
+                        <ThemedText style={styles.personalizationTitle}>
+                          Personalized from your history
+                        </ThemedText>
+                        <Ionicons
+                          name={
+                            showPersonalization ? "chevron-up" : "chevron-down"
+                          }
+                          size={16}
+                          color={colors.text}
+                        />
+                      </TouchableOpacity>
+                      {showPersonalization &&
+                        workout.personalization.map((reason) => (
+                          <ThemedText
+                            key={reason}
+                            style={styles.personalizationText}
+                          >
+                            • {reason}
+                          </ThemedText>
+                        ))}
+                    </View>
+                  )}
+
+                {workout.safetyNotes && workout.safetyNotes.length > 0 && (
+                  <View style={styles.personalization}>
+                    <View style={styles.personalizationHeader}>
+                      <Ionicons
+                        name="shield-checkmark-outline"
+                        size={16}
+                        color={colors.primary}
+                      />
+                      <ThemedText style={styles.personalizationTitle}>
+                        Adjusted for your injuries
+                      </ThemedText>
+                    </View>
+                    {workout.safetyNotes.map((note) => (
+                      <ThemedText key={note} style={styles.personalizationText}>
+                        • {note}
+                      </ThemedText>
+                    ))}
+                  </View>
+                )}
+
                 <View style={styles.quickStats}>
                   <View style={styles.statItem}>
                     <Ionicons name="time" size={20} color={colors.primary} />
@@ -279,6 +437,9 @@ export default function WorkoutPreviewScreen() {
 
                 {workout.exercises.map((exercise, index) => (
                   <View key={index} style={styles.exerciseCard}>
+                    {blockStarts.has(index) && (
+                      <WorkoutBlockLabel block={blockStarts.get(index)!} />
+                    )}
                     <LinearGradient
                       colors={
                         colorScheme === "dark"
@@ -363,6 +524,19 @@ export default function WorkoutPreviewScreen() {
                         )}
                       </View>
 
+                      {exercise.safetyWarning && (
+                        <View style={styles.safetyWarning}>
+                          <Ionicons
+                            name="warning-outline"
+                            size={16}
+                            color={colors.primary}
+                          />
+                          <ThemedText style={styles.safetyWarningText}>
+                            {exercise.safetyWarning}
+                          </ThemedText>
+                        </View>
+                      )}
+
                       <View style={styles.instructionsSection}>
                         <View style={styles.instructionsHeader}>
                           <Ionicons
@@ -384,9 +558,56 @@ export default function WorkoutPreviewScreen() {
                         videoUrl={exercise.videoUrl}
                         exerciseName={exercise.name}
                       />
+
+                      <View style={styles.exerciseActions}>
+                        {EXERCISE_ACTIONS.map((action) => (
+                          <TouchableOpacity
+                            key={action.adjustment}
+                            style={styles.exerciseActionButton}
+                            onPress={() =>
+                              handleAdjustExercise(index, action.adjustment)
+                            }
+                          >
+                            <Ionicons
+                              name={action.icon}
+                              size={16}
+                              color={colors.primary}
+                            />
+                            <ThemedText style={styles.exerciseActionText}>
+                              {action.label}
+                            </ThemedText>
+                          </TouchableOpacity>
+                        ))}
+                        <TouchableOpacity
+                          style={styles.exerciseActionButton}
+                          onPress={() => handleRemoveExercise(index)}
+                        >
+                          <Ionicons
+                            name="trash-outline"
+                            size={16}
+                            color={colors.primary}
+                          />
+                        </TouchableOpacity>
+                      </View>
                     </LinearGradient>
                   </View>
                 ))}
+
+                <TouchableOpacity
+                  style={styles.addExerciseButton}
+                  onPress={handleAddExercise}
+                >
+                  <Ionicons
+                    name="add-circle-outline"
+                    size={20}
+                    color={colors.primary}
+                  />
+                  <ThemedText
+                    style={[styles.addExerciseText, { color: colors.primary }]}
+                  >
+                    Add Exercise
+                  </ThemedText>
+                </TouchableOpacity>
               </LinearGradient>
             </View>
 
@@ -525,6 +746,53 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     opacity: 0.8,
   },
+  offlineNotice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 12,
+    opacity: 0.7,
+  },
+  offlineNoticeText: {
+    fontSize: 13,
+    flex: 1,
+  },
+  personalization: {
+    backgroundColor: "rgba(255, 107, 107, 0.1)",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 6,
+  },
+  personalizationHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  personalizationTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    flex: 1,
+  },
+  personalizationText: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.8,
+  },
+  safetyWarning: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 6,
+    backgroundColor: "rgba(255, 107, 107, 0.1)",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  safetyWarningText: {
+    fontSize: 13,
+    lineHeight: 18,
+    flex: 1,
+  },
   quickStats: {
     flexDirection: "row",
     justifyContent: "space-around",
@@ -635,6 +903,39 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     opacity: 0.8,
   },
+  exerciseActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+  },
+  exerciseActionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "rgba(255, 107, 107, 0.1)",
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  exerciseActionText: {
+    fontSize: 14,
+  },
+  addExerciseButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: "rgba(255, 107, 107, 0.4)",
+  },
+  addExerciseText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
   actionButtonsContainer: {
     gap: 16,
     marginTop: 20,
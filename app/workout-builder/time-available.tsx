@@ -8,18 +8,9 @@ import { Button } from "@/components/Button";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Colors } from "@/constants/Colors";
+import { TIME_OPTIONS } from "@/constants/TimeAvailable";
 import { useColorScheme } from "@/hooks/useColorScheme";
 
-// Time available options
-const TIME_OPTIONS = [
-  { label: "10-15 minutes", value: "10-15" },
-  { label: "15-25 minutes", value: "15-25" },
-  { label: "25-40 minutes", value: "25-40" },
-  { label: "40-60 minutes", value: "40-60" },
-  { label: "60-90 minutes", value: "60-90" },
-  { label: "2 hours", value: "120" },
-];
-
 export default function TimeAvailableScreen() {
   const params = useLocalSearchParams();
   const workoutType = params.workoutType as string;
@@ -1,7 +1,7 @@
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
-import { router, useLocalSearchParams } from "expo-router";
-import React, { useEffect, useState } from "react";
+import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
 import {
   Alert,
   ScrollView,
@@ -12,13 +12,33 @@ import {
 
 import { Button } from "@/components/Button";
 import { ExerciseVisual } from "@/components/ExerciseVisual";
+import { SendWorkoutModal } from "@/components/SendWorkoutModal";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
+import { WorkoutBlockLabel } from "@/components/WorkoutBlockLabel";
 import { WorkoutRating } from "@/components/WorkoutRating";
 import { Colors } from "@/constants/Colors";
 import { useColorScheme } from "@/hooks/useColorScheme";
-import { updateWorkoutRating } from "@/utils/auth";
+import { useUnitSystem } from "@/hooks/useUnitSystem";
+import {
+  getCachedWorkoutHistory,
+  getWorkoutSets,
+  updateWorkoutRating,
+  WorkoutSet,
+} from "@/utils/auth";
+import { getFriendWorkoutSets } from "@/utils/friends";
 import { WorkoutResponse } from "@/utils/openai";
+import {
+  getWorkoutAuthorName,
+  saveSharedWorkout,
+  saveWorkoutCopy,
+  SharedWorkout,
+} from "@/utils/sharedWorkouts";
+import { getGroupedBlockStarts } from "@/utils/workoutSchema";
+import {
+  describeLoggedSet,
+  wereSetsLoggedAgainst,
+} from "@/utils/workoutSession";
 
 export default function WorkoutDetailScreen() {
   const params = useLocalSearchParams();
@@ -28,12 +48,27 @@ export default function WorkoutDetailScreen() {
   const fromFriendProfile = params.fromFriendProfile === "true";
   const friendId = params.friendId as string;
   const friendUsername = params.friendUsername as string;
+  // Set when opened from a workout a friend sent to the user's inbox
+  const sharedWorkout = params.sharedWorkout
+    ? (JSON.parse(params.sharedWorkout as string) as SharedWorkout)
+    : null;
+  const isFriendsWorkout = fromFriendProfile || !!sharedWorkout;
 
   const [workout, setWorkout] = useState<WorkoutResponse | null>(null);
+  // First version of an edited workout, and which version is shown
+  const [originalWorkout, setOriginalWorkout] =
+    useState<WorkoutResponse | null>(null);
+  const [version, setVersion] = useState(1);
+  const [showOriginal, setShowOriginal] = useState(false);
   const [currentRating, setCurrentRating] = useState<number>(initialRating);
   const [isUpdatingRating, setIsUpdatingRating] = useState(false);
+  const [authorName, setAuthorName] = useState<string | null>(null);
+  const [isSavingCopy, setIsSavingCopy] = useState(false);
+  const [showSendModal, setShowSendModal] = useState(false);
+  const [loggedSets, setLoggedSets] = useState<WorkoutSet[]>([]);
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
+  const unitSystem = useUnitSystem();
 
   useEffect(() => {
     if (workoutDataString) {
@@ -51,6 +86,42 @@ export default function WorkoutDetailScreen() {
     }
   }, [workoutDataString, initialRating]);
 
+  // Pick up edits saved in the editor and the original version to compare
+  useFocusEffect(
+    useCallback(() => {
+      if (!workoutId || isFriendsWorkout) return;
+
+      getCachedWorkoutHistory().then(({ workouts }) => {
+        const saved = workouts.find((item) => item.id === workoutId);
+        if (!saved) return;
+        setWorkout(saved.workout_data as WorkoutResponse);
+        setOriginalWorkout(
+          (saved.original_workout_data as WorkoutResponse | null) ?? null
+        );
+        setVersion(saved.version || 1);
+        if (saved.source_author_id) {
+          getWorkoutAuthorName(saved.source_author_id).then(setAuthorName);
+        }
+      });
+    }, [workoutId, isFriendsWorkout])
+  );
+
+  // Sets logged in the player, for the user's own workouts and friends'
+  useEffect(() => {
+    if (!workoutId || (isFriendsWorkout && !fromFriendProfile)) return;
+
+    const request = fromFriendProfile
+      ? getFriendWorkoutSets(friendId, workoutId)
+      : getWorkoutSets(workoutId);
+    request.then(({ sets, error }) => {
+      if (error) {
+        console.error("Error loading logged sets:", error);
+        return;
+      }
+      setLoggedSets(sets);
+    });
+  }, [workoutId, isFriendsWorkout, fromFriendProfile, friendId]);
+
   const handleRatingChange = async (rating: number) => {
     if (!workoutId) {
       Alert.alert("Error", "Cannot rate workout: missing workout ID");
@@ -76,6 +147,36 @@ export default function WorkoutDetailScreen() {
     }
   };
 
+  const handleStartWorkout = () => {
+    router.push({
+      pathname: "/workout-player",
+      params: {
+        workoutId,
+        workoutData: JSON.stringify(workout),
+      },
+    });
+  };
+
+  const handleEditWorkout = () => {
+    router.push({
+      pathname: "/workout-editor",
+      params: {
+        workoutId,
+        workoutData: JSON.stringify(workout),
+      },
+    });
+  };
+
+  const handleScheduleWorkout = () => {
+    router.push({
+      pathname: "/schedule-workout",
+      params: {
+        workoutId,
+        workoutTitle: workout?.title,
+      },
+    });
+  };
+
   const handleGoToWorkouts = () => {
     router.replace("/(tabs)/workouts");
   };
@@ -88,6 +189,42 @@ export default function WorkoutDetailScreen() {
     router.back();
   };
 
+  // Copy a friend's workout, or one sent to the user, into their workouts
+  const handleSaveCopy = async () => {
+    setIsSavingCopy(true);
+    try {
+      const { workout: copy, error } = sharedWorkout
+        ? await saveSharedWorkout(sharedWorkout)
+        : await saveWorkoutCopy(workoutId);
+
+      if (error || !copy) {
+        console.error("Error saving workout copy:", error);
+        Alert.alert("Error", "Failed to save a copy. Please try again.");
+        return;
+      }
+
+      Alert.alert("Saved", "A copy of this workout is in your workouts.", [
+        { text: "OK", style: "cancel" },
+        {
+          text: "View",
+          onPress: () =>
+            router.replace({
+              pathname: "/workout-detail",
+              params: {
+                workoutId: copy.id,
+                workoutData: JSON.stringify(copy.workout_data),
+              },
+            }),
+        },
+      ]);
+    } catch (error) {
+      console.error("Error in handleSaveCopy:", error);
+      Alert.alert("Error", "An unexpected error occurred.");
+    } finally {
+      setIsSavingCopy(false);
+    }
+  };
+
   if (!workout) {
     return (
       <ThemedView style={[styles.container, styles.loadingContainer]}>
@@ -104,6 +241,29 @@ export default function WorkoutDetailScreen() {
     );
   }
 
+  const displayedWorkout =
+    showOriginal && originalWorkout ? originalWorkout : workout;
+  const blockStarts = getGroupedBlockStarts(displayedWorkout);
+
+  // Sets are matched by exercise_index, so only show them on the version
+  // they were logged against: the current one unless they only line up
+  // with the original
+  const loggedSetsWorkout =
+    originalWorkout &&
+    !wereSetsLoggedAgainst(workout, loggedSets) &&
+    wereSetsLoggedAgainst(originalWorkout, loggedSets)
+      ? originalWorkout
+      : workout;
+  const loggedSetsByExercise = new Map<number, WorkoutSet[]>();
+  if (displayedWorkout === loggedSetsWorkout) {
+    loggedSets.forEach((set) => {
+      loggedSetsByExercise.set(set.exercise_index, [
+        ...(loggedSetsByExercise.get(set.exercise_index) || []),
+        set,
+      ]);
+    });
+  }
+
   return (
     <ThemedView style={styles.container}>
       <LinearGradient
@@ -145,7 +305,7 @@ export default function WorkoutDetailScreen() {
           >
             <View style={styles.workoutTitleContainer}>
               <ThemedText style={styles.workoutTitle}>
-                {workout.title}
+                {displayedWorkout.title}
               </ThemedText>
               <View
                 style={[
@@ -157,26 +317,72 @@ export default function WorkoutDetailScreen() {
                 <ThemedText
                   style={[styles.difficultyText, { color: colors.primary }]}
                 >
-                  {workout.difficulty}
+                  {displayedWorkout.difficulty}
                 </ThemedText>
               </View>
             </View>
 
             <ThemedText style={styles.workoutDescription}>
-              {workout.description}
+              {displayedWorkout.description}
             </ThemedText>
 
+            {(authorName || sharedWorkout) && (
+              <View style={styles.attribution}>
+                <Ionicons
+                  name="person-circle-outline"
+                  size={18}
+                  color={colors.text}
+                />
+                <ThemedText style={styles.attributionText}>
+                  {sharedWorkout
+                    ? `Sent by ${sharedWorkout.sender_profile?.username}`
+                    : `Original workout by ${authorName}`}
+                </ThemedText>
+              </View>
+            )}
+            {sharedWorkout?.message && (
+              <ThemedText style={styles.shareMessage}>
+                &ldquo;{sharedWorkout.message}&rdquo;
+              </ThemedText>
+            )}
+
+            {originalWorkout && (
+              <View style={styles.versionToggle}>
+                {[false, true].map((original) => (
+                  <TouchableOpacity
+                    key={String(original)}
+                    style={[
+                      styles.versionOption,
+                      showOriginal === original && {
+                        backgroundColor: colors.primary,
+                      },
+                    ]}
+                    onPress={() => setShowOriginal(original)}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.versionOptionText,
+                        showOriginal === original && { color: "white" },
+                      ]}
+                    >
+                      {original ? "Original" : `Edited (v${version})`}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
             <View style={styles.quickStats}>
               <View style={styles.statItem}>
                 <Ionicons name="time" size={20} color={colors.primary} />
                 <ThemedText style={styles.statText}>
-                  {workout.totalTime}
+                  {displayedWorkout.totalTime}
                 </ThemedText>
               </View>
               <View style={styles.statItem}>
                 <Ionicons name="fitness" size={20} color={colors.secondary} />
                 <ThemedText style={styles.statText}>
-                  {workout.exercises.length} exercises
+                  {displayedWorkout.exercises.length} exercises
                 </ThemedText>
               </View>
             </View>
@@ -184,7 +390,7 @@ export default function WorkoutDetailScreen() {
         </View>
 
         {/* Workout Rating Section */}
-        {workoutId && !fromFriendProfile && (
+        {workoutId && !isFriendsWorkout && (
           <View style={styles.ratingCard}>
             <LinearGradient
               colors={
@@ -214,7 +420,7 @@ export default function WorkoutDetailScreen() {
         )}
 
         {/* Warmup Section */}
-        {workout.warmup && (
+        {displayedWorkout.warmup && (
           <View style={styles.sectionCard}>
             <LinearGradient
               colors={
@@ -229,7 +435,7 @@ export default function WorkoutDetailScreen() {
                 <ThemedText style={styles.sectionTitle}>Warm Up</ThemedText>
               </View>
               <ThemedText style={styles.sectionContent}>
-                {workout.warmup}
+                {displayedWorkout.warmup}
               </ThemedText>
             </LinearGradient>
           </View>
@@ -250,8 +456,11 @@ export default function WorkoutDetailScreen() {
               <ThemedText style={styles.sectionTitle}>Exercises</ThemedText>
             </View>
 
-            {workout.exercises.map((exercise, index) => (
+            {displayedWorkout.exercises.map((exercise, index) => (
               <View key={index} style={styles.exerciseCard}>
+                {blockStarts.has(index) && (
+                  <WorkoutBlockLabel block={blockStarts.get(index)!} />
+                )}
                 <LinearGradient
                   colors={
                     colorScheme === "dark"
@@ -343,6 +552,36 @@ export default function WorkoutDetailScreen() {
                     </ThemedText>
                   </View>
 
+                  {loggedSetsByExercise.has(index) && (
+                    <View style={styles.instructionsSection}>
+                      <View style={styles.instructionsHeader}>
+                        <Ionicons
+                          name="checkmark-circle"
+                          size={16}
+                          color={colors.text}
+                        />
+                        <ThemedText style={styles.instructionsLabel}>
+                          Logged sets:
+                        </ThemedText>
+                      </View>
+                      {loggedSetsByExercise.get(index)!.map((set) => (
+                        <View key={set.id} style={styles.loggedSetRow}>
+                          <ThemedText style={styles.loggedSetNumber}>
+                            Set {set.set_number}
+                          </ThemedText>
+                          <ThemedText
+                            style={[
+                              styles.loggedSetText,
+                              set.skipped && styles.skippedSetText,
+                            ]}
+                          >
+                            {describeLoggedSet(set, unitSystem)}
+                          </ThemedText>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
                   {/* Exercise Visual Component */}
                   <ExerciseVisual
                     videoUrl={exercise.videoUrl}
@@ -355,7 +594,7 @@ export default function WorkoutDetailScreen() {
         </View>
 
         {/* Cooldown Section */}
-        {workout.cooldown && (
+        {displayedWorkout.cooldown && (
           <View style={styles.sectionCard}>
             <LinearGradient
               colors={
@@ -370,7 +609,7 @@ export default function WorkoutDetailScreen() {
                 <ThemedText style={styles.sectionTitle}>Cool Down</ThemedText>
               </View>
               <ThemedText style={styles.sectionContent}>
-                {workout.cooldown}
+                {displayedWorkout.cooldown}
               </ThemedText>
             </LinearGradient>
           </View>
@@ -378,13 +617,30 @@ export default function WorkoutDetailScreen() {
 
         {/* Action Buttons */}
         <View style={styles.actionButtonsContainer}>
-          {fromFriendProfile ? (
+          {isFriendsWorkout ? (
             <>
               <Button
-                title={`Back to ${friendUsername}'s Profile`}
-                onPress={handleGoBackToFriendProfile}
+                title="Save a Copy"
+                onPress={handleSaveCopy}
+                loading={isSavingCopy}
                 style={styles.saveButton}
               />
+              {fromFriendProfile && workoutId && (
+                <Button
+                  title="Send to Friend"
+                  onPress={() => setShowSendModal(true)}
+                  variant="secondary"
+                  style={styles.saveButton}
+                />
+              )}
+              {fromFriendProfile && (
+                <Button
+                  title={`Back to ${friendUsername}'s Profile`}
+                  onPress={handleGoBackToFriendProfile}
+                  variant="outline"
+                  style={styles.saveButton}
+                />
+              )}
               <Button
                 title="Go Home"
                 onPress={handleGoHome}
@@ -394,9 +650,39 @@ export default function WorkoutDetailScreen() {
             </>
           ) : (
             <>
+              <Button
+                title="Start Workout"
+                onPress={handleStartWorkout}
+                style={styles.saveButton}
+              />
+              {workoutId && (
+                <Button
+                  title="Edit Workout"
+                  onPress={handleEditWorkout}
+                  variant="secondary"
+                  style={styles.saveButton}
+                />
+              )}
+              {workoutId && (
+                <Button
+                  title="Schedule for Later"
+                  onPress={handleScheduleWorkout}
+                  variant="secondary"
+                  style={styles.saveButton}
+                />
+              )}
+              {workoutId && (
+                <Button
+                  title="Send to Friend"
+                  onPress={() => setShowSendModal(true)}
+                  variant="secondary"
+                  style={styles.saveButton}
+                />
+              )}
               <Button
                 title="View All Workouts"
                 onPress={handleGoToWorkouts}
+                variant="outline"
                 style={styles.saveButton}
               />
               <Button
@@ -409,6 +695,16 @@ export default function WorkoutDetailScreen() {
           )}
         </View>
       </ScrollView>
+
+      {workoutId && (
+        <SendWorkoutModal
+          visible={showSendModal}
+          workoutId={workoutId}
+          workoutTitle={workout.title}
+          excludeFriendIds={fromFriendProfile ? [friendId] : []}
+          onClose={() => setShowSendModal(false)}
+        />
+      )}
     </ThemedView>
   );
 }
@@ -493,6 +789,38 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     opacity: 0.8,
   },
+  attribution: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 12,
+  },
+  attributionText: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  shareMessage: {
+    fontSize: 15,
+    fontStyle: "italic",
+    marginBottom: 16,
+  },
+  versionToggle: {
+    flexDirection: "row",
+    alignSelf: "flex-start",
+    backgroundColor: "rgba(136, 136, 136, 0.15)",
+    borderRadius: 16,
+    padding: 3,
+    marginBottom: 16,
+  },
+  versionOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 13,
+  },
+  versionOptionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
   quickStats: {
     flexDirection: "row",
     justifyContent: "space-around",
@@ -628,6 +956,24 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     opacity: 0.8,
   },
+  loggedSetRow: {
+    flexDirection: "row",
+    paddingVertical: 4,
+  },
+  loggedSetNumber: {
+    width: 56,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  loggedSetText: {
+    flex: 1,
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  skippedSetText: {
+    opacity: 0.5,
+    fontStyle: "italic",
+  },
   actionButtonsContainer: {
     gap: 16,
     marginTop: 20,
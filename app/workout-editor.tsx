@@ -0,0 +1,657 @@
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  FlatList,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Button } from "@/components/Button";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  getWorkoutSets,
+  saveWorkout,
+  saveWorkoutVersion,
+} from "@/utils/auth";
+import { WorkoutResponse } from "@/utils/openai";
+import {
+  appendCatalogExercise,
+  createEmptyWorkout,
+  deleteExercise,
+  estimateTotalMinutes,
+  finalizeWorkout,
+  inferWorkoutParams,
+  moveExercise,
+  searchCatalog,
+  updateExercise,
+} from "@/utils/workoutEditor";
+
+export default function WorkoutEditorScreen() {
+  const params = useLocalSearchParams();
+  // Set when editing a saved workout, otherwise a new one is created
+  const workoutId = params.workoutId as string | undefined;
+  const workoutDataString = params.workoutData as string | undefined;
+
+  const [draft, setDraft] = useState<WorkoutResponse>(() => {
+    if (workoutDataString) {
+      try {
+        return JSON.parse(workoutDataString) as WorkoutResponse;
+      } catch (error) {
+        console.error("Error parsing workout data:", error);
+      }
+    }
+    return createEmptyWorkout();
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [showCatalog, setShowCatalog] = useState(false);
+  const [catalogQuery, setCatalogQuery] = useState("");
+  // Logged sets point at exercises by position, so once a workout has any
+  // its exercises can't be reordered or removed
+  const [hasLoggedSets, setHasLoggedSets] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+      color: colors.text,
+      borderColor: colorScheme === "dark" ? "#4D4D5D" : "#E5E5E5",
+    },
+  ];
+  const placeholderColor = colorScheme === "dark" ? "#9BA1A6" : "#AAAAAA";
+
+  useEffect(() => {
+    if (!workoutId) return;
+
+    getWorkoutSets(workoutId).then(({ sets, error }) => {
+      if (error) {
+        console.error("Error loading logged sets:", error);
+        return;
+      }
+      setHasLoggedSets(sets.length > 0);
+    });
+  }, [workoutId]);
+
+  const handleSave = async () => {
+    const { workout, errors } = finalizeWorkout(draft);
+    if (!workout) {
+      Alert.alert("Can't Save Workout", errors.join("\n"));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (workoutId) {
+        const { error } = await saveWorkoutVersion(workoutId, workout);
+        if (error) {
+          console.error("Error saving workout version:", error);
+          Alert.alert("Error", "Failed to save changes. Please try again.");
+          return;
+        }
+        router.back();
+        return;
+      }
+
+      const { data, error } = await saveWorkout(
+        inferWorkoutParams(workout),
+        workout
+      );
+      if (error) {
+        console.error("Error saving workout:", error);
+        Alert.alert("Error", "Failed to save workout. Please try again.");
+        return;
+      }
+      router.replace({
+        pathname: "/workout-detail",
+        params: {
+          workoutId: data?.id,
+          workoutData: JSON.stringify(workout),
+        },
+      });
+    } catch (error) {
+      console.error("Error in handleSave:", error);
+      Alert.alert("Error", "An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteExercise = (index: number) => {
+    Alert.alert(
+      "Remove Exercise",
+      `Remove ${draft.exercises[index].name || "this exercise"}?`,
+      [
+        {
+          text: "Cancel",
+          style: "cancel",
+        },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () => setDraft((prev) => deleteExercise(prev, index)),
+        },
+      ]
+    );
+  };
+
+  const cardColor = colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF";
+
+  return (
+    <ThemedView style={styles.container}>
+      <LinearGradient
+        colors={
+          colorScheme === "dark"
+            ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+            : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+        }
+        style={styles.background}
+      />
+
+      {/* Custom Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle}>
+          {workoutId ? "Edit Workout" : "New Workout"}
+        </ThemedText>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <ThemedText style={styles.label}>Title</ThemedText>
+        <TextInput
+          style={inputStyle}
+          placeholder="e.g. Monday Leg Day"
+          placeholderTextColor={placeholderColor}
+          value={draft.title}
+          onChangeText={(title) => setDraft((prev) => ({ ...prev, title }))}
+        />
+
+        <ThemedText style={styles.label}>Description</ThemedText>
+        <TextInput
+          style={[inputStyle, styles.multilineInput]}
+          placeholder="What is this workout about?"
+          placeholderTextColor={placeholderColor}
+          value={draft.description}
+          onChangeText={(description) =>
+            setDraft((prev) => ({ ...prev, description }))
+          }
+          multiline
+        />
+
+        <ThemedText style={styles.label}>Warm Up</ThemedText>
+        <TextInput
+          style={[inputStyle, styles.multilineInput]}
+          placeholder="e.g. 5 minutes of light jogging and arm circles"
+          placeholderTextColor={placeholderColor}
+          value={draft.warmup || ""}
+          onChangeText={(warmup) => setDraft((prev) => ({ ...prev, warmup }))}
+          multiline
+        />
+
+        <View style={styles.exercisesHeader}>
+          <ThemedText style={styles.sectionTitle}>Exercises</ThemedText>
+          <ThemedText style={styles.totalTime}>
+            About {estimateTotalMinutes(draft)} minutes
+          </ThemedText>
+        </View>
+        {hasLoggedSets && (
+          <ThemedText style={styles.lockedNote}>
+            This workout has logged sets, so its exercises can&apos;t be
+            reordered or removed. New exercises are added at the end.
+          </ThemedText>
+        )}
+
+        {draft.exercises.map((exercise, index) => (
+          <View
+            key={index}
+            style={[styles.exerciseCard, { backgroundColor: cardColor }]}
+          >
+            <View style={styles.exerciseHeader}>
+              <ThemedText style={styles.exerciseNumber}>{index + 1}</ThemedText>
+              <TextInput
+                style={[inputStyle, styles.exerciseNameInput]}
+                placeholder="Exercise name"
+                placeholderTextColor={placeholderColor}
+                value={exercise.name}
+                onChangeText={(name) =>
+                  setDraft((prev) =>
+                    updateExercise(prev, index, { name, catalogId: undefined })
+                  )
+                }
+              />
+              {!hasLoggedSets && (
+                <>
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() =>
+                      setDraft((prev) => moveExercise(prev, index, -1))
+                    }
+                    disabled={index === 0}
+                  >
+                    <Ionicons
+                      name="arrow-up"
+                      size={18}
+                      color={index === 0 ? colors.icon : colors.primary}
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() =>
+                      setDraft((prev) => moveExercise(prev, index, 1))
+                    }
+                    disabled={index === draft.exercises.length - 1}
+                  >
+                    <Ionicons
+                      name="arrow-down"
+                      size={18}
+                      color={
+                        index === draft.exercises.length - 1
+                          ? colors.icon
+                          : colors.primary
+                      }
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() => handleDeleteExercise(index)}
+                  >
+                    <Ionicons
+                      name="trash-outline"
+                      size={18}
+                      color={colors.primary}
+                    />
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+
+            <View style={styles.metricsRow}>
+              <View style={styles.metricField}>
+                <ThemedText style={styles.metricLabel}>Sets</ThemedText>
+                <TextInput
+                  style={inputStyle}
+                  placeholder="3"
+                  placeholderTextColor={placeholderColor}
+                  value={exercise.sets ? String(exercise.sets) : ""}
+                  onChangeText={(text) =>
+                    setDraft((prev) =>
+                      updateExercise(prev, index, {
+                        sets: parseInt(text, 10) || undefined,
+                      })
+                    )
+                  }
+                  keyboardType="number-pad"
+                />
+              </View>
+              <View style={styles.metricField}>
+                <ThemedText style={styles.metricLabel}>Reps</ThemedText>
+                <TextInput
+                  style={inputStyle}
+                  placeholder="10-12"
+                  placeholderTextColor={placeholderColor}
+                  value={exercise.reps || ""}
+                  onChangeText={(reps) =>
+                    setDraft((prev) =>
+                      updateExercise(prev, index, { reps: reps || undefined })
+                    )
+                  }
+                />
+              </View>
+            </View>
+            <View style={styles.metricsRow}>
+              <View style={styles.metricField}>
+                <ThemedText style={styles.metricLabel}>Duration</ThemedText>
+                <TextInput
+                  style={inputStyle}
+                  placeholder="30 seconds"
+                  placeholderTextColor={placeholderColor}
+                  value={exercise.duration || ""}
+                  onChangeText={(duration) =>
+                    setDraft((prev) =>
+                      updateExercise(prev, index, {
+                        duration: duration || undefined,
+                      })
+                    )
+                  }
+                />
+              </View>
+              <View style={styles.metricField}>
+                <ThemedText style={styles.metricLabel}>Rest</ThemedText>
+                <TextInput
+                  style={inputStyle}
+                  placeholder="60 seconds"
+                  placeholderTextColor={placeholderColor}
+                  value={exercise.restBetweenSets || ""}
+                  onChangeText={(restBetweenSets) =>
+                    setDraft((prev) =>
+                      updateExercise(prev, index, {
+                        restBetweenSets: restBetweenSets || undefined,
+                      })
+                    )
+                  }
+                />
+              </View>
+            </View>
+
+            <ThemedText style={styles.metricLabel}>Instructions</ThemedText>
+            <TextInput
+              style={[inputStyle, styles.multilineInput]}
+              placeholder="How to perform the exercise"
+              placeholderTextColor={placeholderColor}
+              value={exercise.instructions}
+              onChangeText={(instructions) =>
+                setDraft((prev) =>
+                  updateExercise(prev, index, { instructions })
+                )
+              }
+              multiline
+            />
+          </View>
+        ))}
+
+        <TouchableOpacity
+          style={styles.addExerciseButton}
+          onPress={() => setShowCatalog(true)}
+        >
+          <Ionicons
+            name="add-circle-outline"
+            size={20}
+            color={colors.primary}
+          />
+          <ThemedText
+            style={[styles.addExerciseText, { color: colors.primary }]}
+          >
+            Add from Exercise Library
+          </ThemedText>
+        </TouchableOpacity>
+
+        <ThemedText style={styles.label}>Cool Down</ThemedText>
+        <TextInput
+          style={[inputStyle, styles.multilineInput]}
+          placeholder="e.g. 5 minutes of stretching"
+          placeholderTextColor={placeholderColor}
+          value={draft.cooldown || ""}
+          onChangeText={(cooldown) =>
+            setDraft((prev) => ({ ...prev, cooldown }))
+          }
+          multiline
+        />
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Button
+          title={workoutId ? "Save New Version" : "Save Workout"}
+          onPress={handleSave}
+          loading={isSaving}
+          style={styles.saveButton}
+        />
+      </View>
+
+      <Modal
+        visible={showCatalog}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setShowCatalog(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: cardColor }]}>
+            <View style={styles.modalHeader}>
+              <ThemedText style={styles.modalTitle}>
+                Exercise Library
+              </ThemedText>
+              <TouchableOpacity onPress={() => setShowCatalog(false)}>
+                <Ionicons name="close" size={24} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+            <TextInput
+              style={inputStyle}
+              placeholder="Search exercises"
+              placeholderTextColor={placeholderColor}
+              value={catalogQuery}
+              onChangeText={setCatalogQuery}
+              autoCorrect={false}
+            />
+            <FlatList
+              data={searchCatalog(catalogQuery)}
+              keyExtractor={(item) => item.id}
+              keyboardShouldPersistTaps="handled"
+              style={styles.catalogList}
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={styles.catalogItem}
+                  onPress={() => {
+                    setDraft((prev) => appendCatalogExercise(prev, item));
+                    setShowCatalog(false);
+                    setCatalogQuery("");
+                  }}
+                >
+                  <View style={styles.catalogItemText}>
+                    <ThemedText style={styles.catalogItemName}>
+                      {item.name}
+                    </ThemedText>
+                    <ThemedText style={styles.catalogItemMeta}>
+                      {item.primaryMuscles.join(", ")} · {item.difficulty}
+                    </ThemedText>
+                  </View>
+                  <Ionicons name="add" size={22} color={colors.primary} />
+                </TouchableOpacity>
+              )}
+              ListEmptyComponent={
+                <ThemedText style={styles.emptyText}>
+                  No exercises match your search
+                </ThemedText>
+              }
+            />
+          </View>
+        </View>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    flex: 1,
+    textAlign: "center",
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 120,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    height: 44,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    borderWidth: 1,
+  },
+  multilineInput: {
+    height: 80,
+    paddingTop: 10,
+    textAlignVertical: "top",
+  },
+  exercisesHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  totalTime: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  lockedNote: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginBottom: 12,
+  },
+  exerciseCard: {
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  exerciseHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  exerciseNumber: {
+    fontSize: 16,
+    fontWeight: "bold",
+    width: 20,
+  },
+  exerciseNameInput: {
+    flex: 1,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  metricsRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  metricField: {
+    flex: 1,
+    gap: 4,
+  },
+  metricLabel: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  addExerciseButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: "rgba(255, 107, 107, 0.4)",
+  },
+  addExerciseText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 20,
+    backgroundColor: "transparent",
+  },
+  saveButton: {
+    width: "100%",
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    gap: 12,
+    maxHeight: "80%",
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  catalogList: {
+    flexGrow: 0,
+  },
+  catalogItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "rgba(136, 136, 136, 0.3)",
+  },
+  catalogItemText: {
+    flex: 1,
+  },
+  catalogItemName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  catalogItemMeta: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.7,
+    textAlign: "center",
+    marginTop: 8,
+  },
+});
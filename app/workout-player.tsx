@@ -0,0 +1,631 @@
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Button } from "@/components/Button";
+import { ExerciseVisual } from "@/components/ExerciseVisual";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { useUnitSystem } from "@/hooks/useUnitSystem";
+import { logWorkoutSets, markWorkoutCompleted } from "@/utils/auth";
+import { completeProgramSession } from "@/utils/programs";
+import { completeScheduledWorkout } from "@/utils/scheduledWorkouts";
+import { WorkoutResponse } from "@/utils/openai";
+import { getDisplayUnit } from "@/utils/units";
+import {
+  buildWorkoutSteps,
+  formatCountdown,
+  getSetKey,
+  parseSetEntry,
+  SetEntry,
+} from "@/utils/workoutSession";
+
+export default function WorkoutPlayerScreen() {
+  const params = useLocalSearchParams();
+  const workoutId = params.workoutId as string;
+  const workoutDataString = params.workoutData as string;
+  // Set when the workout is a session of a training program
+  const programId = params.programId as string | undefined;
+  const programSessionId = params.programSessionId as string | undefined;
+
+  const [workout, setWorkout] = useState<WorkoutResponse | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(
+    null
+  );
+  const [isPaused, setIsPaused] = useState(false);
+  const [completedSets, setCompletedSets] = useState<Set<string>>(new Set());
+  // What the user entered for each set, by set key
+  const [setEntries, setSetEntries] = useState<Record<string, SetEntry>>({});
+  const [isFinished, setIsFinished] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const unitSystem = useUnitSystem();
+
+  useEffect(() => {
+    if (workoutDataString) {
+      try {
+        const parsedWorkout = JSON.parse(workoutDataString) as WorkoutResponse;
+        setWorkout(parsedWorkout);
+      } catch (error) {
+        console.error("Error parsing workout data:", error);
+        Alert.alert("Error", "Failed to load workout data");
+      }
+    }
+  }, [workoutDataString]);
+
+  const steps = useMemo(
+    () => (workout ? buildWorkoutSteps(workout) : []),
+    [workout]
+  );
+  const step = steps[stepIndex];
+  const totalSets = steps.filter((item) => item.kind === "exercise").length;
+
+  // Reset the countdown whenever a new step starts
+  useEffect(() => {
+    setRemainingSeconds(step?.durationSeconds ?? null);
+  }, [step]);
+
+  useEffect(() => {
+    if (isPaused || isFinished || remainingSeconds === null) {
+      return;
+    }
+
+    if (remainingSeconds <= 0) {
+      // Rests and timed intervals move on by themselves, everything else
+      // waits for the user
+      if (step?.kind === "rest") {
+        goToStep(stepIndex + 1);
+      } else if (step?.autoAdvance) {
+        handleCompleteSet();
+      }
+      return;
+    }
+
+    const timeout = setTimeout(
+      () => setRemainingSeconds((seconds) => (seconds ?? 1) - 1),
+      1000
+    );
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [remainingSeconds, isPaused, isFinished]);
+
+  const goToStep = (index: number) => {
+    if (index >= steps.length) {
+      setIsFinished(true);
+      return;
+    }
+    setStepIndex(Math.max(0, index));
+  };
+
+  const handleCompleteSet = () => {
+    if (step?.exerciseIndex !== undefined && step.set !== undefined) {
+      const key = getSetKey(step.exerciseIndex, step.set);
+      setCompletedSets((previous) => new Set(previous).add(key));
+
+      // Timed sets record how long the countdown actually ran
+      if (step.durationSeconds !== null && remainingSeconds !== null) {
+        const elapsed = step.durationSeconds - Math.max(0, remainingSeconds);
+        updateSetEntry(key, { durationSeconds: elapsed });
+      }
+    }
+    goToStep(stepIndex + 1);
+  };
+
+  const updateSetEntry = (key: string, changes: SetEntry) => {
+    setSetEntries((previous) => ({
+      ...previous,
+      [key]: { ...previous[key], ...changes },
+    }));
+  };
+
+  const handleExit = () => {
+    Alert.alert("End Workout", "Your progress in this session will be lost.", [
+      { text: "Keep Going", style: "cancel" },
+      {
+        text: "End Workout",
+        style: "destructive",
+        onPress: () => router.back(),
+      },
+    ]);
+  };
+
+  const handleFinishWorkout = async () => {
+    if (!workoutId) {
+      router.back();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Log every prescribed set, marking the ones that weren't checked off
+      const { error: setsError } = await logWorkoutSets(
+        workoutId,
+        steps
+          .filter((item) => item.kind === "exercise")
+          .map((item) => {
+            const key = getSetKey(item.exerciseIndex!, item.set!);
+            const skipped = !completedSets.has(key);
+            return {
+              exercise_index: item.exerciseIndex!,
+              exercise_name: item.title,
+              catalog_id: workout?.exercises[item.exerciseIndex!].catalogId,
+              set_number: item.set!,
+              // Only what the user entered, never the prescription
+              ...parseSetEntry(
+                skipped ? undefined : setEntries[key],
+                unitSystem
+              ),
+              skipped,
+            };
+          })
+      );
+
+      if (setsError) {
+        console.error("Error logging workout sets:", setsError);
+      }
+
+      const { error } = await markWorkoutCompleted(workoutId);
+
+      if (error) {
+        console.error("Error completing workout:", error);
+        Alert.alert("Error", "Failed to save your workout. Please try again.");
+        return;
+      }
+
+      const { error: scheduleError } =
+        await completeScheduledWorkout(workoutId);
+      if (scheduleError) {
+        console.error("Error updating workout schedule:", scheduleError);
+      }
+
+      if (programId && programSessionId) {
+        const { error: programError } =
+          await completeProgramSession(programSessionId);
+        if (programError) {
+          console.error("Error advancing program:", programError);
+        }
+        router.replace({
+          pathname: "/programs/detail",
+          params: { programId },
+        });
+        return;
+      }
+
+      router.replace("/(tabs)/workouts");
+    } catch (error) {
+      console.error("Error in handleFinishWorkout:", error);
+      Alert.alert("Error", "An unexpected error occurred.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const background = (
+    <LinearGradient
+      colors={
+        colorScheme === "dark"
+          ? ["#1C1C1E", "#2C2C2E", "#3C3C3E"]
+          : ["#F8F8F8", "#F2F2F2", "#EEEEEE"]
+      }
+      style={styles.background}
+    />
+  );
+
+  if (!workout || !step) {
+    return (
+      <ThemedView style={[styles.container, styles.loadingContainer]}>
+        {background}
+        <ThemedText>Loading workout...</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  if (isFinished) {
+    return (
+      <ThemedView style={[styles.container, styles.loadingContainer]}>
+        {background}
+        <View style={styles.finishedContent}>
+          <Ionicons name="trophy" size={64} color={colors.primary} />
+          <ThemedText style={styles.finishedTitle}>
+            Workout Complete!
+          </ThemedText>
+          <ThemedText style={styles.finishedText}>
+            You finished {completedSets.size} of {totalSets} sets in{" "}
+            {workout.title}.
+          </ThemedText>
+          <Button
+            title="Finish Workout"
+            onPress={handleFinishWorkout}
+            loading={isSaving}
+            style={styles.fullWidthButton}
+          />
+          <Button
+            title="Back to Last Step"
+            onPress={() => setIsFinished(false)}
+            variant="outline"
+            style={styles.fullWidthButton}
+          />
+        </View>
+      </ThemedView>
+    );
+  }
+
+  const exercise =
+    step.exerciseIndex !== undefined
+      ? workout.exercises[step.exerciseIndex]
+      : null;
+  const setKey =
+    step.kind === "exercise"
+      ? getSetKey(step.exerciseIndex!, step.set!)
+      : null;
+  const isSetCompleted = setKey !== null && completedSets.has(setKey);
+  const setFields: {
+    field: "reps" | "weight" | "rpe";
+    label: string;
+    placeholder: string;
+  }[] = [
+    { field: "reps", label: "Reps", placeholder: step.reps || "—" },
+    {
+      field: "weight",
+      label: `Weight (${getDisplayUnit("load", unitSystem)})`,
+      placeholder: "—",
+    },
+    { field: "rpe", label: "RPE", placeholder: "1-10" },
+  ];
+  const stepIcon =
+    step.kind === "warmup"
+      ? "flame"
+      : step.kind === "cooldown"
+        ? "leaf"
+        : step.kind === "rest"
+          ? "pause-circle"
+          : step.kind === "block"
+            ? "repeat"
+            : "barbell";
+
+  return (
+    <ThemedView style={styles.container}>
+      {background}
+
+      {/* Custom Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleExit}>
+          <Ionicons name="close" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.headerTitle}>
+          Step {stepIndex + 1} of {steps.length}
+        </ThemedText>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.progressTrack}>
+        <View
+          style={[
+            styles.progressFill,
+            {
+              backgroundColor: colors.primary,
+              width: `${(stepIndex / steps.length) * 100}%`,
+            },
+          ]}
+        />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.stepCard}>
+            <LinearGradient
+              colors={
+                colorScheme === "dark"
+                  ? ["rgba(232, 165, 165, 0.2)", "rgba(212, 197, 244, 0.1)"]
+                  : ["rgba(232, 165, 165, 0.3)", "rgba(212, 197, 244, 0.2)"]
+              }
+              style={styles.stepGradient}
+            >
+              <Ionicons name={stepIcon} size={32} color={colors.primary} />
+              <ThemedText style={styles.stepTitle}>{step.title}</ThemedText>
+
+              {step.kind === "exercise" && (
+                <ThemedText style={styles.setLabel}>
+                  {step.label || `Set ${step.set} of ${step.totalSets}`}
+                  {step.reps ? ` · ${step.reps} reps` : ""}
+                </ThemedText>
+              )}
+
+              {step.kind === "block" && step.label && (
+                <ThemedText style={styles.setLabel}>{step.label}</ThemedText>
+              )}
+
+              {remainingSeconds !== null && (
+                <ThemedText style={styles.countdown}>
+                  {formatCountdown(remainingSeconds)}
+                </ThemedText>
+              )}
+
+              <ThemedText style={styles.stepDescription}>
+                {step.description}
+              </ThemedText>
+            </LinearGradient>
+          </View>
+
+          {setKey !== null && (
+            <View
+              style={[
+                styles.logCard,
+                {
+                  backgroundColor:
+                    colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+                },
+              ]}
+            >
+              <ThemedText style={styles.logTitle}>Log this set</ThemedText>
+              <View style={styles.logRow}>
+                {setFields.map(({ field, label, placeholder }) => (
+                  <View key={field} style={styles.logField}>
+                    <ThemedText style={styles.logLabel}>{label}</ThemedText>
+                    <TextInput
+                      style={[
+                        styles.logInput,
+                        {
+                          color: colors.text,
+                          borderColor:
+                            colorScheme === "dark" ? "#4D4D5D" : "#E5E5E5",
+                        },
+                      ]}
+                      placeholder={placeholder}
+                      placeholderTextColor={colors.text + "60"}
+                      keyboardType={
+                        field === "reps" ? "number-pad" : "decimal-pad"
+                      }
+                      value={setEntries[setKey]?.[field] || ""}
+                      onChangeText={(text) =>
+                        updateSetEntry(setKey, { [field]: text })
+                      }
+                    />
+                  </View>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {step.kind === "exercise" && exercise && (
+            <ExerciseVisual
+              videoUrl={exercise.videoUrl}
+              exerciseName={exercise.name}
+            />
+          )}
+        </ScrollView>
+
+        {/* Player Controls */}
+        <View style={styles.controls}>
+          <View style={styles.controlRow}>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => goToStep(stepIndex - 1)}
+              disabled={stepIndex === 0}
+            >
+              <Ionicons
+                name="play-skip-back"
+                size={28}
+                color={stepIndex === 0 ? "#888" : colors.text}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.playButton, { backgroundColor: colors.primary }]}
+              onPress={() => setIsPaused((paused) => !paused)}
+              disabled={remainingSeconds === null}
+            >
+              <Ionicons
+                name={isPaused ? "play" : "pause"}
+                size={32}
+                color={colors.buttonText}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => goToStep(stepIndex + 1)}
+            >
+              <Ionicons
+                name="play-skip-forward"
+                size={28}
+                color={colors.text}
+              />
+            </TouchableOpacity>
+          </View>
+
+          {step.kind === "exercise" ? (
+            <Button
+              title={isSetCompleted ? "Set Completed" : "Complete Set"}
+              onPress={handleCompleteSet}
+              style={styles.fullWidthButton}
+            />
+          ) : (
+            <Button
+              title={step.kind === "rest" ? "Skip Rest" : "Next"}
+              onPress={() => goToStep(stepIndex + 1)}
+              variant={step.kind === "rest" ? "outline" : "primary"}
+              style={styles.fullWidthButton}
+            />
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  flex: {
+    flex: 1,
+  },
+  loadingContainer: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  background: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingTop: 60,
+    paddingHorizontal: 20,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    flex: 1,
+    textAlign: "center",
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    marginHorizontal: 20,
+    marginTop: 16,
+    backgroundColor: "rgba(136, 136, 136, 0.2)",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  stepCard: {
+    borderRadius: 20,
+    overflow: "hidden",
+    marginBottom: 20,
+  },
+  stepGradient: {
+    borderRadius: 20,
+    padding: 30,
+    alignItems: "center",
+    gap: 8,
+  },
+  stepTitle: {
+    fontSize: 26,
+    fontWeight: "bold",
+    lineHeight: 32,
+    textAlign: "center",
+  },
+  setLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    opacity: 0.8,
+  },
+  countdown: {
+    fontSize: 56,
+    fontWeight: "bold",
+    lineHeight: 64,
+    marginVertical: 8,
+  },
+  logCard: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+  },
+  logTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  logRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  logField: {
+    flex: 1,
+  },
+  logLabel: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginBottom: 6,
+  },
+  logInput: {
+    height: 40,
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    textAlign: "center",
+  },
+  stepDescription: {
+    fontSize: 16,
+    lineHeight: 22,
+    opacity: 0.8,
+    textAlign: "center",
+  },
+  controls: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+    gap: 16,
+  },
+  controlRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-evenly",
+  },
+  controlButton: {
+    padding: 12,
+  },
+  playButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  fullWidthButton: {
+    width: "100%",
+  },
+  finishedContent: {
+    alignItems: "center",
+    padding: 30,
+    gap: 16,
+    width: "100%",
+  },
+  finishedTitle: {
+    fontSize: 28,
+    fontWeight: "bold",
+    lineHeight: 34,
+  },
+  finishedText: {
+    fontSize: 16,
+    lineHeight: 22,
+    opacity: 0.8,
+    textAlign: "center",
+  },
+});
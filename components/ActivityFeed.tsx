@@ -0,0 +1,474 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { useUnitSystem } from "@/hooks/useUnitSystem";
+import {
+  ActivityProfile,
+  addComment,
+  applyFeedChange,
+  deleteComment,
+  describeActivity,
+  FeedItem,
+  getActivityFeed,
+  getActivityItem,
+  MAX_COMMENT_LENGTH,
+  REACTION_EMOJIS,
+  ReactionEmoji,
+  subscribeToActivityFeed,
+  toggleReaction,
+} from "@/utils/activityFeed";
+import { supabase } from "@/utils/supabase";
+import { ThemedText } from "./ThemedText";
+
+const ACTIVITY_ICONS: Record<FeedItem["type"], string> = {
+  workout_completed: "checkmark-circle",
+  personal_record: "trophy",
+  streak_milestone: "flame",
+};
+
+const formatTimeAgo = (dateString: string) => {
+  const minutes = Math.floor(
+    (Date.now() - new Date(dateString).getTime()) / 60000
+  );
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+};
+
+export function ActivityFeed() {
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [commentingOn, setCommentingOn] = useState<string | null>(null);
+  const [commentText, setCommentText] = useState("");
+  const [isPostingComment, setIsPostingComment] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const unitSystem = useUnitSystem();
+
+  const loadFeed = useCallback(async () => {
+    setIsLoading(true);
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    setCurrentUserId(user?.id ?? null);
+
+    const { items: feedItems, hasMore: more, error } = await getActivityFeed();
+    if (error) {
+      console.error("Error loading activity feed:", error);
+    } else {
+      setItems(feedItems);
+      setHasMore(more);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadFeed();
+
+    // Keep the feed live while it is on screen
+    const unsubscribe = subscribeToActivityFeed((change) =>
+      setItems((current) => applyFeedChange(current, change))
+    );
+    return unsubscribe;
+  }, [loadFeed]);
+
+  const handleLoadMore = async () => {
+    if (isLoadingMore || items.length === 0) return;
+
+    setIsLoadingMore(true);
+    const {
+      items: olderItems,
+      hasMore: more,
+      error,
+    } = await getActivityFeed(items[items.length - 1]);
+    if (error) {
+      console.error("Error loading more activity:", error);
+    } else {
+      setItems((current) => [
+        ...current,
+        ...olderItems.filter(
+          (item) => !current.some((existing) => existing.id === item.id)
+        ),
+      ]);
+      setHasMore(more);
+    }
+    setIsLoadingMore(false);
+  };
+
+  // Reload one item after the user changed it, without waiting for realtime
+  const refreshItem = async (activityId: string) => {
+    const { item } = await getActivityItem(activityId);
+    if (item) {
+      setItems((current) =>
+        current.map((existing) => (existing.id === item.id ? item : existing))
+      );
+    }
+  };
+
+  const handleReaction = async (activityId: string, emoji: ReactionEmoji) => {
+    const { error } = await toggleReaction(activityId, emoji);
+    if (error) {
+      Alert.alert("Error", error);
+      return;
+    }
+    await refreshItem(activityId);
+  };
+
+  const handlePostComment = async (activityId: string) => {
+    setIsPostingComment(true);
+    const { error } = await addComment(activityId, commentText);
+    setIsPostingComment(false);
+    if (error) {
+      Alert.alert("Error", error);
+      return;
+    }
+    setCommentText("");
+    setCommentingOn(null);
+    await refreshItem(activityId);
+  };
+
+  const handleDeleteComment = (activityId: string, commentId: string) => {
+    Alert.alert("Delete Comment", "Remove this comment?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          const { error } = await deleteComment(commentId);
+          if (error) {
+            Alert.alert("Error", error);
+            return;
+          }
+          await refreshItem(activityId);
+        },
+      },
+    ]);
+  };
+
+  const renderAvatar = (profile: ActivityProfile | undefined, size: number) =>
+    profile?.profile_picture_url ? (
+      <Image
+        source={{ uri: profile.profile_picture_url }}
+        style={[
+          styles.avatar,
+          { width: size, height: size, borderRadius: size / 2 },
+        ]}
+        contentFit="cover"
+      />
+    ) : (
+      <View
+        style={[
+          styles.avatar,
+          { width: size, height: size, borderRadius: size / 2 },
+          { backgroundColor: colorScheme === "dark" ? "#4D4D5D" : "#FFE5E5" },
+        ]}
+      >
+        <ThemedText style={[styles.avatarText, { fontSize: size * 0.4 }]}>
+          {profile?.username?.charAt(0).toUpperCase() || "U"}
+        </ThemedText>
+      </View>
+    );
+
+  const renderItem = (item: FeedItem) => {
+    const isOwnActivity = item.user_id === currentUserId;
+
+    return (
+      <View
+        key={item.id}
+        style={[
+          styles.card,
+          { backgroundColor: colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF" },
+        ]}
+      >
+        <View style={styles.cardHeader}>
+          {renderAvatar(item.profile, 40)}
+          <View style={styles.cardHeaderText}>
+            <ThemedText style={styles.activityText}>
+              <ThemedText style={styles.username}>
+                {isOwnActivity ? "You" : item.profile?.username}
+              </ThemedText>{" "}
+              {describeActivity(item, unitSystem)}
+            </ThemedText>
+            <ThemedText style={styles.timestamp}>
+              {formatTimeAgo(item.created_at)}
+            </ThemedText>
+          </View>
+          <Ionicons
+            name={ACTIVITY_ICONS[item.type] as any}
+            size={22}
+            color={colors.primary}
+          />
+        </View>
+
+        <View style={styles.reactionRow}>
+          {REACTION_EMOJIS.map((emoji) => {
+            const reactions = item.reactions.filter(
+              (reaction) => reaction.emoji === emoji
+            );
+            const reacted = reactions.some(
+              (reaction) => reaction.user_id === currentUserId
+            );
+            return (
+              <TouchableOpacity
+                key={emoji}
+                style={[
+                  styles.reactionPill,
+                  reacted && {
+                    backgroundColor: "rgba(255, 107, 107, 0.1)",
+                    borderColor: colors.primary,
+                  },
+                ]}
+                onPress={() => handleReaction(item.id, emoji)}
+              >
+                <ThemedText style={styles.reactionEmoji}>{emoji}</ThemedText>
+                {reactions.length > 0 && (
+                  <ThemedText style={styles.reactionCount}>
+                    {reactions.length}
+                  </ThemedText>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity
+            style={styles.commentButton}
+            onPress={() => {
+              setCommentText("");
+              setCommentingOn(commentingOn === item.id ? null : item.id);
+            }}
+          >
+            <Ionicons
+              name="chatbubble-outline"
+              size={18}
+              color={colors.text + "80"}
+            />
+          </TouchableOpacity>
+        </View>
+
+        {item.comments.map((comment) => (
+          <TouchableOpacity
+            key={comment.id}
+            style={styles.comment}
+            disabled={comment.user_id !== currentUserId && !isOwnActivity}
+            onLongPress={() => handleDeleteComment(item.id, comment.id)}
+          >
+            {renderAvatar(comment.profile, 24)}
+            <ThemedText style={styles.commentText}>
+              <ThemedText style={styles.username}>
+                {comment.profile?.username}
+              </ThemedText>{" "}
+              {comment.body}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+
+        {commentingOn === item.id && (
+          <View style={styles.commentInputRow}>
+            <TextInput
+              style={[
+                styles.commentInput,
+                { color: colors.text, borderColor: colors.border },
+              ]}
+              placeholder="Add a comment..."
+              placeholderTextColor={colors.text + "60"}
+              value={commentText}
+              onChangeText={setCommentText}
+              maxLength={MAX_COMMENT_LENGTH}
+              autoFocus
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, { backgroundColor: colors.primary }]}
+              onPress={() => handlePostComment(item.id)}
+              disabled={isPostingComment || !commentText.trim()}
+            >
+              <Ionicons name="send" size={16} color="white" />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.emptyContainer}>
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Ionicons name="pulse-outline" size={64} color={colors.text + "40"} />
+        <ThemedText style={styles.emptyText}>No activity yet</ThemedText>
+        <ThemedText style={styles.emptySubtext}>
+          Workouts, personal records and streaks from you and your friends will
+          appear here
+        </ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {items.map(renderItem)}
+      {hasMore && (
+        <TouchableOpacity
+          style={styles.loadMoreButton}
+          onPress={handleLoadMore}
+          disabled={isLoadingMore}
+        >
+          {isLoadingMore ? (
+            <ActivityIndicator color={colors.primary} />
+          ) : (
+            <ThemedText
+              style={[styles.loadMoreText, { color: colors.primary }]}
+            >
+              Load More
+            </ThemedText>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  cardHeaderText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  avatar: {
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 12,
+  },
+  avatarText: {
+    fontWeight: "bold",
+  },
+  activityText: {
+    fontSize: 15,
+  },
+  username: {
+    fontWeight: "600",
+  },
+  timestamp: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  reactionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 12,
+  },
+  reactionPill: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "transparent",
+    backgroundColor: "rgba(136, 136, 136, 0.15)",
+  },
+  reactionEmoji: {
+    fontSize: 14,
+  },
+  reactionCount: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginLeft: 4,
+  },
+  commentButton: {
+    marginLeft: "auto",
+    padding: 4,
+  },
+  comment: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginTop: 10,
+  },
+  commentText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  commentInputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+    gap: 8,
+  },
+  commentInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  sendButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  loadMoreButton: {
+    alignItems: "center",
+    paddingVertical: 16,
+    marginBottom: 20,
+  },
+  loadMoreText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: "500",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    opacity: 0.7,
+    textAlign: "center",
+    paddingHorizontal: 40,
+  },
+});
@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { LayoutChangeEvent, StyleSheet, View } from "react-native";
+import Svg, { Line, Rect, Text as SvgText } from "react-native-svg";
+
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+
+export interface BarChartDatum {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  color?: string;
+  height?: number;
+}
+
+const LABEL_HEIGHT = 20;
+const VALUE_HEIGHT = 16;
+
+export function BarChart({ data, color, height = 160 }: BarChartProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const barColor = color || colors.primary;
+  const maxValue = Math.max(1, ...data.map((datum) => datum.value));
+  const plotHeight = height - LABEL_HEIGHT - VALUE_HEIGHT;
+  const slotWidth = data.length > 0 ? width / data.length : 0;
+  const barWidth = Math.min(32, slotWidth * 0.6);
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          <Line
+            x1={0}
+            y1={VALUE_HEIGHT + plotHeight}
+            x2={width}
+            y2={VALUE_HEIGHT + plotHeight}
+            stroke={colors.border}
+            strokeWidth={1}
+          />
+          {data.map((datum, index) => {
+            const barHeight = (datum.value / maxValue) * plotHeight;
+            const x = index * slotWidth + (slotWidth - barWidth) / 2;
+            const y = VALUE_HEIGHT + plotHeight - barHeight;
+
+            return (
+              <React.Fragment key={`${datum.label}-${index}`}>
+                <Rect
+                  x={x}
+                  y={y}
+                  width={barWidth}
+                  height={barHeight}
+                  rx={4}
+                  fill={barColor}
+                />
+                {datum.value > 0 && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={y - 4}
+                    fontSize={11}
+                    fill={colors.text}
+                    textAnchor="middle"
+                  >
+                    {datum.value}
+                  </SvgText>
+                )}
+                <SvgText
+                  x={x + barWidth / 2}
+                  y={height - 4}
+                  fontSize={10}
+                  fill={colors.icon}
+                  textAnchor="middle"
+                >
+                  {datum.label}
+                </SvgText>
+              </React.Fragment>
+            );
+          })}
+        </Svg>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+  },
+});
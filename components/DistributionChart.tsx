@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import { LayoutChangeEvent, StyleSheet, View } from "react-native";
+import Svg, { Rect } from "react-native-svg";
+
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { ThemedText } from "./ThemedText";
+
+export interface DistributionDatum {
+  label: string;
+  count: number;
+}
+
+interface DistributionChartProps {
+  data: DistributionDatum[];
+  color?: string;
+}
+
+const BAR_HEIGHT = 10;
+
+export function DistributionChart({ data, color }: DistributionChartProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const [barWidth, setBarWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setBarWidth(event.nativeEvent.layout.width);
+  };
+
+  const fillColor = color || colors.primary;
+  const total = data.reduce((sum, datum) => sum + datum.count, 0);
+  const maxCount = Math.max(1, ...data.map((datum) => datum.count));
+
+  return (
+    <View style={styles.container}>
+      {data.map((datum) => (
+        <View key={datum.label} style={styles.row}>
+          <View style={styles.labelRow}>
+            <ThemedText style={styles.label}>{datum.label}</ThemedText>
+            <ThemedText style={styles.count}>
+              {datum.count} ({Math.round((datum.count / total) * 100)}%)
+            </ThemedText>
+          </View>
+          <View onLayout={handleLayout}>
+            {barWidth > 0 && (
+              <Svg width={barWidth} height={BAR_HEIGHT}>
+                <Rect
+                  width={barWidth}
+                  height={BAR_HEIGHT}
+                  rx={BAR_HEIGHT / 2}
+                  fill={colors.border}
+                />
+                <Rect
+                  width={(datum.count / maxCount) * barWidth}
+                  height={BAR_HEIGHT}
+                  rx={BAR_HEIGHT / 2}
+                  fill={fillColor}
+                />
+              </Svg>
+            )}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  row: {
+    gap: 6,
+  },
+  labelRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  count: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,157 @@
+import React, { useState } from "react";
+import { LayoutChangeEvent, StyleSheet, View } from "react-native";
+import Svg, {
+  Circle,
+  Line,
+  Polyline,
+  Text as SvgText,
+} from "react-native-svg";
+
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+
+export interface LineChartDatum {
+  label: string;
+  // Points without a value leave a gap in the line
+  value: number | null;
+}
+
+interface LineChartProps {
+  data: LineChartDatum[];
+  minValue: number;
+  maxValue: number;
+  color?: string;
+  height?: number;
+  // Optional trend line, such as a moving average, with one value per datum
+  trend?: (number | null)[];
+  trendColor?: string;
+}
+
+const LABEL_HEIGHT = 20;
+const PADDING = 12;
+
+export function LineChart({
+  data,
+  minValue,
+  maxValue,
+  color,
+  height = 160,
+  trend,
+  trendColor,
+}: LineChartProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const lineColor = color || colors.secondary;
+  const plotHeight = height - LABEL_HEIGHT - PADDING * 2;
+  const slotWidth = data.length > 0 ? width / data.length : 0;
+  const range = Math.max(1, maxValue - minValue);
+
+  const toY = (value: number | null) =>
+    value === null
+      ? null
+      : PADDING + plotHeight * (1 - (value - minValue) / range);
+
+  const points = data.map((datum, index) => ({
+    ...datum,
+    x: index * slotWidth + slotWidth / 2,
+    y: toY(datum.value),
+  }));
+
+  // Split a line into runs of consecutive points with values
+  const toSegments = (line: { x: number; y: number | null }[]) => {
+    const runs: { x: number; y: number }[][] = [];
+    line.forEach((point, index) => {
+      if (point.y === null) return;
+      if (index === 0 || line[index - 1].y === null) {
+        runs.push([]);
+      }
+      runs[runs.length - 1].push({ x: point.x, y: point.y });
+    });
+    return runs;
+  };
+
+  const segments = toSegments(points);
+  const trendSegments = trend
+    ? toSegments(
+        points.map((point, index) => ({
+          x: point.x,
+          y: toY(trend[index] ?? null),
+        }))
+      )
+    : [];
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {[minValue, maxValue].map((value) => {
+            const y = PADDING + plotHeight * (1 - (value - minValue) / range);
+            return (
+              <React.Fragment key={value}>
+                <Line
+                  x1={0}
+                  y1={y}
+                  x2={width}
+                  y2={y}
+                  stroke={colors.border}
+                  strokeDasharray="4 4"
+                  strokeWidth={1}
+                />
+                <SvgText x={2} y={y - 3} fontSize={10} fill={colors.icon}>
+                  {value}
+                </SvgText>
+              </React.Fragment>
+            );
+          })}
+          {segments.map((segment, index) => (
+            <Polyline
+              key={index}
+              points={segment.map((point) => `${point.x},${point.y}`).join(" ")}
+              fill="none"
+              stroke={lineColor}
+              strokeWidth={3}
+            />
+          ))}
+          {trendSegments.map((segment, index) => (
+            <Polyline
+              key={`trend-${index}`}
+              points={segment.map((point) => `${point.x},${point.y}`).join(" ")}
+              fill="none"
+              stroke={trendColor || colors.primary}
+              strokeWidth={2}
+              strokeDasharray="6 4"
+            />
+          ))}
+          {points.map((point, index) => (
+            <React.Fragment key={`${point.label}-${index}`}>
+              {point.y !== null && (
+                <Circle cx={point.x} cy={point.y} r={4} fill={lineColor} />
+              )}
+              <SvgText
+                x={point.x}
+                y={height - 4}
+                fontSize={10}
+                fill={colors.icon}
+                textAnchor="middle"
+              >
+                {point.label}
+              </SvgText>
+            </React.Fragment>
+          ))}
+        </Svg>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+  },
+});
@@ -0,0 +1,243 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Colors } from "@/constants/Colors";
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  REPORT_REASON_OPTIONS,
+  ReportContext,
+  ReportReason,
+} from "@/constants/Reports";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { reportUser } from "@/utils/friends";
+import { Button } from "./Button";
+import { ThemedText } from "./ThemedText";
+import { ThemedView } from "./ThemedView";
+
+export type ReportUserModalProps = {
+  visible: boolean;
+  userId: string;
+  username?: string;
+  // Where the user was reported from, and the item reported if any
+  context: ReportContext;
+  contextId?: string;
+  onClose: () => void;
+};
+
+export function ReportUserModal({
+  visible,
+  userId,
+  username,
+  context,
+  contextId,
+  onClose,
+}: ReportUserModalProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  const handleClose = () => {
+    setReason(null);
+    setDetails("");
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    setIsSubmitting(true);
+    const { error } = await reportUser(
+      userId,
+      reason,
+      context,
+      details,
+      contextId
+    );
+    setIsSubmitting(false);
+
+    if (error) {
+      console.error("Error reporting user:", error);
+      Alert.alert("Error", "Failed to send report. Please try again.");
+      return;
+    }
+
+    Alert.alert(
+      "Report Sent",
+      "Thanks for letting us know. You can also block this user to stop them contacting you."
+    );
+    handleClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <ThemedView style={styles.container}>
+          <View style={styles.header}>
+            <ThemedText style={styles.title}>
+              Report {username || "User"}
+            </ThemedText>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <ThemedText style={styles.hintText}>
+              Reports are private. The user won&apos;t know who reported them.
+            </ThemedText>
+
+            {REPORT_REASON_OPTIONS.map((option) => {
+              const isSelected = reason === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.reasonRow,
+                    {
+                      backgroundColor:
+                        colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+                      borderColor: isSelected ? colors.primary : "transparent",
+                    },
+                  ]}
+                  onPress={() => setReason(option.value)}
+                >
+                  <View style={styles.reasonText}>
+                    <ThemedText style={styles.reasonLabel}>
+                      {option.label}
+                    </ThemedText>
+                    <ThemedText style={styles.reasonDescription}>
+                      {option.description}
+                    </ThemedText>
+                  </View>
+                  {isSelected && (
+                    <Ionicons
+                      name="checkmark-circle"
+                      size={20}
+                      color={colors.primary}
+                    />
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor:
+                    colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+                  color: colors.text,
+                  borderColor: colorScheme === "dark" ? "#4D4D5D" : "#E5E5E5",
+                },
+              ]}
+              placeholder="What happened? (optional)"
+              placeholderTextColor={colors.text + "60"}
+              value={details}
+              onChangeText={setDetails}
+              maxLength={MAX_REPORT_DETAILS_LENGTH}
+              multiline
+            />
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <Button
+              title="Send Report"
+              onPress={handleSubmit}
+              loading={isSubmitting}
+              disabled={!reason}
+            />
+          </View>
+        </ThemedView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  closeButton: {
+    padding: 8,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  hintText: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  reasonRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderRadius: 12,
+    borderWidth: 2,
+    padding: 14,
+    marginBottom: 8,
+  },
+  reasonText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  reasonLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  reasonDescription: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  input: {
+    minHeight: 80,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginTop: 12,
+    textAlignVertical: "top",
+  },
+  footer: {
+    padding: 20,
+  },
+});
@@ -0,0 +1,235 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { Friendship, getFriends } from "@/utils/friends";
+import { MAX_SHARE_MESSAGE_LENGTH, shareWorkout } from "@/utils/sharedWorkouts";
+import { Button } from "./Button";
+import { ThemedText } from "./ThemedText";
+import { ThemedView } from "./ThemedView";
+
+export type SendWorkoutModalProps = {
+  visible: boolean;
+  workoutId: string;
+  workoutTitle?: string;
+  // Friends the workout can't be sent to, such as its owner
+  excludeFriendIds?: string[];
+  onClose: () => void;
+};
+
+export function SendWorkoutModal({
+  visible,
+  workoutId,
+  workoutTitle,
+  excludeFriendIds = [],
+  onClose,
+}: SendWorkoutModalProps) {
+  const [friends, setFriends] = useState<Friendship[]>([]);
+  const [recipientId, setRecipientId] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  useEffect(() => {
+    if (!visible) return;
+
+    getFriends().then(({ friends: friendsData, error }) => {
+      if (error) {
+        console.error("Error loading friends:", error);
+      } else {
+        setFriends(friendsData);
+      }
+    });
+  }, [visible]);
+
+  const handleClose = () => {
+    setRecipientId(null);
+    setMessage("");
+    onClose();
+  };
+
+  const handleSend = async () => {
+    if (!recipientId) return;
+
+    setIsSending(true);
+    const { error } = await shareWorkout(workoutId, recipientId, message);
+    setIsSending(false);
+
+    if (error) {
+      console.error("Error sharing workout:", error);
+      Alert.alert("Error", "Failed to send workout. Please try again.");
+      return;
+    }
+
+    const username = friends.find(
+      (friendship) => friendship.friend_id === recipientId
+    )?.friend_profile?.username;
+    Alert.alert("Sent", `${workoutTitle || "Workout"} sent to ${username}`);
+    handleClose();
+  };
+
+  const recipients = friends.filter(
+    (friendship) => !excludeFriendIds.includes(friendship.friend_id)
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <ThemedView style={styles.container}>
+          <View style={styles.header}>
+            <ThemedText style={styles.title}>Send to Friend</ThemedText>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {recipients.length === 0 ? (
+              <ThemedText style={styles.hintText}>
+                Add friends from the Friends tab to send them workouts
+              </ThemedText>
+            ) : (
+              recipients.map((friendship) => {
+                const isSelected = recipientId === friendship.friend_id;
+                return (
+                  <TouchableOpacity
+                    key={friendship.friend_id}
+                    style={[
+                      styles.friendRow,
+                      {
+                        backgroundColor:
+                          colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+                        borderColor: isSelected
+                          ? colors.primary
+                          : "transparent",
+                      },
+                    ]}
+                    onPress={() => setRecipientId(friendship.friend_id)}
+                  >
+                    <ThemedText style={styles.friendName}>
+                      {friendship.friend_profile?.username}
+                    </ThemedText>
+                    {isSelected && (
+                      <Ionicons
+                        name="checkmark-circle"
+                        size={20}
+                        color={colors.primary}
+                      />
+                    )}
+                  </TouchableOpacity>
+                );
+              })
+            )}
+
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor:
+                    colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+                  color: colors.text,
+                  borderColor: colorScheme === "dark" ? "#4D4D5D" : "#E5E5E5",
+                },
+              ]}
+              placeholder="Add a message (optional)"
+              placeholderTextColor={colors.text + "60"}
+              value={message}
+              onChangeText={setMessage}
+              maxLength={MAX_SHARE_MESSAGE_LENGTH}
+              multiline
+            />
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <Button
+              title="Send Workout"
+              onPress={handleSend}
+              loading={isSending}
+              disabled={!recipientId}
+            />
+          </View>
+        </ThemedView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  closeButton: {
+    padding: 8,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  hintText: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  friendRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderRadius: 12,
+    borderWidth: 2,
+    padding: 14,
+    marginBottom: 8,
+  },
+  friendName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  input: {
+    minHeight: 80,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginTop: 12,
+    textAlignVertical: "top",
+  },
+  footer: {
+    padding: 20,
+  },
+});
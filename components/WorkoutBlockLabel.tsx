@@ -0,0 +1,62 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, View } from "react-native";
+
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { describeBlock, WorkoutBlock } from "@/utils/workoutSchema";
+import { ThemedText } from "./ThemedText";
+
+interface WorkoutBlockLabelProps {
+  block: WorkoutBlock;
+}
+
+/**
+ * Shows how a group of exercises is done, above the first one in the group
+ */
+export function WorkoutBlockLabel({ block }: WorkoutBlockLabelProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const exerciseCount = block.exerciseIndexes.length;
+  const isInterval = ["emom", "tabata", "amrap"].includes(block.type);
+
+  return (
+    <View style={styles.container}>
+      <Ionicons
+        name={isInterval ? "timer-outline" : "repeat"}
+        size={16}
+        color={colors.primary}
+      />
+      <ThemedText style={[styles.label, { color: colors.primary }]}>
+        {describeBlock(block)}
+      </ThemedText>
+      {exerciseCount > 1 && (
+        <ThemedText style={styles.count}>
+          {exerciseCount} exercises
+        </ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 8,
+    borderRadius: 16,
+    backgroundColor: "rgba(255, 107, 107, 0.1)",
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  count: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,217 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  getScheduleDateKey,
+  ScheduledWorkoutStatus,
+} from "@/utils/scheduledWorkouts";
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const STATUS_COLORS: Record<ScheduledWorkoutStatus, string> = {
+  scheduled: Colors.light.primary,
+  completed: "#4BB543",
+  missed: "#8B8B8B",
+};
+
+interface WorkoutCalendarProps {
+  month: Date;
+  selectedDate: Date;
+  // Statuses of the workouts scheduled on each day, keyed by date key
+  markedDates: Record<string, ScheduledWorkoutStatus[]>;
+  onSelectDate: (date: Date) => void;
+  onChangeMonth: (month: Date) => void;
+}
+
+// Days shown for a month, padded with nulls so weeks start on Monday
+function getMonthGrid(month: Date) {
+  const firstDay = new Date(month.getFullYear(), month.getMonth(), 1);
+  const daysInMonth = new Date(
+    month.getFullYear(),
+    month.getMonth() + 1,
+    0
+  ).getDate();
+  const leadingBlanks = (firstDay.getDay() + 6) % 7;
+
+  const cells: (Date | null)[] = Array(leadingBlanks).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    cells.push(new Date(month.getFullYear(), month.getMonth(), day));
+  }
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+  return cells;
+}
+
+export function WorkoutCalendar({
+  month,
+  selectedDate,
+  markedDates,
+  onSelectDate,
+  onChangeMonth,
+}: WorkoutCalendarProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const todayKey = getScheduleDateKey(new Date());
+  const selectedKey = getScheduleDateKey(selectedDate);
+  const cells = getMonthGrid(month);
+
+  const changeMonth = (offset: number) => {
+    onChangeMonth(new Date(month.getFullYear(), month.getMonth() + offset, 1));
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF" },
+      ]}
+    >
+      <View style={styles.monthHeader}>
+        <TouchableOpacity
+          style={styles.monthButton}
+          onPress={() => changeMonth(-1)}
+        >
+          <Ionicons name="chevron-back" size={20} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText style={styles.monthTitle}>
+          {month.toLocaleDateString("en-US", {
+            month: "long",
+            year: "numeric",
+          })}
+        </ThemedText>
+        <TouchableOpacity
+          style={styles.monthButton}
+          onPress={() => changeMonth(1)}
+        >
+          <Ionicons name="chevron-forward" size={20} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.weekRow}>
+        {WEEKDAY_LABELS.map((label) => (
+          <ThemedText key={label} style={styles.weekdayLabel}>
+            {label}
+          </ThemedText>
+        ))}
+      </View>
+
+      <View style={styles.grid}>
+        {cells.map((date, index) => {
+          if (!date) {
+            return <View key={`blank-${index}`} style={styles.dayCell} />;
+          }
+
+          const dateKey = getScheduleDateKey(date);
+          const isSelected = dateKey === selectedKey;
+          const isToday = dateKey === todayKey;
+          const statuses = markedDates[dateKey] || [];
+
+          return (
+            <TouchableOpacity
+              key={dateKey}
+              style={styles.dayCell}
+              onPress={() => onSelectDate(date)}
+            >
+              <View
+                style={[
+                  styles.dayCircle,
+                  isSelected && { backgroundColor: colors.primary },
+                  !isSelected &&
+                    isToday && { borderColor: colors.primary, borderWidth: 1 },
+                ]}
+              >
+                <ThemedText
+                  style={[styles.dayText, isSelected && { color: "#FFFFFF" }]}
+                >
+                  {date.getDate()}
+                </ThemedText>
+              </View>
+              <View style={styles.dotRow}>
+                {statuses.slice(0, 3).map((status, dotIndex) => (
+                  <View
+                    key={dotIndex}
+                    style={[
+                      styles.dot,
+                      { backgroundColor: STATUS_COLORS[status] },
+                    ]}
+                  />
+                ))}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  monthHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  monthButton: {
+    padding: 8,
+  },
+  monthTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  weekRow: {
+    flexDirection: "row",
+    marginBottom: 4,
+  },
+  weekdayLabel: {
+    width: `${100 / 7}%`,
+    textAlign: "center",
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    alignItems: "center",
+    paddingVertical: 4,
+  },
+  dayCircle: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  dayText: {
+    fontSize: 14,
+  },
+  dotRow: {
+    flexDirection: "row",
+    gap: 2,
+    height: 6,
+    marginTop: 2,
+  },
+  dot: {
+    width: 5,
+    height: 5,
+    borderRadius: 2.5,
+  },
+});
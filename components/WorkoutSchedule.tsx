@@ -0,0 +1,354 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { WorkoutCalendar } from "@/components/WorkoutCalendar";
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  deleteScheduledWorkout,
+  getScheduledWorkouts,
+  getScheduleDateKey,
+  markScheduledWorkoutMissed,
+  refreshWorkoutReminders,
+  ScheduledWorkout,
+  ScheduledWorkoutStatus,
+} from "@/utils/scheduledWorkouts";
+
+function getMonthStart(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+export function WorkoutSchedule() {
+  const [month, setMonth] = useState(() => getMonthStart(new Date()));
+  const [selectedDate, setSelectedDate] = useState(() => new Date());
+  const [schedules, setSchedules] = useState<ScheduledWorkout[]>([]);
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const nextMonth = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+      const { schedules, error } = await getScheduledWorkouts(month, nextMonth);
+      if (error) {
+        console.error("Error loading scheduled workouts:", error);
+      } else {
+        setSchedules(schedules);
+      }
+    } catch (error) {
+      console.error("Error in loadSchedules:", error);
+    }
+  }, [month]);
+
+  // Reload on focus so schedules changed elsewhere show up,
+  // and keep this device's reminders in sync with them
+  useFocusEffect(
+    useCallback(() => {
+      loadSchedules();
+      refreshWorkoutReminders();
+    }, [loadSchedules])
+  );
+
+  const markedDates = schedules.reduce<
+    Record<string, ScheduledWorkoutStatus[]>
+  >((acc, schedule) => {
+    const dateKey = getScheduleDateKey(new Date(schedule.scheduled_for));
+    acc[dateKey] = [...(acc[dateKey] || []), schedule.status];
+    return acc;
+  }, {});
+
+  const selectedKey = getScheduleDateKey(selectedDate);
+  const daySchedules = schedules.filter(
+    (schedule) =>
+      getScheduleDateKey(new Date(schedule.scheduled_for)) === selectedKey
+  );
+
+  const handleSelectMonth = (nextMonth: Date) => {
+    setMonth(nextMonth);
+    setSelectedDate(nextMonth);
+  };
+
+  const handleStart = (schedule: ScheduledWorkout) => {
+    router.push({
+      pathname: "/workout-player",
+      params: {
+        workoutId: schedule.workout_id,
+        workoutData: JSON.stringify(schedule.workout.workout_data),
+      },
+    });
+  };
+
+  const handleReschedule = (schedule: ScheduledWorkout) => {
+    router.push({
+      pathname: "/schedule-workout",
+      params: {
+        workoutId: schedule.workout_id,
+        workoutTitle: schedule.workout.workout_data?.title,
+        scheduleId: schedule.id,
+        scheduledFor: schedule.scheduled_for,
+        reminderMinutes: schedule.reminder_minutes?.toString() ?? "",
+      },
+    });
+  };
+
+  const handleMarkMissed = async (schedule: ScheduledWorkout) => {
+    const { error } = await markScheduledWorkoutMissed(schedule.id);
+    if (error) {
+      console.error("Error marking workout missed:", error);
+      Alert.alert("Error", "Failed to update workout. Please try again.");
+      return;
+    }
+    setSchedules((prev) =>
+      prev.map((item) =>
+        item.id === schedule.id ? { ...item, status: "missed" } : item
+      )
+    );
+  };
+
+  const handleRemove = (schedule: ScheduledWorkout) => {
+    Alert.alert(
+      "Remove from Schedule",
+      "The workout stays in your history, only this plan is removed.",
+      [
+        {
+          text: "Cancel",
+          style: "cancel",
+        },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            const { error } = await deleteScheduledWorkout(schedule.id);
+            if (error) {
+              console.error("Error removing scheduled workout:", error);
+              Alert.alert(
+                "Error",
+                "Failed to remove workout. Please try again."
+              );
+              return;
+            }
+            setSchedules((prev) =>
+              prev.filter((item) => item.id !== schedule.id)
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.scrollContent}>
+      <WorkoutCalendar
+        month={month}
+        selectedDate={selectedDate}
+        markedDates={markedDates}
+        onSelectDate={setSelectedDate}
+        onChangeMonth={handleSelectMonth}
+      />
+
+      <ThemedText style={styles.dayTitle}>
+        {selectedDate.toLocaleDateString("en-US", {
+          weekday: "long",
+          month: "long",
+          day: "numeric",
+        })}
+      </ThemedText>
+
+      {daySchedules.length === 0 ? (
+        <ThemedText style={styles.emptyText}>
+          Nothing planned. Open a workout and tap &quot;Schedule for
+          Later&quot; to plan it.
+        </ThemedText>
+      ) : (
+        daySchedules.map((schedule) => {
+          const isOverdue =
+            schedule.status === "scheduled" &&
+            new Date(schedule.scheduled_for).getTime() < Date.now();
+          return (
+            <View
+              key={schedule.id}
+              style={[
+                styles.scheduleCard,
+                {
+                  backgroundColor:
+                    colorScheme === "dark" ? "#3D3D4D" : "#FFFFFF",
+                },
+              ]}
+            >
+              <View style={styles.scheduleHeader}>
+                <ThemedText style={styles.scheduleTime}>
+                  {new Date(schedule.scheduled_for).toLocaleTimeString(
+                    "en-US",
+                    { hour: "numeric", minute: "2-digit" }
+                  )}
+                </ThemedText>
+                {schedule.status === "completed" ? (
+                  <View style={styles.completedBadge}>
+                    <ThemedText style={styles.completedText}>
+                      Completed
+                    </ThemedText>
+                  </View>
+                ) : schedule.status === "missed" ? (
+                  <View style={styles.missedBadge}>
+                    <ThemedText style={styles.missedText}>Missed</ThemedText>
+                  </View>
+                ) : isOverdue ? (
+                  <View style={styles.missedBadge}>
+                    <ThemedText style={styles.missedText}>Overdue</ThemedText>
+                  </View>
+                ) : null}
+              </View>
+              <ThemedText style={styles.scheduleTitle}>
+                {schedule.workout.workout_data?.title}
+              </ThemedText>
+              <ThemedText style={styles.scheduleMeta}>
+                {schedule.workout.workout_data?.totalTime}
+              </ThemedText>
+
+              {schedule.status !== "completed" && (
+                <View style={styles.actions}>
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => handleStart(schedule)}
+                  >
+                    <Ionicons name="play" size={18} color={colors.primary} />
+                    <ThemedText style={styles.actionText}>Start</ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => handleReschedule(schedule)}
+                  >
+                    <Ionicons
+                      name="calendar-outline"
+                      size={18}
+                      color={colors.primary}
+                    />
+                    <ThemedText style={styles.actionText}>
+                      Reschedule
+                    </ThemedText>
+                  </TouchableOpacity>
+                  {schedule.status === "scheduled" && (
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => handleMarkMissed(schedule)}
+                    >
+                      <Ionicons
+                        name="close-circle-outline"
+                        size={18}
+                        color={colors.primary}
+                      />
+                      <ThemedText style={styles.actionText}>Missed</ThemedText>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => handleRemove(schedule)}
+                  >
+                    <Ionicons
+                      name="trash-outline"
+                      size={18}
+                      color={colors.primary}
+                    />
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          );
+        })
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  dayTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.7,
+    textAlign: "center",
+    marginTop: 8,
+  },
+  scheduleCard: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  scheduleHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  scheduleTime: {
+    fontSize: 14,
+    fontWeight: "600",
+    opacity: 0.8,
+  },
+  scheduleTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  scheduleMeta: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  completedBadge: {
+    backgroundColor: "rgba(75, 181, 67, 0.2)",
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+  },
+  completedText: {
+    fontSize: 12,
+    color: "#4BB543",
+  },
+  missedBadge: {
+    backgroundColor: "rgba(136, 136, 136, 0.2)",
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+  },
+  missedText: {
+    fontSize: 12,
+    color: "#888",
+  },
+  actions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "rgba(255, 107, 107, 0.1)",
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  actionText: {
+    fontSize: 14,
+  },
+});
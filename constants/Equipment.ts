@@ -0,0 +1,17 @@
+/**
+ * Equipment options offered in the workout builder.
+ * The values are stored in workout_history.equipment and referenced by the exercise catalog.
+ */
+
+export const EQUIPMENT_OPTIONS = [
+  { label: "No Equipment", value: "none", icon: "body-outline" },
+  { label: "Dumbbells", value: "dumbbells", icon: "barbell-outline" },
+  { label: "Kettlebells", value: "kettlebells", icon: "barbell-outline" },
+  { label: "Resistance Bands", value: "bands", icon: "bandage-outline" },
+  { label: "Full Gym", value: "full-gym", icon: "fitness-outline" },
+  { label: "Treadmill", value: "treadmill", icon: "walk-outline" },
+  { label: "Yoga Mat", value: "yoga-mat", icon: "body-outline" },
+  { label: "Exercise Ball", value: "exercise-ball", icon: "ellipse-outline" },
+] as const;
+
+export type Equipment = (typeof EQUIPMENT_OPTIONS)[number]["value"];
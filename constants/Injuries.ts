@@ -0,0 +1,36 @@
+/**
+ * Injury and limitation options offered in profile setup.
+ * Regions match the contraindications in the exercise catalog; selections
+ * are stored in profiles.injury_details.
+ */
+
+export const INJURY_REGION_OPTIONS = [
+  { label: "Neck", value: "neck" },
+  { label: "Shoulder", value: "shoulder" },
+  { label: "Elbow", value: "elbow" },
+  { label: "Wrist", value: "wrist" },
+  { label: "Lower Back", value: "lower-back" },
+  { label: "Hip", value: "hip" },
+  { label: "Knee", value: "knee" },
+  { label: "Ankle", value: "ankle" },
+] as const;
+
+export const INJURY_SEVERITY_OPTIONS = [
+  {
+    label: "Mild",
+    value: "mild",
+    description: "Occasional discomfort, exercises are flagged",
+  },
+  {
+    label: "Moderate",
+    value: "moderate",
+    description: "Regular pain, exercises are swapped where possible",
+  },
+  {
+    label: "Severe",
+    value: "severe",
+    description: "Must be avoided, exercises are swapped or removed",
+  },
+] as const;
+
+export type InjurySeverity = (typeof INJURY_SEVERITY_OPTIONS)[number]["value"];
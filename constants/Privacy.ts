@@ -0,0 +1,44 @@
+/**
+ * Profile privacy settings. Each field group has its own visibility
+ * column on profiles, enforced by the public_profiles view and row level
+ * security.
+ */
+
+export const VISIBILITY_OPTIONS = [
+  { label: "Only Me", value: "only_me" },
+  { label: "Friends", value: "friends" },
+  { label: "Everyone", value: "everyone" },
+] as const;
+
+export type ProfileVisibility = (typeof VISIBILITY_OPTIONS)[number]["value"];
+
+export const PRIVACY_FIELD_OPTIONS = [
+  {
+    label: "Body Metrics",
+    value: "body_metrics",
+    column: "body_metrics_visibility",
+    description: "Sex, height and weight",
+  },
+  {
+    label: "Age",
+    value: "age",
+    column: "age_visibility",
+    description: "Your age, worked out from your date of birth",
+  },
+  {
+    label: "Fitness Goals",
+    value: "goals",
+    column: "goals_visibility",
+    description: "The goals on your profile",
+  },
+  {
+    label: "Workout History",
+    value: "workout_history",
+    column: "workout_history_visibility",
+    description: "Your workouts, logged sets and activity in friends' feeds",
+  },
+] as const;
+
+export type PrivacyField = (typeof PRIVACY_FIELD_OPTIONS)[number]["value"];
+
+export type PrivacyColumn = (typeof PRIVACY_FIELD_OPTIONS)[number]["column"];
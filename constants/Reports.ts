@@ -0,0 +1,45 @@
+/**
+ * Reasons offered when reporting a user. Values match the reason check on
+ * user_reports.
+ */
+
+export const REPORT_REASON_OPTIONS = [
+  {
+    label: "Harassment",
+    value: "harassment",
+    description: "Bullying, threats or unwanted contact",
+  },
+  {
+    label: "Spam",
+    value: "spam",
+    description: "Repeated requests, ads or scams",
+  },
+  {
+    label: "Inappropriate",
+    value: "inappropriate",
+    description: "Offensive username, picture or comments",
+  },
+  {
+    label: "Impersonation",
+    value: "impersonation",
+    description: "Pretending to be someone else",
+  },
+  {
+    label: "Other",
+    value: "other",
+    description: "Something else that breaks the rules",
+  },
+] as const;
+
+export type ReportReason = (typeof REPORT_REASON_OPTIONS)[number]["value"];
+
+// Where the reported behaviour was seen
+export type ReportContext =
+  | "profile"
+  | "search"
+  | "friend_request"
+  | "activity"
+  | "comment"
+  | "shared_workout";
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
@@ -0,0 +1,13 @@
+/**
+ * Session length options offered in the workout builder and program setup.
+ * The values are stored in workout_history.time_available.
+ */
+
+export const TIME_OPTIONS = [
+  { label: "10-15 minutes", value: "10-15" },
+  { label: "15-25 minutes", value: "15-25" },
+  { label: "25-40 minutes", value: "25-40" },
+  { label: "40-60 minutes", value: "40-60" },
+  { label: "60-90 minutes", value: "60-90" },
+  { label: "2 hours", value: "120" },
+];
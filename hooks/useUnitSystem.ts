@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+
+import { getUserProfile } from "@/utils/auth";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  parseUnitSystem,
+  UnitSystem,
+} from "@/utils/units";
+
+/**
+ * The signed-in user's unit system, metric until their profile has loaded
+ */
+export function useUnitSystem(): UnitSystem {
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+
+  useEffect(() => {
+    let isMounted = true;
+    getUserProfile().then(({ profile }) => {
+      if (isMounted && profile) {
+        setUnitSystem(parseUnitSystem(profile.unit_system));
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  return unitSystem;
+}
@@ -261,4 +261,1834 @@ CREATE POLICY "Users can read their own feedback" ON public.feedback
   FOR SELECT USING (auth.uid() = user_id);
 
 -- Grant permissions for feedback table
-GRANT SELECT, INSERT ON public.feedback TO authenticated; 
\ No newline at end of file
+GRANT SELECT, INSERT ON public.feedback TO authenticated; 
+-- Create workout_sets table for what was actually performed in each set
+CREATE TABLE IF NOT EXISTS public.workout_sets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workout_id UUID REFERENCES public.workout_history(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  exercise_index INTEGER NOT NULL CHECK (exercise_index >= 0),
+  exercise_name TEXT NOT NULL,
+  catalog_id TEXT,
+  set_number INTEGER NOT NULL CHECK (set_number >= 1),
+  reps_performed INTEGER CHECK (reps_performed >= 0),
+  weight NUMERIC CHECK (weight >= 0),
+  weight_unit TEXT CHECK (weight_unit IN ('kg', 'lb')),
+  duration_seconds INTEGER CHECK (duration_seconds >= 0),
+  rpe NUMERIC CHECK (rpe >= 1 AND rpe <= 10),
+  skipped BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(workout_id, exercise_index, set_number)
+);
+
+CREATE INDEX IF NOT EXISTS workout_sets_user_id_idx ON public.workout_sets(user_id);
+
+-- Create RLS policies for workout_sets
+ALTER TABLE public.workout_sets ENABLE ROW LEVEL SECURITY;
+
+-- Policy to allow users to read their own sets
+CREATE POLICY "Users can read their own workout sets" ON public.workout_sets
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Policy to allow users to insert sets for their own workouts
+CREATE POLICY "Users can insert their own workout sets" ON public.workout_sets
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.workout_history
+      WHERE id = workout_sets.workout_id AND user_id = auth.uid()
+    )
+  );
+
+-- Policy to allow users to update their own sets
+CREATE POLICY "Users can update their own workout sets" ON public.workout_sets
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Policy to allow users to delete their own sets
+CREATE POLICY "Users can delete their own workout sets" ON public.workout_sets
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Policy to allow friends to see each other's sets
+CREATE POLICY "Friends can see workout sets" ON public.workout_sets
+  FOR SELECT USING (
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.friendships
+      WHERE (user_id = auth.uid() AND friend_id = workout_sets.user_id)
+         OR (friend_id = auth.uid() AND user_id = workout_sets.user_id)
+    )
+  );
+
+-- Grant permissions for workout_sets table
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.workout_sets TO authenticated;
+
+-- Create programs table for multi-week training plans
+CREATE TABLE IF NOT EXISTS public.programs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  name TEXT NOT NULL,
+  goal TEXT NOT NULL CHECK (goal IN ('strength', 'muscle', 'endurance', 'general', 'mobility')),
+  duration_weeks INTEGER NOT NULL CHECK (duration_weeks >= 1 AND duration_weeks <= 52),
+  sessions_per_week INTEGER NOT NULL CHECK (sessions_per_week >= 1 AND sessions_per_week <= 7),
+  time_available TEXT NOT NULL,
+  equipment TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'archived')),
+  current_week INTEGER NOT NULL DEFAULT 1,
+  current_session INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Create program_sessions table, one row per planned session
+CREATE TABLE IF NOT EXISTS public.program_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  program_id UUID REFERENCES public.programs(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  week_number INTEGER NOT NULL CHECK (week_number >= 1),
+  session_number INTEGER NOT NULL CHECK (session_number >= 1),
+  phase TEXT NOT NULL CHECK (phase IN ('build', 'deload')),
+  intensity NUMERIC NOT NULL,
+  workout_type TEXT NOT NULL,
+  muscle_focus TEXT NOT NULL,
+  -- Filled in when the session is generated
+  workout_id UUID REFERENCES public.workout_history(id) ON DELETE SET NULL,
+  workout_data JSONB,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(program_id, week_number, session_number)
+);
+
+-- Create RLS policies for programs
+ALTER TABLE public.programs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own programs" ON public.programs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own programs" ON public.programs
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own programs" ON public.programs
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own programs" ON public.programs
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for program_sessions
+ALTER TABLE public.program_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own program sessions" ON public.program_sessions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert sessions for their own programs" ON public.program_sessions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.programs
+      WHERE id = program_sessions.program_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own program sessions" ON public.program_sessions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own program sessions" ON public.program_sessions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Grant permissions for program tables
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.programs TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.program_sessions TO authenticated;
+
+-- Create scheduled_workouts table for planning workouts ahead of time
+CREATE TABLE IF NOT EXISTS public.scheduled_workouts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  workout_id UUID REFERENCES public.workout_history(id) ON DELETE CASCADE NOT NULL,
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Minutes before scheduled_for to send the reminder, NULL for no reminder
+  reminder_minutes INTEGER CHECK (reminder_minutes IS NULL OR reminder_minutes >= 0),
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'completed', 'missed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS scheduled_workouts_user_date_idx
+  ON public.scheduled_workouts(user_id, scheduled_for);
+
+-- Create RLS policies for scheduled_workouts
+ALTER TABLE public.scheduled_workouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own scheduled workouts" ON public.scheduled_workouts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can schedule their own workouts" ON public.scheduled_workouts
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.workout_history
+      WHERE id = scheduled_workouts.workout_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own scheduled workouts" ON public.scheduled_workouts
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own scheduled workouts" ON public.scheduled_workouts
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Grant permissions for scheduled_workouts
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.scheduled_workouts TO authenticated;
+
+-- Track when workouts were last changed so offline edits can be replayed
+-- without overwriting newer changes made on another device
+ALTER TABLE public.workout_history
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+-- Manual edits replace workout_data and bump version; the first version is
+-- kept in original_workout_data so it can be compared with the edited one
+ALTER TABLE public.workout_history
+  ADD COLUMN IF NOT EXISTS original_workout_data JSONB,
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1 CHECK (version >= 1);
+
+-- Workout schema version 2 groups exercises into blocks (straight sets,
+-- supersets, circuits, EMOM, Tabata and AMRAP). Existing rows are done as
+-- straight sets, one block per exercise
+UPDATE public.workout_history
+SET workout_data = workout_data || jsonb_build_object(
+  'schemaVersion', 2,
+  'blocks', COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'type', 'straight',
+          'exerciseIndexes', jsonb_build_array(exercise.ordinality - 1)
+        )
+        ORDER BY exercise.ordinality
+      )
+      FROM jsonb_array_elements(workout_data -> 'exercises')
+        WITH ORDINALITY AS exercise(value, ordinality)
+    ),
+    '[]'::jsonb
+  )
+)
+WHERE jsonb_typeof(workout_data -> 'exercises') = 'array'
+  AND NOT workout_data ? 'schemaVersion';
+
+-- Injuries by body region and severity, used to keep generated workouts
+-- away from contraindicated exercises. The free-text injuries column is
+-- kept for anything the regions don't cover
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS injury_details JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Whether the signed-in user is the given user or one of their friends
+CREATE OR REPLACE FUNCTION public.is_self_or_friend(other_user_id UUID)
+RETURNS boolean AS $$
+  SELECT other_user_id = auth.uid() OR EXISTS (
+    SELECT 1 FROM public.friendships
+    WHERE user_id = auth.uid() AND friend_id = other_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.is_self_or_friend(UUID) TO authenticated;
+
+-- Create activity_events table for the friends activity feed. Events are
+-- written by the triggers below so they are recorded even when a workout
+-- is completed offline and synced later
+CREATE TABLE IF NOT EXISTS public.activity_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (
+    type IN ('workout_completed', 'personal_record', 'streak_milestone')
+  ),
+  workout_id UUID REFERENCES public.workout_history(id) ON DELETE CASCADE,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS activity_events_created_at_idx
+  ON public.activity_events(created_at DESC);
+
+-- One record per exercise per workout; a heavier set updates it
+CREATE UNIQUE INDEX IF NOT EXISTS activity_events_record_idx
+  ON public.activity_events(workout_id, (data->>'exercise_key'))
+  WHERE type = 'personal_record';
+
+-- Create activity_reactions table for emoji reactions to feed events
+CREATE TABLE IF NOT EXISTS public.activity_reactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  activity_id UUID REFERENCES public.activity_events(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  emoji TEXT NOT NULL CHECK (emoji IN ('💪', '🔥', '👏', '🎉', '❤️')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(activity_id, user_id, emoji)
+);
+
+-- Create activity_comments table for short comments on feed events
+CREATE TABLE IF NOT EXISTS public.activity_comments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  activity_id UUID REFERENCES public.activity_events(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 280),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS activity_reactions_activity_id_idx
+  ON public.activity_reactions(activity_id);
+CREATE INDEX IF NOT EXISTS activity_comments_activity_id_idx
+  ON public.activity_comments(activity_id);
+
+-- Create RLS policies for the activity feed: events, reactions and
+-- comments are visible to the event's owner and their friends only
+ALTER TABLE public.activity_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.activity_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.activity_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Friends can see activity" ON public.activity_events
+  FOR SELECT USING (public.is_self_or_friend(user_id));
+
+CREATE POLICY "Friends can see reactions" ON public.activity_reactions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.activity_events
+      WHERE id = activity_reactions.activity_id
+        AND public.is_self_or_friend(activity_events.user_id)
+    )
+  );
+
+CREATE POLICY "Friends can react to activity" ON public.activity_reactions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.activity_events
+      WHERE id = activity_reactions.activity_id
+        AND public.is_self_or_friend(activity_events.user_id)
+    )
+  );
+
+CREATE POLICY "Users can remove their reactions" ON public.activity_reactions
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Friends can see comments" ON public.activity_comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.activity_events
+      WHERE id = activity_comments.activity_id
+        AND public.is_self_or_friend(activity_events.user_id)
+    )
+  );
+
+CREATE POLICY "Friends can comment on activity" ON public.activity_comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.activity_events
+      WHERE id = activity_comments.activity_id
+        AND public.is_self_or_friend(activity_events.user_id)
+    )
+  );
+
+-- Comments can be deleted by their author or the owner of the event
+CREATE POLICY "Users can delete comments" ON public.activity_comments
+  FOR DELETE USING (
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.activity_events
+      WHERE id = activity_comments.activity_id
+        AND activity_events.user_id = auth.uid()
+    )
+  );
+
+-- Grant permissions for the activity feed tables
+GRANT SELECT ON public.activity_events TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.activity_reactions TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.activity_comments TO authenticated;
+
+-- Post completed workouts to the feed, and streak milestones when the
+-- run of consecutive days with a completed workout reaches one
+CREATE OR REPLACE FUNCTION public.record_workout_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  streak_days INTEGER;
+BEGIN
+  IF NOT NEW.completed OR (TG_OP = 'UPDATE' AND OLD.completed) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.activity_events (user_id, type, workout_id, data)
+  VALUES (
+    NEW.user_id,
+    'workout_completed',
+    NEW.id,
+    jsonb_build_object(
+      'title', NEW.workout_data->>'title',
+      'workout_type', NEW.workout_type,
+      'total_time', NEW.workout_data->>'totalTime',
+      'rating', NEW.rating
+    )
+  );
+
+  -- Days in a row with a completed workout, up to this workout's day
+  WITH days AS (
+    SELECT DISTINCT created_at::date AS day
+    FROM public.workout_history
+    WHERE user_id = NEW.user_id AND completed
+  ),
+  numbered AS (
+    SELECT day, day + (ROW_NUMBER() OVER (ORDER BY day DESC))::int AS run
+    FROM days
+  )
+  SELECT COUNT(*) INTO streak_days
+  FROM numbered
+  WHERE run = (SELECT run FROM numbered WHERE day = NEW.created_at::date);
+
+  IF streak_days IN (3, 7, 14, 30, 50, 100, 365) AND NOT EXISTS (
+    SELECT 1 FROM public.activity_events
+    WHERE user_id = NEW.user_id
+      AND type = 'streak_milestone'
+      AND (data->>'days')::int = streak_days
+      AND created_at > now() - interval '2 days'
+  ) THEN
+    INSERT INTO public.activity_events (user_id, type, workout_id, data)
+    VALUES (
+      NEW.user_id,
+      'streak_milestone',
+      NEW.id,
+      jsonb_build_object('days', streak_days)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE TRIGGER on_workout_completed
+  AFTER INSERT OR UPDATE OF completed ON public.workout_history
+  FOR EACH ROW EXECUTE PROCEDURE public.record_workout_activity();
+
+-- Post a personal record when a logged set beats the heaviest earlier set
+-- of the same exercise. Weights are compared in kg
+CREATE OR REPLACE FUNCTION public.record_personal_record()
+RETURNS TRIGGER AS $$
+DECLARE
+  exercise_key TEXT;
+  weight_kg NUMERIC;
+  previous_kg NUMERIC;
+BEGIN
+  IF NEW.weight IS NULL OR NEW.skipped THEN
+    RETURN NEW;
+  END IF;
+
+  exercise_key := COALESCE(NEW.catalog_id, lower(NEW.exercise_name));
+  weight_kg := CASE WHEN NEW.weight_unit = 'lb'
+    THEN NEW.weight * 0.453592 ELSE NEW.weight END;
+
+  SELECT MAX(CASE WHEN weight_unit = 'lb'
+    THEN weight * 0.453592 ELSE weight END) INTO previous_kg
+  FROM public.workout_sets
+  WHERE user_id = NEW.user_id
+    AND workout_id <> NEW.workout_id
+    AND NOT skipped
+    AND weight IS NOT NULL
+    AND COALESCE(catalog_id, lower(exercise_name)) = exercise_key;
+
+  -- The first time an exercise is logged isn't a record yet
+  IF previous_kg IS NULL OR weight_kg <= previous_kg THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.activity_events (user_id, type, workout_id, data)
+  VALUES (
+    NEW.user_id,
+    'personal_record',
+    NEW.workout_id,
+    jsonb_build_object(
+      'exercise_key', exercise_key,
+      'exercise_name', NEW.exercise_name,
+      'weight', NEW.weight,
+      'weight_unit', COALESCE(NEW.weight_unit, 'kg'),
+      'weight_kg', round(weight_kg, 2),
+      'reps', NEW.reps_performed,
+      'previous_kg', round(previous_kg, 2)
+    )
+  )
+  ON CONFLICT (workout_id, (data->>'exercise_key'))
+    WHERE type = 'personal_record'
+  DO UPDATE SET data = EXCLUDED.data
+    WHERE (EXCLUDED.data->>'weight_kg')::numeric >
+      (activity_events.data->>'weight_kg')::numeric;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE TRIGGER on_workout_set_logged
+  AFTER INSERT OR UPDATE OF weight, weight_unit, skipped
+  ON public.workout_sets
+  FOR EACH ROW EXECUTE PROCEDURE public.record_personal_record();
+
+-- Stream new feed events, reactions and comments to subscribed clients.
+-- Full replica identity includes activity_id in delete events
+ALTER TABLE public.activity_reactions REPLICA IDENTITY FULL;
+ALTER TABLE public.activity_comments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime
+  ADD TABLE public.activity_events, public.activity_reactions,
+    public.activity_comments;
+
+-- Minutes a workout took, read from its "totalTime" (e.g. "45 minutes",
+-- "1 hour 15 minutes"), falling back to the time the user had available
+CREATE OR REPLACE FUNCTION public.workout_minutes(
+  workout_data JSONB,
+  time_available TEXT
+)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(
+    NULLIF(
+      COALESCE(substring(total from '(\d+(?:\.\d+)?)\s*h')::numeric * 60, 0) +
+      COALESCE(substring(total from '(\d+)\s*m')::numeric, 0),
+      0
+    ),
+    substring(total from '(\d+)')::numeric,
+    substring(time_available from '(\d+)')::numeric,
+    0
+  )
+  FROM (SELECT workout_data->>'totalTime' AS total) AS workout;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Create challenges table for goals friends work towards together.
+-- A challenge with a goal is won by everyone who reaches it; without one
+-- it is a competition for the most workouts or minutes
+CREATE TABLE IF NOT EXISTS public.challenges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  creator_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(trim(title)) BETWEEN 1 AND 80),
+  metric TEXT NOT NULL CHECK (metric IN ('workouts', 'minutes')),
+  -- Only workouts of this type count; NULL counts every workout
+  workout_type TEXT,
+  goal NUMERIC CHECK (goal > 0),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed')),
+  finalized_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+-- Create challenge_participants table for invites and who has joined.
+-- Final progress and rank are stored when the challenge ends
+CREATE TABLE IF NOT EXISTS public.challenge_participants (
+  challenge_id UUID REFERENCES public.challenges(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'joined', 'left')),
+  invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  joined_at TIMESTAMP WITH TIME ZONE,
+  final_progress NUMERIC,
+  final_rank INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (challenge_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS challenge_participants_user_id_idx
+  ON public.challenge_participants(user_id);
+
+-- Whether the signed-in user created or was invited to a challenge
+CREATE OR REPLACE FUNCTION public.is_challenge_member(p_challenge_id UUID)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.challenge_participants
+    WHERE challenge_id = p_challenge_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Create RLS policies for challenges: members can see a challenge and its
+-- participants. Changes go through the functions below
+ALTER TABLE public.challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.challenge_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can see challenges" ON public.challenges
+  FOR SELECT USING (public.is_challenge_member(id));
+
+CREATE POLICY "Members can see challenge participants" ON public.challenge_participants
+  FOR SELECT USING (public.is_challenge_member(challenge_id));
+
+GRANT SELECT ON public.challenges TO authenticated;
+GRANT SELECT ON public.challenge_participants TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_challenge_member(UUID) TO authenticated;
+
+-- A participant's progress: completed workouts, or their minutes, within
+-- the challenge's dates and of its workout type
+CREATE OR REPLACE FUNCTION public.challenge_progress(
+  p_challenge_id UUID,
+  p_user_id UUID
+)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(
+    CASE c.metric
+      WHEN 'minutes' THEN SUM(public.workout_minutes(w.workout_data, w.time_available))
+      ELSE COUNT(w.id)::numeric
+    END,
+    0
+  )
+  FROM public.challenges c
+  LEFT JOIN public.workout_history w
+    ON w.user_id = p_user_id
+   AND w.completed
+   AND w.created_at >= c.starts_at
+   AND w.created_at < c.ends_at
+   AND (c.workout_type IS NULL OR w.workout_type = c.workout_type)
+  WHERE c.id = p_challenge_id
+  GROUP BY c.metric;
+$$ LANGUAGE sql STABLE;
+
+-- Function to create a challenge and invite friends to it
+CREATE OR REPLACE FUNCTION public.create_challenge(
+  p_title TEXT,
+  p_metric TEXT,
+  p_workout_type TEXT,
+  p_goal NUMERIC,
+  p_ends_at TIMESTAMP WITH TIME ZONE,
+  p_invitee_ids UUID[]
+)
+RETURNS UUID AS $$
+DECLARE
+  new_challenge_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_ends_at <= now() THEN
+    RAISE EXCEPTION 'Challenge must end in the future';
+  END IF;
+
+  INSERT INTO public.challenges (creator_id, title, metric, workout_type, goal, ends_at)
+  VALUES (auth.uid(), trim(p_title), p_metric, p_workout_type, p_goal, p_ends_at)
+  RETURNING id INTO new_challenge_id;
+
+  INSERT INTO public.challenge_participants (challenge_id, user_id, status, joined_at)
+  VALUES (new_challenge_id, auth.uid(), 'joined', now());
+
+  PERFORM public.invite_to_challenge(new_challenge_id, p_invitee_ids);
+
+  RETURN new_challenge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to invite friends to an active challenge the user has joined.
+-- Anyone already invited is left as they are
+CREATE OR REPLACE FUNCTION public.invite_to_challenge(
+  p_challenge_id UUID,
+  p_invitee_ids UUID[]
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.challenge_participants p
+    JOIN public.challenges c ON c.id = p.challenge_id
+    WHERE p.challenge_id = p_challenge_id
+      AND p.user_id = auth.uid()
+      AND p.status = 'joined'
+      AND c.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Challenge not found or not authorized';
+  END IF;
+
+  INSERT INTO public.challenge_participants (challenge_id, user_id, invited_by)
+  SELECT p_challenge_id, friend_id, auth.uid()
+  FROM public.friendships
+  WHERE user_id = auth.uid()
+    AND friend_id = ANY(COALESCE(p_invitee_ids, '{}'))
+  ON CONFLICT (challenge_id, user_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to join a challenge the user was invited to, or rejoin one
+-- they left
+CREATE OR REPLACE FUNCTION public.join_challenge(p_challenge_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.challenge_participants p
+  SET status = 'joined', joined_at = now()
+  FROM public.challenges c
+  WHERE c.id = p.challenge_id
+    AND p.challenge_id = p_challenge_id
+    AND p.user_id = auth.uid()
+    AND p.status IN ('invited', 'left')
+    AND c.status = 'active'
+    AND c.ends_at > now();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challenge not found or no longer open';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to leave a challenge, or decline an invite to one
+CREATE OR REPLACE FUNCTION public.leave_challenge(p_challenge_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.challenge_participants p
+  SET status = 'left'
+  FROM public.challenges c
+  WHERE c.id = p.challenge_id
+    AND p.challenge_id = p_challenge_id
+    AND p.user_id = auth.uid()
+    AND p.status IN ('invited', 'joined')
+    AND c.status = 'active';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challenge not found or already finished';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to get a challenge's leaderboard of joined participants.
+-- Progress is live until the challenge is finalised, then it is the
+-- stored final result
+CREATE OR REPLACE FUNCTION public.get_challenge_leaderboard(p_challenge_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  profile_picture_url TEXT,
+  progress NUMERIC,
+  rank INTEGER,
+  reached_goal BOOLEAN
+) AS $$
+BEGIN
+  IF NOT public.is_challenge_member(p_challenge_id) THEN
+    RAISE EXCEPTION 'Challenge not found or not authorized';
+  END IF;
+
+  RETURN QUERY
+  WITH scores AS (
+    SELECT
+      p.user_id,
+      p.final_rank,
+      CASE WHEN c.status = 'completed'
+        THEN COALESCE(p.final_progress, 0)
+        ELSE public.challenge_progress(c.id, p.user_id)
+      END AS progress,
+      c.goal
+    FROM public.challenge_participants p
+    JOIN public.challenges c ON c.id = p.challenge_id
+    WHERE p.challenge_id = p_challenge_id AND p.status = 'joined'
+  )
+  SELECT
+    s.user_id,
+    pr.username,
+    pr.profile_picture_url,
+    s.progress,
+    COALESCE(s.final_rank, (RANK() OVER (ORDER BY s.progress DESC))::int),
+    s.goal IS NOT NULL AND s.progress >= s.goal
+  FROM scores s
+  JOIN public.profiles pr ON pr.id = s.user_id
+  ORDER BY s.progress DESC, pr.username;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to finalise ended challenges: store each joined participant's
+-- final progress and rank, and mark the challenge completed. Signed-in
+-- users finalise their own challenges; a scheduled job with no user
+-- finalises all of them. Returns how many challenges were finalised
+CREATE OR REPLACE FUNCTION public.finalize_challenges()
+RETURNS INTEGER AS $$
+DECLARE
+  finalized_count INTEGER;
+BEGIN
+  WITH ended AS (
+    SELECT id FROM public.challenges
+    WHERE status = 'active'
+      AND ends_at <= now()
+      AND (auth.uid() IS NULL OR public.is_challenge_member(id))
+    FOR UPDATE
+  ),
+  results AS (
+    SELECT
+      p.challenge_id,
+      p.user_id,
+      public.challenge_progress(p.challenge_id, p.user_id) AS progress
+    FROM public.challenge_participants p
+    JOIN ended e ON e.id = p.challenge_id
+    WHERE p.status = 'joined'
+  ),
+  ranked AS (
+    SELECT *, RANK() OVER (
+      PARTITION BY challenge_id ORDER BY progress DESC
+    ) AS final_rank
+    FROM results
+  ),
+  saved AS (
+    UPDATE public.challenge_participants p
+    SET final_progress = r.progress, final_rank = r.final_rank
+    FROM ranked r
+    WHERE p.challenge_id = r.challenge_id AND p.user_id = r.user_id
+  )
+  UPDATE public.challenges
+  SET status = 'completed', finalized_at = now()
+  WHERE id IN (SELECT id FROM ended);
+
+  GET DIAGNOSTICS finalized_count = ROW_COUNT;
+  RETURN finalized_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execution permissions for challenge functions
+GRANT EXECUTE ON FUNCTION public.create_challenge(TEXT, TEXT, TEXT, NUMERIC, TIMESTAMP WITH TIME ZONE, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.invite_to_challenge(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.join_challenge(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_challenge(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_challenge_leaderboard(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.finalize_challenges() TO authenticated;
+
+-- Who a copied workout originally came from. The author stays the same
+-- when a copy is copied again
+ALTER TABLE public.workout_history
+  ADD COLUMN IF NOT EXISTS source_author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS source_workout_id UUID REFERENCES public.workout_history(id) ON DELETE SET NULL;
+
+-- Create shared_workouts table for workouts sent to a friend's inbox.
+-- The workout is copied when it is sent, so the share keeps working if
+-- the sender edits or deletes theirs
+CREATE TABLE IF NOT EXISTS public.shared_workouts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sender_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  recipient_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  source_workout_id UUID REFERENCES public.workout_history(id) ON DELETE SET NULL,
+  workout_type TEXT NOT NULL,
+  time_available TEXT NOT NULL,
+  mood TEXT NOT NULL,
+  muscle_focus TEXT NOT NULL,
+  equipment TEXT NOT NULL,
+  workout_data JSONB NOT NULL,
+  message TEXT CHECK (char_length(message) <= 280),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'saved', 'dismissed')),
+  saved_workout_id UUID REFERENCES public.workout_history(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  CHECK (sender_id <> recipient_id)
+);
+
+CREATE INDEX IF NOT EXISTS shared_workouts_recipient_id_idx
+  ON public.shared_workouts(recipient_id, status);
+
+-- Create RLS policies for shared_workouts: shares are sent through
+-- share_workout() below, and only the recipient can respond to them
+ALTER TABLE public.shared_workouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see workouts shared with or by them" ON public.shared_workouts
+  FOR SELECT USING (auth.uid() = sender_id OR auth.uid() = recipient_id);
+
+CREATE POLICY "Recipients can respond to shared workouts" ON public.shared_workouts
+  FOR UPDATE USING (auth.uid() = recipient_id)
+  WITH CHECK (auth.uid() = recipient_id);
+
+GRANT SELECT ON public.shared_workouts TO authenticated;
+GRANT UPDATE (status, saved_workout_id, responded_at) ON public.shared_workouts TO authenticated;
+
+-- Function to send one of the user's workouts, or a friend's workout they
+-- can see, to a friend
+CREATE OR REPLACE FUNCTION public.share_workout(
+  p_workout_id UUID,
+  p_recipient_id UUID,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  workout RECORD;
+  new_share_id UUID;
+BEGIN
+  IF p_recipient_id = auth.uid() OR NOT public.is_self_or_friend(p_recipient_id) THEN
+    RAISE EXCEPTION 'Workouts can only be shared with friends';
+  END IF;
+
+  SELECT * INTO workout
+  FROM public.workout_history
+  WHERE id = p_workout_id AND public.is_self_or_friend(user_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout not found or not authorized';
+  END IF;
+
+  INSERT INTO public.shared_workouts (
+    sender_id, recipient_id, author_id, source_workout_id, workout_type,
+    time_available, mood, muscle_focus, equipment, workout_data, message
+  )
+  VALUES (
+    auth.uid(), p_recipient_id,
+    COALESCE(workout.source_author_id, workout.user_id), workout.id,
+    workout.workout_type, workout.time_available, workout.mood,
+    workout.muscle_focus, workout.equipment, workout.workout_data,
+    NULLIF(trim(p_message), '')
+  )
+  RETURNING id INTO new_share_id;
+
+  RETURN new_share_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.share_workout(UUID, UUID, TEXT) TO authenticated;
+
+-- Function to search users by username, best matches first: exact
+-- matches, then names starting with the query, then names containing it.
+-- Each match says how it relates to the signed-in user so the app can
+-- offer the right action
+CREATE OR REPLACE FUNCTION public.search_users(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  sex TEXT,
+  date_of_birth DATE,
+  fitness_goals TEXT,
+  profile_picture_url TEXT,
+  relationship TEXT,
+  request_id UUID
+) AS $$
+  WITH search AS (
+    SELECT
+      lower(trim(p_query)) AS term,
+      -- Match % and _ in the query literally
+      replace(replace(replace(lower(trim(p_query)), '\', '\\'), '%', '\%'), '_', '\_') AS pattern
+  )
+  SELECT
+    p.id,
+    p.username,
+    p.sex,
+    p.date_of_birth,
+    p.fitness_goals,
+    p.profile_picture_url,
+    CASE
+      WHEN f.id IS NOT NULL THEN 'friend'
+      WHEN received.id IS NOT NULL THEN 'request_received'
+      WHEN sent.id IS NOT NULL THEN 'request_sent'
+      ELSE 'none'
+    END,
+    received.id
+  FROM public.profiles p
+  CROSS JOIN search s
+  LEFT JOIN public.friendships f
+    ON f.user_id = auth.uid() AND f.friend_id = p.id
+  LEFT JOIN public.friend_requests received
+    ON received.sender_id = p.id
+   AND received.receiver_id = auth.uid()
+   AND received.status = 'pending'
+  LEFT JOIN public.friend_requests sent
+    ON sent.sender_id = auth.uid()
+   AND sent.receiver_id = p.id
+   AND sent.status = 'pending'
+  WHERE p.id <> auth.uid()
+    AND s.term <> ''
+    AND lower(p.username) LIKE '%' || s.pattern || '%'
+  ORDER BY
+    CASE
+      WHEN lower(p.username) = s.term THEN 0
+      WHEN lower(p.username) LIKE s.pattern || '%' THEN 1
+      ELSE 2
+    END,
+    length(p.username),
+    lower(p.username)
+  LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_users(TEXT, INTEGER, INTEGER) TO authenticated;
+
+-- Create user_blocks table. Blocking someone ends any friendship and
+-- pending requests between the two users, stops new ones, and hides the
+-- blocker from the blocked user's search results
+CREATE TABLE IF NOT EXISTS public.user_blocks (
+  blocker_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  blocked_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_blocks_blocked_id_idx
+  ON public.user_blocks(blocked_id);
+
+-- Create RLS policies for user_blocks: users only see who they blocked.
+-- Blocks are added and removed through block_user() and unblock_user()
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see who they blocked" ON public.user_blocks
+  FOR SELECT USING (auth.uid() = blocker_id);
+
+GRANT SELECT ON public.user_blocks TO authenticated;
+
+-- Whether either user has blocked the other
+CREATE OR REPLACE FUNCTION public.is_blocked_between(user_a UUID, user_b UUID)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_blocks
+    WHERE (blocker_id = user_a AND blocked_id = user_b)
+       OR (blocker_id = user_b AND blocked_id = user_a)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.is_blocked_between(UUID, UUID) TO authenticated;
+
+-- Blocked users can't send each other friend requests or become friends
+CREATE POLICY "No friend requests between blocked users" ON public.friend_requests
+  AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_blocked_between(sender_id, receiver_id));
+
+CREATE POLICY "No friendships between blocked users" ON public.friendships
+  AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_blocked_between(user_id, friend_id));
+
+-- Function to block a user
+CREATE OR REPLACE FUNCTION public.block_user(p_user_id UUID)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL OR p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Cannot block this user';
+  END IF;
+
+  INSERT INTO public.user_blocks (blocker_id, blocked_id)
+  VALUES (auth.uid(), p_user_id)
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.friendships
+  WHERE (user_id = auth.uid() AND friend_id = p_user_id)
+     OR (user_id = p_user_id AND friend_id = auth.uid());
+
+  -- Deleting rather than declining lets them reconnect after an unblock
+  DELETE FROM public.friend_requests
+  WHERE (sender_id = auth.uid() AND receiver_id = p_user_id)
+     OR (sender_id = p_user_id AND receiver_id = auth.uid());
+
+  UPDATE public.shared_workouts
+  SET status = 'dismissed', responded_at = now()
+  WHERE status = 'pending'
+    AND ((sender_id = auth.uid() AND recipient_id = p_user_id)
+      OR (sender_id = p_user_id AND recipient_id = auth.uid()));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to unblock a user. Friendships ended by the block stay ended
+CREATE OR REPLACE FUNCTION public.unblock_user(p_user_id UUID)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM public.user_blocks
+  WHERE blocker_id = auth.uid() AND blocked_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.block_user(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unblock_user(UUID) TO authenticated;
+
+-- Accepting a friend request also has to respect blocks, since the
+-- function bypasses RLS
+CREATE OR REPLACE FUNCTION public.accept_friend_request(request_id UUID)
+RETURNS void AS $$
+DECLARE
+  req_record RECORD;
+BEGIN
+  -- Get the friend request
+  SELECT sender_id, receiver_id INTO req_record
+  FROM public.friend_requests
+  WHERE id = request_id AND receiver_id = auth.uid() AND status = 'pending';
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Friend request not found or not authorized';
+  END IF;
+
+  IF public.is_blocked_between(req_record.sender_id, req_record.receiver_id) THEN
+    RAISE EXCEPTION 'Friend request not found or not authorized';
+  END IF;
+  
+  -- Update request status
+  UPDATE public.friend_requests
+  SET status = 'accepted', updated_at = now()
+  WHERE id = request_id;
+  
+  -- Create bidirectional friendship
+  INSERT INTO public.friendships (user_id, friend_id)
+  VALUES (req_record.receiver_id, req_record.sender_id);
+  
+  INSERT INTO public.friendships (user_id, friend_id)
+  VALUES (req_record.sender_id, req_record.receiver_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Search leaves out users who blocked the signed-in user, and labels the
+-- users they blocked
+CREATE OR REPLACE FUNCTION public.search_users(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  sex TEXT,
+  date_of_birth DATE,
+  fitness_goals TEXT,
+  profile_picture_url TEXT,
+  relationship TEXT,
+  request_id UUID
+) AS $$
+  WITH search AS (
+    SELECT
+      lower(trim(p_query)) AS term,
+      -- Match % and _ in the query literally
+      replace(replace(replace(lower(trim(p_query)), '\', '\\'), '%', '\%'), '_', '\_') AS pattern
+  )
+  SELECT
+    p.id,
+    p.username,
+    p.sex,
+    p.date_of_birth,
+    p.fitness_goals,
+    p.profile_picture_url,
+    CASE
+      WHEN b.blocked_id IS NOT NULL THEN 'blocked'
+      WHEN f.id IS NOT NULL THEN 'friend'
+      WHEN received.id IS NOT NULL THEN 'request_received'
+      WHEN sent.id IS NOT NULL THEN 'request_sent'
+      ELSE 'none'
+    END,
+    received.id
+  FROM public.profiles p
+  CROSS JOIN search s
+  LEFT JOIN public.user_blocks b
+    ON b.blocker_id = auth.uid() AND b.blocked_id = p.id
+  LEFT JOIN public.friendships f
+    ON f.user_id = auth.uid() AND f.friend_id = p.id
+  LEFT JOIN public.friend_requests received
+    ON received.sender_id = p.id
+   AND received.receiver_id = auth.uid()
+   AND received.status = 'pending'
+  LEFT JOIN public.friend_requests sent
+    ON sent.sender_id = auth.uid()
+   AND sent.receiver_id = p.id
+   AND sent.status = 'pending'
+  WHERE p.id <> auth.uid()
+    AND s.term <> ''
+    AND lower(p.username) LIKE '%' || s.pattern || '%'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_blocks
+      WHERE blocker_id = p.id AND blocked_id = auth.uid()
+    )
+  ORDER BY
+    CASE
+      WHEN lower(p.username) = s.term THEN 0
+      WHEN lower(p.username) LIKE s.pattern || '%' THEN 1
+      ELSE 2
+    END,
+    length(p.username),
+    lower(p.username)
+  LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Create user_reports table for reports of harassment or abuse, with
+-- where it happened so moderators can find it
+CREATE TABLE IF NOT EXISTS public.user_reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reporter_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reported_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL CHECK (
+    reason IN ('harassment', 'spam', 'inappropriate', 'impersonation', 'other')
+  ),
+  details TEXT CHECK (char_length(details) <= 1000),
+  context TEXT NOT NULL CHECK (
+    context IN ('profile', 'search', 'friend_request', 'activity', 'comment', 'shared_workout')
+  ),
+  -- The comment, activity or shared workout being reported, if any
+  context_id UUID,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewed', 'dismissed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (reporter_id <> reported_id)
+);
+
+-- Create RLS policies for user_reports: users can file reports and see
+-- their own. Reviewing them happens outside the app
+ALTER TABLE public.user_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can report other users" ON public.user_reports
+  FOR INSERT WITH CHECK (auth.uid() = reporter_id AND status = 'open');
+
+CREATE POLICY "Users can see their own reports" ON public.user_reports
+  FOR SELECT USING (auth.uid() = reporter_id);
+
+GRANT SELECT, INSERT ON public.user_reports TO authenticated;
+
+-- Who can see each group of profile fields: 'only_me', 'friends' or
+-- 'everyone'. Body metrics are sex, height and weight; age is the date of
+-- birth. Fitness level and injuries are never shown to anyone else
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS body_metrics_visibility TEXT NOT NULL DEFAULT 'friends'
+    CHECK (body_metrics_visibility IN ('only_me', 'friends', 'everyone')),
+  ADD COLUMN IF NOT EXISTS age_visibility TEXT NOT NULL DEFAULT 'friends'
+    CHECK (age_visibility IN ('only_me', 'friends', 'everyone')),
+  ADD COLUMN IF NOT EXISTS goals_visibility TEXT NOT NULL DEFAULT 'friends'
+    CHECK (goals_visibility IN ('only_me', 'friends', 'everyone')),
+  ADD COLUMN IF NOT EXISTS workout_history_visibility TEXT NOT NULL DEFAULT 'friends'
+    CHECK (workout_history_visibility IN ('only_me', 'friends', 'everyone'));
+
+-- Whether the signed-in user may see a field of another user's profile
+-- with the given visibility
+CREATE OR REPLACE FUNCTION public.can_view_profile_field(
+  owner_id UUID,
+  visibility TEXT
+)
+RETURNS boolean AS $$
+  SELECT owner_id = auth.uid()
+    OR visibility = 'everyone'
+    OR (visibility = 'friends' AND public.is_self_or_friend(owner_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether the signed-in user may see a user's workouts
+CREATE OR REPLACE FUNCTION public.can_view_workout_history(owner_id UUID)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = owner_id
+      AND public.can_view_profile_field(id, workout_history_visibility)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.can_view_profile_field(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.can_view_workout_history(UUID) TO anon, authenticated;
+
+-- Other users' profiles are read through public_profiles, which hides the
+-- fields their privacy settings don't allow. The table itself is now only
+-- readable by its owner
+DROP POLICY IF EXISTS "Users can search profiles" ON public.profiles;
+
+-- The view runs with its owner's rights so it can read every profile;
+-- security_barrier keeps filters from seeing the masked values
+CREATE OR REPLACE VIEW public.public_profiles
+WITH (security_barrier) AS
+SELECT
+  p.id,
+  p.username,
+  p.profile_picture_url,
+  p.created_at,
+  CASE WHEN public.can_view_profile_field(p.id, p.body_metrics_visibility)
+    THEN p.sex END AS sex,
+  CASE WHEN public.can_view_profile_field(p.id, p.body_metrics_visibility)
+    THEN p.weight END AS weight,
+  CASE WHEN public.can_view_profile_field(p.id, p.body_metrics_visibility)
+    THEN p.weight_unit END AS weight_unit,
+  CASE WHEN public.can_view_profile_field(p.id, p.body_metrics_visibility)
+    THEN p.height END AS height,
+  CASE WHEN public.can_view_profile_field(p.id, p.body_metrics_visibility)
+    THEN p.height_unit END AS height_unit,
+  CASE WHEN public.can_view_profile_field(p.id, p.age_visibility)
+    THEN p.date_of_birth END AS date_of_birth,
+  CASE WHEN public.can_view_profile_field(p.id, p.goals_visibility)
+    THEN p.fitness_goals END AS fitness_goals,
+  -- Field groups hidden from the signed-in user, so the app can say a
+  -- field is private rather than not set
+  array_remove(ARRAY[
+    CASE WHEN NOT public.can_view_profile_field(p.id, p.body_metrics_visibility)
+      THEN 'body_metrics' END,
+    CASE WHEN NOT public.can_view_profile_field(p.id, p.age_visibility)
+      THEN 'age' END,
+    CASE WHEN NOT public.can_view_profile_field(p.id, p.goals_visibility)
+      THEN 'goals' END,
+    CASE WHEN NOT public.can_view_profile_field(p.id, p.workout_history_visibility)
+      THEN 'workout_history' END
+  ], NULL) AS hidden_fields
+FROM public.profiles p;
+
+GRANT SELECT ON public.public_profiles TO anon, authenticated;
+
+-- Workouts, their sets and feed activity follow the workout history setting
+DROP POLICY IF EXISTS "Friends can see workout history" ON public.workout_history;
+
+CREATE POLICY "Users can see workout history they're allowed to" ON public.workout_history
+  FOR SELECT USING (public.can_view_workout_history(user_id));
+
+DROP POLICY IF EXISTS "Friends can see workout sets" ON public.workout_sets;
+
+CREATE POLICY "Users can see workout sets they're allowed to" ON public.workout_sets
+  FOR SELECT USING (public.can_view_workout_history(user_id));
+
+DROP POLICY IF EXISTS "Friends can see activity" ON public.activity_events;
+
+CREATE POLICY "Friends can see activity" ON public.activity_events
+  FOR SELECT USING (
+    public.is_self_or_friend(user_id)
+    AND public.can_view_workout_history(user_id)
+  );
+
+-- Search results show only the fields each user lets the searcher see
+CREATE OR REPLACE FUNCTION public.search_users(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  sex TEXT,
+  date_of_birth DATE,
+  fitness_goals TEXT,
+  profile_picture_url TEXT,
+  relationship TEXT,
+  request_id UUID
+) AS $$
+  WITH search AS (
+    SELECT
+      lower(trim(p_query)) AS term,
+      -- Match % and _ in the query literally
+      replace(replace(replace(lower(trim(p_query)), '\', '\\'), '%', '\%'), '_', '\_') AS pattern
+  )
+  SELECT
+    p.id,
+    p.username,
+    p.sex,
+    p.date_of_birth,
+    p.fitness_goals,
+    p.profile_picture_url,
+    CASE
+      WHEN b.blocked_id IS NOT NULL THEN 'blocked'
+      WHEN f.id IS NOT NULL THEN 'friend'
+      WHEN received.id IS NOT NULL THEN 'request_received'
+      WHEN sent.id IS NOT NULL THEN 'request_sent'
+      ELSE 'none'
+    END,
+    received.id
+  FROM public.public_profiles p
+  CROSS JOIN search s
+  LEFT JOIN public.user_blocks b
+    ON b.blocker_id = auth.uid() AND b.blocked_id = p.id
+  LEFT JOIN public.friendships f
+    ON f.user_id = auth.uid() AND f.friend_id = p.id
+  LEFT JOIN public.friend_requests received
+    ON received.sender_id = p.id
+   AND received.receiver_id = auth.uid()
+   AND received.status = 'pending'
+  LEFT JOIN public.friend_requests sent
+    ON sent.sender_id = auth.uid()
+   AND sent.receiver_id = p.id
+   AND sent.status = 'pending'
+  WHERE p.id <> auth.uid()
+    AND s.term <> ''
+    AND lower(p.username) LIKE '%' || s.pattern || '%'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_blocks
+      WHERE blocker_id = p.id AND blocked_id = auth.uid()
+    )
+  ORDER BY
+    CASE
+      WHEN lower(p.username) = s.term THEN 0
+      WHEN lower(p.username) LIKE s.pattern || '%' THEN 1
+      ELSE 2
+    END,
+    length(p.username),
+    lower(p.username)
+  LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Create body_measurements table so weight and body composition keep a
+-- history instead of being overwritten on the profile. Each row stores the
+-- units it was logged in
+CREATE TABLE IF NOT EXISTS public.body_measurements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  measured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  weight NUMERIC CHECK (weight > 0),
+  weight_unit TEXT NOT NULL DEFAULT 'kg' CHECK (weight_unit IN ('kg', 'lb')),
+  body_fat_percentage NUMERIC CHECK (body_fat_percentage > 0 AND body_fat_percentage < 100),
+  waist NUMERIC CHECK (waist > 0),
+  hip NUMERIC CHECK (hip > 0),
+  chest NUMERIC CHECK (chest > 0),
+  arm NUMERIC CHECK (arm > 0),
+  -- Unit of the circumferences
+  length_unit TEXT NOT NULL DEFAULT 'cm' CHECK (length_unit IN ('cm', 'in')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (COALESCE(weight, body_fat_percentage, waist, hip, chest, arm) IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS body_measurements_user_id_measured_at_idx
+  ON public.body_measurements(user_id, measured_at DESC);
+
+-- Create RLS policies for body_measurements. Measurement history is only
+-- visible to its owner, whatever their privacy settings
+ALTER TABLE public.body_measurements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own measurements" ON public.body_measurements
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own measurements" ON public.body_measurements
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own measurements" ON public.body_measurements
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own measurements" ON public.body_measurements
+  FOR DELETE USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.body_measurements TO authenticated;
+
+-- Function to log a measurement whenever the weight on a profile is set or
+-- changed in profile setup, so those edits show up in the history too
+CREATE OR REPLACE FUNCTION public.record_profile_weight()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.weight IS NOT NULL
+    AND (TG_OP = 'INSERT'
+      OR NEW.weight IS DISTINCT FROM OLD.weight
+      OR NEW.weight_unit IS DISTINCT FROM OLD.weight_unit) THEN
+    INSERT INTO public.body_measurements (user_id, weight, weight_unit)
+    VALUES (NEW.id, NEW.weight, COALESCE(NEW.weight_unit, 'kg'));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE TRIGGER on_profile_weight_changed
+  AFTER INSERT OR UPDATE OF weight, weight_unit ON public.profiles
+  FOR EACH ROW EXECUTE PROCEDURE public.record_profile_weight();
+
+-- Start each existing profile's history with the weight it has now
+INSERT INTO public.body_measurements (user_id, measured_at, weight, weight_unit)
+SELECT p.id, COALESCE(p.updated_at, now()), p.weight, COALESCE(p.weight_unit, 'kg')
+FROM public.profiles p
+WHERE p.weight IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.body_measurements m WHERE m.user_id = p.id
+  );
+
+-- Store every measurement in metric base units: kilograms for body weight
+-- and loads, centimetres for height and circumferences. The app converts
+-- to the unit system each user picks, so the per-row unit columns go away
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS unit_system TEXT NOT NULL DEFAULT 'metric'
+    CHECK (unit_system IN ('metric', 'imperial'));
+
+-- Replace the triggers that read the unit columns before dropping them
+CREATE OR REPLACE FUNCTION public.record_profile_weight()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.weight IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.weight IS DISTINCT FROM OLD.weight) THEN
+    INSERT INTO public.body_measurements (user_id, weight)
+    VALUES (NEW.id, NEW.weight);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE TRIGGER on_profile_weight_changed
+  AFTER INSERT OR UPDATE OF weight ON public.profiles
+  FOR EACH ROW EXECUTE PROCEDURE public.record_profile_weight();
+
+CREATE OR REPLACE FUNCTION public.record_personal_record()
+RETURNS TRIGGER AS $$
+DECLARE
+  exercise_key TEXT;
+  previous_kg NUMERIC;
+BEGIN
+  IF NEW.weight IS NULL OR NEW.skipped THEN
+    RETURN NEW;
+  END IF;
+
+  exercise_key := COALESCE(NEW.catalog_id, lower(NEW.exercise_name));
+
+  SELECT MAX(weight) INTO previous_kg
+  FROM public.workout_sets
+  WHERE user_id = NEW.user_id
+    AND workout_id <> NEW.workout_id
+    AND NOT skipped
+    AND weight IS NOT NULL
+    AND COALESCE(catalog_id, lower(exercise_name)) = exercise_key;
+
+  -- The first time an exercise is logged isn't a record yet
+  IF previous_kg IS NULL OR NEW.weight <= previous_kg THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.activity_events (user_id, type, workout_id, data)
+  VALUES (
+    NEW.user_id,
+    'personal_record',
+    NEW.workout_id,
+    jsonb_build_object(
+      'exercise_key', exercise_key,
+      'exercise_name', NEW.exercise_name,
+      'weight_kg', round(NEW.weight, 2),
+      'reps', NEW.reps_performed,
+      'previous_kg', round(previous_kg, 2)
+    )
+  )
+  ON CONFLICT (workout_id, (data->>'exercise_key'))
+    WHERE type = 'personal_record'
+  DO UPDATE SET data = EXCLUDED.data
+    WHERE (EXCLUDED.data->>'weight_kg')::numeric >
+      (activity_events.data->>'weight_kg')::numeric;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE TRIGGER on_workout_set_logged
+  AFTER INSERT OR UPDATE OF weight, skipped
+  ON public.workout_sets
+  FOR EACH ROW EXECUTE PROCEDURE public.record_personal_record();
+
+-- Convert imperial values, keeping the user's choice as their unit system.
+-- The weight update is logged by record_profile_weight, so pause it
+ALTER TABLE public.profiles DISABLE TRIGGER on_profile_weight_changed;
+
+UPDATE public.profiles
+SET unit_system = 'imperial'
+WHERE weight_unit = 'lb' OR height_unit = 'in';
+
+UPDATE public.profiles
+SET weight = round(weight * 0.45359237, 2)
+WHERE weight_unit = 'lb' AND weight IS NOT NULL;
+
+UPDATE public.profiles
+SET height = round(height * 2.54, 1)
+WHERE height_unit = 'in' AND height IS NOT NULL;
+
+ALTER TABLE public.profiles ENABLE TRIGGER on_profile_weight_changed;
+
+UPDATE public.body_measurements
+SET weight = round(weight * 0.45359237, 2)
+WHERE weight_unit = 'lb' AND weight IS NOT NULL;
+
+UPDATE public.body_measurements
+SET
+  waist = round(waist * 2.54, 1),
+  hip = round(hip * 2.54, 1),
+  chest = round(chest * 2.54, 1),
+  arm = round(arm * 2.54, 1)
+WHERE length_unit = 'in';
+
+UPDATE public.workout_sets
+SET weight = round(weight * 0.45359237, 2)
+WHERE weight_unit = 'lb' AND weight IS NOT NULL;
+
+-- public_profiles exposes the unit columns, so it is rebuilt without them
+DROP VIEW IF EXISTS public.public_profiles;
+
+ALTER TABLE public.profiles
+  DROP COLUMN IF EXISTS weight_unit,
+  DROP COLUMN IF EXISTS height_unit;
+
+ALTER TABLE public.body_measurements
+  DROP COLUMN IF EXISTS weight_unit,
+  DROP COLUMN IF EXISTS length_unit;
+
+ALTER TABLE public.workout_sets
+  DROP COLUMN IF EXISTS weight_unit;
+
+COMMENT ON COLUMN public.profiles.weight IS 'Body weight in kg';
+COMMENT ON COLUMN public.profiles.height IS 'Height in cm';
+COMMENT ON COLUMN public.body_measurements.weight IS 'Body weight in kg';
+COMMENT ON COLUMN public.workout_sets.weight IS 'Load in kg';
+
+CREATE OR REPLACE VIEW public.public_profiles
+WITH (security_barrier) AS
+SELECT
+  p.id,
+  p.username,
+  p.profile_picture_url,
+  p.created_at,
+  CASE WHEN public.can_view_profile_field(p.id, p.body_metrics_visibility)
+    THEN p.sex END AS sex,
+  CASE WHEN public.can_view_profile_field(p.id, p.body_metrics_visibility)
+    THEN p.weight END AS weight,
+  CASE WHEN public.can_view_profile_field(p.id, p.body_metrics_visibility)
+    THEN p.height END AS height,
+  CASE WHEN public.can_view_profile_field(p.id, p.age_visibility)
+    THEN p.date_of_birth END AS date_of_birth,
+  CASE WHEN public.can_view_profile_field(p.id, p.goals_visibility)
+    THEN p.fitness_goals END AS fitness_goals,
+  -- Field groups hidden from the signed-in user, so the app can say a
+  -- field is private rather than not set
+  array_remove(ARRAY[
+    CASE WHEN NOT public.can_view_profile_field(p.id, p.body_metrics_visibility)
+      THEN 'body_metrics' END,
+    CASE WHEN NOT public.can_view_profile_field(p.id, p.age_visibility)
+      THEN 'age' END,
+    CASE WHEN NOT public.can_view_profile_field(p.id, p.goals_visibility)
+      THEN 'goals' END,
+    CASE WHEN NOT public.can_view_profile_field(p.id, p.workout_history_visibility)
+      THEN 'workout_history' END
+  ], NULL) AS hidden_fields
+FROM public.profiles p;
+
+GRANT SELECT ON public.public_profiles TO anon, authenticated;
+
+-- Reactions, comments and shared workouts follow the workout history
+-- setting as well, so a private history can't be reached through them
+DROP POLICY IF EXISTS "Friends can see reactions" ON public.activity_reactions;
+DROP POLICY IF EXISTS "Friends can react to activity" ON public.activity_reactions;
+DROP POLICY IF EXISTS "Friends can see comments" ON public.activity_comments;
+DROP POLICY IF EXISTS "Friends can comment on activity" ON public.activity_comments;
+
+CREATE POLICY "Friends can see reactions" ON public.activity_reactions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.activity_events
+      WHERE id = activity_reactions.activity_id
+        AND public.is_self_or_friend(activity_events.user_id)
+        AND public.can_view_workout_history(activity_events.user_id)
+    )
+  );
+
+CREATE POLICY "Friends can react to activity" ON public.activity_reactions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.activity_events
+      WHERE id = activity_reactions.activity_id
+        AND public.is_self_or_friend(activity_events.user_id)
+        AND public.can_view_workout_history(activity_events.user_id)
+    )
+  );
+
+CREATE POLICY "Friends can see comments" ON public.activity_comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.activity_events
+      WHERE id = activity_comments.activity_id
+        AND public.is_self_or_friend(activity_events.user_id)
+        AND public.can_view_workout_history(activity_events.user_id)
+    )
+  );
+
+CREATE POLICY "Friends can comment on activity" ON public.activity_comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.activity_events
+      WHERE id = activity_comments.activity_id
+        AND public.is_self_or_friend(activity_events.user_id)
+        AND public.can_view_workout_history(activity_events.user_id)
+    )
+  );
+
+-- Function to send one of the user's workouts, or a friend's workout
+-- their privacy settings let them see, to a friend
+CREATE OR REPLACE FUNCTION public.share_workout(
+  p_workout_id UUID,
+  p_recipient_id UUID,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  workout RECORD;
+  new_share_id UUID;
+BEGIN
+  IF p_recipient_id = auth.uid() OR NOT public.is_self_or_friend(p_recipient_id) THEN
+    RAISE EXCEPTION 'Workouts can only be shared with friends';
+  END IF;
+
+  SELECT * INTO workout
+  FROM public.workout_history
+  WHERE id = p_workout_id
+    AND public.is_self_or_friend(user_id)
+    AND public.can_view_workout_history(user_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout not found or not authorized';
+  END IF;
+
+  INSERT INTO public.shared_workouts (
+    sender_id, recipient_id, author_id, source_workout_id, workout_type,
+    time_available, mood, muscle_focus, equipment, workout_data, message
+  )
+  VALUES (
+    auth.uid(), p_recipient_id,
+    COALESCE(workout.source_author_id, workout.user_id), workout.id,
+    workout.workout_type, workout.time_available, workout.mood,
+    workout.muscle_focus, workout.equipment, workout.workout_data,
+    NULLIF(trim(p_message), '')
+  )
+  RETURNING id INTO new_share_id;
+
+  RETURN new_share_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Sets can only be moved to workouts the user owns, like when inserting
+DROP POLICY IF EXISTS "Users can update their own workout sets" ON public.workout_sets;
+
+CREATE POLICY "Users can update their own workout sets" ON public.workout_sets
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.workout_history
+      WHERE id = workout_sets.workout_id AND user_id = auth.uid()
+    )
+  );
+
+-- The feed pages through events by created_at with the id breaking ties
+CREATE INDEX IF NOT EXISTS activity_events_created_at_id_idx
+  ON public.activity_events(created_at DESC, id DESC);
+
+-- When a workout was first completed, set by the server so it can't be
+-- backdated. Workouts completed before this column existed use the time
+-- they were generated: updated_at can't stand in for it, since rows that
+-- existed when it was added all got that migration's time as a default
+ALTER TABLE public.workout_history
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.workout_history
+SET completed_at = created_at
+WHERE completed AND completed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS workout_history_completed_at_idx
+  ON public.workout_history(user_id, completed_at);
+
+-- Stamp completed_at the first time a workout is completed. Values sent by
+-- the client are ignored, and completing a workout again keeps the
+-- original time
+CREATE OR REPLACE FUNCTION public.set_workout_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.completed_at := CASE WHEN NEW.completed THEN now() END;
+  ELSE
+    NEW.completed_at := COALESCE(
+      OLD.completed_at,
+      CASE WHEN NEW.completed THEN now() END
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER on_workout_completed_at
+  BEFORE INSERT OR UPDATE ON public.workout_history
+  FOR EACH ROW EXECUTE PROCEDURE public.set_workout_completed_at();
+
+-- A participant's progress: workouts completed, or their minutes, within
+-- the challenge's dates and of its workout type
+CREATE OR REPLACE FUNCTION public.challenge_progress(
+  p_challenge_id UUID,
+  p_user_id UUID
+)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(
+    CASE c.metric
+      WHEN 'minutes' THEN SUM(public.workout_minutes(w.workout_data, w.time_available))
+      ELSE COUNT(w.id)::numeric
+    END,
+    0
+  )
+  FROM public.challenges c
+  LEFT JOIN public.workout_history w
+    ON w.user_id = p_user_id
+   AND w.completed
+   AND w.completed_at >= c.starts_at
+   AND w.completed_at < c.ends_at
+   AND (c.workout_type IS NULL OR w.workout_type = c.workout_type)
+  WHERE c.id = p_challenge_id
+  GROUP BY c.metric;
+$$ LANGUAGE sql STABLE;
+
+-- Workouts are also copied into original_workout_data, program sessions and
+-- shared workouts, so move those to schema version 2 the same way
+CREATE OR REPLACE FUNCTION public.migrate_workout_blocks(workout JSONB)
+RETURNS JSONB AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(workout -> 'exercises') = 'array'
+      AND NOT workout ? 'schemaVersion'
+    THEN workout || jsonb_build_object(
+      'schemaVersion', 2,
+      'blocks', COALESCE(
+        (
+          SELECT jsonb_agg(
+            jsonb_build_object(
+              'type', 'straight',
+              'exerciseIndexes', jsonb_build_array(exercise.ordinality - 1)
+            )
+            ORDER BY exercise.ordinality
+          )
+          FROM jsonb_array_elements(workout -> 'exercises')
+            WITH ORDINALITY AS exercise(value, ordinality)
+        ),
+        '[]'::jsonb
+      )
+    )
+    ELSE workout
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE public.workout_history
+SET original_workout_data =
+  public.migrate_workout_blocks(original_workout_data)
+WHERE jsonb_typeof(original_workout_data -> 'exercises') = 'array'
+  AND NOT original_workout_data ? 'schemaVersion';
+
+UPDATE public.program_sessions
+SET workout_data = public.migrate_workout_blocks(workout_data)
+WHERE jsonb_typeof(workout_data -> 'exercises') = 'array'
+  AND NOT workout_data ? 'schemaVersion';
+
+UPDATE public.shared_workouts
+SET workout_data = public.migrate_workout_blocks(workout_data)
+WHERE jsonb_typeof(workout_data -> 'exercises') = 'array'
+  AND NOT workout_data ? 'schemaVersion';
+
+-- Date streak milestones by when workouts were completed, the same days the
+-- stats screen counts, rather than when they were generated
+CREATE OR REPLACE FUNCTION public.record_workout_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  streak_days INTEGER;
+BEGIN
+  IF NOT NEW.completed OR (TG_OP = 'UPDATE' AND OLD.completed) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.activity_events (user_id, type, workout_id, data)
+  VALUES (
+    NEW.user_id,
+    'workout_completed',
+    NEW.id,
+    jsonb_build_object(
+      'title', NEW.workout_data->>'title',
+      'workout_type', NEW.workout_type,
+      'total_time', NEW.workout_data->>'totalTime',
+      'rating', NEW.rating
+    )
+  );
+
+  -- Days in a row with a completed workout, up to this workout's day
+  WITH days AS (
+    SELECT DISTINCT completed_at::date AS day
+    FROM public.workout_history
+    WHERE user_id = NEW.user_id AND completed AND completed_at IS NOT NULL
+  ),
+  numbered AS (
+    SELECT day, day + (ROW_NUMBER() OVER (ORDER BY day DESC))::int AS run
+    FROM days
+  )
+  SELECT COUNT(*) INTO streak_days
+  FROM numbered
+  WHERE run = (SELECT run FROM numbered WHERE day = NEW.completed_at::date);
+
+  IF streak_days IN (3, 7, 14, 30, 50, 100, 365) AND NOT EXISTS (
+    SELECT 1 FROM public.activity_events
+    WHERE user_id = NEW.user_id
+      AND type = 'streak_milestone'
+      AND (data->>'days')::int = streak_days
+      AND created_at > now() - interval '2 days'
+  ) THEN
+    INSERT INTO public.activity_events (user_id, type, workout_id, data)
+    VALUES (
+      NEW.user_id,
+      'streak_milestone',
+      NEW.id,
+      jsonb_build_object('days', streak_days)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
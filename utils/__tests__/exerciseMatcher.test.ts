@@ -0,0 +1,180 @@
+import {
+  matchExercise,
+  MATCH_CONFIDENCE_THRESHOLD,
+  rankExerciseMatches,
+  resolveExerciseId,
+  tokenizeExerciseName,
+} from "../exerciseMatcher";
+
+// Exercise names as the model actually writes them, and the catalog
+// exercise each one should resolve to
+const MODEL_OUTPUTS: [string, string][] = [
+  ["Push-Ups", "Push-up"],
+  ["pushups", "Push-up"],
+  ["Incline Push-ups", "Incline Push-up"],
+  ["Decline pushup", "Decline Push-up"],
+  ["Diamond Pushups", "Diamond Push-up"],
+  ["Wide Grip Push-Ups", "Wide Push-up"],
+  ["Plank to Push-up", "Plank Up"],
+  ["DB Bench Press", "Dumbbell Bench Press"],
+  ["Seated Dumbbell Shoulder Press", "Dumbbell Shoulder Press"],
+  ["Lateral Raises", "Lateral Raise"],
+  ["Tricep Dips", "Tricep Dip"],
+  ["Overhead Tricep Extensions", "Overhead Tricep Extension"],
+  ["Chest Flys", "Cable Chest Fly"],
+  ["Pull ups", "Pull-up"],
+  ["Chin-ups", "Chin-up"],
+  ["Dumbbell Rows", "Dumbbell Row"],
+  ["Alternating Dumbbell Curls", "Bicep Curl"],
+  ["Hammer Curls", "Hammer Curl"],
+  ["Goblet Squats", "Goblet Squat"],
+  ["Jump Squats", "Jump Squat"],
+  ["Walking Lunges", "Forward Lunge"],
+  ["Reverse Lunges", "Reverse Lunge"],
+  ["Romanian Deadlifts (RDL)", "Romanian Deadlift"],
+  ["Single-leg RDL", "Single Leg Deadlift"],
+  ["Glute Bridges", "Glute Bridge"],
+  ["Kettlebell Swings", "Kettlebell Swing"],
+  ["Calf Raises", "Calf Raise"],
+  ["Side Plank (each side)", "Side Plank"],
+  ["Bicycle Crunches", "Bicycle Crunch"],
+  ["Russian Twists", "Russian Twist"],
+  ["Mountain Climbers", "Mountain Climber"],
+  ["Burpees", "Burpee"],
+  ["Box Jumps", "Box Jump"],
+  ["Cat-Cow Stretch", "Cat-Cow"],
+  ["Child's Pose", "Child's Pose"],
+  ["Hamstring Stretch", "Hamstring Stretch"],
+];
+
+// Aliases, abbreviations and alternative names from the catalog
+const ALIASES: [string, string][] = [
+  ["RDL", "Romanian Deadlift"],
+  ["KB Swings", "Kettlebell Swing"],
+  ["Monster Walks", "Banded Lateral Walk"],
+  ["Lat Pull-downs", "Lat Pulldown"],
+  ["Bent Over Row", "Dumbbell Row"],
+  ["Cable Flyes", "Cable Chest Fly"],
+  ["Superman", "Superman Hold"],
+  ["Squat", "Bodyweight Squat"],
+  ["Lunge", "Forward Lunge"],
+];
+
+// Names that look like a catalog exercise but are a different movement.
+// These must stay unmatched rather than get the wrong demo video
+const NEAR_MISSES = [
+  "Barbell Back Squat",
+  "Bulgarian split squats",
+  "Bench press",
+  "Hip Thrust",
+  "Face Pulls",
+  "Farmer's Walk",
+  "Bird Dog",
+  "Step-ups",
+  "Renegade Rows",
+  "Leg Curls",
+];
+
+describe("tokenizeExerciseName", () => {
+  it("lowercases, strips punctuation and stems plurals", () => {
+    expect(tokenizeExerciseName("Push-Ups")).toEqual(["push", "up"]);
+    expect(tokenizeExerciseName("Child's Pose")).toEqual(["child", "pos"]);
+  });
+
+  it("expands equipment abbreviations", () => {
+    expect(tokenizeExerciseName("DB Row")).toEqual(
+      tokenizeExerciseName("Dumbbell Row")
+    );
+    expect(tokenizeExerciseName("KB Swing")).toEqual(
+      tokenizeExerciseName("Kettlebell Swing")
+    );
+  });
+});
+
+describe("matchExercise", () => {
+  it.each(MODEL_OUTPUTS)("matches %s to %s", (name, expected) => {
+    expect(matchExercise(name)?.exercise.name).toBe(expected);
+  });
+
+  it.each(ALIASES)("matches the alias %s to %s", (name, expected) => {
+    expect(matchExercise(name)?.exercise.name).toBe(expected);
+  });
+
+  it.each(NEAR_MISSES)("leaves %s unmatched", (name) => {
+    expect(matchExercise(name)).toBeNull();
+  });
+
+  it("doesn't confuse exercises that share a word", () => {
+    expect(matchExercise("leg press")?.exercise.name).toBe("Leg Press");
+    expect(matchExercise("Leg Raises")?.exercise.name).toBe("Leg Raise");
+    expect(matchExercise("calf stretch")?.exercise.name).toBe(
+      "Calf Stretch"
+    );
+  });
+
+  it("scores exact names and aliases as fully confident", () => {
+    expect(matchExercise("Leg Press")?.confidence).toBe(1);
+    expect(matchExercise("rdl")?.confidence).toBe(1);
+  });
+});
+
+describe("confidence threshold", () => {
+  it("is 0.7", () => {
+    expect(MATCH_CONFIDENCE_THRESHOLD).toBe(0.7);
+  });
+
+  it("accepts a match scored exactly at the threshold", () => {
+    const [best] = rankExerciseMatches("Plank Hold", 1);
+    expect(best.confidence).toBe(MATCH_CONFIDENCE_THRESHOLD);
+    expect(matchExercise("Plank Hold")?.exercise.name).toBe("Plank");
+  });
+
+  it("rejects a match just below the threshold", () => {
+    const [best] = rankExerciseMatches("Barbell Back Squat", 1);
+    expect(best.confidence).toBeLessThan(MATCH_CONFIDENCE_THRESHOLD);
+    expect(matchExercise("Barbell Back Squat")).toBeNull();
+  });
+
+  it("can be overridden per call", () => {
+    expect(matchExercise("Plank Hold", 0.8)).toBeNull();
+    expect(matchExercise("Barbell Back Squat", 0.6)?.exercise.name).toBe(
+      "Bodyweight Squat"
+    );
+  });
+});
+
+describe("rankExerciseMatches", () => {
+  it("ranks candidates best first", () => {
+    const matches = rankExerciseMatches("Chin-ups");
+    expect(matches[0].exercise.name).toBe("Chin-up");
+    matches.slice(1).forEach((match, index) => {
+      expect(match.confidence).toBeLessThanOrEqual(matches[index].confidence);
+    });
+  });
+
+  it("prefers the more specific name on a tie", () => {
+    expect(rankExerciseMatches("Goblet Squats")[0].exercise.name).toBe(
+      "Goblet Squat"
+    );
+  });
+
+  it("respects the limit", () => {
+    expect(rankExerciseMatches("Push-up", 2)).toHaveLength(2);
+  });
+
+  it("returns nothing for a name with no words", () => {
+    expect(rankExerciseMatches("---")).toEqual([]);
+  });
+});
+
+describe("resolveExerciseId", () => {
+  it("returns the catalog id of a confident match", () => {
+    expect(resolveExerciseId("Pushup")).toBe(
+      matchExercise("Push-up")?.exercise.id
+    );
+  });
+
+  it("returns null for an unknown exercise", () => {
+    expect(resolveExerciseId("Zercher Carry")).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  formatQuantity,
+  fromDisplayValue,
+  getDisplayUnit,
+  parseDisplayValue,
+  parseUnitSystem,
+  QuantityKind,
+  roundQuantity,
+  toDisplayValue,
+  toInputText,
+  UnitSystem,
+} from "../units";
+
+// Store typed text the way the app saves it (profile-setup and the set
+// log keep two decimals of kg) and read it back as input text
+function roundTrip(
+  kind: QuantityKind,
+  text: string,
+  system: UnitSystem,
+  decimals = 2
+): string {
+  const quantity = parseDisplayValue(kind, text, system)!;
+  const stored = { kind, value: roundQuantity(quantity.value, decimals) };
+  return toInputText(stored, system);
+}
+
+describe("parseUnitSystem", () => {
+  it("only accepts imperial as an alternative to metric", () => {
+    expect(parseUnitSystem("imperial")).toBe("imperial");
+    expect(parseUnitSystem("metric")).toBe("metric");
+    expect(parseUnitSystem("us")).toBe("metric");
+    expect(parseUnitSystem(null)).toBe("metric");
+  });
+});
+
+describe("getDisplayUnit", () => {
+  it("shows each kind in the system's unit", () => {
+    expect(getDisplayUnit("load", "metric")).toBe("kg");
+    expect(getDisplayUnit("load", "imperial")).toBe("lb");
+    expect(getDisplayUnit("bodyWeight", "imperial")).toBe("lb");
+    expect(getDisplayUnit("height", "imperial")).toBe("in");
+    expect(getDisplayUnit("length", "metric")).toBe("cm");
+    expect(getDisplayUnit("distance", "imperial")).toBe("mi");
+  });
+});
+
+describe("conversions", () => {
+  it("converts pounds to kilograms and back", () => {
+    expect(fromDisplayValue("load", 100, "imperial").value).toBeCloseTo(
+      45.359237
+    );
+    expect(
+      toDisplayValue({ kind: "load", value: 45.359237 }, "imperial")
+    ).toBeCloseTo(100);
+  });
+
+  it("converts inches to centimetres and back", () => {
+    expect(fromDisplayValue("length", 10, "imperial").value).toBeCloseTo(25.4);
+    expect(
+      toDisplayValue({ kind: "height", value: 254 }, "imperial")
+    ).toBeCloseTo(100);
+  });
+
+  it("stores distance in metres", () => {
+    expect(fromDisplayValue("distance", 5, "metric").value).toBe(5000);
+    expect(fromDisplayValue("distance", 1, "imperial").value).toBeCloseTo(
+      1609.344
+    );
+  });
+
+  it("leaves metric values as they are", () => {
+    expect(fromDisplayValue("bodyWeight", 80, "metric").value).toBe(80);
+    expect(toDisplayValue({ kind: "height", value: 180 }, "metric")).toBe(180);
+  });
+});
+
+describe("parseDisplayValue", () => {
+  it("accepts a comma as the decimal separator", () => {
+    expect(parseDisplayValue("load", "62,5", "metric")).toEqual({
+      kind: "load",
+      value: 62.5,
+    });
+  });
+
+  it("trims whitespace", () => {
+    expect(parseDisplayValue("bodyWeight", " 70 ", "metric")?.value).toBe(70);
+  });
+
+  it("rejects empty, invalid and non-positive input", () => {
+    ["", "   ", "abc", "0", "-5"].forEach((text) => {
+      expect(parseDisplayValue("load", text, "metric")).toBeNull();
+    });
+  });
+});
+
+describe("round trips", () => {
+  it("keeps whole pounds", () => {
+    ["100", "135", "225", "2.5"].forEach((text) => {
+      expect(roundTrip("load", text, "imperial")).toBe(text);
+    });
+  });
+
+  it("keeps body weight in pounds and kilograms", () => {
+    expect(roundTrip("bodyWeight", "180", "imperial")).toBe("180");
+    expect(roundTrip("bodyWeight", "72.5", "metric")).toBe("72.5");
+  });
+
+  it("keeps an imperial height stored to a tenth of a centimetre", () => {
+    const quantity = parseDisplayValue("height", "69", "imperial")!;
+    const stored = {
+      kind: "height" as const,
+      value: roundQuantity(quantity.value),
+    };
+    expect(stored.value).toBe(175.3);
+    expect(formatQuantity(stored, "imperial")).toBe("5'9\"");
+  });
+});
+
+describe("roundQuantity", () => {
+  it("rounds to one decimal by default", () => {
+    expect(roundQuantity(45.359237)).toBe(45.4);
+    expect(roundQuantity(45.359237, 2)).toBe(45.36);
+    expect(roundQuantity(80, 2)).toBe(80);
+  });
+});
+
+describe("formatQuantity", () => {
+  it("shows one decimal with the unit", () => {
+    expect(formatQuantity({ kind: "load", value: 60 }, "metric")).toBe(
+      "60 kg"
+    );
+    expect(formatQuantity({ kind: "load", value: 60 }, "imperial")).toBe(
+      "132.3 lb"
+    );
+    expect(formatQuantity({ kind: "distance", value: 5000 }, "imperial")).toBe(
+      "3.1 mi"
+    );
+  });
+
+  it("shows height in whole centimetres or feet and inches", () => {
+    expect(formatQuantity({ kind: "height", value: 175.3 }, "metric")).toBe(
+      "175 cm"
+    );
+    expect(formatQuantity({ kind: "height", value: 182.88 }, "imperial")).toBe(
+      "6'0\""
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import type { WorkoutResponse } from "../openai";
+import {
+  describeBlock,
+  getWorkoutBlocks,
+  migrateWorkoutData,
+  removeBlockExercise,
+  WORKOUT_SCHEMA_VERSION,
+  WorkoutBlock,
+} from "../workoutSchema";
+
+// A version 1 workout as it was stored before blocks existed
+const LEGACY_WORKOUT: WorkoutResponse = {
+  title: "Full Body",
+  description: "Three exercises, straight sets",
+  exercises: [
+    { name: "Squats", sets: 3, reps: "10", instructions: "" },
+    { name: "Plank", sets: 2, duration: "30 seconds", instructions: "" },
+    { name: "Push-ups", reps: "12", instructions: "" },
+  ],
+  totalTime: "25 minutes",
+  difficulty: "beginner",
+};
+
+function withBlocks(blocks: WorkoutBlock[]): WorkoutResponse {
+  return {
+    ...LEGACY_WORKOUT,
+    schemaVersion: WORKOUT_SCHEMA_VERSION,
+    blocks,
+  };
+}
+
+// The one block of a workout with its timing filled in
+function resolve(block: WorkoutBlock): WorkoutBlock {
+  return getWorkoutBlocks(withBlocks([block]))[0];
+}
+
+describe("migrateWorkoutData", () => {
+  it("upgrades a version 1 workout to one straight block per exercise", () => {
+    const migrated = migrateWorkoutData(LEGACY_WORKOUT);
+    expect(migrated.schemaVersion).toBe(2);
+    expect(migrated.blocks).toEqual([
+      { type: "straight", exerciseIndexes: [0] },
+      { type: "straight", exerciseIndexes: [1] },
+      { type: "straight", exerciseIndexes: [2] },
+    ]);
+  });
+
+  it("keeps the exercise list so set indexes still line up", () => {
+    expect(migrateWorkoutData(LEGACY_WORKOUT).exercises).toBe(
+      LEGACY_WORKOUT.exercises
+    );
+  });
+
+  it("leaves current workouts alone", () => {
+    const workout = withBlocks([
+      { type: "circuit", exerciseIndexes: [0, 1, 2] },
+    ]);
+    expect(migrateWorkoutData(workout)).toBe(workout);
+  });
+
+  it("leaves data without an exercise list alone", () => {
+    const broken = { title: "Broken" } as unknown as WorkoutResponse;
+    expect(migrateWorkoutData(broken)).toBe(broken);
+  });
+});
+
+describe("getWorkoutBlocks", () => {
+  it("derives straight sets for workouts without blocks", () => {
+    expect(getWorkoutBlocks(LEGACY_WORKOUT)).toHaveLength(3);
+    expect(getWorkoutBlocks(withBlocks([]))).toEqual(
+      getWorkoutBlocks(LEGACY_WORKOUT)
+    );
+  });
+
+  it("leaves straight sets to each exercise's own sets", () => {
+    expect(resolve({ type: "straight", exerciseIndexes: [0] })).toEqual({
+      type: "straight",
+      exerciseIndexes: [0],
+    });
+  });
+
+  it("goes round a superset or circuit as often as its most sets", () => {
+    expect(resolve({ type: "superset", exerciseIndexes: [0, 1] }).rounds).toBe(
+      3
+    );
+    expect(
+      resolve({ type: "circuit", exerciseIndexes: [1, 2], rounds: 5 }).rounds
+    ).toBe(5);
+    // Neither exercise says how many sets
+    expect(resolve({ type: "circuit", exerciseIndexes: [2] }).rounds).toBe(3);
+  });
+
+  it("uses the classic Tabata protocol by default", () => {
+    expect(resolve({ type: "tabata", exerciseIndexes: [1] })).toEqual({
+      type: "tabata",
+      exerciseIndexes: [1],
+      rounds: 8,
+      workSeconds: 20,
+      restSeconds: 10,
+    });
+  });
+
+  it("gives every EMOM exercise its usual sets, one per minute", () => {
+    expect(resolve({ type: "emom", exerciseIndexes: [0, 1] })).toEqual({
+      type: "emom",
+      exerciseIndexes: [0, 1],
+      rounds: 6,
+      intervalSeconds: 60,
+    });
+  });
+
+  it("caps an AMRAP at ten minutes by default", () => {
+    expect(
+      resolve({ type: "amrap", exerciseIndexes: [0, 2] }).timeCapMinutes
+    ).toBe(10);
+    expect(
+      resolve({ type: "amrap", exerciseIndexes: [0], timeCapMinutes: 15 })
+        .timeCapMinutes
+    ).toBe(15);
+  });
+});
+
+describe("describeBlock", () => {
+  it("describes how each block type is done", () => {
+    expect(
+      [
+        { type: "straight", exerciseIndexes: [0] },
+        { type: "superset", exerciseIndexes: [0, 1] },
+        { type: "circuit", exerciseIndexes: [0, 1, 2], rounds: 4 },
+        { type: "emom", exerciseIndexes: [0, 1] },
+        { type: "emom", exerciseIndexes: [0], rounds: 6, intervalSeconds: 90 },
+        { type: "tabata", exerciseIndexes: [1] },
+        { type: "amrap", exerciseIndexes: [0, 2] },
+      ].map((block) => describeBlock(resolve(block as WorkoutBlock)))
+    ).toEqual([
+      "Straight Sets",
+      "Superset · 3 rounds",
+      "Circuit · 4 rounds",
+      "EMOM · 6 minutes",
+      "EMOM · 6 rounds every 90s",
+      "Tabata · 8 rounds of 20s on / 10s off",
+      "AMRAP · 10 minutes",
+    ]);
+  });
+});
+
+describe("removeBlockExercise", () => {
+  it("shifts later indexes and drops blocks left empty", () => {
+    expect(
+      removeBlockExercise(
+        [
+          { type: "straight", exerciseIndexes: [0] },
+          { type: "superset", exerciseIndexes: [1, 2] },
+        ],
+        0
+      )
+    ).toEqual([{ type: "superset", exerciseIndexes: [0, 1] }]);
+  });
+});
@@ -0,0 +1,182 @@
+import type { WorkoutResponse } from "../openai";
+import { WORKOUT_SCHEMA_VERSION, WorkoutBlock } from "../workoutSchema";
+import { buildWorkoutSteps, WorkoutStep } from "../workoutSession";
+
+const EXERCISES: WorkoutResponse["exercises"] = [
+  {
+    name: "Squats",
+    sets: 2,
+    reps: "10",
+    restBetweenSets: "60 seconds",
+    instructions: "Sit back and down",
+  },
+  {
+    name: "Plank",
+    sets: 1,
+    duration: "30 seconds",
+    restBetweenSets: "45 seconds",
+    instructions: "Hold a straight line",
+  },
+];
+
+function createWorkout(blocks?: WorkoutBlock[]): WorkoutResponse {
+  return {
+    title: "Test Workout",
+    description: "",
+    exercises: EXERCISES,
+    ...(blocks ? { schemaVersion: WORKOUT_SCHEMA_VERSION, blocks } : {}),
+    warmup: "5 minutes of marching in place",
+    cooldown: "3 minutes of stretching",
+    totalTime: "20 minutes",
+    difficulty: "beginner",
+  };
+}
+
+// The steps between warmup and cooldown, reduced to what the player shows
+function summarize(workout: WorkoutResponse) {
+  return buildWorkoutSteps(workout)
+    .slice(1, -1)
+    .map((step: WorkoutStep) =>
+      step.kind === "rest"
+        ? `rest ${step.durationSeconds}s`
+        : `${step.title} ${step.set} of ${step.totalSets}`
+    );
+}
+
+describe("buildWorkoutSteps", () => {
+  it("wraps the exercises in the warmup and cooldown", () => {
+    const steps = buildWorkoutSteps(createWorkout());
+    expect(steps[0]).toMatchObject({ kind: "warmup", durationSeconds: 300 });
+    expect(steps[steps.length - 1]).toMatchObject({
+      kind: "cooldown",
+      durationSeconds: 180,
+    });
+  });
+
+  it("does a version 1 workout as straight sets", () => {
+    expect(summarize(createWorkout())).toEqual([
+      "Squats 1 of 2",
+      "rest 60s",
+      "Squats 2 of 2",
+      "rest 60s",
+      "Plank 1 of 1",
+    ]);
+  });
+
+  it("tells each rest what comes next", () => {
+    const rests = buildWorkoutSteps(createWorkout()).filter(
+      (step) => step.kind === "rest"
+    );
+    expect(rests.map((step) => step.description)).toEqual([
+      "Up next: Squats, set 2 of 2",
+      "Up next: Plank",
+    ]);
+  });
+
+  it("times a step from the exercise's duration", () => {
+    const plank = buildWorkoutSteps(createWorkout()).find(
+      (step) => step.title === "Plank"
+    );
+    expect(plank?.durationSeconds).toBe(30);
+    expect(plank?.exerciseIndex).toBe(1);
+  });
+
+  it("goes round a superset before resting", () => {
+    const workout = createWorkout([
+      { type: "superset", exerciseIndexes: [0, 1], restSeconds: 90 },
+    ]);
+    expect(summarize(workout)).toEqual([
+      "Squats 1 of 2",
+      "Plank 1 of 2",
+      "rest 90s",
+      "Squats 2 of 2",
+      "Plank 2 of 2",
+    ]);
+    expect(buildWorkoutSteps(workout)[1].label).toBe("Superset round 1 of 2");
+  });
+
+  it("rests a circuit as long as its longest exercise rest", () => {
+    const workout = createWorkout([
+      { type: "circuit", exerciseIndexes: [1, 0], rounds: 2 },
+    ]);
+    expect(summarize(workout)).toEqual([
+      "Plank 1 of 2",
+      "Squats 1 of 2",
+      "rest 60s",
+      "Plank 2 of 2",
+      "Squats 2 of 2",
+    ]);
+  });
+
+  it("counts down Tabata work and rest intervals", () => {
+    const workout = createWorkout([
+      { type: "tabata", exerciseIndexes: [0, 1], rounds: 3 },
+    ]);
+    expect(summarize(workout)).toEqual([
+      "Squats 1 of 2",
+      "rest 10s",
+      "Plank 1 of 1",
+      "rest 10s",
+      "Squats 2 of 2",
+    ]);
+
+    const work = buildWorkoutSteps(workout)[1];
+    expect(work).toMatchObject({
+      durationSeconds: 20,
+      autoAdvance: true,
+      label: "Tabata round 1 of 3",
+    });
+  });
+
+  it("gives every EMOM interval a full minute without separate rests", () => {
+    const workout = createWorkout([{ type: "emom", exerciseIndexes: [0, 1] }]);
+    expect(summarize(workout)).toEqual([
+      "Squats 1 of 2",
+      "Plank 1 of 2",
+      "Squats 2 of 2",
+      "Plank 2 of 2",
+    ]);
+
+    const interval = buildWorkoutSteps(workout)[1];
+    expect(interval).toMatchObject({
+      durationSeconds: 60,
+      autoAdvance: true,
+      label: "EMOM interval 1 of 4",
+    });
+    expect(interval.description).toBe(
+      "Do 10 reps, then rest until the next interval. Sit back and down"
+    );
+  });
+
+  it("does an AMRAP as one timed block step", () => {
+    const steps = buildWorkoutSteps(
+      createWorkout([
+        { type: "amrap", exerciseIndexes: [0, 1], timeCapMinutes: 12 },
+      ])
+    );
+    expect(steps).toHaveLength(3);
+    expect(steps[1]).toEqual({
+      kind: "block",
+      title: "AMRAP",
+      description:
+        "As many rounds as possible of:\n• Squats: 10 reps\n• Plank: 30 seconds",
+      durationSeconds: 720,
+      label: "12 minute time cap",
+      autoAdvance: true,
+    });
+  });
+
+  it("runs blocks in order with the rest between them", () => {
+    const workout = createWorkout([
+      { type: "straight", exerciseIndexes: [1] },
+      { type: "amrap", exerciseIndexes: [0] },
+    ]);
+    expect(buildWorkoutSteps(workout).map((step) => step.kind)).toEqual([
+      "warmup",
+      "exercise",
+      "rest",
+      "block",
+      "cooldown",
+    ]);
+  });
+});
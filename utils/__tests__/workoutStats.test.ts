@@ -0,0 +1,243 @@
+import {
+  computeDistribution,
+  computeStreaks,
+  computeWorkoutsPerWeek,
+  computeWorkoutStats,
+  estimateWorkoutMinutes,
+  startOfWeek,
+  StatsWorkout,
+} from "../workoutStats";
+
+// Thursday 15 October 2026, noon local time. Dates are built in local time
+// and stored as ISO strings, like the timestamps Supabase returns, so the
+// tests hold in any time zone
+const NOW = new Date(2026, 9, 15, 12);
+
+function localDate(daysAgo: number, hour = 12, minute = 0): Date {
+  return new Date(
+    NOW.getFullYear(),
+    NOW.getMonth(),
+    NOW.getDate() - daysAgo,
+    hour,
+    minute
+  );
+}
+
+function completedWorkout(
+  daysAgo: number,
+  overrides: Partial<StatsWorkout> = {}
+): StatsWorkout {
+  const date = localDate(daysAgo).toISOString();
+  return {
+    created_at: date,
+    completed_at: date,
+    workout_type: "strength",
+    muscle_focus: "upper-body",
+    time_available: "25-40",
+    completed: true,
+    ...overrides,
+  };
+}
+
+describe("computeStreaks", () => {
+  it("starts a streak with a workout today", () => {
+    expect(computeStreaks([completedWorkout(0)], NOW)).toEqual({
+      currentStreak: 1,
+      longestStreak: 1,
+    });
+  });
+
+  it("keeps yesterday's streak alive until today is over", () => {
+    const workouts = [completedWorkout(1), completedWorkout(2)];
+    expect(computeStreaks(workouts, NOW).currentStreak).toBe(2);
+  });
+
+  it("ends the current streak after a full day without a workout", () => {
+    const workouts = [completedWorkout(2), completedWorkout(3)];
+    expect(computeStreaks(workouts, NOW)).toEqual({
+      currentStreak: 0,
+      longestStreak: 2,
+    });
+  });
+
+  it("keeps the longest run across gaps", () => {
+    const workouts = [0, 1, 5, 6, 7, 8].map((days) => completedWorkout(days));
+    expect(computeStreaks(workouts, NOW)).toEqual({
+      currentStreak: 2,
+      longestStreak: 4,
+    });
+  });
+
+  it("counts several workouts on one day once", () => {
+    const workouts = [
+      completedWorkout(0),
+      completedWorkout(0),
+      completedWorkout(1),
+      completedWorkout(1),
+    ];
+    expect(computeStreaks(workouts, NOW)).toEqual({
+      currentStreak: 2,
+      longestStreak: 2,
+    });
+  });
+
+  it("splits days at local midnight", () => {
+    const lateYesterday = localDate(1, 23, 30).toISOString();
+    const earlyToday = localDate(0, 0, 30).toISOString();
+    const workouts = [
+      completedWorkout(0, { completed_at: lateYesterday }),
+      completedWorkout(0, { completed_at: earlyToday }),
+    ];
+    expect(computeStreaks(workouts, NOW).currentStreak).toBe(2);
+  });
+
+  it("dates workouts by when they were completed", () => {
+    const workouts = [
+      completedWorkout(3, { completed_at: localDate(0).toISOString() }),
+    ];
+    expect(computeStreaks(workouts, NOW).currentStreak).toBe(1);
+  });
+
+  it("falls back to created_at without a completion time", () => {
+    const workouts = [completedWorkout(0, { completed_at: null })];
+    expect(computeStreaks(workouts, NOW).currentStreak).toBe(1);
+  });
+
+  it("ignores workouts dated after now", () => {
+    expect(computeStreaks([completedWorkout(-1)], NOW)).toEqual({
+      currentStreak: 0,
+      longestStreak: 0,
+    });
+  });
+
+  it("returns zeros without workouts", () => {
+    expect(computeStreaks([], NOW)).toEqual({
+      currentStreak: 0,
+      longestStreak: 0,
+    });
+  });
+});
+
+describe("computeWorkoutsPerWeek", () => {
+  it("starts weeks on Monday", () => {
+    expect(startOfWeek(NOW)).toEqual(new Date(2026, 9, 12));
+    expect(startOfWeek(new Date(2026, 9, 11, 23, 59))).toEqual(
+      new Date(2026, 9, 5)
+    );
+  });
+
+  it("lists the last weeks oldest first, including empty ones", () => {
+    const weeks = computeWorkoutsPerWeek([], NOW, 3);
+    expect(weeks.map((week) => week.weekStart)).toEqual([
+      new Date(2026, 8, 28),
+      new Date(2026, 9, 5),
+      new Date(2026, 9, 12),
+    ]);
+    expect(weeks.map((week) => week.count)).toEqual([0, 0, 0]);
+  });
+
+  it("puts Sunday in the week before and Monday midnight in this one", () => {
+    // 3 days ago is Monday the 12th, 4 days ago Sunday the 11th
+    const workouts = [
+      completedWorkout(0, { completed_at: localDate(3, 0, 0).toISOString() }),
+      completedWorkout(0, { completed_at: localDate(4, 23, 59).toISOString() }),
+      completedWorkout(0),
+    ];
+    expect(
+      computeWorkoutsPerWeek(workouts, NOW, 2).map((week) => week.count)
+    ).toEqual([1, 2]);
+  });
+
+  it("counts a workout in the week it was completed", () => {
+    // Generated on Friday the 9th, done on Tuesday the 13th
+    const workouts = [
+      completedWorkout(6, { completed_at: localDate(2).toISOString() }),
+    ];
+    expect(
+      computeWorkoutsPerWeek(workouts, NOW, 2).map((week) => week.count)
+    ).toEqual([0, 1]);
+  });
+
+  it("leaves out workouts older than the window", () => {
+    const workouts = [completedWorkout(30), completedWorkout(0)];
+    expect(
+      computeWorkoutsPerWeek(workouts, NOW, 2).map((week) => week.count)
+    ).toEqual([0, 1]);
+  });
+});
+
+describe("estimateWorkoutMinutes", () => {
+  it("uses the workout's total time", () => {
+    expect(
+      estimateWorkoutMinutes(
+        completedWorkout(0, { workout_data: { totalTime: "45 minutes" } })
+      )
+    ).toBe(45);
+    expect(
+      estimateWorkoutMinutes(
+        completedWorkout(0, { workout_data: { totalTime: "1 hour" } })
+      )
+    ).toBe(60);
+  });
+
+  it("falls back to the middle of the time available", () => {
+    expect(
+      estimateWorkoutMinutes(completedWorkout(0, { time_available: "25-40" }))
+    ).toBe(33);
+    expect(
+      estimateWorkoutMinutes(completedWorkout(0, { time_available: "120" }))
+    ).toBe(120);
+  });
+
+  it("returns 0 when nothing gives a time", () => {
+    expect(
+      estimateWorkoutMinutes(completedWorkout(0, { time_available: "" }))
+    ).toBe(0);
+  });
+});
+
+describe("computeDistribution", () => {
+  it("counts every listed value, most common first", () => {
+    expect(
+      computeDistribution(["upper-body,core", "core", "lower-body, core"])
+    ).toEqual([
+      { value: "core", count: 3 },
+      { value: "lower-body", count: 1 },
+      { value: "upper-body", count: 1 },
+    ]);
+  });
+});
+
+describe("computeWorkoutStats", () => {
+  const workouts: StatsWorkout[] = [
+    completedWorkout(0, {
+      workout_data: { totalTime: "30 minutes" },
+      rating: 4,
+    }),
+    completedWorkout(1, { workout_data: { totalTime: "20 minutes" } }),
+    // Generated but never done
+    completedWorkout(2, {
+      completed: false,
+      completed_at: null,
+      workout_data: { totalTime: "60 minutes" },
+      rating: 2,
+    }),
+  ];
+
+  it("counts minutes, streaks and weeks from completed workouts only", () => {
+    const stats = computeWorkoutStats(workouts, NOW, 1);
+    expect(stats.totalWorkouts).toBe(3);
+    expect(stats.completedWorkouts).toBe(2);
+    expect(stats.totalMinutes).toBe(50);
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.longestStreak).toBe(2);
+    expect(stats.workoutsPerWeek.map((week) => week.count)).toEqual([2]);
+  });
+
+  it("averages ratings of every workout in the week", () => {
+    const stats = computeWorkoutStats(workouts, NOW, 1);
+    expect(
+      stats.averageRatingPerWeek.map((week) => week.averageRating)
+    ).toEqual([3]);
+  });
+});
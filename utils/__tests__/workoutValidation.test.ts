@@ -0,0 +1,342 @@
+import {
+  assertValidWorkout,
+  validateWorkoutResponse,
+  WorkoutValidationError,
+} from "../workoutValidation";
+
+// A complete version 1 payload, as older prompts asked the model for
+function validPayload(overrides: Record<string, unknown> = {}) {
+  return {
+    title: "Upper Body Burner",
+    description: "Push and pull supersets",
+    exercises: [
+      {
+        name: "Push-ups",
+        sets: 3,
+        reps: "10-12",
+        restBetweenSets: "60 seconds",
+        instructions: "Keep your body in a straight line",
+      },
+      {
+        name: "Dumbbell Rows",
+        sets: 3,
+        reps: "12",
+        restBetweenSets: "60 seconds",
+        instructions: "Pull the dumbbell to your hip",
+      },
+    ],
+    warmup: "5 minutes of arm circles",
+    cooldown: "5 minutes of stretching",
+    totalTime: "30 minutes",
+    difficulty: "intermediate",
+    ...overrides,
+  };
+}
+
+function exerciseWith(changes: Record<string, unknown>) {
+  return { ...validPayload().exercises[0], ...changes };
+}
+
+describe("validateWorkoutResponse", () => {
+  it("accepts a complete payload without warnings", () => {
+    const { workout, errors, warnings } = validateWorkoutResponse(
+      validPayload()
+    );
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(workout?.exercises).toHaveLength(2);
+  });
+
+  it("rejects anything but an object", () => {
+    expect(validateWorkoutResponse([]).errors).toEqual([
+      "workout must be a JSON object",
+    ]);
+    expect(validateWorkoutResponse("workout").workout).toBeNull();
+  });
+
+  describe("missing fields", () => {
+    it("rejects a payload without a title, total time or difficulty", () => {
+      const { workout, errors } = validateWorkoutResponse(
+        validPayload({ title: " ", totalTime: undefined, difficulty: null })
+      );
+      expect(workout).toBeNull();
+      expect(errors).toEqual([
+        "title must be a non-empty string",
+        "totalTime must be a non-empty string",
+        "difficulty must be a non-empty string",
+      ]);
+    });
+
+    it("rejects a payload without exercises", () => {
+      expect(
+        validateWorkoutResponse(validPayload({ exercises: undefined })).errors
+      ).toEqual(["exercises must be an array"]);
+      expect(
+        validateWorkoutResponse(validPayload({ exercises: [] })).errors
+      ).toEqual(["exercises must contain at least one valid exercise"]);
+    });
+
+    it("repairs a missing description and instructions with warnings", () => {
+      const { workout, warnings } = validateWorkoutResponse(
+        validPayload({
+          description: undefined,
+          exercises: [exerciseWith({ instructions: undefined })],
+        })
+      );
+      expect(workout?.description).toBe("");
+      expect(workout?.exercises[0].instructions).toBe("");
+      expect(warnings).toEqual([
+        "description missing",
+        'exercises[0].instructions missing for "Push-ups"',
+      ]);
+    });
+
+    it("drops exercises without a name", () => {
+      const { workout, warnings } = validateWorkoutResponse(
+        validPayload({
+          exercises: [exerciseWith({ name: "" }), exerciseWith({})],
+        })
+      );
+      expect(workout?.exercises).toHaveLength(1);
+      expect(warnings).toContain(
+        "exercises[0] dropped: name must be a non-empty string"
+      );
+    });
+
+    it("fills in units for numeric times", () => {
+      const { workout } = validateWorkoutResponse(
+        validPayload({
+          totalTime: 45,
+          exercises: [exerciseWith({ reps: undefined, duration: 30 })],
+        })
+      );
+      expect(workout?.totalTime).toBe("45 minutes");
+      expect(workout?.exercises[0].duration).toBe("30 seconds");
+    });
+
+    it("joins a warmup given as a list of steps", () => {
+      const { workout } = validateWorkoutResponse(
+        validPayload({ warmup: ["Arm circles", "", "Jumping jacks"] })
+      );
+      expect(workout?.warmup).toBe("Arm circles, Jumping jacks");
+    });
+  });
+
+  describe("sets and reps", () => {
+    it("coerces sets given as text", () => {
+      const { workout, warnings } = validateWorkoutResponse(
+        validPayload({ exercises: [exerciseWith({ sets: "4 sets" })] })
+      );
+      expect(workout?.exercises[0].sets).toBe(4);
+      expect(warnings).toEqual([
+        'exercises[0].sets coerced from "4 sets" to 4',
+      ]);
+    });
+
+    it("removes zero or negative sets", () => {
+      [0, -2, "none"].forEach((sets) => {
+        const { workout, warnings } = validateWorkoutResponse(
+          validPayload({ exercises: [exerciseWith({ sets })] })
+        );
+        expect(workout?.exercises[0].sets).toBeUndefined();
+        expect(warnings).toEqual([
+          `exercises[0].sets removed: "${sets}" is not a count`,
+        ]);
+      });
+    });
+
+    it("removes zero or negative reps", () => {
+      [0, "-5", "0 reps"].forEach((reps) => {
+        const { workout, warnings } = validateWorkoutResponse(
+          validPayload({ exercises: [exerciseWith({ reps })] })
+        );
+        expect(workout?.exercises[0].reps).toBeUndefined();
+        expect(warnings).toEqual([
+          `exercises[0].reps removed: "${reps}" is not a rep count`,
+        ]);
+      });
+    });
+
+    it("keeps rep ranges, counts and written reps", () => {
+      [
+        [12, "12"],
+        ["8-10", "8-10"],
+        ["AMRAP", "AMRAP"],
+      ].forEach(([reps, expected]) => {
+        const { workout } = validateWorkoutResponse(
+          validPayload({ exercises: [exerciseWith({ reps })] })
+        );
+        expect(workout?.exercises[0].reps).toBe(expected);
+      });
+    });
+
+    it("drops an exercise left with no sets, reps or duration", () => {
+      const { workout, warnings } = validateWorkoutResponse(
+        validPayload({
+          exercises: [exerciseWith({ sets: 0, reps: 0 }), exerciseWith({})],
+        })
+      );
+      expect(workout?.exercises).toHaveLength(1);
+      expect(warnings).toContain(
+        'exercises[0] dropped: "Push-ups" has no sets, reps or duration'
+      );
+    });
+  });
+
+  describe("links", () => {
+    it("removes video URLs that aren't http(s) and unknown catalog ids", () => {
+      const { workout, warnings } = validateWorkoutResponse(
+        validPayload({
+          exercises: [
+            exerciseWith({
+              videoUrl: "javascript:alert(1)",
+              catalogId: "made-up",
+            }),
+            exerciseWith({ catalogId: "bodyweight-squat" }),
+          ],
+        })
+      );
+      expect(workout?.exercises[0].videoUrl).toBeUndefined();
+      expect(workout?.exercises[0].catalogId).toBeUndefined();
+      expect(workout?.exercises[1].catalogId).toBe("bodyweight-squat");
+      expect(warnings).toEqual([
+        "exercises[0].videoUrl removed: not an http(s) URL",
+        'exercises[0].catalogId removed: "made-up" is unknown',
+      ]);
+    });
+  });
+
+  describe("blocks", () => {
+    it("does version 1 payloads as straight sets", () => {
+      const { workout } = validateWorkoutResponse(validPayload());
+      expect(workout?.schemaVersion).toBe(2);
+      expect(workout?.blocks).toEqual([
+        { type: "straight", exerciseIndexes: [0] },
+        { type: "straight", exerciseIndexes: [1] },
+      ]);
+    });
+
+    it("drops block indexes past the exercise list", () => {
+      const { workout, warnings } = validateWorkoutResponse(
+        validPayload({
+          blocks: [
+            { type: "superset", exerciseIndexes: [0, 5], rounds: 3 },
+            { type: "circuit", exerciseIndexes: [7, 8] },
+          ],
+        })
+      );
+      expect(workout?.blocks).toEqual([
+        { type: "straight", exerciseIndexes: [0] },
+        { type: "straight", exerciseIndexes: [1] },
+      ]);
+      expect(warnings).toEqual([
+        "blocks[0].exerciseIndexes had unknown or repeated entries",
+        "blocks[0] has a single exercise, using straight sets",
+        "blocks[1].exerciseIndexes had unknown or repeated entries",
+        "blocks[1] dropped: no valid exercises",
+        "1 exercise(s) in no block done as sets",
+      ]);
+    });
+
+    it("points blocks at exercises after dropped ones", () => {
+      const { workout } = validateWorkoutResponse(
+        validPayload({
+          exercises: [
+            exerciseWith({ name: "" }),
+            exerciseWith({ name: "Squats" }),
+            exerciseWith({ name: "Lunges" }),
+          ],
+          blocks: [{ type: "superset", exerciseIndexes: [0, 1, 2] }],
+        })
+      );
+      expect(workout?.blocks).toEqual([
+        { type: "superset", exerciseIndexes: [0, 1] },
+      ]);
+    });
+
+    it("uses each exercise in one block only", () => {
+      const { workout } = validateWorkoutResponse(
+        validPayload({
+          blocks: [
+            { type: "superset", exerciseIndexes: [0, 1] },
+            { type: "straight", exerciseIndexes: [1] },
+          ],
+        })
+      );
+      expect(workout?.blocks).toEqual([
+        { type: "superset", exerciseIndexes: [0, 1] },
+      ]);
+    });
+
+    it("replaces unknown block types and removes invalid timing", () => {
+      const { workout, warnings } = validateWorkoutResponse(
+        validPayload({
+          blocks: [
+            {
+              type: "giant-set",
+              exerciseIndexes: [0, 1],
+              rounds: "3",
+              workSeconds: "forever",
+            },
+          ],
+        })
+      );
+      expect(workout?.blocks).toEqual([
+        { type: "circuit", exerciseIndexes: [0, 1], rounds: 3 },
+      ]);
+      expect(warnings).toEqual([
+        'blocks[0].type "giant-set" is not a block type, using circuit',
+        'blocks[0].workSeconds removed: "forever" is invalid',
+      ]);
+    });
+
+    it("flattens blocks that list their own exercises", () => {
+      const { workout } = validateWorkoutResponse(
+        validPayload({
+          exercises: undefined,
+          blocks: [
+            {
+              type: "emom",
+              intervalSeconds: 60,
+              exercises: [exerciseWith({ name: "Burpees" })],
+            },
+            {
+              type: "superset",
+              exercises: [
+                exerciseWith({ name: "Squats" }),
+                exerciseWith({ name: "" }),
+                exerciseWith({ name: "Lunges" }),
+              ],
+            },
+          ],
+        })
+      );
+      expect(workout?.exercises.map((exercise) => exercise.name)).toEqual([
+        "Burpees",
+        "Squats",
+        "Lunges",
+      ]);
+      expect(workout?.blocks).toEqual([
+        { type: "emom", exerciseIndexes: [0], intervalSeconds: 60 },
+        { type: "superset", exerciseIndexes: [1, 2] },
+      ]);
+    });
+  });
+});
+
+describe("assertValidWorkout", () => {
+  it("returns the repaired workout", () => {
+    expect(assertValidWorkout(validPayload({ totalTime: 30 })).totalTime).toBe(
+      "30 minutes"
+    );
+  });
+
+  it("throws the errors of an unusable payload", () => {
+    expect(() => assertValidWorkout(validPayload({ title: "" }))).toThrow(
+      WorkoutValidationError
+    );
+    expect(() => assertValidWorkout(validPayload({ exercises: [] }))).toThrow(
+      "Invalid workout: exercises must contain at least one valid exercise"
+    );
+  });
+});
@@ -0,0 +1,422 @@
+import { supabase } from "./supabase";
+import { formatQuantity, UnitSystem } from "./units";
+
+/**
+ * Friends activity feed: completed workouts, personal records and streak
+ * milestones, with emoji reactions and short comments.
+ * Events are written by database triggers; this module reads them, reacts
+ * and comments, and streams changes through Supabase realtime.
+ */
+
+export type ActivityType =
+  | "workout_completed"
+  | "personal_record"
+  | "streak_milestone";
+
+export const REACTION_EMOJIS = ["💪", "🔥", "👏", "🎉", "❤️"] as const;
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+export const MAX_COMMENT_LENGTH = 280;
+
+export const FEED_PAGE_SIZE = 20;
+
+export interface ActivityProfile {
+  id: string;
+  username: string;
+  profile_picture_url?: string;
+}
+
+export interface ActivityReaction {
+  id: string;
+  activity_id: string;
+  user_id: string;
+  emoji: ReactionEmoji;
+  created_at: string;
+}
+
+export interface ActivityComment {
+  id: string;
+  activity_id: string;
+  user_id: string;
+  body: string;
+  created_at: string;
+  profile?: ActivityProfile;
+}
+
+export interface ActivityEvent {
+  id: string;
+  user_id: string;
+  type: ActivityType;
+  workout_id: string | null;
+  data: Record<string, any>;
+  created_at: string;
+  profile?: ActivityProfile;
+}
+
+export interface FeedItem extends ActivityEvent {
+  reactions: ActivityReaction[];
+  comments: ActivityComment[];
+}
+
+// A change streamed from realtime, applied to the loaded feed
+export type FeedChange =
+  | { type: "activity"; item: FeedItem }
+  | { type: "reaction"; reaction: ActivityReaction }
+  | { type: "reaction_removed"; reaction: Partial<ActivityReaction> }
+  | { type: "comment"; comment: ActivityComment }
+  | { type: "comment_removed"; comment: Partial<ActivityComment> };
+
+const PROFILE_COLUMNS = "id, username, profile_picture_url";
+
+const EVENT_SELECT = `*, profile:public_profiles!user_id(${PROFILE_COLUMNS})`;
+
+const COMMENT_SELECT = `*, profile:public_profiles!user_id(${PROFILE_COLUMNS})`;
+
+// Attach reactions and comments to loaded events
+async function withInteractions(
+  events: ActivityEvent[]
+): Promise<{ items: FeedItem[]; error: string | null }> {
+  if (events.length === 0) {
+    return { items: [], error: null };
+  }
+
+  const ids = events.map((event) => event.id);
+  const [reactionsResult, commentsResult] = await Promise.all([
+    supabase.from("activity_reactions").select("*").in("activity_id", ids),
+    supabase
+      .from("activity_comments")
+      .select(COMMENT_SELECT)
+      .in("activity_id", ids)
+      .order("created_at", { ascending: true }),
+  ]);
+
+  const error = reactionsResult.error || commentsResult.error;
+  if (error) {
+    return { items: [], error: error.message };
+  }
+
+  return {
+    items: events.map((event) => ({
+      ...event,
+      reactions: (reactionsResult.data || []).filter(
+        (reaction) => reaction.activity_id === event.id
+      ),
+      comments: (commentsResult.data || []).filter(
+        (comment) => comment.activity_id === event.id
+      ),
+    })),
+    error: null,
+  };
+}
+
+// Get a page of the feed, newest first. Pass the last loaded item as
+// `before` to get the next page. Events written by the same trigger share a
+// created_at, so the id breaks ties and none are skipped between pages
+export async function getActivityFeed(
+  before?: Pick<ActivityEvent, "created_at" | "id">
+): Promise<{
+  items: FeedItem[];
+  hasMore: boolean;
+  error: string | null;
+}> {
+  try {
+    // RLS limits events to the user's own and their friends'
+    let query = supabase
+      .from("activity_events")
+      .select(EVENT_SELECT)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(FEED_PAGE_SIZE);
+    if (before) {
+      query = query.or(
+        `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+      );
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      return { items: [], hasMore: false, error: error.message };
+    }
+
+    const events = (data || []) as ActivityEvent[];
+    const { items, error: interactionsError } =
+      await withInteractions(events);
+
+    return {
+      items,
+      hasMore: events.length === FEED_PAGE_SIZE,
+      error: interactionsError,
+    };
+  } catch (error) {
+    return {
+      items: [],
+      hasMore: false,
+      error: "An error occurred while fetching the activity feed",
+    };
+  }
+}
+
+// Get a single feed event, used when realtime reports a new one
+export async function getActivityItem(
+  activityId: string
+): Promise<{ item: FeedItem | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase
+      .from("activity_events")
+      .select(EVENT_SELECT)
+      .eq("id", activityId)
+      .single();
+
+    if (error) {
+      return { item: null, error: error.message };
+    }
+
+    const { items, error: interactionsError } = await withInteractions([
+      data as ActivityEvent,
+    ]);
+    return { item: items[0] ?? null, error: interactionsError };
+  } catch (error) {
+    return { item: null, error: "An error occurred while fetching activity" };
+  }
+}
+
+// Add or remove the user's reaction to an event
+export async function toggleReaction(
+  activityId: string,
+  emoji: ReactionEmoji
+): Promise<{ reacted: boolean; error: string | null }> {
+  try {
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { reacted: false, error: "Not authenticated" };
+    }
+
+    const { data: existing } = await supabase
+      .from("activity_reactions")
+      .select("id")
+      .eq("activity_id", activityId)
+      .eq("user_id", user.id)
+      .eq("emoji", emoji)
+      .maybeSingle();
+
+    const { error } = existing
+      ? await supabase.from("activity_reactions").delete().eq("id", existing.id)
+      : await supabase
+          .from("activity_reactions")
+          .insert({ activity_id: activityId, user_id: user.id, emoji });
+
+    if (error) {
+      return { reacted: !!existing, error: error.message };
+    }
+
+    return { reacted: !existing, error: null };
+  } catch (error) {
+    return { reacted: false, error: "An error occurred while reacting" };
+  }
+}
+
+// Comment on an event
+export async function addComment(
+  activityId: string,
+  body: string
+): Promise<{ comment: ActivityComment | null; error: string | null }> {
+  const text = body.trim();
+  if (!text) {
+    return { comment: null, error: "Comment can't be empty" };
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    return {
+      comment: null,
+      error: `Comments can be at most ${MAX_COMMENT_LENGTH} characters`,
+    };
+  }
+
+  try {
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { comment: null, error: "Not authenticated" };
+    }
+
+    const { data, error } = await supabase
+      .from("activity_comments")
+      .insert({ activity_id: activityId, user_id: user.id, body: text })
+      .select(COMMENT_SELECT)
+      .single();
+
+    if (error) {
+      return { comment: null, error: error.message };
+    }
+
+    return { comment: data, error: null };
+  } catch (error) {
+    return { comment: null, error: "An error occurred while commenting" };
+  }
+}
+
+// Delete one of the user's comments, or a comment on their own event
+export async function deleteComment(
+  commentId: string
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from("activity_comments")
+      .delete()
+      .eq("id", commentId);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: "An error occurred while deleting comment",
+    };
+  }
+}
+
+/**
+ * Apply a realtime change to the loaded feed. Changes that are already
+ * there, such as the user's own reaction, are ignored.
+ */
+export function applyFeedChange(
+  items: FeedItem[],
+  change: FeedChange
+): FeedItem[] {
+  const updateItem = (
+    activityId: string | undefined,
+    update: (item: FeedItem) => FeedItem
+  ) =>
+    items.map((item) => (item.id === activityId ? update(item) : item));
+
+  switch (change.type) {
+    case "activity":
+      return items.some((item) => item.id === change.item.id)
+        ? items
+        : [change.item, ...items].sort(
+            (a, b) =>
+              b.created_at.localeCompare(a.created_at) ||
+              b.id.localeCompare(a.id)
+          );
+    case "reaction":
+      return updateItem(change.reaction.activity_id, (item) =>
+        item.reactions.some((reaction) => reaction.id === change.reaction.id)
+          ? item
+          : { ...item, reactions: [...item.reactions, change.reaction] }
+      );
+    case "reaction_removed":
+      return updateItem(change.reaction.activity_id, (item) => ({
+        ...item,
+        reactions: item.reactions.filter(
+          (reaction) => reaction.id !== change.reaction.id
+        ),
+      }));
+    case "comment":
+      return updateItem(change.comment.activity_id, (item) =>
+        item.comments.some((comment) => comment.id === change.comment.id)
+          ? item
+          : { ...item, comments: [...item.comments, change.comment] }
+      );
+    case "comment_removed":
+      return updateItem(change.comment.activity_id, (item) => ({
+        ...item,
+        comments: item.comments.filter(
+          (comment) => comment.id !== change.comment.id
+        ),
+      }));
+  }
+}
+
+/**
+ * Stream new events, reactions and comments. RLS keeps the stream to the
+ * user's own and their friends' activity. Returns a function that stops
+ * the subscription.
+ */
+export function subscribeToActivityFeed(
+  onChange: (change: FeedChange) => void
+): () => void {
+  const channel = supabase
+    .channel(`activity-feed-${Date.now()}`)
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "activity_events" },
+      async (payload) => {
+        const { item } = await getActivityItem(payload.new.id);
+        if (item) {
+          onChange({ type: "activity", item });
+        }
+      }
+    )
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "activity_reactions" },
+      (payload) =>
+        onChange({
+          type: "reaction",
+          reaction: payload.new as ActivityReaction,
+        })
+    )
+    .on(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "activity_reactions" },
+      (payload) =>
+        onChange({ type: "reaction_removed", reaction: payload.old })
+    )
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "activity_comments" },
+      async (payload) => {
+        // The payload has no profile, so load the comment with it
+        const { data } = await supabase
+          .from("activity_comments")
+          .select(COMMENT_SELECT)
+          .eq("id", payload.new.id)
+          .single();
+        if (data) {
+          onChange({ type: "comment", comment: data });
+        }
+      }
+    )
+    .on(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "activity_comments" },
+      (payload) => onChange({ type: "comment_removed", comment: payload.old })
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * One-line summary of an event in the viewer's unit system, e.g.
+ * "set a new record: Squat 100 kg"
+ */
+export function describeActivity(
+  event: ActivityEvent,
+  unitSystem: UnitSystem
+): string {
+  const { data } = event;
+  switch (event.type) {
+    case "workout_completed":
+      return `completed ${data.title || "a workout"}`;
+    case "personal_record":
+      return `set a new record: ${data.exercise_name} ${formatQuantity(
+        { kind: "load", value: Number(data.weight_kg) },
+        unitSystem
+      )}${data.reps ? ` × ${data.reps}` : ""}`;
+    case "streak_milestone":
+      return `is on a ${data.days}-day workout streak`;
+    default:
+      return "was active";
+  }
+}
@@ -1,6 +1,18 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { router } from "expo-router";
 import { Alert } from "react-native";
+import { ProfileVisibility } from "@/constants/Privacy";
+import { parseInjuries, ProfileInjury } from "./injuries";
 import { supabase } from "./supabase";
+import { UnitSystem } from "./units";
+import {
+  enqueueWorkoutOperation,
+  generateId,
+  getCachedWorkouts,
+  isNetworkError,
+  refreshCachedWorkouts,
+  syncWorkoutQueue,
+} from "./workoutCache";
 
 // Interface for user profile data
 export interface UserProfile {
@@ -8,14 +20,21 @@ export interface UserProfile {
   username: string;
   sex: string;
   date_of_birth?: string;
+  // Stored in kg and cm, shown in the user's unit_system
   weight: number;
-  weight_unit: string;
   height: number;
-  height_unit: string;
+  unit_system?: UnitSystem;
   fitness_level?: string;
   fitness_goals?: string;
+  // Free-text notes about injuries, next to the structured injury_details
   injuries?: string;
+  injury_details?: ProfileInjury[];
   profile_picture_url?: string;
+  // Who can see each group of fields, see constants/Privacy
+  body_metrics_visibility?: ProfileVisibility;
+  age_visibility?: ProfileVisibility;
+  goals_visibility?: ProfileVisibility;
+  workout_history_visibility?: ProfileVisibility;
   created_at: string;
   updated_at: string;
 }
@@ -31,10 +50,43 @@ export interface WorkoutHistory {
   equipment: string;
   workout_data: any; // The full workout response from OpenAI
   completed: boolean;
-  rating?: number;
+  // Set by the server the first time the workout is completed
+  completed_at?: string | null;
+  rating?: number | null;
+  // The first version of workout_data, kept once the workout has been edited
+  original_workout_data?: any | null;
+  version?: number;
+  // Set on copies of someone else's workout: who wrote it and what it was
+  // copied from
+  source_author_id?: string | null;
+  source_workout_id?: string | null;
   created_at: string;
+  updated_at?: string;
 }
 
+// Interface for a set as it was actually performed
+export interface WorkoutSet {
+  id: string;
+  workout_id: string;
+  user_id: string;
+  exercise_index: number;
+  exercise_name: string;
+  catalog_id?: string | null;
+  set_number: number;
+  reps_performed?: number | null;
+  // Load in kg
+  weight?: number | null;
+  duration_seconds?: number | null;
+  rpe?: number | null;
+  skipped: boolean;
+  created_at: string;
+}
+
+export type WorkoutSetInput = Omit<
+  WorkoutSet,
+  "id" | "workout_id" | "user_id" | "created_at"
+>;
+
 /**
  * Sign up a new user with email and password
  */
@@ -46,7 +98,7 @@ export async function signUp(
   try {
     // Check if username already exists
     const { data: existingUsers } = await supabase
-      .from("profiles")
+      .from("public_profiles")
       .select("username")
       .eq("username", username)
       .single();
@@ -162,6 +214,62 @@ export async function updateUserProfile(profileData: Partial<UserProfile>) {
   }
 }
 
+// Last known injuries per user, so generated workouts stay safe offline
+const INJURIES_CACHE_KEY_PREFIX = "profile_injuries_cache:";
+
+/**
+ * Get the user's structured injuries, falling back to the last known ones
+ * when the profile can't be loaded
+ */
+export async function getProfileInjuries() {
+  let userId: string | null = null;
+  try {
+    userId = await getSessionUserId();
+
+    if (!userId) {
+      return { injuries: [], error: { message: "User not authenticated" } };
+    }
+
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("injury_details")
+      .eq("id", userId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const injuries = parseInjuries(data?.injury_details);
+    await AsyncStorage.setItem(
+      INJURIES_CACHE_KEY_PREFIX + userId,
+      JSON.stringify(injuries)
+    );
+    return { injuries, error: null };
+  } catch (error) {
+    console.warn("Get profile injuries error:", error);
+    const cached = userId
+      ? await AsyncStorage.getItem(INJURIES_CACHE_KEY_PREFIX + userId).catch(
+          () => null
+        )
+      : null;
+    return {
+      injuries: cached ? parseInjuries(JSON.parse(cached)) : [],
+      error: cached ? null : { message: "Could not load injuries" },
+    };
+  }
+}
+
+/**
+ * Get the signed-in user's id from the stored session.
+ * Unlike getUser this doesn't need the network, so workout history keeps
+ * working offline.
+ */
+async function getSessionUserId() {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
 /**
  * Save a workout to the user's history
  */
@@ -173,32 +281,85 @@ export async function saveWorkout(
     muscleFocus: string;
     equipment: string;
   },
-  workoutData: any
+  workoutData: any,
+  attribution?: { authorId: string | null; sourceWorkoutId: string | null }
 ) {
   try {
-    const { data: authData } = await supabase.auth.getUser();
+    const userId = await getSessionUserId();
 
-    if (!authData.user) {
+    if (!userId) {
+      return { data: null, error: { message: "User not authenticated" } };
+    }
+
+    // The id is assigned here so workouts saved offline keep it once synced
+    const now = new Date().toISOString();
+    const workout: WorkoutHistory = {
+      id: generateId(),
+      user_id: userId,
+      workout_type: workoutParams.workoutType,
+      time_available: workoutParams.timeAvailable,
+      mood: workoutParams.mood,
+      muscle_focus: workoutParams.muscleFocus,
+      equipment: workoutParams.equipment,
+      workout_data: workoutData,
+      completed: false,
+      ...(attribution && {
+        source_author_id: attribution.authorId,
+        source_workout_id: attribution.sourceWorkoutId,
+      }),
+      created_at: now,
+    };
+
+    const { error } = await enqueueWorkoutOperation(userId, {
+      id: generateId(),
+      type: "insert",
+      workoutId: workout.id,
+      queuedAt: now,
+      workout,
+    });
+
+    return { data: error ? null : workout, error };
+  } catch (error) {
+    console.error("Save workout error:", error);
+    return { data: null, error: { message: "An unexpected error occurred" } };
+  }
+}
+
+/**
+ * Save an edited workout as a new version of a saved workout.
+ * The first version is kept in original_workout_data for comparison.
+ */
+export async function saveWorkoutVersion(workoutId: string, workoutData: any) {
+  try {
+    const userId = await getSessionUserId();
+
+    if (!userId) {
       return { error: { message: "User not authenticated" } };
     }
 
-    const { data, error } = await supabase.from("workout_history").insert([
-      {
-        user_id: authData.user.id,
-        workout_type: workoutParams.workoutType,
-        time_available: workoutParams.timeAvailable,
-        mood: workoutParams.mood,
-        muscle_focus: workoutParams.muscleFocus,
-        equipment: workoutParams.equipment,
+    const workout = (await getCachedWorkouts(userId)).find(
+      (item) => item.id === workoutId
+    );
+    if (!workout) {
+      return { error: { message: "Workout not found" } };
+    }
+
+    const { error } = await enqueueWorkoutOperation(userId, {
+      id: generateId(),
+      type: "update",
+      workoutId,
+      queuedAt: new Date().toISOString(),
+      changes: {
         workout_data: workoutData,
-        completed: false,
-        created_at: new Date().toISOString(),
+        original_workout_data:
+          workout.original_workout_data ?? workout.workout_data,
+        version: (workout.version || 1) + 1,
       },
-    ]);
+    });
 
-    return { data, error };
+    return { error };
   } catch (error) {
-    console.error("Save workout error:", error);
+    console.error("Save workout version error:", error);
     return { error: { message: "An unexpected error occurred" } };
   }
 }
@@ -208,20 +369,21 @@ export async function saveWorkout(
  */
 export async function updateWorkoutRating(workoutId: string, rating: number) {
   try {
-    const { data: authData } = await supabase.auth.getUser();
+    const userId = await getSessionUserId();
 
-    if (!authData.user) {
+    if (!userId) {
       return { error: { message: "User not authenticated" } };
     }
 
-    const { data, error } = await supabase
-      .from("workout_history")
-      .update({ rating })
-      .eq("id", workoutId)
-      .eq("user_id", authData.user.id)
-      .select();
+    const { error } = await enqueueWorkoutOperation(userId, {
+      id: generateId(),
+      type: "update",
+      workoutId,
+      queuedAt: new Date().toISOString(),
+      changes: { rating },
+    });
 
-    return { data, error };
+    return { error };
   } catch (error) {
     console.error("Update workout rating error:", error);
     return { error: { message: "An unexpected error occurred" } };
@@ -229,50 +391,83 @@ export async function updateWorkoutRating(workoutId: string, rating: number) {
 }
 
 /**
- * Get the user's workout history
+ * Get the user's workout history.
+ * Queued changes are sent first, and when Supabase can't be reached the
+ * cached copy is returned instead.
  */
 export async function getWorkoutHistory() {
+  let userId: string | null = null;
   try {
-    const { data: authData } = await supabase.auth.getUser();
+    userId = await getSessionUserId();
 
-    if (!authData.user) {
+    if (!userId) {
       return { workouts: [], error: { message: "User not authenticated" } };
     }
 
-    const { data: workouts, error } = await supabase
+    await syncWorkoutQueue(userId);
+
+    const { data, error } = await supabase
       .from("workout_history")
       .select("*")
-      .eq("user_id", authData.user.id)
+      .eq("user_id", userId)
       .order("created_at", { ascending: false });
 
-    return { workouts, error };
+    if (error) {
+      if (isNetworkError(error)) {
+        return { workouts: await getCachedWorkouts(userId), error: null };
+      }
+      return { workouts: [], error };
+    }
+
+    // Keeps changes that are still waiting to be synced
+    const workouts = await refreshCachedWorkouts(
+      userId,
+      data as WorkoutHistory[]
+    );
+
+    return { workouts, error: null };
   } catch (error) {
+    if (userId && isNetworkError(error)) {
+      return { workouts: await getCachedWorkouts(userId), error: null };
+    }
     console.error("Get workout history error:", error);
     return { workouts: [], error: { message: "An unexpected error occurred" } };
   }
 }
 
+/**
+ * Get the locally cached workout history without going to the network
+ */
+export async function getCachedWorkoutHistory() {
+  try {
+    const userId = await getSessionUserId();
+    return { workouts: userId ? await getCachedWorkouts(userId) : [] };
+  } catch (error) {
+    console.error("Get cached workout history error:", error);
+    return { workouts: [] };
+  }
+}
+
 /**
  * Mark a workout as completed
  */
 export async function markWorkoutCompleted(workoutId: string, rating?: number) {
   try {
-    const { data: authData } = await supabase.auth.getUser();
+    const userId = await getSessionUserId();
 
-    if (!authData.user) {
+    if (!userId) {
       return { error: { message: "User not authenticated" } };
     }
 
-    const { data, error } = await supabase
-      .from("workout_history")
-      .update({
-        completed: true,
-        rating: rating || null,
-      })
-      .eq("id", workoutId)
-      .eq("user_id", authData.user.id);
+    const { error } = await enqueueWorkoutOperation(userId, {
+      id: generateId(),
+      type: "update",
+      workoutId,
+      queuedAt: new Date().toISOString(),
+      changes: { completed: true, rating: rating || null },
+    });
 
-    return { data, error };
+    return { error };
   } catch (error) {
     console.error("Mark workout completed error:", error);
     return { error: { message: "An unexpected error occurred" } };
@@ -280,46 +475,154 @@ export async function markWorkoutCompleted(workoutId: string, rating?: number) {
 }
 
 /**
- * Delete a workout from the user's history
+ * Record the sets performed for a workout, replacing earlier entries for the same sets.
+ * Queued like the other workout writes, so the sets are sent after the
+ * workout itself even when it was saved offline.
  */
-export async function deleteWorkout(workoutId: string) {
+export async function logWorkoutSets(
+  workoutId: string,
+  sets: WorkoutSetInput[]
+) {
+  try {
+    const userId = await getSessionUserId();
+
+    if (!userId) {
+      return { error: { message: "User not authenticated" } };
+    }
+
+    if (sets.length === 0) {
+      return { error: null };
+    }
+
+    const invalidSet = sets.find(
+      (set) =>
+        (set.rpe !== undefined &&
+          set.rpe !== null &&
+          (set.rpe < 1 || set.rpe > 10)) ||
+        (set.weight !== undefined && set.weight !== null && set.weight < 0)
+    );
+    if (invalidSet) {
+      return {
+        error: {
+          message: `Invalid values for ${invalidSet.exercise_name} set ${invalidSet.set_number}`,
+        },
+      };
+    }
+
+    const { error } = await enqueueWorkoutOperation(userId, {
+      id: generateId(),
+      type: "sets",
+      workoutId,
+      queuedAt: new Date().toISOString(),
+      sets,
+    });
+
+    return { error };
+  } catch (error) {
+    console.error("Log workout sets error:", error);
+    return { error: { message: "An unexpected error occurred" } };
+  }
+}
+
+/**
+ * Get the logged sets for one of the user's workouts, in workout order
+ */
+export async function getWorkoutSets(workoutId: string) {
   try {
     const { data: authData } = await supabase.auth.getUser();
 
     if (!authData.user) {
-      return { error: { message: "User not authenticated" } };
+      return { sets: [], error: { message: "User not authenticated" } };
     }
 
-    // First check if the workout exists and belongs to the user
-    const { data: workout, error: fetchError } = await supabase
-      .from("workout_history")
-      .select("id")
-      .eq("id", workoutId)
+    const { data, error } = await supabase
+      .from("workout_sets")
+      .select("*")
+      .eq("workout_id", workoutId)
       .eq("user_id", authData.user.id)
-      .single();
+      .order("exercise_index", { ascending: true })
+      .order("set_number", { ascending: true });
 
-    if (fetchError) {
-      console.error("Error fetching workout:", fetchError);
-      return { error: { message: "Could not find workout" } };
-    }
+    return { sets: (data as WorkoutSet[]) || [], error };
+  } catch (error) {
+    console.error("Get workout sets error:", error);
+    return { sets: [], error: { message: "An unexpected error occurred" } };
+  }
+}
 
-    if (!workout) {
-      return { error: { message: "Workout not found or access denied" } };
+/**
+ * Get the user's most recently logged sets across all workouts, newest first
+ */
+export async function getRecentWorkoutSets(limit: number = 300) {
+  try {
+    const { data: authData } = await supabase.auth.getUser();
+
+    if (!authData.user) {
+      return { sets: [], error: { message: "User not authenticated" } };
     }
 
-    // Then delete the workout
     const { data, error } = await supabase
-      .from("workout_history")
+      .from("workout_sets")
+      .select("*")
+      .eq("user_id", authData.user.id)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    return { sets: (data as WorkoutSet[]) || [], error };
+  } catch (error) {
+    console.error("Get recent workout sets error:", error);
+    return { sets: [], error: { message: "An unexpected error occurred" } };
+  }
+}
+
+/**
+ * Delete a single logged set
+ */
+export async function deleteWorkoutSet(setId: string) {
+  try {
+    const { data: authData } = await supabase.auth.getUser();
+
+    if (!authData.user) {
+      return { error: { message: "User not authenticated" } };
+    }
+
+    const { error } = await supabase
+      .from("workout_sets")
       .delete()
-      .eq("id", workoutId)
+      .eq("id", setId)
       .eq("user_id", authData.user.id);
 
+    return { error };
+  } catch (error) {
+    console.error("Delete workout set error:", error);
+    return { error: { message: "An unexpected error occurred" } };
+  }
+}
+
+/**
+ * Delete a workout from the user's history
+ */
+export async function deleteWorkout(workoutId: string) {
+  try {
+    const userId = await getSessionUserId();
+
+    if (!userId) {
+      return { error: { message: "User not authenticated" } };
+    }
+
+    const { error } = await enqueueWorkoutOperation(userId, {
+      id: generateId(),
+      type: "delete",
+      workoutId,
+      queuedAt: new Date().toISOString(),
+    });
+
     if (error) {
       console.error("Error deleting workout:", error);
       return { error };
     }
 
-    return { data, error: null };
+    return { error: null };
   } catch (error) {
     console.error("Delete workout error:", error);
     return { error: { message: "An unexpected error occurred" } };
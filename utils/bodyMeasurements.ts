@@ -0,0 +1,234 @@
+import { supabase } from "./supabase";
+import {
+  formatQuantity,
+  getDisplayUnit,
+  parseDisplayValue,
+  QuantityKind,
+  roundQuantity,
+  toDisplayValue,
+  UnitSystem,
+} from "./units";
+
+// Interface for one logged set of body measurements. Any of the values
+// can be left out. Weight is stored in kg and circumferences in cm
+export interface BodyMeasurement {
+  id: string;
+  user_id: string;
+  measured_at: string;
+  weight?: number | null;
+  body_fat_percentage?: number | null;
+  waist?: number | null;
+  hip?: number | null;
+  chest?: number | null;
+  arm?: number | null;
+  created_at: string;
+}
+
+export type MeasurementMetric =
+  | "weight"
+  | "body_fat_percentage"
+  | "waist"
+  | "hip"
+  | "chest"
+  | "arm";
+
+export type BodyMeasurementInput = Partial<
+  Pick<BodyMeasurement, MeasurementMetric | "measured_at">
+>;
+
+export const MEASUREMENT_METRICS: {
+  value: MeasurementMetric;
+  label: string;
+  // What the value measures; body fat is a percentage in every system
+  kind: QuantityKind | null;
+}[] = [
+  { value: "weight", label: "Weight", kind: "bodyWeight" },
+  { value: "body_fat_percentage", label: "Body Fat", kind: null },
+  { value: "waist", label: "Waist", kind: "length" },
+  { value: "hip", label: "Hip", kind: "length" },
+  { value: "chest", label: "Chest", kind: "length" },
+  { value: "arm", label: "Arm", kind: "length" },
+];
+
+// Number of measurements averaged for the trend line
+export const MOVING_AVERAGE_WINDOW = 7;
+
+function getMetricKind(metric: MeasurementMetric): QuantityKind | null {
+  return MEASUREMENT_METRICS.find((option) => option.value === metric)!.kind;
+}
+
+/**
+ * Unit label for a metric in the given system, e.g. "lb" or "%"
+ */
+export function getMeasurementUnit(
+  metric: MeasurementMetric,
+  system: UnitSystem
+): string {
+  const kind = getMetricKind(metric);
+  return kind ? getDisplayUnit(kind, system) : "%";
+}
+
+/**
+ * A stored value of a metric in the given system's display unit
+ */
+export function toMeasurementDisplayValue(
+  metric: MeasurementMetric,
+  value: number,
+  system: UnitSystem
+): number {
+  const kind = getMetricKind(metric);
+  return roundQuantity(kind ? toDisplayValue({ kind, value }, system) : value);
+}
+
+/**
+ * A stored value of a metric for display, e.g. "80 kg" or "18%"
+ */
+export function formatMeasurement(
+  metric: MeasurementMetric,
+  value: number,
+  system: UnitSystem
+): string {
+  const kind = getMetricKind(metric);
+  return kind
+    ? formatQuantity({ kind, value }, system)
+    : `${roundQuantity(value)}%`;
+}
+
+/**
+ * Parse a value typed in the given system to how it is stored. Returns
+ * null for empty or invalid input.
+ */
+export function parseMeasurementInput(
+  metric: MeasurementMetric,
+  text: string,
+  system: UnitSystem
+): number | null {
+  const kind = getMetricKind(metric);
+  if (kind) {
+    const quantity = parseDisplayValue(kind, text, system);
+    return quantity ? roundQuantity(quantity.value, 2) : null;
+  }
+  const value = parseFloat(text.trim().replace(",", "."));
+  return isNaN(value) || value <= 0 || value >= 100 ? null : value;
+}
+
+/**
+ * Trailing moving average of a series. Each point averages itself and up
+ * to `window - 1` points before it, so the line starts with the first value
+ * rather than waiting for a full window.
+ */
+export function getMovingAverage(
+  values: number[],
+  window: number = MOVING_AVERAGE_WINDOW
+): number[] {
+  return values.map((_, index) => {
+    const slice = values.slice(Math.max(0, index - window + 1), index + 1);
+    const average = slice.reduce((sum, value) => sum + value, 0) / slice.length;
+    return Math.round(average * 10) / 10;
+  });
+}
+
+/**
+ * Values of one metric in the order they were measured, converted to the
+ * given system, with their moving average
+ */
+export function getMeasurementTrend(
+  measurements: BodyMeasurement[],
+  metric: MeasurementMetric,
+  system: UnitSystem
+): {
+  points: { measuredAt: string; value: number }[];
+  movingAverage: number[];
+  unit: string;
+} {
+  const points = measurements
+    .filter((entry) => entry[metric] != null)
+    .map((entry) => ({
+      measuredAt: entry.measured_at,
+      value: toMeasurementDisplayValue(metric, Number(entry[metric]), system),
+    }))
+    .reverse();
+
+  return {
+    points,
+    movingAverage: getMovingAverage(points.map((point) => point.value)),
+    unit: getMeasurementUnit(metric, system),
+  };
+}
+
+/**
+ * Get the current user's measurements, newest first
+ */
+export async function getBodyMeasurements() {
+  try {
+    const { data: authData } = await supabase.auth.getUser();
+
+    if (!authData.user) {
+      return {
+        measurements: [],
+        error: { message: "User not authenticated" },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from("body_measurements")
+      .select("*")
+      .eq("user_id", authData.user.id)
+      .order("measured_at", { ascending: false });
+
+    return { measurements: (data as BodyMeasurement[]) || [], error };
+  } catch (error) {
+    console.error("Get body measurements error:", error);
+    return {
+      measurements: [],
+      error: { message: "An unexpected error occurred" },
+    };
+  }
+}
+
+/**
+ * Log a new set of measurements for the current user
+ */
+export async function logBodyMeasurement(input: BodyMeasurementInput) {
+  try {
+    const { data: authData } = await supabase.auth.getUser();
+
+    if (!authData.user) {
+      return {
+        measurement: null,
+        error: { message: "User not authenticated" },
+      };
+    }
+
+    const { data, error } = await supabase
+      .from("body_measurements")
+      .insert([{ ...input, user_id: authData.user.id }])
+      .select()
+      .single();
+
+    return { measurement: data as BodyMeasurement | null, error };
+  } catch (error) {
+    console.error("Log body measurement error:", error);
+    return {
+      measurement: null,
+      error: { message: "An unexpected error occurred" },
+    };
+  }
+}
+
+/**
+ * Delete a logged measurement
+ */
+export async function deleteBodyMeasurement(measurementId: string) {
+  try {
+    const { error } = await supabase
+      .from("body_measurements")
+      .delete()
+      .eq("id", measurementId);
+
+    return { error };
+  } catch (error) {
+    console.error("Delete body measurement error:", error);
+    return { error: { message: "An unexpected error occurred" } };
+  }
+}
@@ -0,0 +1,354 @@
+import { supabase } from "./supabase";
+
+/**
+ * Challenges between friends, such as "12 workouts in 30 days".
+ * Progress is computed in the database from completed workouts, so it is
+ * always current, and each challenge is finalised with stored results once
+ * it ends.
+ */
+
+export type ChallengeMetric = "workouts" | "minutes";
+
+export type ChallengeStatus = "active" | "completed";
+
+export type ParticipantStatus = "invited" | "joined" | "left";
+
+export interface Challenge {
+  id: string;
+  creator_id: string;
+  title: string;
+  metric: ChallengeMetric;
+  workout_type: string | null;
+  // Target each participant works towards; null when the most wins
+  goal: number | null;
+  starts_at: string;
+  ends_at: string;
+  status: ChallengeStatus;
+  finalized_at: string | null;
+  created_at: string;
+}
+
+export interface ChallengeParticipant {
+  challenge_id: string;
+  user_id: string;
+  status: ParticipantStatus;
+  invited_by: string | null;
+  joined_at: string | null;
+  final_progress: number | null;
+  final_rank: number | null;
+  profile?: { id: string; username: string; profile_picture_url?: string };
+}
+
+// A challenge together with the signed-in user's place in it
+export interface UserChallenge extends Challenge {
+  my_status: ParticipantStatus;
+  participant_count: number;
+}
+
+export interface LeaderboardEntry {
+  user_id: string;
+  username: string;
+  profile_picture_url: string | null;
+  progress: number;
+  rank: number;
+  reached_goal: boolean;
+}
+
+export interface ChallengeTemplate {
+  title: string;
+  metric: ChallengeMetric;
+  workoutType: string | null;
+  goal: number | null;
+  durationDays: number;
+}
+
+export const CHALLENGE_TEMPLATES: ChallengeTemplate[] = [
+  {
+    title: "12 workouts in 30 days",
+    metric: "workouts",
+    workoutType: null,
+    goal: 12,
+    durationDays: 30,
+  },
+  {
+    title: "300 minutes of cardio",
+    metric: "minutes",
+    workoutType: "cardio",
+    goal: 300,
+    durationDays: 30,
+  },
+  {
+    title: "Most strength sessions",
+    metric: "workouts",
+    workoutType: "strength",
+    goal: null,
+    durationDays: 30,
+  },
+];
+
+export const CHALLENGE_WORKOUT_TYPES: { label: string; value: string }[] = [
+  { label: "Strength", value: "strength" },
+  { label: "Cardio", value: "cardio" },
+  { label: "Strength & Cardio", value: "both" },
+  { label: "Flexibility", value: "flexibility" },
+  { label: "HIIT", value: "hiit" },
+  { label: "Yoga", value: "yoga" },
+];
+
+export const CHALLENGE_DURATION_OPTIONS = [7, 14, 30, 60];
+
+export const MAX_CHALLENGE_TITLE_LENGTH = 80;
+
+const PARTICIPANT_SELECT =
+  "*, profile:public_profiles!user_id(id, username, profile_picture_url)";
+
+/**
+ * How progress in a challenge is counted, e.g. "cardio minutes"
+ */
+export function describeChallengeMetric(
+  challenge: Pick<Challenge, "metric" | "workout_type">
+): string {
+  const type = CHALLENGE_WORKOUT_TYPES.find(
+    (option) => option.value === challenge.workout_type
+  )?.label.toLowerCase();
+  const unit = challenge.metric === "minutes" ? "minutes" : "workouts";
+  return type ? `${type} ${unit}` : unit;
+}
+
+/**
+ * What it takes to win, e.g. "Reach 12 workouts" or "Most cardio minutes"
+ */
+export function describeChallengeGoal(
+  challenge: Pick<Challenge, "metric" | "workout_type" | "goal">
+): string {
+  const metric = describeChallengeMetric(challenge);
+  return challenge.goal
+    ? `Reach ${challenge.goal} ${metric}`
+    : `Most ${metric} wins`;
+}
+
+/**
+ * Whole days left before a challenge ends, or 0 once it has
+ */
+export function getDaysRemaining(challenge: Pick<Challenge, "ends_at">) {
+  const msLeft = new Date(challenge.ends_at).getTime() - Date.now();
+  return Math.max(0, Math.ceil(msLeft / (24 * 60 * 60 * 1000)));
+}
+
+// Create a challenge and invite friends to it
+export async function createChallenge(options: {
+  title: string;
+  metric: ChallengeMetric;
+  workoutType: string | null;
+  goal: number | null;
+  durationDays: number;
+  inviteeIds: string[];
+}): Promise<{ challengeId: string | null; error: string | null }> {
+  const title = options.title.trim();
+  if (!title) {
+    return { challengeId: null, error: "Please give your challenge a name" };
+  }
+
+  try {
+    const endsAt = new Date(
+      Date.now() + options.durationDays * 24 * 60 * 60 * 1000
+    );
+    const { data, error } = await supabase.rpc("create_challenge", {
+      p_title: title.slice(0, MAX_CHALLENGE_TITLE_LENGTH),
+      p_metric: options.metric,
+      p_workout_type: options.workoutType,
+      p_goal: options.goal,
+      p_ends_at: endsAt.toISOString(),
+      p_invitee_ids: options.inviteeIds,
+    });
+
+    if (error) {
+      return { challengeId: null, error: error.message };
+    }
+
+    return { challengeId: data as string, error: null };
+  } catch (error) {
+    return {
+      challengeId: null,
+      error: "An error occurred while creating challenge",
+    };
+  }
+}
+
+// Get the challenges the user created, joined or was invited to. Ended
+// challenges are finalised first so their results are stored
+export async function getChallenges(): Promise<{
+  challenges: UserChallenge[];
+  error: string | null;
+}> {
+  try {
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { challenges: [], error: "Not authenticated" };
+    }
+
+    await finalizeChallenges();
+
+    const { data, error } = await supabase
+      .from("challenge_participants")
+      .select("status, challenge:challenges(*, challenge_participants(status))")
+      .eq("user_id", user.id)
+      .neq("status", "left");
+
+    if (error) {
+      return { challenges: [], error: error.message };
+    }
+
+    const challenges = (data || [])
+      .filter((row: any) => row.challenge)
+      .map((row: any) => {
+        const { challenge_participants, ...challenge } = row.challenge;
+        return {
+          ...challenge,
+          my_status: row.status,
+          participant_count: (challenge_participants || []).filter(
+            (participant: { status: ParticipantStatus }) =>
+              participant.status === "joined"
+          ).length,
+        } as UserChallenge;
+      })
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    return { challenges, error: null };
+  } catch (error) {
+    return {
+      challenges: [],
+      error: "An error occurred while fetching challenges",
+    };
+  }
+}
+
+// Get a challenge with everyone invited to it
+export async function getChallenge(challengeId: string): Promise<{
+  challenge: Challenge | null;
+  participants: ChallengeParticipant[];
+  error: string | null;
+}> {
+  try {
+    const [challengeResult, participantsResult] = await Promise.all([
+      supabase.from("challenges").select("*").eq("id", challengeId).single(),
+      supabase
+        .from("challenge_participants")
+        .select(PARTICIPANT_SELECT)
+        .eq("challenge_id", challengeId),
+    ]);
+
+    const error = challengeResult.error || participantsResult.error;
+    if (error) {
+      return { challenge: null, participants: [], error: error.message };
+    }
+
+    return {
+      challenge: challengeResult.data,
+      participants: participantsResult.data || [],
+      error: null,
+    };
+  } catch (error) {
+    return {
+      challenge: null,
+      participants: [],
+      error: "An error occurred while fetching challenge",
+    };
+  }
+}
+
+// Get the leaderboard of a challenge, highest progress first
+export async function getChallengeLeaderboard(
+  challengeId: string
+): Promise<{ entries: LeaderboardEntry[]; error: string | null }> {
+  try {
+    const { data, error } = await supabase.rpc("get_challenge_leaderboard", {
+      p_challenge_id: challengeId,
+    });
+
+    if (error) {
+      return { entries: [], error: error.message };
+    }
+
+    return {
+      entries: (data || []).map((entry: LeaderboardEntry) => ({
+        ...entry,
+        progress: Number(entry.progress),
+      })),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      entries: [],
+      error: "An error occurred while fetching leaderboard",
+    };
+  }
+}
+
+// Join a challenge the user was invited to
+export async function joinChallenge(
+  challengeId: string
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { error } = await supabase.rpc("join_challenge", {
+      p_challenge_id: challengeId,
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: "An error occurred while joining challenge",
+    };
+  }
+}
+
+// Leave a challenge, or decline an invite to it
+export async function leaveChallenge(
+  challengeId: string
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { error } = await supabase.rpc("leave_challenge", {
+      p_challenge_id: challengeId,
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: "An error occurred while leaving challenge",
+    };
+  }
+}
+
+// Store the results of the user's challenges that have ended
+export async function finalizeChallenges(): Promise<{
+  finalized: number;
+  error: string | null;
+}> {
+  try {
+    const { data, error } = await supabase.rpc("finalize_challenges");
+
+    if (error) {
+      return { finalized: 0, error: error.message };
+    }
+
+    return { finalized: data ?? 0, error: null };
+  } catch (error) {
+    return {
+      finalized: 0,
+      error: "An error occurred while finalizing challenges",
+    };
+  }
+}
@@ -0,0 +1,1466 @@
+import type { Equipment } from "@/constants/Equipment";
+
+/**
+ * Structured catalog of the exercises the app knows about.
+ * Generated exercises are resolved to catalog ids so features like swaps,
+ * injury filtering and progress tracking work with real exercises instead of free text.
+ */
+
+export type Muscle =
+  | "chest"
+  | "back"
+  | "lats"
+  | "shoulders"
+  | "biceps"
+  | "triceps"
+  | "forearms"
+  | "core"
+  | "obliques"
+  | "glutes"
+  | "quads"
+  | "hamstrings"
+  | "calves"
+  | "hip-flexors"
+  | "adductors"
+  | "abductors"
+  | "full-body";
+
+export type MovementPattern =
+  | "push"
+  | "pull"
+  | "squat"
+  | "lunge"
+  | "hinge"
+  | "core"
+  | "carry"
+  | "isolation"
+  | "locomotion"
+  | "plyometric"
+  | "mobility";
+
+export type ExerciseCategory = "strength" | "cardio" | "mobility";
+
+export type ExerciseDifficulty = "beginner" | "intermediate" | "advanced";
+
+// Body regions an exercise may aggravate
+export type BodyRegion =
+  | "neck"
+  | "shoulder"
+  | "elbow"
+  | "wrist"
+  | "lower-back"
+  | "hip"
+  | "knee"
+  | "ankle";
+
+export interface CatalogExercise {
+  id: string;
+  name: string;
+  aliases: string[];
+  category: ExerciseCategory;
+  movementPattern: MovementPattern;
+  primaryMuscles: Muscle[];
+  secondaryMuscles: Muscle[];
+  // Any one of these is enough to perform the exercise
+  equipment: Equipment[];
+  difficulty: ExerciseDifficulty;
+  // Performed for time rather than reps
+  timed: boolean;
+  contraindications: BodyRegion[];
+  media: {
+    videoUrl?: string;
+  };
+  instructions: string;
+}
+
+export const EXERCISE_CATALOG: CatalogExercise[] = [
+  {
+    id: "push-up",
+    name: "Push-up",
+    aliases: ["pushup", "push up", "press-up", "standard push-up"],
+    category: "strength",
+    movementPattern: "push",
+    primaryMuscles: ["chest", "triceps"],
+    secondaryMuscles: ["shoulders", "core"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["wrist", "shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=IODxDxX7oi4" },
+    instructions:
+      "Keep a straight line from head to heels, lower your chest to the floor and press back up.",
+  },
+  {
+    id: "incline-push-up",
+    name: "Incline Push-up",
+    aliases: ["elevated push-up"],
+    category: "strength",
+    movementPattern: "push",
+    primaryMuscles: ["chest", "triceps"],
+    secondaryMuscles: ["shoulders"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["wrist"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=cfaBkjnZRwU" },
+    instructions:
+      "With your hands on a bench or wall, lower your chest toward it keeping your body straight, then press away.",
+  },
+  {
+    id: "knee-push-up",
+    name: "Knee Push-up",
+    aliases: ["kneeling push-up", "modified push-up"],
+    category: "strength",
+    movementPattern: "push",
+    primaryMuscles: ["chest", "triceps"],
+    secondaryMuscles: ["shoulders", "core"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["wrist"],
+    media: {},
+    instructions:
+      "From your knees with hands under your shoulders, lower your chest to the floor and press back up.",
+  },
+  {
+    id: "decline-push-up",
+    name: "Decline Push-up",
+    aliases: ["feet elevated push-up"],
+    category: "strength",
+    movementPattern: "push",
+    primaryMuscles: ["chest", "shoulders"],
+    secondaryMuscles: ["triceps", "core"],
+    equipment: ["none"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["wrist", "shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=SKPab2YC8BE" },
+    instructions:
+      "With your feet raised on a bench, lower your chest to the floor and press back up without sagging your hips.",
+  },
+  {
+    id: "wide-push-up",
+    name: "Wide Push-up",
+    aliases: ["wide grip push-up"],
+    category: "strength",
+    movementPattern: "push",
+    primaryMuscles: ["chest"],
+    secondaryMuscles: ["shoulders", "triceps"],
+    equipment: ["none"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["wrist", "shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=rr6U6XPYKyQ" },
+    instructions:
+      "Place your hands wider than shoulder width and lower your chest between them, then press up.",
+  },
+  {
+    id: "diamond-push-up",
+    name: "Diamond Push-up",
+    aliases: ["close grip push-up", "triangle push-up"],
+    category: "strength",
+    movementPattern: "push",
+    primaryMuscles: ["triceps", "chest"],
+    secondaryMuscles: ["shoulders"],
+    equipment: ["none"],
+    difficulty: "advanced",
+    timed: false,
+    contraindications: ["wrist", "elbow"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=J0DnG1_S92I" },
+    instructions:
+      "Form a diamond with your hands under your chest and lower until your chest touches them, keeping elbows tucked.",
+  },
+  {
+    id: "dumbbell-bench-press",
+    name: "Dumbbell Bench Press",
+    aliases: ["dumbbell chest press", "db bench press", "floor press"],
+    category: "strength",
+    movementPattern: "push",
+    primaryMuscles: ["chest", "triceps"],
+    secondaryMuscles: ["shoulders"],
+    equipment: ["dumbbells"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["shoulder"],
+    media: {},
+    instructions:
+      "Lying on a bench or the floor, press the dumbbells up over your chest and lower them until your elbows are just below your torso.",
+  },
+  {
+    id: "shoulder-press",
+    name: "Dumbbell Shoulder Press",
+    aliases: [
+      "shoulder press",
+      "overhead press",
+      "military press",
+      "dumbbell overhead press",
+      "seated shoulder press",
+    ],
+    category: "strength",
+    movementPattern: "push",
+    primaryMuscles: ["shoulders"],
+    secondaryMuscles: ["triceps", "core"],
+    equipment: ["dumbbells", "kettlebells", "bands"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["shoulder", "lower-back"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=qEwKCR5JCog" },
+    instructions:
+      "Press the weights overhead from shoulder height without arching your lower back, then lower with control.",
+  },
+  {
+    id: "lateral-raise",
+    name: "Lateral Raise",
+    aliases: ["side raise", "dumbbell lateral raise", "side lateral raise"],
+    category: "strength",
+    movementPattern: "isolation",
+    primaryMuscles: ["shoulders"],
+    secondaryMuscles: [],
+    equipment: ["dumbbells", "bands"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=3VcKaas9EeI" },
+    instructions:
+      "With a slight bend in your elbows, raise the weights out to your sides until your arms are parallel to the floor.",
+  },
+  {
+    id: "tricep-dip",
+    name: "Tricep Dip",
+    aliases: ["bench dip", "chair dip", "dip"],
+    category: "strength",
+    movementPattern: "push",
+    primaryMuscles: ["triceps"],
+    secondaryMuscles: ["chest", "shoulders"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["shoulder", "wrist"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=0326dy_-CzM" },
+    instructions:
+      "With your hands on the edge of a sturdy chair, lower your body by bending your elbows to 90 degrees and press back up.",
+  },
+  {
+    id: "tricep-extension",
+    name: "Overhead Tricep Extension",
+    aliases: [
+      "tricep extension",
+      "tricep press",
+      "overhead extension",
+      "skull crusher",
+    ],
+    category: "strength",
+    movementPattern: "isolation",
+    primaryMuscles: ["triceps"],
+    secondaryMuscles: [],
+    equipment: ["dumbbells", "bands", "kettlebells"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["elbow", "shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=nRiJVZDpdL0" },
+    instructions:
+      "Hold the weight overhead and bend your elbows to lower it behind your head, then straighten your arms.",
+  },
+  {
+    id: "cable-chest-fly",
+    name: "Cable Chest Fly",
+    aliases: ["chest fly", "cable fly", "pec fly"],
+    category: "strength",
+    movementPattern: "isolation",
+    primaryMuscles: ["chest"],
+    secondaryMuscles: ["shoulders"],
+    equipment: ["full-gym"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["shoulder"],
+    media: {},
+    instructions:
+      "With a slight bend in your elbows, bring the handles together in front of your chest and return with control.",
+  },
+  {
+    id: "pull-up",
+    name: "Pull-up",
+    aliases: ["pullup", "pull up", "chin up bar pull-up"],
+    category: "strength",
+    movementPattern: "pull",
+    primaryMuscles: ["lats", "back"],
+    secondaryMuscles: ["biceps", "forearms"],
+    equipment: ["full-gym"],
+    difficulty: "advanced",
+    timed: false,
+    contraindications: ["shoulder", "elbow"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=eGo4IYlbE5g" },
+    instructions:
+      "Hang from the bar with an overhand grip and pull your chest toward it, then lower all the way down.",
+  },
+  {
+    id: "chin-up",
+    name: "Chin-up",
+    aliases: ["chinup", "chin up"],
+    category: "strength",
+    movementPattern: "pull",
+    primaryMuscles: ["lats", "biceps"],
+    secondaryMuscles: ["back"],
+    equipment: ["full-gym"],
+    difficulty: "advanced",
+    timed: false,
+    contraindications: ["shoulder", "elbow"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=brhRXlOhkAM" },
+    instructions:
+      "Hang with palms facing you and pull your chin over the bar, then lower with control.",
+  },
+  {
+    id: "lat-pulldown",
+    name: "Lat Pulldown",
+    aliases: ["pulldown", "lat pull down", "cable pulldown"],
+    category: "strength",
+    movementPattern: "pull",
+    primaryMuscles: ["lats", "back"],
+    secondaryMuscles: ["biceps"],
+    equipment: ["full-gym", "bands"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["shoulder"],
+    media: {},
+    instructions:
+      "Pull the bar down to your upper chest while keeping your torso tall, then return it slowly.",
+  },
+  {
+    id: "dumbbell-row",
+    name: "Dumbbell Row",
+    aliases: [
+      "bent over row",
+      "one arm row",
+      "single arm row",
+      "db row",
+      "bent-over dumbbell row",
+    ],
+    category: "strength",
+    movementPattern: "pull",
+    primaryMuscles: ["back", "lats"],
+    secondaryMuscles: ["biceps", "shoulders"],
+    equipment: ["dumbbells", "kettlebells"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["lower-back"],
+    media: {},
+    instructions:
+      "Hinge at the hips with a flat back and pull the dumbbell toward your hip, squeezing your shoulder blade.",
+  },
+  {
+    id: "band-pull-apart",
+    name: "Band Pull-Apart",
+    aliases: ["resistance band pull apart", "pull apart"],
+    category: "strength",
+    movementPattern: "pull",
+    primaryMuscles: ["back", "shoulders"],
+    secondaryMuscles: [],
+    equipment: ["bands"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: [],
+    media: {},
+    instructions:
+      "Hold the band at shoulder height with straight arms and pull it apart until it touches your chest.",
+  },
+  {
+    id: "superman-hold",
+    name: "Superman Hold",
+    aliases: ["superman", "back extension hold"],
+    category: "strength",
+    movementPattern: "core",
+    primaryMuscles: ["back"],
+    secondaryMuscles: ["glutes", "core"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["lower-back"],
+    media: {},
+    instructions:
+      "Lie face down and lift your arms, chest and legs off the floor, holding with your glutes and back squeezed.",
+  },
+  {
+    id: "bicep-curl",
+    name: "Bicep Curl",
+    aliases: [
+      "biceps curl",
+      "dumbbell curl",
+      "dumbbell bicep curl",
+      "arm curl",
+      "band curl",
+    ],
+    category: "strength",
+    movementPattern: "isolation",
+    primaryMuscles: ["biceps"],
+    secondaryMuscles: ["forearms"],
+    equipment: ["dumbbells", "bands", "kettlebells"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["elbow"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=ykJmrZ5v0Oo" },
+    instructions:
+      "Keep your elbows pinned to your sides and curl the weight toward your shoulders, then lower slowly.",
+  },
+  {
+    id: "hammer-curl",
+    name: "Hammer Curl",
+    aliases: ["neutral grip curl"],
+    category: "strength",
+    movementPattern: "isolation",
+    primaryMuscles: ["biceps", "forearms"],
+    secondaryMuscles: [],
+    equipment: ["dumbbells"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["elbow"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=zC3nLlEvin4" },
+    instructions:
+      "Hold the dumbbells with palms facing each other and curl them up without swinging your body.",
+  },
+  {
+    id: "bodyweight-squat",
+    name: "Bodyweight Squat",
+    aliases: ["squat", "air squat", "basic squat"],
+    category: "strength",
+    movementPattern: "squat",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["hamstrings", "core"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["knee"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=aclHkVaku9U" },
+    instructions:
+      "Stand with feet shoulder-width apart, sit your hips back and down, then drive up through your heels.",
+  },
+  {
+    id: "goblet-squat",
+    name: "Goblet Squat",
+    aliases: ["dumbbell goblet squat", "kettlebell goblet squat"],
+    category: "strength",
+    movementPattern: "squat",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["core", "adductors"],
+    equipment: ["dumbbells", "kettlebells"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["knee"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=MeIiIdhvXT4" },
+    instructions:
+      "Hold the weight at your chest, squat down between your knees and stand back up keeping your chest tall.",
+  },
+  {
+    id: "wall-sit",
+    name: "Wall Sit",
+    aliases: ["wall squat"],
+    category: "strength",
+    movementPattern: "squat",
+    primaryMuscles: ["quads"],
+    secondaryMuscles: ["glutes"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["knee"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=y-wV4Venusw" },
+    instructions:
+      "Slide down a wall until your knees are bent to 90 degrees and hold with your back flat against it.",
+  },
+  {
+    id: "leg-press",
+    name: "Leg Press",
+    aliases: ["machine leg press"],
+    category: "strength",
+    movementPattern: "squat",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["hamstrings"],
+    equipment: ["full-gym"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["knee", "lower-back"],
+    media: {},
+    instructions:
+      "Press the platform away until your legs are nearly straight, then lower it until your knees reach 90 degrees.",
+  },
+  {
+    id: "forward-lunge",
+    name: "Forward Lunge",
+    aliases: ["lunge", "walking lunge", "front lunge", "dumbbell lunge"],
+    category: "strength",
+    movementPattern: "lunge",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["hamstrings"],
+    equipment: ["none", "dumbbells"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["knee"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=3XDriUn0udo" },
+    instructions:
+      "Step forward and lower until both knees are bent to 90 degrees, then push back to standing.",
+  },
+  {
+    id: "reverse-lunge",
+    name: "Reverse Lunge",
+    aliases: ["backward lunge", "step back lunge"],
+    category: "strength",
+    movementPattern: "lunge",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["hamstrings"],
+    equipment: ["none", "dumbbells"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["knee"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=xBTkHqXz0UE" },
+    instructions:
+      "Step one foot back and lower until both knees are bent to 90 degrees, then push through the front heel to return.",
+  },
+  {
+    id: "lateral-lunge",
+    name: "Lateral Lunge",
+    aliases: ["side lunge", "cossack lunge"],
+    category: "strength",
+    movementPattern: "lunge",
+    primaryMuscles: ["adductors", "glutes", "quads"],
+    secondaryMuscles: ["hamstrings"],
+    equipment: ["none", "dumbbells"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["knee", "hip"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=8BtKPxBnpZ8" },
+    instructions:
+      "Step wide to one side and sit your hips back over that foot while keeping the other leg straight, then push back.",
+  },
+  {
+    id: "banded-lateral-walk",
+    name: "Banded Lateral Walk",
+    aliases: ["monster walk", "lateral band walk", "band walk"],
+    category: "strength",
+    movementPattern: "lunge",
+    primaryMuscles: ["abductors", "glutes"],
+    secondaryMuscles: [],
+    equipment: ["bands"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: [],
+    media: {},
+    instructions:
+      "With a band around your thighs and knees slightly bent, step sideways while keeping tension on the band.",
+  },
+  {
+    id: "deadlift",
+    name: "Deadlift",
+    aliases: ["barbell deadlift", "conventional deadlift"],
+    category: "strength",
+    movementPattern: "hinge",
+    primaryMuscles: ["hamstrings", "glutes", "back"],
+    secondaryMuscles: ["forearms", "core"],
+    equipment: ["full-gym", "dumbbells", "kettlebells"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["lower-back"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=VytU5OSPUJM" },
+    instructions:
+      "With a flat back, hinge at the hips to grip the weight and stand up by driving your hips forward.",
+  },
+  {
+    id: "romanian-deadlift",
+    name: "Romanian Deadlift",
+    aliases: ["rdl", "stiff leg deadlift", "dumbbell romanian deadlift"],
+    category: "strength",
+    movementPattern: "hinge",
+    primaryMuscles: ["hamstrings", "glutes"],
+    secondaryMuscles: ["back"],
+    equipment: ["dumbbells", "kettlebells", "full-gym"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["lower-back"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=jEy_czb3RKA" },
+    instructions:
+      "With soft knees, hinge at the hips and slide the weights down your thighs until you feel a hamstring stretch, then stand tall.",
+  },
+  {
+    id: "single-leg-deadlift",
+    name: "Single Leg Deadlift",
+    aliases: ["single-leg rdl", "one leg deadlift"],
+    category: "strength",
+    movementPattern: "hinge",
+    primaryMuscles: ["hamstrings", "glutes"],
+    secondaryMuscles: ["core"],
+    equipment: ["none", "dumbbells", "kettlebells"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["lower-back", "ankle"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=2FbBWyE8BmY" },
+    instructions:
+      "Balance on one leg and hinge forward, reaching the other leg back until your torso is nearly parallel to the floor.",
+  },
+  {
+    id: "glute-bridge",
+    name: "Glute Bridge",
+    aliases: ["hip bridge", "bridge", "hip raise"],
+    category: "strength",
+    movementPattern: "hinge",
+    primaryMuscles: ["glutes"],
+    secondaryMuscles: ["hamstrings", "core"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: [],
+    media: { videoUrl: "https://www.youtube.com/watch?v=OUgsJ8-Vi0E" },
+    instructions:
+      "Lie on your back with knees bent, squeeze your glutes and lift your hips until your body forms a straight line.",
+  },
+  {
+    id: "kettlebell-swing",
+    name: "Kettlebell Swing",
+    aliases: ["kb swing", "russian swing"],
+    category: "strength",
+    movementPattern: "hinge",
+    primaryMuscles: ["glutes", "hamstrings"],
+    secondaryMuscles: ["back", "core", "shoulders"],
+    equipment: ["kettlebells"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["lower-back", "shoulder"],
+    media: {},
+    instructions:
+      "Hinge at the hips and snap them forward to swing the kettlebell to chest height, letting your arms stay relaxed.",
+  },
+  {
+    id: "stability-ball-hamstring-curl",
+    name: "Stability Ball Hamstring Curl",
+    aliases: ["ball hamstring curl", "swiss ball leg curl"],
+    category: "strength",
+    movementPattern: "hinge",
+    primaryMuscles: ["hamstrings"],
+    secondaryMuscles: ["glutes", "core"],
+    equipment: ["exercise-ball"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["knee"],
+    media: {},
+    instructions:
+      "Lie on your back with heels on the ball, lift your hips and roll the ball toward you by bending your knees.",
+  },
+  {
+    id: "calf-raise",
+    name: "Calf Raise",
+    aliases: ["standing calf raise", "heel raise"],
+    category: "strength",
+    movementPattern: "isolation",
+    primaryMuscles: ["calves"],
+    secondaryMuscles: [],
+    equipment: ["none", "dumbbells"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["ankle"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=gwWv7aPcGBU" },
+    instructions:
+      "Rise onto the balls of your feet as high as you can, pause, then lower your heels slowly.",
+  },
+  {
+    id: "plank",
+    name: "Plank",
+    aliases: ["forearm plank", "front plank", "elbow plank"],
+    category: "strength",
+    movementPattern: "core",
+    primaryMuscles: ["core"],
+    secondaryMuscles: ["shoulders", "glutes"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["shoulder", "lower-back"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=pSHjTRCQxIw" },
+    instructions:
+      "Hold a straight line on your forearms with your core braced and hips level.",
+  },
+  {
+    id: "side-plank",
+    name: "Side Plank",
+    aliases: ["lateral plank"],
+    category: "strength",
+    movementPattern: "core",
+    primaryMuscles: ["obliques", "core"],
+    secondaryMuscles: ["shoulders", "abductors"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "intermediate",
+    timed: true,
+    contraindications: ["shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=K2VljzCC16g" },
+    instructions:
+      "Stack your feet and lift your hips from one forearm so your body forms a straight line. Switch sides halfway.",
+  },
+  {
+    id: "plank-up",
+    name: "Plank Up",
+    aliases: ["plank to push-up", "up down plank", "commando plank"],
+    category: "strength",
+    movementPattern: "core",
+    primaryMuscles: ["core", "triceps"],
+    secondaryMuscles: ["shoulders", "chest"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["wrist", "shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=L4oFJRDAU4Q" },
+    instructions:
+      "From a forearm plank, press up onto one hand and then the other, then lower back down one arm at a time.",
+  },
+  {
+    id: "sit-up",
+    name: "Sit-up",
+    aliases: ["situp", "sit up"],
+    category: "strength",
+    movementPattern: "core",
+    primaryMuscles: ["core"],
+    secondaryMuscles: ["hip-flexors"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["lower-back", "neck"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=1fbU_MkV7NE" },
+    instructions:
+      "Lie with knees bent and curl all the way up to sitting, then lower back down with control.",
+  },
+  {
+    id: "crunch",
+    name: "Crunch",
+    aliases: ["ab crunch", "abdominal crunch"],
+    category: "strength",
+    movementPattern: "core",
+    primaryMuscles: ["core"],
+    secondaryMuscles: [],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["neck"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=Xyd_fa5zoEU" },
+    instructions:
+      "Lie with knees bent and curl your shoulders off the floor by contracting your abs, keeping your neck relaxed.",
+  },
+  {
+    id: "bicycle-crunch",
+    name: "Bicycle Crunch",
+    aliases: ["bicycle", "bicycle kick crunch"],
+    category: "strength",
+    movementPattern: "core",
+    primaryMuscles: ["obliques", "core"],
+    secondaryMuscles: ["hip-flexors"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["neck", "lower-back"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=9FGilxCbdz8" },
+    instructions:
+      "Alternate bringing each elbow toward the opposite knee while extending the other leg.",
+  },
+  {
+    id: "russian-twist",
+    name: "Russian Twist",
+    aliases: ["seated twist", "weighted russian twist"],
+    category: "strength",
+    movementPattern: "core",
+    primaryMuscles: ["obliques"],
+    secondaryMuscles: ["core"],
+    equipment: ["none", "dumbbells", "kettlebells"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["lower-back"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=wkD8rjkodUI" },
+    instructions:
+      "Sit leaning back with your feet up or down and rotate your torso side to side, tapping the floor beside your hips.",
+  },
+  {
+    id: "dead-bug",
+    name: "Dead Bug",
+    aliases: ["deadbug"],
+    category: "strength",
+    movementPattern: "core",
+    primaryMuscles: ["core"],
+    secondaryMuscles: ["hip-flexors"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: [],
+    media: { videoUrl: "https://www.youtube.com/watch?v=g_BYB0R-4Ws" },
+    instructions:
+      "Lie on your back with arms and knees raised, then slowly extend the opposite arm and leg while keeping your lower back flat.",
+  },
+  {
+    id: "leg-raise",
+    name: "Leg Raise",
+    aliases: ["lying leg raise", "straight leg raise", "hanging leg raise"],
+    category: "strength",
+    movementPattern: "core",
+    primaryMuscles: ["core", "hip-flexors"],
+    secondaryMuscles: [],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["lower-back"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=l4kQd9eWclE" },
+    instructions:
+      "Lie flat and raise your straight legs to vertical, then lower them slowly without letting your lower back arch.",
+  },
+  {
+    id: "stability-ball-crunch",
+    name: "Stability Ball Crunch",
+    aliases: ["ball crunch", "swiss ball crunch", "exercise ball crunch"],
+    category: "strength",
+    movementPattern: "core",
+    primaryMuscles: ["core"],
+    secondaryMuscles: [],
+    equipment: ["exercise-ball"],
+    difficulty: "beginner",
+    timed: false,
+    contraindications: ["neck"],
+    media: {},
+    instructions:
+      "Sit back on the ball with your lower back supported and curl your ribs toward your hips.",
+  },
+  {
+    id: "thruster",
+    name: "Thruster",
+    aliases: [
+      "dumbbell thruster",
+      "squat to press",
+      "kettlebell goblet squat to press",
+    ],
+    category: "strength",
+    movementPattern: "squat",
+    primaryMuscles: ["quads", "glutes", "shoulders"],
+    secondaryMuscles: ["triceps", "core"],
+    equipment: ["dumbbells", "kettlebells", "full-gym"],
+    difficulty: "intermediate",
+    timed: false,
+    contraindications: ["knee", "shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=L219ltL15zk" },
+    instructions:
+      "Squat holding the weights at your shoulders, then drive up and press them overhead in one smooth movement.",
+  },
+  {
+    id: "turkish-get-up",
+    name: "Turkish Get-up",
+    aliases: ["turkish getup", "get-up"],
+    category: "strength",
+    movementPattern: "carry",
+    primaryMuscles: ["shoulders", "core"],
+    secondaryMuscles: ["glutes", "quads"],
+    equipment: ["kettlebells", "dumbbells"],
+    difficulty: "advanced",
+    timed: false,
+    contraindications: ["shoulder", "wrist"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=0bWRPC49-KI" },
+    instructions:
+      "Holding a weight overhead, move from lying down to standing in controlled steps while keeping your arm locked.",
+  },
+  {
+    id: "clean-and-press",
+    name: "Clean and Press",
+    aliases: ["dumbbell clean and press", "clean & press"],
+    category: "strength",
+    movementPattern: "hinge",
+    primaryMuscles: ["shoulders", "glutes", "hamstrings"],
+    secondaryMuscles: ["back", "core"],
+    equipment: ["dumbbells", "kettlebells", "full-gym"],
+    difficulty: "advanced",
+    timed: false,
+    contraindications: ["lower-back", "shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=KwYJTpQ_x5A" },
+    instructions:
+      "Pull the weight from the floor to your shoulders in one explosive move, then press it overhead.",
+  },
+  {
+    id: "jumping-jack",
+    name: "Jumping Jacks",
+    aliases: ["jumping jack", "star jack"],
+    category: "cardio",
+    movementPattern: "locomotion",
+    primaryMuscles: ["full-body"],
+    secondaryMuscles: ["calves", "shoulders"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["knee", "ankle"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=iSSAk4XCsRA" },
+    instructions:
+      "Jump your feet out while raising your arms overhead, then jump back to the start at a steady rhythm.",
+  },
+  {
+    id: "high-knees",
+    name: "High Knees",
+    aliases: ["high knee", "high knee run", "running in place"],
+    category: "cardio",
+    movementPattern: "locomotion",
+    primaryMuscles: ["hip-flexors", "quads"],
+    secondaryMuscles: ["core", "calves"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["knee", "ankle"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=8ophJzCdKmw" },
+    instructions:
+      "Run in place driving your knees up to hip height and pumping your arms.",
+  },
+  {
+    id: "butt-kicks",
+    name: "Butt Kicks",
+    aliases: ["butt kick", "butt kickers", "heel flicks"],
+    category: "cardio",
+    movementPattern: "locomotion",
+    primaryMuscles: ["hamstrings"],
+    secondaryMuscles: ["calves"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["knee"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=5MgAjJwFnuk" },
+    instructions:
+      "Jog in place kicking your heels up toward your glutes with quick feet.",
+  },
+  {
+    id: "mountain-climber",
+    name: "Mountain Climber",
+    aliases: ["mountain climbers", "climbers"],
+    category: "cardio",
+    movementPattern: "locomotion",
+    primaryMuscles: ["core", "full-body"],
+    secondaryMuscles: ["shoulders", "hip-flexors"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["wrist", "shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=nmwgirgXLYM" },
+    instructions:
+      "From a high plank, drive your knees toward your chest one at a time while keeping your hips low.",
+  },
+  {
+    id: "burpee",
+    name: "Burpee",
+    aliases: ["burpees", "squat thrust burpee"],
+    category: "cardio",
+    movementPattern: "plyometric",
+    primaryMuscles: ["full-body"],
+    secondaryMuscles: ["chest", "quads", "core"],
+    equipment: ["none"],
+    difficulty: "intermediate",
+    timed: true,
+    contraindications: ["knee", "wrist", "shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=818SkLY1KoA" },
+    instructions:
+      "Squat down, jump your feet back to a plank, return your feet to your hands and jump up with arms overhead.",
+  },
+  {
+    id: "squat-thrust",
+    name: "Squat Thrust",
+    aliases: ["half burpee", "no push-up burpee"],
+    category: "cardio",
+    movementPattern: "plyometric",
+    primaryMuscles: ["full-body"],
+    secondaryMuscles: ["core", "quads"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["wrist", "knee"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=wzWsVZ7C5J0" },
+    instructions:
+      "Squat and place your hands down, jump your feet back to a plank, then jump them back in and stand.",
+  },
+  {
+    id: "jump-squat",
+    name: "Jump Squat",
+    aliases: ["squat jump", "jumping squat"],
+    category: "cardio",
+    movementPattern: "plyometric",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["calves"],
+    equipment: ["none"],
+    difficulty: "intermediate",
+    timed: true,
+    contraindications: ["knee", "ankle"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=A-cFYWvaHr0" },
+    instructions:
+      "Lower into a squat, then jump explosively and land softly back into the next squat.",
+  },
+  {
+    id: "jumping-lunge",
+    name: "Jumping Lunge",
+    aliases: ["jump lunge", "split jump", "plyo lunge"],
+    category: "cardio",
+    movementPattern: "plyometric",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["calves", "hamstrings"],
+    equipment: ["none"],
+    difficulty: "advanced",
+    timed: true,
+    contraindications: ["knee", "ankle"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=rvqV3Vgqiyc" },
+    instructions:
+      "From a lunge, jump and switch legs in the air, landing softly in a lunge on the other side.",
+  },
+  {
+    id: "star-jump",
+    name: "Star Jump",
+    aliases: ["star jumps"],
+    category: "cardio",
+    movementPattern: "plyometric",
+    primaryMuscles: ["full-body"],
+    secondaryMuscles: ["calves", "shoulders"],
+    equipment: ["none"],
+    difficulty: "intermediate",
+    timed: true,
+    contraindications: ["knee", "ankle"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=UpH7rm0cYbM" },
+    instructions:
+      "Squat slightly, then jump up spreading your arms and legs into a star shape before landing softly.",
+  },
+  {
+    id: "tuck-jump",
+    name: "Tuck Jump",
+    aliases: ["knee tuck jump"],
+    category: "cardio",
+    movementPattern: "plyometric",
+    primaryMuscles: ["quads", "core"],
+    secondaryMuscles: ["calves", "hip-flexors"],
+    equipment: ["none"],
+    difficulty: "advanced",
+    timed: true,
+    contraindications: ["knee", "ankle"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=Uw3KvKl4BvQ" },
+    instructions:
+      "Jump straight up and pull your knees toward your chest, then land softly on the balls of your feet.",
+  },
+  {
+    id: "broad-jump",
+    name: "Broad Jump",
+    aliases: ["standing long jump", "long jump"],
+    category: "cardio",
+    movementPattern: "plyometric",
+    primaryMuscles: ["glutes", "quads"],
+    secondaryMuscles: ["hamstrings", "calves"],
+    equipment: ["none"],
+    difficulty: "intermediate",
+    timed: true,
+    contraindications: ["knee", "ankle"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=Y-wdXIMcQ5U" },
+    instructions:
+      "Swing your arms and jump forward as far as you can, landing softly with bent knees.",
+  },
+  {
+    id: "box-jump",
+    name: "Box Jump",
+    aliases: ["box jumps", "step jump"],
+    category: "cardio",
+    movementPattern: "plyometric",
+    primaryMuscles: ["quads", "glutes"],
+    secondaryMuscles: ["calves"],
+    equipment: ["full-gym"],
+    difficulty: "intermediate",
+    timed: true,
+    contraindications: ["knee", "ankle"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=NBY9-kTuHEk" },
+    instructions:
+      "Jump onto a sturdy box landing softly with both feet, then step back down.",
+  },
+  {
+    id: "skater-hops",
+    name: "Skater Hops",
+    aliases: ["skater jump", "skaters", "speed skater"],
+    category: "cardio",
+    movementPattern: "plyometric",
+    primaryMuscles: ["glutes", "quads"],
+    secondaryMuscles: ["abductors", "calves"],
+    equipment: ["none"],
+    difficulty: "intermediate",
+    timed: true,
+    contraindications: ["knee", "ankle"],
+    media: {},
+    instructions:
+      "Leap sideways from one foot to the other, landing softly and swinging your arms across your body.",
+  },
+  {
+    id: "shadow-boxing",
+    name: "Shadow Boxing",
+    aliases: ["boxing", "punches", "jab cross"],
+    category: "cardio",
+    movementPattern: "locomotion",
+    primaryMuscles: ["shoulders", "core"],
+    secondaryMuscles: ["obliques"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["shoulder"],
+    media: {},
+    instructions:
+      "Stay light on your feet and throw quick punches, rotating through your torso with every strike.",
+  },
+  {
+    id: "incline-treadmill-walk",
+    name: "Incline Treadmill Walk",
+    aliases: ["incline walk", "treadmill walk", "brisk walk"],
+    category: "cardio",
+    movementPattern: "locomotion",
+    primaryMuscles: ["glutes", "calves"],
+    secondaryMuscles: ["hamstrings"],
+    equipment: ["treadmill", "full-gym"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: [],
+    media: {},
+    instructions:
+      "Walk briskly on a moderate incline without holding the handrails.",
+  },
+  {
+    id: "treadmill-intervals",
+    name: "Treadmill Intervals",
+    aliases: [
+      "treadmill sprint",
+      "sprint intervals",
+      "treadmill run",
+      "running",
+    ],
+    category: "cardio",
+    movementPattern: "locomotion",
+    primaryMuscles: ["quads", "hamstrings"],
+    secondaryMuscles: ["calves", "glutes"],
+    equipment: ["treadmill", "full-gym"],
+    difficulty: "intermediate",
+    timed: true,
+    contraindications: ["knee", "ankle"],
+    media: {},
+    instructions:
+      "Run at a hard but controlled pace for the work interval, then straddle the belt or walk during rest.",
+  },
+  {
+    id: "rowing-machine",
+    name: "Rowing Machine",
+    aliases: ["row machine", "rower", "indoor rowing", "erg"],
+    category: "cardio",
+    movementPattern: "pull",
+    primaryMuscles: ["back", "full-body"],
+    secondaryMuscles: ["quads", "biceps"],
+    equipment: ["full-gym"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["lower-back"],
+    media: {},
+    instructions:
+      "Drive with your legs first, then lean back slightly and pull the handle to your lower ribs.",
+  },
+  {
+    id: "downward-dog",
+    name: "Downward Dog",
+    aliases: ["downward facing dog", "down dog", "downward-facing dog"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["hamstrings", "calves", "shoulders"],
+    secondaryMuscles: ["back"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["wrist", "shoulder"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=M_8HBQRzA2k" },
+    instructions:
+      "Lift your hips up and back into an inverted V, pressing your chest toward your thighs and heels toward the floor.",
+  },
+  {
+    id: "childs-pose",
+    name: "Child's Pose",
+    aliases: ["child pose", "balasana"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["back"],
+    secondaryMuscles: ["hip-flexors"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["knee"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=2CWw0qHjPJY" },
+    instructions:
+      "Kneel and sit your hips back toward your heels, reaching your arms forward and resting your forehead down.",
+  },
+  {
+    id: "warrior-one",
+    name: "Warrior I",
+    aliases: ["warrior pose", "warrior 1", "warrior one", "virabhadrasana"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["quads", "hip-flexors"],
+    secondaryMuscles: ["shoulders", "glutes"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["knee"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=_VoX6QfTgHM" },
+    instructions:
+      "Step one foot back into a lunge with the back heel down, square your hips and reach your arms overhead.",
+  },
+  {
+    id: "tree-pose",
+    name: "Tree Pose",
+    aliases: ["vrksasana", "tree"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["core"],
+    secondaryMuscles: ["glutes", "calves"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["ankle"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=YgJbLQQ3yII" },
+    instructions:
+      "Balance on one leg with the other foot resting on your inner calf or thigh and hands together at your chest.",
+  },
+  {
+    id: "cat-cow",
+    name: "Cat-Cow",
+    aliases: ["cat cow", "cat camel", "cat and cow"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["back", "core"],
+    secondaryMuscles: [],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["wrist"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=kqnua4rHVVA" },
+    instructions:
+      "On hands and knees, alternate between arching your back toward the floor and rounding it toward the ceiling with your breath.",
+  },
+  {
+    id: "cobra-pose",
+    name: "Cobra Pose",
+    aliases: ["cobra", "cobra stretch", "bhujangasana"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["back", "core"],
+    secondaryMuscles: ["chest"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["lower-back"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=JDcdhTuycOI" },
+    instructions:
+      "Lie face down and press your chest up with your hands under your shoulders, keeping your hips on the floor.",
+  },
+  {
+    id: "pigeon-pose",
+    name: "Pigeon Pose",
+    aliases: ["pigeon stretch", "pigeon"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["glutes", "hip-flexors"],
+    secondaryMuscles: [],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "intermediate",
+    timed: true,
+    contraindications: ["knee", "hip"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=0_zPqA65Nok" },
+    instructions:
+      "Bring one shin forward across your mat and extend the other leg back, folding forward over the front leg. Switch sides halfway.",
+  },
+  {
+    id: "worlds-greatest-stretch",
+    name: "World's Greatest Stretch",
+    aliases: ["worlds greatest stretch", "lunge with rotation"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["hip-flexors", "hamstrings"],
+    secondaryMuscles: ["back", "shoulders"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["knee"],
+    media: {},
+    instructions:
+      "From a lunge, place your hand inside your front foot and rotate the other arm toward the ceiling. Switch sides halfway.",
+  },
+  {
+    id: "thread-the-needle",
+    name: "Thread the Needle",
+    aliases: ["thread needle stretch"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["back", "shoulders"],
+    secondaryMuscles: [],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["shoulder"],
+    media: {},
+    instructions:
+      "From hands and knees, slide one arm under your body and rest your shoulder down to rotate your upper back. Switch sides halfway.",
+  },
+  {
+    id: "hip-flexor-stretch",
+    name: "Hip Flexor Stretch",
+    aliases: ["kneeling hip flexor stretch", "couch stretch"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["hip-flexors"],
+    secondaryMuscles: ["quads"],
+    equipment: ["none", "yoga-mat"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["knee"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=UGEpQ1BRx-4" },
+    instructions:
+      "Kneel on one knee and shift your hips forward until you feel a stretch at the front of the back hip. Switch sides halfway.",
+  },
+  {
+    id: "hamstring-stretch",
+    name: "Hamstring Stretch",
+    aliases: [
+      "lying hamstring stretch",
+      "seated hamstring stretch",
+      "toe touch",
+    ],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["hamstrings"],
+    secondaryMuscles: ["calves"],
+    equipment: ["none", "yoga-mat", "bands"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: [],
+    media: { videoUrl: "https://www.youtube.com/watch?v=oyWZRJJWjsM" },
+    instructions:
+      "Lie on your back and raise one straight leg, gently pulling it toward you until you feel a stretch. Switch sides halfway.",
+  },
+  {
+    id: "quad-stretch",
+    name: "Quad Stretch",
+    aliases: ["standing quad stretch", "quadriceps stretch"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["quads"],
+    secondaryMuscles: ["hip-flexors"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["knee"],
+    media: { videoUrl: "https://www.youtube.com/watch?v=5GSrdOnyx7M" },
+    instructions:
+      "Stand tall and pull one heel toward your glutes, keeping your knees together. Switch sides halfway.",
+  },
+  {
+    id: "shoulder-stretch",
+    name: "Shoulder Stretch",
+    aliases: ["cross body shoulder stretch", "arm across chest stretch"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["shoulders"],
+    secondaryMuscles: ["back"],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: [],
+    media: { videoUrl: "https://www.youtube.com/watch?v=bQd0JaPGM6w" },
+    instructions:
+      "Pull one arm across your chest with the other hand, keeping your shoulder down. Switch sides halfway.",
+  },
+  {
+    id: "calf-stretch",
+    name: "Calf Stretch",
+    aliases: ["wall calf stretch", "standing calf stretch"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["calves"],
+    secondaryMuscles: [],
+    equipment: ["none"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: [],
+    media: {},
+    instructions:
+      "Press your hands into a wall with one leg back and heel down, leaning in until you feel the calf stretch. Switch sides halfway.",
+  },
+  {
+    id: "stability-ball-back-extension-stretch",
+    name: "Stability Ball Back Extension Stretch",
+    aliases: ["ball back stretch", "swiss ball chest opener"],
+    category: "mobility",
+    movementPattern: "mobility",
+    primaryMuscles: ["back", "chest"],
+    secondaryMuscles: ["core"],
+    equipment: ["exercise-ball"],
+    difficulty: "beginner",
+    timed: true,
+    contraindications: ["lower-back"],
+    media: {},
+    instructions:
+      "Lie back over the ball with your feet planted and arms overhead, letting your chest open.",
+  },
+];
+
+// Muscles trained by each muscle focus option in the workout builder
+export const MUSCLES_BY_FOCUS: Record<string, Muscle[]> = {
+  "upper-body": [
+    "chest",
+    "back",
+    "lats",
+    "shoulders",
+    "biceps",
+    "triceps",
+    "forearms",
+  ],
+  "lower-body": [
+    "glutes",
+    "quads",
+    "hamstrings",
+    "calves",
+    "hip-flexors",
+    "adductors",
+    "abductors",
+  ],
+  core: ["core", "obliques"],
+  back: ["back", "lats"],
+  chest: ["chest"],
+  arms: ["biceps", "triceps", "forearms"],
+  legs: ["quads", "hamstrings", "glutes", "calves", "adductors", "abductors"],
+};
+
+const CATALOG_BY_ID = new Map(
+  EXERCISE_CATALOG.map((exercise) => [exercise.id, exercise])
+);
+
+/**
+ * Look up a catalog exercise by its canonical id
+ */
+export function getCatalogExercise(
+  id: string | null | undefined
+): CatalogExercise | undefined {
+  return id ? CATALOG_BY_ID.get(id) : undefined;
+}
+
+/**
+ * Whether the exercise can be done with the selected equipment
+ */
+export function isExerciseAvailable(
+  exercise: CatalogExercise,
+  equipment: string[]
+): boolean {
+  const hasFullGym = equipment.includes("full-gym");
+  return exercise.equipment.some(
+    (item) => item === "none" || hasFullGym || equipment.includes(item)
+  );
+}
+
+/**
+ * Whether the exercise primarily trains one of the selected muscle focus options
+ */
+export function targetsMuscleFocus(
+  exercise: CatalogExercise,
+  focus: string[]
+): boolean {
+  if (
+    focus.includes("full-body") ||
+    exercise.primaryMuscles.includes("full-body")
+  ) {
+    return true;
+  }
+  return focus.some((area) =>
+    (MUSCLES_BY_FOCUS[area] || []).some((muscle) =>
+      exercise.primaryMuscles.includes(muscle)
+    )
+  );
+}
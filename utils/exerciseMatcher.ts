@@ -0,0 +1,232 @@
+import { CatalogExercise, EXERCISE_CATALOG } from "./exerciseCatalog";
+
+/**
+ * Scored matching of free-text exercise names against the exercise catalog.
+ * Names are split into stemmed tokens and compared token by token with edit
+ * distance, so typos, plurals and word order don't matter but "leg press"
+ * never counts as "leg raise". Matches below the confidence threshold are
+ * treated as unknown exercises instead of guessing.
+ */
+
+export interface ExerciseMatch {
+  exercise: CatalogExercise;
+  // 0 to 1, where 1 is an exact name or alias match
+  confidence: number;
+  // The catalog name or alias that matched best
+  matchedName: string;
+}
+
+export const MATCH_CONFIDENCE_THRESHOLD = 0.7;
+
+// Tokens below this similarity count as different words
+const MIN_TOKEN_SIMILARITY = 0.8;
+
+const ABBREVIATIONS: Record<string, string> = {
+  db: "dumbbell",
+  kb: "kettlebell",
+  bb: "barbell",
+};
+
+// Words that describe how an exercise is done rather than which exercise it is
+const MODIFIER_TOKENS = new Set(
+  [
+    "single",
+    "double",
+    "alternating",
+    "seated",
+    "standing",
+    "slow",
+    "fast",
+    "explosive",
+    "controlled",
+    "tempo",
+    "beginner",
+    "intermediate",
+    "advanced",
+    "dumbbell",
+    "barbell",
+    "kettlebell",
+    "band",
+    "weighted",
+  ].map(stemToken)
+);
+
+// Unmatched modifiers only count this much against a candidate
+const MODIFIER_WEIGHT = 0.25;
+
+function stemToken(word: string): string {
+  let stem = ABBREVIATIONS[word] || word;
+
+  if (/ies$/.test(stem) && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (/(ch|sh|x|ss)es$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.length > 2 && stem.endsWith("s") && !stem.endsWith("ss")) {
+    stem = stem.slice(0, -1);
+  }
+
+  if (stem.endsWith("ing") && stem.length >= 6) {
+    stem = stem.slice(0, -3);
+    // "running" -> "run"
+    if (/([^aeiou])\1$/.test(stem)) {
+      stem = stem.slice(0, -1);
+    }
+  }
+
+  // "lunge" and "lunging" share a stem
+  if (stem.length > 3 && stem.endsWith("e")) {
+    stem = stem.slice(0, -1);
+  }
+
+  return stem;
+}
+
+/**
+ * Split an exercise name into lowercase, punctuation-free, stemmed tokens
+ */
+export function tokenizeExerciseName(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/&/g, " and ")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stemToken);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 0 : 1 - editDistance(a, b) / length;
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // Short words like "leg" and "log" are too close to compare fuzzily
+  if (Math.min(a.length, b.length) <= 3) return 0;
+  const score = similarity(a, b);
+  return score >= MIN_TOKEN_SIMILARITY ? score : 0;
+}
+
+function bestTokenSimilarity(token: string, candidates: string[]): number {
+  return Math.max(
+    0,
+    ...candidates.map((other) => tokenSimilarity(token, other))
+  );
+}
+
+/**
+ * Score how well a tokenized name matches a tokenized catalog name.
+ * Every catalog token has to be present, and extra words in the name lower
+ * the score unless they are modifiers like "seated" or "dumbbell".
+ */
+function scoreTokens(nameTokens: string[], catalogTokens: string[]): number {
+  if (nameTokens.length === 0 || catalogTokens.length === 0) return 0;
+
+  const catalogCoverage =
+    catalogTokens.reduce(
+      (sum, token) => sum + bestTokenSimilarity(token, nameTokens),
+      0
+    ) / catalogTokens.length;
+
+  let nameWeight = 0;
+  let nameCovered = 0;
+  nameTokens.forEach((token) => {
+    const weight = MODIFIER_TOKENS.has(token) ? MODIFIER_WEIGHT : 1;
+    nameWeight += weight;
+    nameCovered += weight * bestTokenSimilarity(token, catalogTokens);
+  });
+
+  const tokenScore = catalogCoverage * (0.4 + (0.6 * nameCovered) / nameWeight);
+
+  // Catch spacing differences like "pushup" and "push up"
+  const compactScore = similarity(nameTokens.join(""), catalogTokens.join(""));
+
+  return Math.max(
+    tokenScore,
+    compactScore >= MIN_TOKEN_SIMILARITY ? compactScore : 0
+  );
+}
+
+// Tokenized names and aliases for every catalog exercise
+const CATALOG_ENTRIES = EXERCISE_CATALOG.flatMap((exercise) =>
+  [exercise.name, ...exercise.aliases].map((name) => ({
+    exercise,
+    name,
+    tokens: tokenizeExerciseName(name),
+  }))
+);
+
+/**
+ * Rank catalog exercises by how well they match a name, best first
+ */
+export function rankExerciseMatches(name: string, limit = 5): ExerciseMatch[] {
+  const nameTokens = tokenizeExerciseName(name);
+  const bestById = new Map<string, ExerciseMatch & { specificity: number }>();
+
+  CATALOG_ENTRIES.forEach((entry) => {
+    const confidence = scoreTokens(nameTokens, entry.tokens);
+    if (confidence <= 0) return;
+
+    const current = bestById.get(entry.exercise.id);
+    if (
+      !current ||
+      confidence > current.confidence ||
+      (confidence === current.confidence &&
+        entry.tokens.length > current.specificity)
+    ) {
+      bestById.set(entry.exercise.id, {
+        exercise: entry.exercise,
+        confidence,
+        matchedName: entry.name,
+        specificity: entry.tokens.length,
+      });
+    }
+  });
+
+  // Prefer the more specific name on ties, e.g. "goblet squat" over "squat"
+  return [...bestById.values()]
+    .sort(
+      (a, b) => b.confidence - a.confidence || b.specificity - a.specificity
+    )
+    .slice(0, limit)
+    .map(({ exercise, confidence, matchedName }) => ({
+      exercise,
+      confidence: Math.round(confidence * 100) / 100,
+      matchedName,
+    }));
+}
+
+/**
+ * Best catalog match for a name, or null when nothing is confident enough
+ */
+export function matchExercise(
+  name: string,
+  threshold = MATCH_CONFIDENCE_THRESHOLD
+): ExerciseMatch | null {
+  const [best] = rankExerciseMatches(name, 1);
+  return best && best.confidence >= threshold ? best : null;
+}
+
+/**
+ * Resolve a free-text exercise name to a catalog id
+ */
+export function resolveExerciseId(name: string): string | null {
+  return matchExercise(name)?.exercise.id ?? null;
+}
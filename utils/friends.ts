@@ -1,3 +1,6 @@
+import type { PrivacyField } from "@/constants/Privacy";
+import type { ReportContext, ReportReason } from "@/constants/Reports";
+import type { WorkoutSet } from "./auth";
 import { supabase } from "./supabase";
 
 export interface FriendProfile {
@@ -5,13 +8,14 @@ export interface FriendProfile {
   username: string;
   sex?: string;
   date_of_birth?: string;
+  // In kg and cm
   weight?: number;
-  weight_unit?: string;
   height?: number;
-  height_unit?: string;
   fitness_goals?: string;
   profile_picture_url?: string;
   created_at?: string;
+  // Field groups the user's privacy settings hide from the signed-in user
+  hidden_fields?: PrivacyField[];
 }
 
 export interface FriendRequest {
@@ -33,83 +37,56 @@ export interface Friendship {
   friend_profile?: FriendProfile;
 }
 
-// Search for users by username
-export async function searchUsers(
-  query: string
-): Promise<{ users: FriendProfile[]; error: string | null }> {
-  try {
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return { users: [], error: "Not authenticated" };
-    }
-
-    // Get all search results first
-    const { data: searchResults, error: searchError } = await supabase
-      .from("profiles")
-      .select(
-        "id, username, sex, date_of_birth, weight, weight_unit, height, height_unit, fitness_goals, profile_picture_url"
-      )
-      .ilike("username", `%${query}%`)
-      .neq("id", user.id) // Exclude current user
-      .limit(20);
-
-    if (searchError) {
-      return { users: [], error: searchError.message };
-    }
-
-    if (!searchResults || searchResults.length === 0) {
-      return { users: [], error: null };
-    }
+// How a user found in search relates to the signed-in user
+export type Relationship =
+  | "none"
+  | "friend"
+  | "request_sent"
+  | "request_received"
+  | "blocked";
+
+export interface UserSearchResult extends FriendProfile {
+  relationship: Relationship;
+  // The pending request to accept when the relationship is request_received
+  request_id: string | null;
+}
 
-    // Get existing friendships (both directions)
-    const { data: friendships, error: friendshipError } = await supabase
-      .from("friendships")
-      .select("friend_id, user_id")
-      .or(`user_id.eq.${user.id},friend_id.eq.${user.id}`);
+export const SEARCH_PAGE_SIZE = 20;
 
-    // Get pending friend requests (both directions)
-    const { data: pendingRequests, error: requestError } = await supabase
-      .from("friend_requests")
-      .select("sender_id, receiver_id")
-      .or(`sender_id.eq.${user.id},receiver_id.eq.${user.id}`)
-      .eq("status", "pending");
-
-    // Create sets of user IDs to exclude
-    const excludedUserIds = new Set<string>();
-
-    // Add friends to excluded list
-    if (friendships) {
-      friendships.forEach((friendship) => {
-        if (friendship.user_id === user.id) {
-          excludedUserIds.add(friendship.friend_id);
-        } else {
-          excludedUserIds.add(friendship.user_id);
-        }
-      });
-    }
+// Search for users by username, best matches first. Pass the number of
+// results already loaded as offset to get the next page
+export async function searchUsers(
+  query: string,
+  offset: number = 0
+): Promise<{
+  users: UserSearchResult[];
+  hasMore: boolean;
+  error: string | null;
+}> {
+  try {
+    // Ask for one extra result to know whether there is another page
+    const { data, error } = await supabase.rpc("search_users", {
+      p_query: query,
+      p_limit: SEARCH_PAGE_SIZE + 1,
+      p_offset: offset,
+    });
 
-    // Add users with pending requests to excluded list
-    if (pendingRequests) {
-      pendingRequests.forEach((request) => {
-        if (request.sender_id === user.id) {
-          excludedUserIds.add(request.receiver_id);
-        } else {
-          excludedUserIds.add(request.sender_id);
-        }
-      });
+    if (error) {
+      return { users: [], hasMore: false, error: error.message };
     }
 
-    // Filter out excluded users from search results
-    const filteredUsers = searchResults.filter(
-      (searchUser) => !excludedUserIds.has(searchUser.id)
-    );
-
-    return { users: filteredUsers, error: null };
+    const users = (data || []) as UserSearchResult[];
+    return {
+      users: users.slice(0, SEARCH_PAGE_SIZE),
+      hasMore: users.length > SEARCH_PAGE_SIZE,
+      error: null,
+    };
   } catch (error) {
-    return { users: [], error: "An error occurred while searching users" };
+    return {
+      users: [],
+      hasMore: false,
+      error: "An error occurred while searching users",
+    };
   }
 }
 
@@ -158,6 +135,10 @@ export async function sendFriendRequest(
     });
 
     if (error) {
+      // Row level security rejects requests between blocked users
+      if (error.code === "42501") {
+        return { success: false, error: "You can't add this user" };
+      }
       return { success: false, error: error.message };
     }
 
@@ -189,7 +170,7 @@ export async function getPendingFriendRequests(): Promise<{
       .select(
         `
         *,
-        sender_profile:profiles!sender_id(id, username, sex, date_of_birth, weight, weight_unit, height, height_unit, fitness_goals, profile_picture_url)
+        sender_profile:public_profiles!sender_id(id, username, sex, date_of_birth, weight, height, fitness_goals, profile_picture_url)
       `
       )
       .eq("receiver_id", user.id)
@@ -272,7 +253,7 @@ export async function getFriends(): Promise<{
       .select(
         `
         *,
-        friend_profile:profiles!friend_id(id, username, sex, date_of_birth, weight, weight_unit, height, height_unit, fitness_goals, profile_picture_url)
+        friend_profile:public_profiles!friend_id(id, username, sex, date_of_birth, weight, height, fitness_goals, profile_picture_url)
       `
       )
       .eq("user_id", user.id)
@@ -307,6 +288,88 @@ export async function removeFriend(
   }
 }
 
+// Block a user. This also removes them as a friend and clears any
+// friend requests between you
+export async function blockUser(
+  userId: string
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { error } = await supabase.rpc("block_user", {
+      p_user_id: userId,
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    return { success: false, error: "An error occurred while blocking user" };
+  }
+}
+
+// Unblock a user
+export async function unblockUser(
+  userId: string
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { error } = await supabase.rpc("unblock_user", {
+      p_user_id: userId,
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: "An error occurred while unblocking user",
+    };
+  }
+}
+
+// Report a user. contextId is the comment, activity or shared workout the
+// report is about, if any
+export async function reportUser(
+  userId: string,
+  reason: ReportReason,
+  context: ReportContext,
+  details?: string,
+  contextId?: string
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const { error } = await supabase.from("user_reports").insert({
+      reporter_id: user.id,
+      reported_id: userId,
+      reason,
+      details: details?.trim() || null,
+      context,
+      context_id: contextId || null,
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: "An error occurred while reporting user",
+    };
+  }
+}
+
 // Get friend's workout history
 export async function getFriendWorkoutHistory(
   friendId: string
@@ -332,3 +395,32 @@ export async function getFriendWorkoutHistory(
     };
   }
 }
+
+/**
+ * Get the logged sets for one of a friend's workouts
+ */
+export async function getFriendWorkoutSets(
+  friendId: string,
+  workoutId: string
+): Promise<{ sets: WorkoutSet[]; error: string | null }> {
+  try {
+    const { data, error } = await supabase
+      .from("workout_sets")
+      .select("*")
+      .eq("user_id", friendId)
+      .eq("workout_id", workoutId)
+      .order("exercise_index", { ascending: true })
+      .order("set_number", { ascending: true });
+
+    if (error) {
+      return { sets: [], error: error.message };
+    }
+
+    return { sets: (data as WorkoutSet[]) || [], error: null };
+  } catch (error) {
+    return {
+      sets: [],
+      error: "An error occurred while fetching workout sets",
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { INJURY_REGION_OPTIONS, InjurySeverity } from "@/constants/Injuries";
+
+import type { BodyRegion, CatalogExercise } from "./exerciseCatalog";
+
+/**
+ * Structured injuries and limitations from the user's profile, and how they
+ * relate to the contraindications of catalog exercises.
+ */
+
+export interface ProfileInjury {
+  region: BodyRegion;
+  severity: InjurySeverity;
+}
+
+const SEVERITIES: InjurySeverity[] = ["mild", "moderate", "severe"];
+
+/**
+ * Read profiles.injury_details, ignoring anything that isn't a known region
+ * and severity
+ */
+export function parseInjuries(value: unknown): ProfileInjury[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter(
+    (item): item is ProfileInjury =>
+      typeof item === "object" &&
+      item !== null &&
+      INJURY_REGION_OPTIONS.some((option) => option.value === item.region) &&
+      SEVERITIES.includes(item.severity)
+  );
+}
+
+export function getRegionLabel(region: BodyRegion): string {
+  return (
+    INJURY_REGION_OPTIONS.find((option) => option.value === region)?.label ||
+    region
+  );
+}
+
+/**
+ * The user's injuries an exercise may aggravate, most severe first
+ */
+export function getInjuryConflicts(
+  exercise: CatalogExercise,
+  injuries: ProfileInjury[]
+): ProfileInjury[] {
+  return injuries
+    .filter((injury) => exercise.contraindications.includes(injury.region))
+    .sort(
+      (a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity)
+    );
+}
+
+/**
+ * Whether an exercise can be programmed at all: it may only load regions
+ * with a mild injury
+ */
+export function isSafeForInjuries(
+  exercise: CatalogExercise,
+  injuries: ProfileInjury[]
+): boolean {
+  return getInjuryConflicts(exercise, injuries).every(
+    (injury) => injury.severity === "mild"
+  );
+}
+
+/**
+ * "knee (moderate), lower back (severe)"
+ */
+export function describeInjuries(injuries: ProfileInjury[]): string {
+  return injuries
+    .map(
+      (injury) =>
+        `${getRegionLabel(injury.region).toLowerCase()} (${injury.severity})`
+    )
+    .join(", ");
+}
@@ -0,0 +1,154 @@
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+
+// Android channel used for workout reminders
+const REMINDER_CHANNEL_ID = "workout-reminders";
+
+// Reminder notifications use this prefix plus the schedule id as their
+// identifier, so any device can find and replace them after a sync
+const REMINDER_ID_PREFIX = "scheduled-workout-";
+
+export const REMINDER_OPTIONS = [
+  { label: "No reminder", value: null },
+  { label: "At start time", value: 0 },
+  { label: "15 minutes before", value: 15 },
+  { label: "30 minutes before", value: 30 },
+  { label: "1 hour before", value: 60 },
+  { label: "1 day before", value: 1440 },
+];
+
+export interface WorkoutReminder {
+  scheduleId: string;
+  workoutTitle: string;
+  scheduledFor: Date;
+  reminderMinutes: number | null;
+}
+
+// Show reminders even when the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+function getReminderIdentifier(scheduleId: string) {
+  return `${REMINDER_ID_PREFIX}${scheduleId}`;
+}
+
+function formatReminderBody(reminderMinutes: number) {
+  if (reminderMinutes === 0) return "Your workout starts now. Let's go!";
+  if (reminderMinutes < 60) {
+    return `Your workout starts in ${reminderMinutes} minutes.`;
+  }
+  if (reminderMinutes < 1440) {
+    const hours = Math.round(reminderMinutes / 60);
+    return `Your workout starts in ${hours} hour${hours === 1 ? "" : "s"}.`;
+  }
+  return "Your workout is scheduled for tomorrow.";
+}
+
+/**
+ * Ask for permission to send notifications, returns whether it was granted
+ */
+export async function requestNotificationPermission() {
+  try {
+    if (Platform.OS === "android") {
+      await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: "Workout reminders",
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    const { status: existingStatus } =
+      await Notifications.getPermissionsAsync();
+    if (existingStatus === "granted") return true;
+
+    const { status } = await Notifications.requestPermissionsAsync();
+    return status === "granted";
+  } catch (error) {
+    console.error("Notification permission error:", error);
+    return false;
+  }
+}
+
+/**
+ * Schedule the local reminder for a scheduled workout, replacing any
+ * existing one. Reminders that would fire in the past are skipped.
+ */
+export async function scheduleWorkoutReminder(reminder: WorkoutReminder) {
+  try {
+    const identifier = getReminderIdentifier(reminder.scheduleId);
+    await Notifications.cancelScheduledNotificationAsync(identifier);
+
+    if (reminder.reminderMinutes === null) return;
+
+    const triggerDate = new Date(
+      reminder.scheduledFor.getTime() - reminder.reminderMinutes * 60 * 1000
+    );
+    if (triggerDate.getTime() <= Date.now()) return;
+
+    await Notifications.scheduleNotificationAsync({
+      identifier,
+      content: {
+        title: reminder.workoutTitle,
+        body: formatReminderBody(reminder.reminderMinutes),
+        data: { scheduleId: reminder.scheduleId },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: triggerDate,
+        channelId: REMINDER_CHANNEL_ID,
+      },
+    });
+  } catch (error) {
+    console.error("Schedule reminder error:", error);
+  }
+}
+
+/**
+ * Cancel the local reminder for a scheduled workout
+ */
+export async function cancelWorkoutReminder(scheduleId: string) {
+  try {
+    await Notifications.cancelScheduledNotificationAsync(
+      getReminderIdentifier(scheduleId)
+    );
+  } catch (error) {
+    console.error("Cancel reminder error:", error);
+  }
+}
+
+/**
+ * Make this device's reminders match the schedules stored in Supabase.
+ * Schedules created or moved on another device get a reminder here, and
+ * reminders for schedules that no longer exist are cancelled.
+ */
+export async function syncWorkoutReminders(reminders: WorkoutReminder[]) {
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const wanted = new Set(
+      reminders.map((reminder) => getReminderIdentifier(reminder.scheduleId))
+    );
+
+    await Promise.all(
+      scheduled
+        .filter(
+          (notification) =>
+            notification.identifier.startsWith(REMINDER_ID_PREFIX) &&
+            !wanted.has(notification.identifier)
+        )
+        .map((notification) =>
+          Notifications.cancelScheduledNotificationAsync(
+            notification.identifier
+          )
+        )
+    );
+
+    await Promise.all(reminders.map(scheduleWorkoutReminder));
+  } catch (error) {
+    console.error("Sync reminders error:", error);
+  }
+}
@@ -0,0 +1,337 @@
+import {
+  CatalogExercise,
+  EXERCISE_CATALOG,
+  ExerciseCategory,
+  isExerciseAvailable,
+  targetsMuscleFocus,
+} from "./exerciseCatalog";
+import { resolveExerciseId } from "./exerciseMatcher";
+import { isSafeForInjuries } from "./injuries";
+import type { WorkoutParams, WorkoutResponse } from "./openai";
+import { createStraightBlocks, WORKOUT_SCHEMA_VERSION } from "./workoutSchema";
+import { WorkoutValidationError } from "./workoutValidation";
+
+/**
+ * Rule-based workout generator that works without a model.
+ * Exercises are picked from the catalog by workout type, muscle focus and
+ * equipment, sized to the available time and scaled by mood and fitness level.
+ * The same inputs and seed always produce the same workout, and it needs no
+ * network or API key so it can run on the client or the server.
+ */
+
+export interface OfflineWorkoutOptions {
+  seed?: number;
+  fitnessLevel?: string | null;
+}
+
+// Which exercise modalities make up each workout type
+const MODALITIES_BY_TYPE: Record<string, ExerciseCategory[]> = {
+  strength: ["strength"],
+  cardio: ["cardio"],
+  both: ["strength", "cardio"],
+  hiit: ["cardio", "strength"],
+  flexibility: ["mobility"],
+  yoga: ["mobility"],
+};
+
+// Base prescription per workout type before intensity scaling (times in seconds)
+const PRESCRIPTION_BY_TYPE: Record<
+  string,
+  { sets: number; reps: number; work: number; rest: number }
+> = {
+  strength: { sets: 3, reps: 10, work: 40, rest: 60 },
+  cardio: { sets: 3, reps: 15, work: 60, rest: 30 },
+  both: { sets: 3, reps: 12, work: 45, rest: 45 },
+  hiit: { sets: 4, reps: 15, work: 30, rest: 15 },
+  flexibility: { sets: 2, reps: 8, work: 45, rest: 15 },
+  yoga: { sets: 2, reps: 8, work: 60, rest: 10 },
+};
+
+const MOOD_INTENSITY: Record<string, number> = {
+  energetic: 1.15,
+  happy: 1.05,
+  normal: 1,
+  stressed: 0.95,
+  sad: 0.9,
+  tired: 0.85,
+};
+
+const FITNESS_LEVEL_INTENSITY: Record<string, number> = {
+  beginner: 0.85,
+  intermediate: 1,
+  advanced: 1.1,
+  athletic: 1.2,
+  professional: 1.25,
+};
+
+// Midpoint of each time range in minutes
+const MINUTES_BY_TIME: Record<string, number> = {
+  "10-15": 12,
+  "15-25": 20,
+  "25-40": 32,
+  "40-60": 50,
+  "60-90": 75,
+  "120": 120,
+};
+
+// Time between exercises for setting up equipment
+const TRANSITION_SECONDS = 30;
+
+const MIN_EXERCISES = 3;
+
+const MAX_SETS = 5;
+
+// Small, fast seeded PRNG (mulberry32) so workouts are reproducible
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Stable string hash used to derive a default seed from the inputs
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Alternate between modalities so "both" and "hiit" mix strength and cardio
+function interleave<T>(groups: T[][]): T[] {
+  const result: T[] = [];
+  const longest = Math.max(0, ...groups.map((group) => group.length));
+  for (let i = 0; i < longest; i++) {
+    groups.forEach((group) => {
+      if (i < group.length) result.push(group[i]);
+    });
+  }
+  return result;
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.max(step, Math.round(value / step) * step);
+}
+
+// Catalog ids for exercise names, falling back to the lowercased name
+function toExerciseKeys(names: string[] = []): Set<string> {
+  return new Set(
+    names.map((name) => resolveExerciseId(name) || name.trim().toLowerCase())
+  );
+}
+
+/**
+ * Exercise modalities that make up a workout type, "both" for unknown types
+ */
+export function getWorkoutModalities(workoutType: string): ExerciseCategory[] {
+  return MODALITIES_BY_TYPE[workoutType] || MODALITIES_BY_TYPE.both;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Build a workout from the offline catalog for the given parameters.
+ * Throws a WorkoutValidationError when no catalog exercise fits them.
+ */
+export function buildOfflineWorkout(
+  params: WorkoutParams,
+  options: OfflineWorkoutOptions = {}
+): WorkoutResponse {
+  const workoutType = MODALITIES_BY_TYPE[params.workoutType]
+    ? params.workoutType
+    : "both";
+  const fitnessLevel = (options.fitnessLevel || "intermediate").toLowerCase();
+  const preferences = params.preferences;
+  const seed =
+    options.seed ??
+    hashString(
+      [
+        workoutType,
+        params.timeAvailable,
+        params.mood,
+        params.muscleFocus,
+        params.equipment,
+        fitnessLevel,
+        params.program
+          ? `${params.program.weekNumber}.${params.program.sessionNumber}`
+          : "",
+        preferences
+          ? [
+              ...preferences.avoidExercises,
+              preferences.maxMinutes ?? "",
+              preferences.volume,
+            ].join(",")
+          : "",
+      ].join("|")
+    );
+  const random = createRandom(seed);
+
+  const equipment = params.equipment.split(",");
+  const focus = params.muscleFocus.split(",");
+  const modalities = MODALITIES_BY_TYPE[workoutType];
+
+  // What the user's history says to leave out, put first or move back
+  const avoided = toExerciseKeys(preferences?.avoidExercises);
+  const favorites = toExerciseKeys(preferences?.favoriteExercises);
+  const repeated = toExerciseKeys(
+    preferences?.lowRatedWorkoutType?.recentExercises
+  );
+  const isKnown = (keys: Set<string>, exercise: CatalogExercise) =>
+    keys.has(exercise.id) || keys.has(exercise.name.toLowerCase());
+  const rank = (exercise: CatalogExercise) =>
+    isKnown(favorites, exercise) ? 0 : isKnown(repeated, exercise) ? 2 : 1;
+
+  const isSuitable = (exercise: CatalogExercise) =>
+    isExerciseAvailable(exercise, equipment) &&
+    !(fitnessLevel === "beginner" && exercise.difficulty === "advanced") &&
+    !isKnown(avoided, exercise) &&
+    isSafeForInjuries(exercise, params.injuries || []);
+  const matchesFocus = (exercise: CatalogExercise) =>
+    targetsMuscleFocus(exercise, focus);
+  const prioritize = (exercises: CatalogExercise[]) =>
+    shuffle(exercises, random).sort((a, b) => rank(a) - rank(b));
+
+  // Focused exercises first, then the rest of the modality as filler
+  const pool = interleave(
+    modalities.map((modality) => {
+      const candidates = EXERCISE_CATALOG.filter(
+        (exercise) => exercise.category === modality && isSuitable(exercise)
+      );
+      return [
+        ...prioritize(candidates.filter(matchesFocus)),
+        ...prioritize(
+          candidates.filter((exercise) => !matchesFocus(exercise))
+        ),
+      ];
+    })
+  );
+
+  // Bodyweight exercises are always available, so an empty pool means the
+  // injuries or avoided exercises rule out the whole workout type
+  if (pool.length === 0) {
+    throw new WorkoutValidationError([
+      `no ${workoutType} exercises are safe for your injuries and preferences`,
+    ]);
+  }
+
+  // Scale the base prescription by mood, fitness level and program week
+  const intensity =
+    (MOOD_INTENSITY[params.mood] ?? 1) *
+    (FITNESS_LEVEL_INTENSITY[fitnessLevel] ?? 1) *
+    (params.program?.intensity ?? 1);
+  const base = PRESCRIPTION_BY_TYPE[workoutType];
+  const sets = Math.min(
+    MAX_SETS,
+    Math.max(
+      2,
+      base.sets +
+        (intensity >= 1.15 ? 1 : 0) -
+        (intensity <= 0.85 ? 1 : 0) -
+        (params.program?.phase === "deload" ? 1 : 0) +
+        (preferences?.volume === "higher" ? 1 : 0) -
+        (preferences?.volume === "lower" ? 1 : 0)
+    )
+  );
+  const reps = Math.max(5, Math.round(base.reps * intensity));
+  const work = roundTo(base.work * intensity, 5);
+  const rest = roundTo(base.rest / intensity, 5);
+
+  // Fill the time left after warmup and cooldown, up to what the user
+  // realistically finishes
+  const targetMinutes = Math.min(
+    MINUTES_BY_TIME[params.timeAvailable] ?? 32,
+    preferences?.maxMinutes ?? Infinity
+  );
+  const warmupMinutes = targetMinutes <= 20 ? 3 : 5;
+  const cooldownMinutes = targetMinutes <= 20 ? 2 : 5;
+  const budgetSeconds = (targetMinutes - warmupMinutes - cooldownMinutes) * 60;
+  const secondsPerExercise = (exerciseSets: number) =>
+    exerciseSets * (work + rest) + TRANSITION_SECONDS;
+
+  const count = Math.min(
+    pool.length,
+    Math.max(
+      MIN_EXERCISES,
+      Math.floor(budgetSeconds / secondsPerExercise(sets))
+    )
+  );
+
+  // Spend leftover time on extra sets when the pool runs out of exercises,
+  // unless the user already struggles with the usual volume
+  const maxSets = preferences?.volume === "lower" ? sets : MAX_SETS;
+  let exerciseSets = sets;
+  while (
+    exerciseSets < maxSets &&
+    count * secondsPerExercise(exerciseSets + 1) <= budgetSeconds
+  ) {
+    exerciseSets++;
+  }
+
+  const selected = pool.slice(0, count);
+  const totalMinutes = Math.round(
+    warmupMinutes +
+      cooldownMinutes +
+      (count * secondsPerExercise(exerciseSets)) / 60
+  );
+  const difficulty =
+    intensity < 0.95 ? "beginner" : intensity < 1.1 ? "intermediate" : "advanced";
+  const isMobility = modalities.includes("mobility");
+
+  return {
+    title: `${capitalize(params.mood)} ${
+      workoutType === "hiit" ? "HIIT" : capitalize(workoutType)
+    } Session`,
+    description: `A ${difficulty} ${workoutType} session focused on ${params.muscleFocus.replace(
+      /,/g,
+      ", "
+    )}, built from the exercise catalog.`,
+    exercises: selected.map((exercise) => ({
+      name: exercise.name,
+      catalogId: exercise.id,
+      sets: exerciseSets,
+      ...(exercise.timed || workoutType === "hiit"
+        ? { duration: `${work} seconds` }
+        : { reps: `${reps}` }),
+      restBetweenSets: `${rest} seconds`,
+      instructions: exercise.instructions,
+      ...(exercise.media.videoUrl ? { videoUrl: exercise.media.videoUrl } : {}),
+    })),
+    schemaVersion: WORKOUT_SCHEMA_VERSION,
+    // HIIT goes round every exercise before resting, everything else is
+    // done as straight sets
+    blocks:
+      workoutType === "hiit"
+        ? [
+            {
+              type: "circuit",
+              exerciseIndexes: selected.map((_, index) => index),
+              rounds: exerciseSets,
+              restSeconds: rest,
+            },
+          ]
+        : createStraightBlocks(count),
+    warmup: isMobility
+      ? `${warmupMinutes} minutes of slow breathing, neck rolls and gentle joint circles`
+      : `${warmupMinutes} minutes of marching in place, arm circles and bodyweight squats`,
+    cooldown: `${cooldownMinutes} minutes of light stretching and deep breathing`,
+    totalTime: `${totalMinutes} minutes`,
+    difficulty,
+  };
+}
@@ -1,11 +1,29 @@
-import OpenAI from "openai";
-import { enhanceWorkoutWithVisuals } from "./exerciseVisuals";
+import {
+  getProfileInjuries,
+  getRecentWorkoutSets,
+  getWorkoutHistory,
+} from "./auth";
+import type { ProfileInjury } from "./injuries";
+import { buildOfflineWorkout } from "./offlineWorkout";
+import {
+  computePreferenceModel,
+  GenerationPreferences,
+  getGenerationPreferences,
+} from "./preferenceModel";
+import type { ProgramSessionContext } from "./programPlan";
 import { supabase } from "./supabase";
+import type { WorkoutBlock } from "./workoutSchema";
+import { applyInjurySafety } from "./workoutSafety";
+import {
+  assertValidWorkout,
+  WorkoutValidationError,
+} from "./workoutValidation";
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.EXPO_PUBLIC_OPEN_AI_API_KEY,
-});
+// Base URL of the server hosting the API routes (empty uses the app's own origin)
+const API_URL = process.env.EXPO_PUBLIC_API_URL || "";
+
+// "offline" builds workouts on the device without calling the server
+const CLIENT_GENERATOR = process.env.EXPO_PUBLIC_WORKOUT_GENERATOR || "server";
 
 // Define workout generation parameters interface
 export interface WorkoutParams {
@@ -14,6 +32,13 @@ export interface WorkoutParams {
   mood: string;
   muscleFocus: string;
   equipment: string;
+  // Set when the workout is a session of a multi-week program
+  program?: ProgramSessionContext;
+  // What the user's history says about their tastes, see preferenceModel
+  preferences?: GenerationPreferences;
+  // Injuries the workout has to be safe for, loaded from the profile when
+  // not given
+  injuries?: ProfileInjury[];
 }
 
 // Define workout response interface
@@ -29,182 +54,175 @@ export interface WorkoutResponse {
     instructions: string;
     // Video element for exercise demonstration
     videoUrl?: string; // YouTube video URL for exercise demonstration
+    // Id of the matching entry in the exercise catalog, if any
+    catalogId?: string;
+    // Why the exercise may aggravate one of the user's injuries
+    safetyWarning?: string;
   }[];
+  // Version of this structure, see workoutSchema; missing means version 1
+  schemaVersion?: number;
+  // How the exercises are grouped into sets, supersets, circuits and
+  // intervals; version 1 workouts have none
+  blocks?: WorkoutBlock[];
   warmup?: string;
   cooldown?: string;
   totalTime: string;
   difficulty: string;
+  // Which generator produced the workout
+  generator?: GenerationMode;
+  // Why the workout was adjusted to the user's history, shown on the preview
+  personalization?: string[];
+  // Exercises swapped or removed because of the user's injuries
+  safetyNotes?: string[];
+}
+
+// "ai" asks the server-side model, "offline" uses the local rule-based generator
+export type GenerationMode = "ai" | "offline";
+
+export interface GenerateWorkoutOptions {
+  mode?: GenerationMode;
+  // Seed for the offline generator; the same seed reproduces the same workout
+  seed?: number;
+  // Learn from past ratings and completions (on by default)
+  personalize?: boolean;
 }
 
 /**
- * Generates a workout plan using OpenAI based on user preferences and profile
+ * Generates a workout plan through the server-side generation endpoint, falling
+ * back to the offline generator when the server or model is unreachable.
+ * Throws a WorkoutValidationError when the model could not produce a valid plan.
  */
 export async function generateWorkout(
-  params: WorkoutParams
+  params: WorkoutParams,
+  options: GenerateWorkoutOptions = {}
 ): Promise<WorkoutResponse> {
-  try {
-    // Get user profile data from Supabase if user is authenticated
-    let userProfileData = null;
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+  const mode =
+    options.mode ?? (CLIENT_GENERATOR === "offline" ? "offline" : "ai");
 
-    if (user) {
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("id", user.id)
-        .single();
+  if (options.personalize !== false && !params.preferences) {
+    const preferences = await loadGenerationPreferences(params);
+    if (preferences) {
+      params = { ...params, preferences };
+    }
+  }
 
-      userProfileData = profile;
+  const generate = async () => {
+    if (mode === "offline") {
+      return generateOfflineWorkout(params, options.seed);
     }
 
-    // Build the prompt based on workout parameters and user profile
-    const prompt = buildWorkoutPrompt(params, userProfileData);
-
-    // Call OpenAI API
-    const response = await openai.chat.completions.create({
-      model: "gpt-5-mini",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a professional fitness coach specialized in creating personalized workout routines. Provide detailed, safe, and effective workout plans based on the user's preferences and profile information. Format your response as structured JSON.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      response_format: { type: "json_object" },
-    });
-
-    // Parse the workout plan
-    const workoutPlan = JSON.parse(
-      response.choices[0].message.content || "{}"
-    ) as WorkoutResponse;
-
-    // Enhance with visual elements if they're missing
-    const enhancedWorkout = enhanceWorkoutWithVisuals(
-      workoutPlan
-    ) as WorkoutResponse;
-
-    return enhancedWorkout;
+    try {
+      return await requestServerWorkout(params);
+    } catch (error) {
+      if (error instanceof WorkoutValidationError) {
+        throw error;
+      }
+      console.warn("Falling back to offline workout generation:", error);
+      return generateOfflineWorkout(params, options.seed);
+    }
+  };
+
+  if (!params.injuries) {
+    const { injuries } = await getProfileInjuries();
+    params = { ...params, injuries };
+  }
+
+  const workout = applyInjurySafety(
+    await generate(),
+    params.injuries ?? [],
+    params
+  );
+  return params.preferences
+    ? { ...workout, personalization: params.preferences.explanations }
+    : workout;
+}
+
+/**
+ * Learn the user's preferences from their history.
+ * Uses the cached history when offline; generation goes ahead without
+ * preferences if nothing can be loaded.
+ */
+async function loadGenerationPreferences(
+  params: WorkoutParams
+): Promise<GenerationPreferences | null> {
+  try {
+    const [{ workouts }, { sets }] = await Promise.all([
+      getWorkoutHistory(),
+      getRecentWorkoutSets(),
+    ]);
+    return getGenerationPreferences(
+      computePreferenceModel(workouts, sets),
+      params
+    );
   } catch (error) {
-    console.error("Error generating workout:", error);
-    throw new Error("Failed to generate workout plan");
+    console.warn("Could not load workout preferences:", error);
+    return null;
   }
 }
 
 /**
- * Builds a detailed prompt for OpenAI based on workout parameters and user profile
+ * Call the server-side generation endpoint
  */
-function buildWorkoutPrompt(params: WorkoutParams, userProfile: any): string {
-  const { workoutType, timeAvailable, mood, muscleFocus, equipment } = params;
-
-  // Convert time available to minutes for clearer instructions
-  const timeRangeMap: Record<string, string> = {
-    "10-15": "10-15 minutes",
-    "15-25": "15-25 minutes",
-    "25-40": "25-40 minutes",
-    "40-60": "40-60 minutes",
-    "60-90": "60-90 minutes",
-    "120": "120 minutes (2 hours)",
-  };
+async function requestServerWorkout(
+  params: WorkoutParams
+): Promise<WorkoutResponse> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
 
-  const timeRange = timeRangeMap[timeAvailable] || timeAvailable;
-
-  // Parse equipment list
-  const equipmentList = equipment.split(",");
-  const equipmentString =
-    equipmentList.length === 1
-      ? equipmentList[0]
-      : equipmentList
-          .map((item, index) => {
-            if (index === equipmentList.length - 1) {
-              return `and ${item}`;
-            }
-            return item;
-          })
-          .join(", ");
-
-  // Base prompt with workout parameters
-  let prompt = `Create a detailed ${workoutType} workout plan that:
-- Takes approximately ${timeRange} to complete
-- Focuses on the ${muscleFocus} muscle group(s)
-- Uses the following equipment: ${equipmentString}
-- Is suitable for someone who is feeling ${mood}
-`;
-
-  // Add user profile information if available
-  if (userProfile) {
-    prompt += `\nAdditional information about the user:`;
-
-    if (userProfile.fitness_level) {
-      prompt += `\n- Fitness level: ${userProfile.fitness_level}`;
-    }
+  if (!session) {
+    throw new Error("User not authenticated");
+  }
 
-    if (userProfile.age) {
-      prompt += `\n- Age: ${userProfile.age}`;
+  const response = await fetch(`${API_URL}/api/generate-workout`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    if (Array.isArray(body?.details)) {
+      throw new WorkoutValidationError(body.details);
     }
+    throw new Error(body?.error || `Request failed with ${response.status}`);
+  }
 
-    if (userProfile.weight) {
-      prompt += `\n- Weight: ${userProfile.weight} ${
-        userProfile.weight_unit || "kg"
-      }`;
-    }
+  return { ...assertValidWorkout(await response.json()), generator: "ai" };
+}
 
-    if (userProfile.height) {
-      prompt += `\n- Height: ${userProfile.height} ${
-        userProfile.height_unit || "cm"
-      }`;
-    }
+/**
+ * Build a workout on the device with the rule-based generator
+ */
+async function generateOfflineWorkout(
+  params: WorkoutParams,
+  seed?: number
+): Promise<WorkoutResponse> {
+  let fitnessLevel: string | null = null;
 
-    if (userProfile.fitness_goals) {
-      prompt += `\n- Fitness goals: ${userProfile.fitness_goals}`;
-    }
+  // The profile lookup fails without a connection; use default intensity then
+  try {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
 
-    if (userProfile.injuries) {
-      prompt += `\n- Injuries or limitations to consider: ${userProfile.injuries}`;
+    if (session) {
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("fitness_level")
+        .eq("id", session.user.id)
+        .single();
+      fitnessLevel = profile?.fitness_level ?? null;
     }
+  } catch (error) {
+    console.warn("Could not load profile for offline workout:", error);
   }
 
-  // Instructions for response format
-  prompt += `\n\nPlease provide a complete workout plan in JSON format with the following structure:
-{
-  "title": "Catchy title for the workout",
-  "description": "Brief description of the workout and its benefits",
-  "exercises": [
-    {
-      "name": "Exercise name",
-      "sets": number of sets (if applicable),
-      "reps": "number or range of repetitions" (if applicable),
-      "duration": "time duration" (if applicable for timed exercises),
-      "restBetweenSets": "rest time between sets",
-      "instructions": "detailed instructions on how to perform the exercise correctly",
-      "videoUrl": "YouTube video URL demonstrating the exercise (search for high-quality fitness demonstrations)"
-    }
-  ],
-  "warmup": "brief warmup routine description",
-  "cooldown": "brief cooldown routine description",
-  "totalTime": "estimated total time",
-  "difficulty": "beginner/intermediate/advanced"
-}
-
-IMPORTANT: 
-- ALWAYS include a videoUrl for each exercise - provide specific YouTube URLs for exercise demonstrations
-- For each exercise, imagine you're searching YouTube with terms like "[exercise name] tutorial", "[exercise name] proper form", or "[exercise name] how to"
-- Use standard, searchable exercise names that would have many YouTube videos available (e.g., "Push-up", "Squat", "Plank", "Deadlift", "Bicep Curl")
-- Provide complete YouTube URLs in the format: https://www.youtube.com/watch?v=VIDEO_ID
-- Consider popular fitness channels and common demonstration videos that would exist for standard exercises
-- If an exercise has variations, choose the most basic/standard form for better video availability
-- Focus on clear, detailed instructions for each exercise to ensure proper form and safety
-- The instructions should be comprehensive enough that users can perform exercises safely even if the video fails to load
-
-Examples of good exercise naming and video URL format:
-- "Push-up" with videoUrl: "https://www.youtube.com/watch?v=IODxDxX7oi4"
-- "Bodyweight Squat" with videoUrl: "https://www.youtube.com/watch?v=aclHkVaku9U"
-- "Plank" with videoUrl: "https://www.youtube.com/watch?v=pSHjTRCQxIw"`;
-
-  return prompt;
+  return {
+    ...assertValidWorkout(buildOfflineWorkout(params, { seed, fitnessLevel })),
+    generator: "offline",
+  };
 }
@@ -0,0 +1,401 @@
+import type { WorkoutSet } from "./auth";
+import { resolveExerciseId } from "./exerciseMatcher";
+import { estimateWorkoutMinutes, StatsWorkout } from "./workoutStats";
+
+/**
+ * Preference model learned from a user's workout history.
+ * Ratings, completions and logged sets are condensed into what the user
+ * dislikes, how much volume they cope with and how long they actually
+ * train. The model is pure so it can be computed on the device from cached
+ * history, and each finding carries a plain-language reason so the preview
+ * screen can explain why a workout looks the way it does.
+ */
+
+// The workout_history fields the model is computed from
+export interface PreferenceWorkout extends StatsWorkout {
+  id: string;
+  workout_data?: {
+    totalTime?: string;
+    exercises?: { name: string; catalogId?: string }[];
+  } | null;
+}
+
+export type VolumePreference = "lower" | "same" | "higher";
+
+export interface ExercisePreference {
+  name: string;
+  reason: string;
+}
+
+export interface WorkoutTypePreference {
+  workoutType: string;
+  averageRating: number;
+  ratedCount: number;
+  // Exercises from the poorly rated workouts, to be replaced with new ones
+  recentExercises: string[];
+}
+
+export interface PreferenceModel {
+  dislikedExercises: ExercisePreference[];
+  favoriteExercises: ExercisePreference[];
+  lowRatedWorkoutTypes: WorkoutTypePreference[];
+  // Longest workout the user has finished, when longer ones keep going undone
+  realisticMinutes: number | null;
+  longWorkoutsSkipped: number;
+  volume: VolumePreference;
+  volumeReason: string | null;
+  workoutsAnalyzed: number;
+}
+
+// Constraints for one generation request, derived from the model
+export interface GenerationPreferences {
+  avoidExercises: string[];
+  favoriteExercises: string[];
+  maxMinutes?: number;
+  volume: VolumePreference;
+  // Set when the user has been rating this kind of workout poorly
+  lowRatedWorkoutType?: WorkoutTypePreference;
+  // Plain-language reasons for each constraint, shown on the preview screen
+  explanations: string[];
+}
+
+// Only the most recent workouts count, so the model follows changing tastes
+const RECENT_WORKOUTS = 30;
+
+const RECENT_SETS = 300;
+
+// Fewest data points before a pattern is trusted
+const MIN_SAMPLES = 3;
+
+const MIN_EXERCISE_SAMPLES = 2;
+
+const MIN_SETS_FOR_SKIP_RATE = 4;
+
+// RPE is optional in the player, so effort only counts once this many
+// completed sets have an RPE the user entered
+const MIN_SETS_WITH_RPE = MIN_SETS_FOR_SKIP_RATE * MIN_SAMPLES;
+
+const LOW_RATING = 2;
+
+const HIGH_RATING = 4.5;
+
+// Share of an exercise's sets skipped before it counts as disliked
+const DISLIKED_SKIP_RATE = 0.5;
+
+const MAX_FAVORITES = 5;
+
+const MAX_RECENT_EXERCISES = 10;
+
+const MINUTES_BY_TIME: Record<string, number> = {
+  "10-15": 15,
+  "15-25": 25,
+  "25-40": 40,
+  "40-60": 60,
+  "60-90": 90,
+  "120": 120,
+};
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function roundRating(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Catalog id when the exercise is known, otherwise its normalised name
+function getExerciseKey(name: string, catalogId?: string | null): string {
+  return catalogId || resolveExerciseId(name) || name.trim().toLowerCase();
+}
+
+function getRecentWorkouts(workouts: PreferenceWorkout[]) {
+  return [...workouts]
+    .sort(
+      (a, b) =>
+        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    )
+    .slice(0, RECENT_WORKOUTS);
+}
+
+/**
+ * Workout types whose recent ratings average at or below LOW_RATING
+ */
+export function findLowRatedWorkoutTypes(
+  workouts: PreferenceWorkout[]
+): WorkoutTypePreference[] {
+  const ratedByType = new Map<string, PreferenceWorkout[]>();
+  workouts.forEach((workout) => {
+    if (!workout.rating) return;
+    ratedByType.set(workout.workout_type, [
+      ...(ratedByType.get(workout.workout_type) || []),
+      workout,
+    ]);
+  });
+
+  return [...ratedByType.entries()]
+    .filter(([, rated]) => rated.length >= MIN_SAMPLES)
+    .map(([workoutType, rated]) => ({
+      workoutType,
+      averageRating: roundRating(
+        average(rated.map((workout) => workout.rating as number))
+      ),
+      ratedCount: rated.length,
+      recentExercises: [
+        ...new Set(
+          rated
+            .filter((workout) => (workout.rating as number) <= LOW_RATING)
+            .flatMap((workout) =>
+              (workout.workout_data?.exercises || []).map(
+                (exercise) => exercise.name
+              )
+            )
+        ),
+      ].slice(0, MAX_RECENT_EXERCISES),
+    }))
+    .filter((entry) => entry.averageRating <= LOW_RATING);
+}
+
+/**
+ * Exercises the user rates poorly or keeps skipping, and the ones that show
+ * up in their best-rated workouts
+ */
+export function findExercisePreferences(
+  workouts: PreferenceWorkout[],
+  sets: WorkoutSet[]
+): { disliked: ExercisePreference[]; favorites: ExercisePreference[] } {
+  const stats = new Map<
+    string,
+    { name: string; ratings: number[]; sets: number; skipped: number }
+  >();
+  const getStats = (name: string, catalogId?: string | null) => {
+    const key = getExerciseKey(name, catalogId);
+    const entry = stats.get(key) || { name, ratings: [], sets: 0, skipped: 0 };
+    stats.set(key, entry);
+    return entry;
+  };
+
+  workouts.forEach((workout) => {
+    if (!workout.rating) return;
+    const seen = new Set<string>();
+    (workout.workout_data?.exercises || []).forEach((exercise) => {
+      const key = getExerciseKey(exercise.name, exercise.catalogId);
+      // Count each exercise once per workout
+      if (seen.has(key)) return;
+      seen.add(key);
+      getStats(exercise.name, exercise.catalogId).ratings.push(
+        workout.rating as number
+      );
+    });
+  });
+
+  sets.forEach((set) => {
+    const entry = getStats(set.exercise_name, set.catalog_id);
+    entry.sets++;
+    if (set.skipped) entry.skipped++;
+  });
+
+  const disliked: ExercisePreference[] = [];
+  const favorites: (ExercisePreference & { rating: number })[] = [];
+
+  stats.forEach((entry) => {
+    const rating =
+      entry.ratings.length >= MIN_EXERCISE_SAMPLES
+        ? roundRating(average(entry.ratings))
+        : null;
+    const skipRate =
+      entry.sets >= MIN_SETS_FOR_SKIP_RATE ? entry.skipped / entry.sets : 0;
+
+    if (skipRate >= DISLIKED_SKIP_RATE) {
+      disliked.push({
+        name: entry.name,
+        reason: `You skipped ${entry.skipped} of ${entry.sets} sets of ${entry.name}`,
+      });
+    } else if (rating !== null && rating <= LOW_RATING) {
+      disliked.push({
+        name: entry.name,
+        reason: `Workouts with ${entry.name} averaged ${rating} stars`,
+      });
+    } else if (rating !== null && rating >= HIGH_RATING) {
+      favorites.push({
+        name: entry.name,
+        rating,
+        reason: `Workouts with ${entry.name} averaged ${rating} stars`,
+      });
+    }
+  });
+
+  return {
+    disliked,
+    favorites: favorites
+      .sort((a, b) => b.rating - a.rating)
+      .slice(0, MAX_FAVORITES)
+      .map(({ name, reason }) => ({ name, reason })),
+  };
+}
+
+/**
+ * Longest workout the user has finished, when at least MIN_SAMPLES longer
+ * workouts were saved but never completed
+ */
+export function findRealisticDuration(workouts: PreferenceWorkout[]): {
+  realisticMinutes: number | null;
+  longWorkoutsSkipped: number;
+} {
+  const completedMinutes = workouts
+    .filter((workout) => workout.completed)
+    .map(estimateWorkoutMinutes);
+  if (completedMinutes.length === 0) {
+    return { realisticMinutes: null, longWorkoutsSkipped: 0 };
+  }
+
+  const realisticMinutes = Math.max(...completedMinutes);
+  const longWorkoutsSkipped = workouts.filter(
+    (workout) =>
+      !workout.completed && estimateWorkoutMinutes(workout) > realisticMinutes
+  ).length;
+
+  return longWorkoutsSkipped >= MIN_SAMPLES
+    ? { realisticMinutes, longWorkoutsSkipped }
+    : { realisticMinutes: null, longWorkoutsSkipped };
+}
+
+/**
+ * Whether the user copes with more or less volume, from logged sets.
+ * Lots of skipped sets or very hard efforts mean less; easy efforts with
+ * everything completed mean more. Effort is only judged from sets the user
+ * gave an RPE, never from sets logged without one.
+ */
+export function findVolumePreference(sets: WorkoutSet[]): {
+  volume: VolumePreference;
+  reason: string | null;
+} {
+  if (sets.length < MIN_SETS_FOR_SKIP_RATE * MIN_SAMPLES) {
+    return { volume: "same", reason: null };
+  }
+
+  const skipRate = sets.filter((set) => set.skipped).length / sets.length;
+  const rpes = sets
+    .filter((set) => !set.skipped && typeof set.rpe === "number")
+    .map((set) => Number(set.rpe));
+  const averageRpe = rpes.length >= MIN_SETS_WITH_RPE ? average(rpes) : null;
+  const skippedPercent = Math.round(skipRate * 100);
+
+  if (skipRate >= 0.3) {
+    return {
+      volume: "lower",
+      reason: `You skipped ${skippedPercent}% of your recent sets`,
+    };
+  }
+  if (averageRpe !== null && averageRpe >= 9) {
+    return {
+      volume: "lower",
+      reason: `The ${rpes.length} recent sets you rated felt very hard (average RPE ${roundRating(
+        averageRpe
+      )})`,
+    };
+  }
+  if (averageRpe !== null && averageRpe <= 6 && skipRate <= 0.05) {
+    return {
+      volume: "higher",
+      reason: `You finished almost every set, and the ${rpes.length} you rated felt easy (average RPE ${roundRating(
+        averageRpe
+      )})`,
+    };
+  }
+  return { volume: "same", reason: null };
+}
+
+/**
+ * Learn the user's preferences from their workout history and logged sets
+ */
+export function computePreferenceModel(
+  workouts: PreferenceWorkout[],
+  sets: WorkoutSet[]
+): PreferenceModel {
+  const recentWorkouts = getRecentWorkouts(workouts);
+  const recentSets = [...sets]
+    .sort(
+      (a, b) =>
+        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    )
+    .slice(0, RECENT_SETS);
+
+  const exercises = findExercisePreferences(recentWorkouts, recentSets);
+  const duration = findRealisticDuration(recentWorkouts);
+  const volume = findVolumePreference(recentSets);
+
+  return {
+    dislikedExercises: exercises.disliked,
+    favoriteExercises: exercises.favorites,
+    lowRatedWorkoutTypes: findLowRatedWorkoutTypes(recentWorkouts),
+    realisticMinutes: duration.realisticMinutes,
+    longWorkoutsSkipped: duration.longWorkoutsSkipped,
+    volume: volume.volume,
+    volumeReason: volume.reason,
+    workoutsAnalyzed: recentWorkouts.length,
+  };
+}
+
+/**
+ * Turn the model into constraints for a specific request.
+ * Findings that don't affect this request, such as a duration cap above
+ * the time the user picked, are left out so every explanation is relevant.
+ */
+export function getGenerationPreferences(
+  model: PreferenceModel,
+  params: { workoutType: string; timeAvailable: string }
+): GenerationPreferences | null {
+  const explanations: string[] = [];
+  const preferences: GenerationPreferences = {
+    avoidExercises: model.dislikedExercises.map((exercise) => exercise.name),
+    favoriteExercises: model.favoriteExercises.map(
+      (exercise) => exercise.name
+    ),
+    volume: model.volume,
+    explanations,
+  };
+
+  model.dislikedExercises.forEach((exercise) => {
+    explanations.push(`Left out ${exercise.name}. ${exercise.reason}.`);
+  });
+
+  if (model.favoriteExercises.length > 0) {
+    explanations.push(
+      `Favoured exercises from your top-rated workouts: ${preferences.favoriteExercises.join(
+        ", "
+      )}.`
+    );
+  }
+
+  const requestedMinutes = MINUTES_BY_TIME[params.timeAvailable];
+  if (
+    model.realisticMinutes !== null &&
+    requestedMinutes !== undefined &&
+    model.realisticMinutes < requestedMinutes
+  ) {
+    preferences.maxMinutes = model.realisticMinutes;
+    explanations.push(
+      `Kept it to about ${model.realisticMinutes} minutes. You haven't finished ${model.longWorkoutsSkipped} workouts that were longer than that.`
+    );
+  }
+
+  if (model.volume !== "same" && model.volumeReason) {
+    explanations.push(
+      `${model.volume === "lower" ? "Fewer" : "More"} sets than usual. ${
+        model.volumeReason
+      }.`
+    );
+  }
+
+  const lowRatedType = model.lowRatedWorkoutTypes.find(
+    (entry) => entry.workoutType === params.workoutType
+  );
+  if (lowRatedType) {
+    preferences.lowRatedWorkoutType = lowRatedType;
+    explanations.push(
+      `Changed up the exercises. Your last ${lowRatedType.ratedCount} rated ${params.workoutType} workouts averaged ${lowRatedType.averageRating} stars.`
+    );
+  }
+
+  return explanations.length > 0 ? preferences : null;
+}
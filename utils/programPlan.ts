@@ -0,0 +1,228 @@
+import type { WorkoutSet } from "./auth";
+
+/**
+ * Periodisation rules for multi-week training programs.
+ * A program is laid out up front as a grid of weeks and sessions. Each week
+ * raises the intensity a little, and every few weeks a lighter deload week
+ * lets the body recover before the next block.
+ */
+
+export type ProgramGoal =
+  | "strength"
+  | "muscle"
+  | "endurance"
+  | "general"
+  | "mobility";
+
+export type ProgramPhase = "build" | "deload";
+
+export const PROGRAM_GOALS: {
+  value: ProgramGoal;
+  label: string;
+  description: string;
+  icon: string;
+  workoutType: string;
+}[] = [
+  {
+    value: "strength",
+    label: "Get Stronger",
+    description: "Heavier loads and lower reps on the big lifts",
+    icon: "barbell-outline",
+    workoutType: "strength",
+  },
+  {
+    value: "muscle",
+    label: "Build Muscle",
+    description: "Moderate loads with more sets and reps",
+    icon: "body-outline",
+    workoutType: "strength",
+  },
+  {
+    value: "endurance",
+    label: "Boost Endurance",
+    description: "Conditioning and intervals to build your engine",
+    icon: "heart-outline",
+    workoutType: "hiit",
+  },
+  {
+    value: "general",
+    label: "Overall Fitness",
+    description: "A balanced mix of strength and cardio",
+    icon: "fitness-outline",
+    workoutType: "both",
+  },
+  {
+    value: "mobility",
+    label: "Move Better",
+    description: "Flexibility and mobility work for every joint",
+    icon: "leaf-outline",
+    workoutType: "flexibility",
+  },
+];
+
+export const PROGRAM_DURATION_OPTIONS = [4, 6, 8, 12];
+
+export const SESSIONS_PER_WEEK_OPTIONS = [2, 3, 4, 5, 6];
+
+// Every fourth week is a deload week
+const DELOAD_EVERY_WEEKS = 4;
+
+// Intensity added per build week, relative to the first week
+const WEEKLY_PROGRESSION = 0.05;
+
+const DELOAD_INTENSITY = 0.7;
+
+// Muscle focus of each session in the week, by sessions per week
+const SPLITS_BY_SESSIONS: Record<number, string[]> = {
+  1: ["full-body"],
+  2: ["upper-body", "lower-body"],
+  3: ["full-body", "upper-body", "lower-body"],
+  4: ["upper-body", "lower-body", "upper-body", "lower-body"],
+  5: ["upper-body", "lower-body", "core", "upper-body", "lower-body"],
+  6: ["chest", "back", "legs", "arms", "core", "full-body"],
+};
+
+// Goals that train the whole body every session
+const FULL_BODY_GOALS: ProgramGoal[] = ["endurance", "mobility"];
+
+export interface PlannedSession {
+  weekNumber: number;
+  sessionNumber: number;
+  phase: ProgramPhase;
+  // Multiplier on the baseline training load, 1 is the first week
+  intensity: number;
+  workoutType: string;
+  muscleFocus: string;
+}
+
+// Summary of what was actually done for one exercise in a session
+export interface ExerciseResult {
+  exerciseName: string;
+  completedSets: number;
+  totalSets: number;
+  bestReps?: number;
+  // Heaviest load in kg
+  topWeight?: number;
+  averageRpe?: number;
+}
+
+// Program details passed along with a generation request
+export interface ProgramSessionContext {
+  goal: ProgramGoal;
+  weekNumber: number;
+  totalWeeks: number;
+  sessionNumber: number;
+  sessionsPerWeek: number;
+  phase: ProgramPhase;
+  intensity: number;
+  previousResults?: ExerciseResult[];
+}
+
+export function getProgramGoal(goal: string) {
+  return PROGRAM_GOALS.find((option) => option.value === goal);
+}
+
+/**
+ * Whether a week of the program is a deload week.
+ * The final week is never a deload so programs end on their hardest block.
+ */
+export function isDeloadWeek(weekNumber: number, totalWeeks: number): boolean {
+  return weekNumber % DELOAD_EVERY_WEEKS === 0 && weekNumber !== totalWeeks;
+}
+
+/**
+ * Intensity multiplier for a week, rising through each block and dropping on deloads
+ */
+export function getWeekIntensity(
+  weekNumber: number,
+  totalWeeks: number
+): number {
+  if (isDeloadWeek(weekNumber, totalWeeks)) {
+    return DELOAD_INTENSITY;
+  }
+
+  // Deload weeks don't count towards progression
+  const deloadsSoFar = Math.floor((weekNumber - 1) / DELOAD_EVERY_WEEKS);
+  const buildWeeks = weekNumber - 1 - deloadsSoFar;
+  return Math.round((1 + buildWeeks * WEEKLY_PROGRESSION) * 100) / 100;
+}
+
+/**
+ * Lay out every session of a program in order
+ */
+export function buildProgramPlan(options: {
+  goal: ProgramGoal;
+  durationWeeks: number;
+  sessionsPerWeek: number;
+}): PlannedSession[] {
+  const { goal, durationWeeks, sessionsPerWeek } = options;
+  const workoutType = getProgramGoal(goal)?.workoutType || "both";
+  const split = FULL_BODY_GOALS.includes(goal)
+    ? Array(sessionsPerWeek).fill("full-body")
+    : SPLITS_BY_SESSIONS[sessionsPerWeek] || SPLITS_BY_SESSIONS[3];
+
+  const sessions: PlannedSession[] = [];
+  for (let weekNumber = 1; weekNumber <= durationWeeks; weekNumber++) {
+    for (
+      let sessionNumber = 1;
+      sessionNumber <= sessionsPerWeek;
+      sessionNumber++
+    ) {
+      sessions.push({
+        weekNumber,
+        sessionNumber,
+        phase: isDeloadWeek(weekNumber, durationWeeks) ? "deload" : "build",
+        intensity: getWeekIntensity(weekNumber, durationWeeks),
+        workoutType,
+        muscleFocus: split[(sessionNumber - 1) % split.length],
+      });
+    }
+  }
+  return sessions;
+}
+
+/**
+ * Summarize logged sets per exercise so the next session can build on them
+ */
+export function summarizeWorkoutSets(sets: WorkoutSet[]): ExerciseResult[] {
+  const byExercise = new Map<number, WorkoutSet[]>();
+  sets.forEach((set) => {
+    byExercise.set(set.exercise_index, [
+      ...(byExercise.get(set.exercise_index) || []),
+      set,
+    ]);
+  });
+
+  return [...byExercise.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, exerciseSets]) => {
+      const performed = exerciseSets.filter((set) => !set.skipped);
+      const reps = performed
+        .map((set) => set.reps_performed)
+        .filter((value): value is number => typeof value === "number");
+      const weights = performed.filter(
+        (set) => typeof set.weight === "number"
+      );
+      const rpes = performed
+        .map((set) => set.rpe)
+        .filter((value): value is number => typeof value === "number");
+      const topWeightSet = weights.sort(
+        (a, b) => (b.weight as number) - (a.weight as number)
+      )[0];
+
+      const result: ExerciseResult = {
+        exerciseName: exerciseSets[0].exercise_name,
+        completedSets: performed.length,
+        totalSets: exerciseSets.length,
+      };
+      if (reps.length > 0) result.bestReps = Math.max(...reps);
+      if (topWeightSet) result.topWeight = topWeightSet.weight as number;
+      if (rpes.length > 0) {
+        result.averageRpe =
+          Math.round(
+            (rpes.reduce((sum, rpe) => sum + rpe, 0) / rpes.length) * 10
+          ) / 10;
+      }
+      return result;
+    });
+}
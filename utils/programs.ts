@@ -0,0 +1,331 @@
+import { getWorkoutSets, saveWorkout } from "./auth";
+import { generateWorkout, WorkoutResponse } from "./openai";
+import {
+  buildProgramPlan,
+  getProgramGoal,
+  ProgramGoal,
+  ProgramPhase,
+  ProgramSessionContext,
+  summarizeWorkoutSets,
+} from "./programPlan";
+import { supabase } from "./supabase";
+
+// Interface for a multi-week training program
+export interface Program {
+  id: string;
+  user_id: string;
+  name: string;
+  goal: ProgramGoal;
+  duration_weeks: number;
+  sessions_per_week: number;
+  time_available: string;
+  equipment: string;
+  status: "active" | "completed" | "archived";
+  current_week: number;
+  current_session: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Interface for one planned session of a program
+export interface ProgramSession {
+  id: string;
+  program_id: string;
+  user_id: string;
+  week_number: number;
+  session_number: number;
+  phase: ProgramPhase;
+  intensity: number;
+  workout_type: string;
+  muscle_focus: string;
+  workout_id?: string | null;
+  workout_data?: WorkoutResponse | null;
+  completed_at?: string | null;
+  created_at: string;
+}
+
+/**
+ * Create a program and lay out all of its sessions
+ */
+export async function createProgram(options: {
+  goal: ProgramGoal;
+  durationWeeks: number;
+  sessionsPerWeek: number;
+  timeAvailable: string;
+  equipment: string;
+  name?: string;
+}) {
+  try {
+    const { data: authData } = await supabase.auth.getUser();
+
+    if (!authData.user) {
+      return { program: null, error: { message: "User not authenticated" } };
+    }
+
+    const goalLabel = getProgramGoal(options.goal)?.label || "Training";
+    const { data: program, error } = await supabase
+      .from("programs")
+      .insert([
+        {
+          user_id: authData.user.id,
+          name: options.name || `${options.durationWeeks}-Week ${goalLabel}`,
+          goal: options.goal,
+          duration_weeks: options.durationWeeks,
+          sessions_per_week: options.sessionsPerWeek,
+          time_available: options.timeAvailable,
+          equipment: options.equipment,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error || !program) {
+      return { program: null, error };
+    }
+
+    const plan = buildProgramPlan(options);
+    const { error: sessionsError } = await supabase
+      .from("program_sessions")
+      .insert(
+        plan.map((session) => ({
+          program_id: program.id,
+          user_id: authData.user.id,
+          week_number: session.weekNumber,
+          session_number: session.sessionNumber,
+          phase: session.phase,
+          intensity: session.intensity,
+          workout_type: session.workoutType,
+          muscle_focus: session.muscleFocus,
+        }))
+      );
+
+    if (sessionsError) {
+      // Don't leave a program without sessions behind
+      await supabase.from("programs").delete().eq("id", program.id);
+      return { program: null, error: sessionsError };
+    }
+
+    return { program: program as Program, error: null };
+  } catch (error) {
+    console.error("Create program error:", error);
+    return {
+      program: null,
+      error: { message: "An unexpected error occurred" },
+    };
+  }
+}
+
+/**
+ * Get the user's programs, newest first
+ */
+export async function getPrograms() {
+  try {
+    const { data: authData } = await supabase.auth.getUser();
+
+    if (!authData.user) {
+      return { programs: [], error: { message: "User not authenticated" } };
+    }
+
+    const { data, error } = await supabase
+      .from("programs")
+      .select("*")
+      .eq("user_id", authData.user.id)
+      .order("created_at", { ascending: false });
+
+    return { programs: (data as Program[]) || [], error };
+  } catch (error) {
+    console.error("Get programs error:", error);
+    return { programs: [], error: { message: "An unexpected error occurred" } };
+  }
+}
+
+/**
+ * Get a program together with its sessions in order
+ */
+export async function getProgramWithSessions(programId: string) {
+  try {
+    const { data: program, error } = await supabase
+      .from("programs")
+      .select("*")
+      .eq("id", programId)
+      .single();
+
+    if (error || !program) {
+      return { program: null, sessions: [], error };
+    }
+
+    const { data: sessions, error: sessionsError } = await supabase
+      .from("program_sessions")
+      .select("*")
+      .eq("program_id", programId)
+      .order("week_number", { ascending: true })
+      .order("session_number", { ascending: true });
+
+    return {
+      program: program as Program,
+      sessions: (sessions as ProgramSession[]) || [],
+      error: sessionsError,
+    };
+  } catch (error) {
+    console.error("Get program error:", error);
+    return {
+      program: null,
+      sessions: [],
+      error: { message: "An unexpected error occurred" },
+    };
+  }
+}
+
+/**
+ * Generate the workout for a session, building on the sets logged in the
+ * most recent completed session. Sessions that were already generated are
+ * returned as they are.
+ */
+export async function prepareProgramSession(
+  program: Program,
+  sessions: ProgramSession[],
+  sessionId: string
+) {
+  try {
+    const session = sessions.find((item) => item.id === sessionId);
+    if (!session) {
+      return { session: null, error: { message: "Session not found" } };
+    }
+
+    if (session.workout_id && session.workout_data) {
+      return { session, error: null };
+    }
+
+    const previousSession = sessions
+      .filter((item) => item.completed_at && item.workout_id)
+      .sort(
+        (a, b) =>
+          new Date(b.completed_at!).getTime() -
+          new Date(a.completed_at!).getTime()
+      )[0];
+
+    let previousResults: ProgramSessionContext["previousResults"];
+    if (previousSession?.workout_id) {
+      const { sets, error: setsError } = await getWorkoutSets(
+        previousSession.workout_id
+      );
+      if (setsError) {
+        console.error("Error loading previous session sets:", setsError);
+      } else {
+        previousResults = summarizeWorkoutSets(sets);
+      }
+    }
+
+    const params = {
+      workoutType: session.workout_type,
+      timeAvailable: program.time_available,
+      mood: "normal",
+      muscleFocus: session.muscle_focus,
+      equipment: program.equipment,
+    };
+    const workout = await generateWorkout({
+      ...params,
+      program: {
+        goal: program.goal,
+        weekNumber: session.week_number,
+        totalWeeks: program.duration_weeks,
+        sessionNumber: session.session_number,
+        sessionsPerWeek: program.sessions_per_week,
+        phase: session.phase,
+        intensity: session.intensity,
+        previousResults,
+      },
+    });
+
+    const { data: savedWorkout, error: saveError } = await saveWorkout(
+      params,
+      workout
+    );
+    if (saveError || !savedWorkout) {
+      return {
+        session: null,
+        error: saveError || { message: "Failed to save workout" },
+      };
+    }
+
+    const { data: updatedSession, error } = await supabase
+      .from("program_sessions")
+      .update({ workout_id: savedWorkout.id, workout_data: workout })
+      .eq("id", session.id)
+      .select()
+      .single();
+
+    return { session: updatedSession as ProgramSession | null, error };
+  } catch (error) {
+    console.error("Prepare program session error:", error);
+    return {
+      session: null,
+      error: { message: "Failed to generate this session" },
+    };
+  }
+}
+
+/**
+ * Mark a session as completed and move the program on to the next open session
+ */
+export async function completeProgramSession(sessionId: string) {
+  try {
+    const { data: session, error } = await supabase
+      .from("program_sessions")
+      .update({ completed_at: new Date().toISOString() })
+      .eq("id", sessionId)
+      .select()
+      .single();
+
+    if (error || !session) {
+      return { program: null, error };
+    }
+
+    const { data: nextSession } = await supabase
+      .from("program_sessions")
+      .select("week_number, session_number")
+      .eq("program_id", session.program_id)
+      .is("completed_at", null)
+      .order("week_number", { ascending: true })
+      .order("session_number", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: program, error: programError } = await supabase
+      .from("programs")
+      .update(
+        nextSession
+          ? {
+              current_week: nextSession.week_number,
+              current_session: nextSession.session_number,
+              updated_at: new Date().toISOString(),
+            }
+          : { status: "completed", updated_at: new Date().toISOString() }
+      )
+      .eq("id", session.program_id)
+      .select()
+      .single();
+
+    return { program: program as Program | null, error: programError };
+  } catch (error) {
+    console.error("Complete program session error:", error);
+    return { program: null, error: { message: "An unexpected error occurred" } };
+  }
+}
+
+/**
+ * Delete a program and all of its sessions
+ */
+export async function deleteProgram(programId: string) {
+  try {
+    const { error } = await supabase
+      .from("programs")
+      .delete()
+      .eq("id", programId);
+
+    return { error };
+  } catch (error) {
+    console.error("Delete program error:", error);
+    return { error: { message: "An unexpected error occurred" } };
+  }
+}
@@ -0,0 +1,272 @@
+import { WorkoutHistory } from "./auth";
+import {
+  cancelWorkoutReminder,
+  scheduleWorkoutReminder,
+  syncWorkoutReminders,
+} from "./notifications";
+import { supabase } from "./supabase";
+
+export type ScheduledWorkoutStatus = "scheduled" | "completed" | "missed";
+
+// Interface for a workout planned for a specific date and time
+export interface ScheduledWorkout {
+  id: string;
+  user_id: string;
+  workout_id: string;
+  scheduled_for: string;
+  reminder_minutes: number | null;
+  status: ScheduledWorkoutStatus;
+  created_at: string;
+  updated_at: string;
+  workout: WorkoutHistory;
+}
+
+// Embed the planned workout so the calendar can show its details
+const SCHEDULED_WORKOUT_SELECT = "*, workout:workout_history(*)";
+
+/**
+ * Key for the local calendar day of a date, e.g. "2025-03-07"
+ */
+export function getScheduleDateKey(date: Date) {
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getDate()}`.padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function toReminder(schedule: ScheduledWorkout) {
+  return {
+    scheduleId: schedule.id,
+    workoutTitle: schedule.workout?.workout_data?.title || "Workout reminder",
+    scheduledFor: new Date(schedule.scheduled_for),
+    reminderMinutes: schedule.reminder_minutes,
+  };
+}
+
+/**
+ * Schedule a saved workout for a date and time
+ */
+export async function scheduleWorkout(
+  workoutId: string,
+  scheduledFor: Date,
+  reminderMinutes: number | null
+) {
+  try {
+    const { data: authData } = await supabase.auth.getUser();
+
+    if (!authData.user) {
+      return { schedule: null, error: { message: "User not authenticated" } };
+    }
+
+    const { data, error } = await supabase
+      .from("scheduled_workouts")
+      .insert([
+        {
+          user_id: authData.user.id,
+          workout_id: workoutId,
+          scheduled_for: scheduledFor.toISOString(),
+          reminder_minutes: reminderMinutes,
+        },
+      ])
+      .select(SCHEDULED_WORKOUT_SELECT)
+      .single();
+
+    if (error || !data) {
+      return { schedule: null, error };
+    }
+
+    const schedule = data as ScheduledWorkout;
+    await scheduleWorkoutReminder(toReminder(schedule));
+
+    return { schedule, error: null };
+  } catch (error) {
+    console.error("Schedule workout error:", error);
+    return {
+      schedule: null,
+      error: { message: "An unexpected error occurred" },
+    };
+  }
+}
+
+/**
+ * Get the user's scheduled workouts between two dates, in order
+ */
+export async function getScheduledWorkouts(from: Date, to: Date) {
+  try {
+    const { data: authData } = await supabase.auth.getUser();
+
+    if (!authData.user) {
+      return { schedules: [], error: { message: "User not authenticated" } };
+    }
+
+    const { data, error } = await supabase
+      .from("scheduled_workouts")
+      .select(SCHEDULED_WORKOUT_SELECT)
+      .eq("user_id", authData.user.id)
+      .gte("scheduled_for", from.toISOString())
+      .lt("scheduled_for", to.toISOString())
+      .order("scheduled_for", { ascending: true });
+
+    return { schedules: (data as ScheduledWorkout[]) || [], error };
+  } catch (error) {
+    console.error("Get scheduled workouts error:", error);
+    return {
+      schedules: [],
+      error: { message: "An unexpected error occurred" },
+    };
+  }
+}
+
+/**
+ * Get a single scheduled workout
+ */
+export async function getScheduledWorkout(scheduleId: string) {
+  try {
+    const { data, error } = await supabase
+      .from("scheduled_workouts")
+      .select(SCHEDULED_WORKOUT_SELECT)
+      .eq("id", scheduleId)
+      .single();
+
+    return { schedule: data as ScheduledWorkout | null, error };
+  } catch (error) {
+    console.error("Get scheduled workout error:", error);
+    return {
+      schedule: null,
+      error: { message: "An unexpected error occurred" },
+    };
+  }
+}
+
+/**
+ * Move a scheduled workout to a new date and time.
+ * Missed workouts that are rescheduled go back to being scheduled.
+ */
+export async function rescheduleWorkout(
+  scheduleId: string,
+  scheduledFor: Date,
+  reminderMinutes: number | null
+) {
+  try {
+    const { data, error } = await supabase
+      .from("scheduled_workouts")
+      .update({
+        scheduled_for: scheduledFor.toISOString(),
+        reminder_minutes: reminderMinutes,
+        status: "scheduled",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", scheduleId)
+      .select(SCHEDULED_WORKOUT_SELECT)
+      .single();
+
+    if (error || !data) {
+      return { schedule: null, error };
+    }
+
+    const schedule = data as ScheduledWorkout;
+    await scheduleWorkoutReminder(toReminder(schedule));
+
+    return { schedule, error: null };
+  } catch (error) {
+    console.error("Reschedule workout error:", error);
+    return {
+      schedule: null,
+      error: { message: "An unexpected error occurred" },
+    };
+  }
+}
+
+/**
+ * Mark a scheduled workout as missed and drop its reminder
+ */
+export async function markScheduledWorkoutMissed(scheduleId: string) {
+  try {
+    const { error } = await supabase
+      .from("scheduled_workouts")
+      .update({ status: "missed", updated_at: new Date().toISOString() })
+      .eq("id", scheduleId);
+
+    if (!error) {
+      await cancelWorkoutReminder(scheduleId);
+    }
+
+    return { error };
+  } catch (error) {
+    console.error("Mark scheduled workout missed error:", error);
+    return { error: { message: "An unexpected error occurred" } };
+  }
+}
+
+/**
+ * Mark the open schedules of a workout as completed once it has been done
+ */
+export async function completeScheduledWorkout(workoutId: string) {
+  try {
+    const { data, error } = await supabase
+      .from("scheduled_workouts")
+      .update({ status: "completed", updated_at: new Date().toISOString() })
+      .eq("workout_id", workoutId)
+      .eq("status", "scheduled")
+      .select("id");
+
+    if (!error && data) {
+      await Promise.all(data.map((row) => cancelWorkoutReminder(row.id)));
+    }
+
+    return { error };
+  } catch (error) {
+    console.error("Complete scheduled workout error:", error);
+    return { error: { message: "An unexpected error occurred" } };
+  }
+}
+
+/**
+ * Remove a workout from the schedule
+ */
+export async function deleteScheduledWorkout(scheduleId: string) {
+  try {
+    const { error } = await supabase
+      .from("scheduled_workouts")
+      .delete()
+      .eq("id", scheduleId);
+
+    if (!error) {
+      await cancelWorkoutReminder(scheduleId);
+    }
+
+    return { error };
+  } catch (error) {
+    console.error("Delete scheduled workout error:", error);
+    return { error: { message: "An unexpected error occurred" } };
+  }
+}
+
+/**
+ * Bring this device's reminders in line with the upcoming schedule,
+ * picking up changes made on other devices
+ */
+export async function refreshWorkoutReminders() {
+  try {
+    const { data: authData } = await supabase.auth.getUser();
+
+    if (!authData.user) return;
+
+    const { data, error } = await supabase
+      .from("scheduled_workouts")
+      .select(SCHEDULED_WORKOUT_SELECT)
+      .eq("user_id", authData.user.id)
+      .eq("status", "scheduled")
+      .gte("scheduled_for", new Date().toISOString());
+
+    if (error) {
+      console.error("Error loading reminders:", error);
+      return;
+    }
+
+    await syncWorkoutReminders(
+      ((data as ScheduledWorkout[]) || []).map(toReminder)
+    );
+  } catch (error) {
+    console.error("Refresh reminders error:", error);
+  }
+}
@@ -0,0 +1,238 @@
+import { saveWorkout, WorkoutHistory } from "./auth";
+import { FriendProfile } from "./friends";
+import { supabase } from "./supabase";
+import { migrateWorkoutData } from "./workoutSchema";
+
+/**
+ * Sending workouts to friends and saving copies of them.
+ * Copies keep who wrote the workout, so it stays attributed to its
+ * original author however many times it is passed on.
+ */
+
+export const MAX_SHARE_MESSAGE_LENGTH = 280;
+
+export interface SharedWorkout {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  author_id: string | null;
+  source_workout_id: string | null;
+  workout_type: string;
+  time_available: string;
+  mood: string;
+  muscle_focus: string;
+  equipment: string;
+  workout_data: any;
+  message: string | null;
+  status: "pending" | "saved" | "dismissed";
+  saved_workout_id: string | null;
+  created_at: string;
+  responded_at: string | null;
+  sender_profile?: FriendProfile;
+}
+
+// Send a workout to a friend's inbox
+export async function shareWorkout(
+  workoutId: string,
+  recipientId: string,
+  message?: string
+): Promise<{ success: boolean; error: string | null }> {
+  if (message && message.length > MAX_SHARE_MESSAGE_LENGTH) {
+    return {
+      success: false,
+      error: `Messages can be at most ${MAX_SHARE_MESSAGE_LENGTH} characters`,
+    };
+  }
+
+  try {
+    const { error } = await supabase.rpc("share_workout", {
+      p_workout_id: workoutId,
+      p_recipient_id: recipientId,
+      p_message: message || null,
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: "An error occurred while sharing workout",
+    };
+  }
+}
+
+// Get workouts friends have sent the user that they haven't responded to
+export async function getIncomingSharedWorkouts(): Promise<{
+  shares: SharedWorkout[];
+  error: string | null;
+}> {
+  try {
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { shares: [], error: "Not authenticated" };
+    }
+
+    const { data, error } = await supabase
+      .from("shared_workouts")
+      .select(
+        `
+        *,
+        sender_profile:public_profiles!sender_id(id, username, profile_picture_url)
+      `
+      )
+      .eq("recipient_id", user.id)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      return { shares: [], error: error.message };
+    }
+
+    return {
+      shares: (data || []).map((share) => ({
+        ...share,
+        workout_data: migrateWorkoutData(share.workout_data),
+      })),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      shares: [],
+      error: "An error occurred while fetching shared workouts",
+    };
+  }
+}
+
+// Save a copy of a workout someone sent the user into their own history
+export async function saveSharedWorkout(
+  share: SharedWorkout
+): Promise<{ workout: WorkoutHistory | null; error: string | null }> {
+  try {
+    const { data: workout, error } = await saveWorkout(
+      {
+        workoutType: share.workout_type,
+        timeAvailable: share.time_available,
+        mood: share.mood,
+        muscleFocus: share.muscle_focus,
+        equipment: share.equipment,
+      },
+      migrateWorkoutData(share.workout_data),
+      { authorId: share.author_id, sourceWorkoutId: share.source_workout_id }
+    );
+
+    if (error || !workout) {
+      return { workout: null, error: error?.message || "Failed to save" };
+    }
+
+    await respondToSharedWorkout(share.id, "saved", workout.id);
+    return { workout, error: null };
+  } catch (error) {
+    return {
+      workout: null,
+      error: "An error occurred while saving shared workout",
+    };
+  }
+}
+
+// Remove a shared workout from the user's inbox without saving it
+export async function dismissSharedWorkout(
+  shareId: string
+): Promise<{ success: boolean; error: string | null }> {
+  return respondToSharedWorkout(shareId, "dismissed");
+}
+
+async function respondToSharedWorkout(
+  shareId: string,
+  status: "saved" | "dismissed",
+  savedWorkoutId?: string
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from("shared_workouts")
+      .update({
+        status,
+        saved_workout_id: savedWorkoutId ?? null,
+        responded_at: new Date().toISOString(),
+      })
+      .eq("id", shareId);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: "An error occurred while updating shared workout",
+    };
+  }
+}
+
+// Save a copy of a friend's workout into the user's own history
+export async function saveWorkoutCopy(
+  workoutId: string
+): Promise<{ workout: WorkoutHistory | null; error: string | null }> {
+  try {
+    const { data: source, error: sourceError } = await supabase
+      .from("workout_history")
+      .select("*")
+      .eq("id", workoutId)
+      .single();
+
+    if (sourceError || !source) {
+      return {
+        workout: null,
+        error: sourceError?.message || "Workout not found",
+      };
+    }
+
+    const { data: workout, error } = await saveWorkout(
+      {
+        workoutType: source.workout_type,
+        timeAvailable: source.time_available,
+        mood: source.mood,
+        muscleFocus: source.muscle_focus,
+        equipment: source.equipment,
+      },
+      migrateWorkoutData(source.workout_data),
+      {
+        authorId: source.source_author_id || source.user_id,
+        sourceWorkoutId: source.id,
+      }
+    );
+
+    if (error || !workout) {
+      return { workout: null, error: error?.message || "Failed to save" };
+    }
+
+    return { workout, error: null };
+  } catch (error) {
+    return {
+      workout: null,
+      error: "An error occurred while copying workout",
+    };
+  }
+}
+
+// Get the username of the author of a copied workout
+export async function getWorkoutAuthorName(
+  authorId: string
+): Promise<string | null> {
+  try {
+    const { data } = await supabase
+      .from("public_profiles")
+      .select("username")
+      .eq("id", authorId)
+      .single();
+    return data?.username ?? null;
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Units for every measured quantity in the app.
+ * Values are stored in metric base units (kilograms for body weight and
+ * loads, centimetres for height and circumferences, metres for distance)
+ * and converted to the user's chosen unit system only for display and
+ * input.
+ */
+
+export type UnitSystem = "metric" | "imperial";
+
+export type QuantityKind =
+  | "bodyWeight"
+  | "load"
+  | "height"
+  | "length"
+  | "distance";
+
+export type WeightUnit = "kg" | "lb";
+export type LengthUnit = "cm" | "in";
+export type DistanceUnit = "km" | "mi";
+export type DisplayUnit = WeightUnit | LengthUnit | DistanceUnit;
+
+// A stored value together with what it measures, always in base units
+export interface Quantity {
+  kind: QuantityKind;
+  value: number;
+}
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = "metric";
+
+export const UNIT_SYSTEM_OPTIONS: {
+  value: UnitSystem;
+  label: string;
+  description: string;
+}[] = [
+  { value: "metric", label: "Metric", description: "kg, cm, km" },
+  { value: "imperial", label: "Imperial", description: "lb, in, mi" },
+];
+
+const KG_PER_LB = 0.45359237;
+const CM_PER_IN = 2.54;
+const METRES_PER_MILE = 1609.344;
+
+// How each kind of quantity is shown in each system, and how many base
+// units one display unit is worth
+const DISPLAY_UNITS: Record<
+  QuantityKind,
+  Record<UnitSystem, { unit: DisplayUnit; baseUnits: number }>
+> = {
+  bodyWeight: {
+    metric: { unit: "kg", baseUnits: 1 },
+    imperial: { unit: "lb", baseUnits: KG_PER_LB },
+  },
+  load: {
+    metric: { unit: "kg", baseUnits: 1 },
+    imperial: { unit: "lb", baseUnits: KG_PER_LB },
+  },
+  height: {
+    metric: { unit: "cm", baseUnits: 1 },
+    imperial: { unit: "in", baseUnits: CM_PER_IN },
+  },
+  length: {
+    metric: { unit: "cm", baseUnits: 1 },
+    imperial: { unit: "in", baseUnits: CM_PER_IN },
+  },
+  distance: {
+    metric: { unit: "km", baseUnits: 1000 },
+    imperial: { unit: "mi", baseUnits: METRES_PER_MILE },
+  },
+};
+
+/**
+ * Narrow a stored unit_system to a known system
+ */
+export function parseUnitSystem(value: unknown): UnitSystem {
+  return value === "imperial" ? "imperial" : DEFAULT_UNIT_SYSTEM;
+}
+
+/**
+ * The unit a kind of quantity is shown in, e.g. "lb" for loads in imperial
+ */
+export function getDisplayUnit(
+  kind: QuantityKind,
+  system: UnitSystem
+): DisplayUnit {
+  return DISPLAY_UNITS[kind][system].unit;
+}
+
+/**
+ * Round to a number of decimal places, dropping trailing zeros
+ */
+export function roundQuantity(value: number, decimals: number = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Convert a stored value to the given system's display unit
+ */
+export function toDisplayValue(
+  quantity: Quantity,
+  system: UnitSystem
+): number {
+  return quantity.value / DISPLAY_UNITS[quantity.kind][system].baseUnits;
+}
+
+/**
+ * Convert a value entered in the given system's display unit to base units
+ */
+export function fromDisplayValue(
+  kind: QuantityKind,
+  value: number,
+  system: UnitSystem
+): Quantity {
+  return { kind, value: value * DISPLAY_UNITS[kind][system].baseUnits };
+}
+
+/**
+ * Parse text typed into an input in the given system. Returns null for
+ * empty, invalid or non-positive input.
+ */
+export function parseDisplayValue(
+  kind: QuantityKind,
+  text: string,
+  system: UnitSystem
+): Quantity | null {
+  const value = parseFloat(text.trim().replace(",", "."));
+  if (isNaN(value) || value <= 0) {
+    return null;
+  }
+  return fromDisplayValue(kind, value, system);
+}
+
+/**
+ * A stored value as input text in the given system, e.g. "176.4"
+ */
+export function toInputText(quantity: Quantity, system: UnitSystem): string {
+  return roundQuantity(toDisplayValue(quantity, system)).toString();
+}
+
+/**
+ * Human readable quantity in the given system, e.g. "80 kg", "176.4 lb"
+ * or 5'9" for an imperial height
+ */
+export function formatQuantity(
+  quantity: Quantity,
+  system: UnitSystem
+): string {
+  const value = toDisplayValue(quantity, system);
+
+  if (quantity.kind === "height" && system === "imperial") {
+    const totalInches = Math.round(value);
+    return `${Math.floor(totalInches / 12)}'${totalInches % 12}"`;
+  }
+
+  const decimals = quantity.kind === "height" ? 0 : 1;
+  return `${roundQuantity(value, decimals)} ${getDisplayUnit(
+    quantity.kind,
+    system
+  )}`;
+}
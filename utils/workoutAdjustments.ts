@@ -0,0 +1,338 @@
+import {
+  CatalogExercise,
+  EXERCISE_CATALOG,
+  ExerciseDifficulty,
+  getCatalogExercise,
+  isExerciseAvailable,
+  targetsMuscleFocus,
+} from "./exerciseCatalog";
+import { resolveExerciseId } from "./exerciseMatcher";
+import { isSafeForInjuries, ProfileInjury } from "./injuries";
+import { getWorkoutModalities } from "./offlineWorkout";
+import type { WorkoutResponse } from "./openai";
+import { appendStraightBlock, removeBlockExercise } from "./workoutSchema";
+import { parseDurationSeconds } from "./workoutSession";
+
+/**
+ * Per-exercise edits for a generated workout.
+ * Each edit changes a single exercise and leaves every other exercise as it
+ * was; the workout's total time is moved by the difference so it still
+ * matches what is on the list.
+ */
+
+export type WorkoutExercise = WorkoutResponse["exercises"][number];
+
+// "swap" keeps the difficulty, "easier" and "harder" regress or progress
+export type ExerciseAdjustment = "swap" | "easier" | "harder";
+
+// The workout builder choices new exercises have to fit
+export interface AdjustmentContext {
+  workoutType: string;
+  muscleFocus: string;
+  equipment: string;
+  // New exercises must not load a region with a moderate or severe injury
+  injuries?: ProfileInjury[];
+}
+
+const DIFFICULTY_RANK: Record<ExerciseDifficulty, number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 2,
+};
+
+// Rough time per rep when estimating how long an exercise takes
+const SECONDS_PER_REP = 3;
+
+const DEFAULT_REPS = 10;
+
+// Time between exercises for setting up equipment
+const TRANSITION_SECONDS = 30;
+
+const MAX_SETS = 5;
+
+// Candidates within this many points of the best are picked at random,
+// so swapping the same exercise again gives a different one
+const SCORE_TOLERANCE = 1;
+
+function getRepCount(reps?: string): number {
+  const match = reps?.match(/\d+/);
+  return match ? parseInt(match[0], 10) : DEFAULT_REPS;
+}
+
+/**
+ * Estimated seconds an exercise takes, including rests and moving on
+ */
+export function estimateExerciseSeconds(exercise: WorkoutExercise): number {
+  const sets = exercise.sets || 1;
+  const work =
+    parseDurationSeconds(exercise.duration) ??
+    getRepCount(exercise.reps) * SECONDS_PER_REP;
+  const rest = parseDurationSeconds(exercise.restBetweenSets) ?? 0;
+  return sets * (work + rest) + TRANSITION_SECONDS;
+}
+
+// Move the workout's total time by the given number of seconds
+function shiftTotalTime(
+  workout: WorkoutResponse,
+  deltaSeconds: number
+): string {
+  const totalSeconds = parseDurationSeconds(workout.totalTime);
+  if (!totalSeconds) {
+    return workout.totalTime;
+  }
+  const minutes = Math.max(1, Math.round((totalSeconds + deltaSeconds) / 60));
+  return `${minutes} minutes`;
+}
+
+/**
+ * The catalog entry for a workout exercise, matched by name when the
+ * exercise has no catalog id
+ */
+export function getCatalogEntry(exercise: WorkoutExercise) {
+  return getCatalogExercise(
+    exercise.catalogId || resolveExerciseId(exercise.name)
+  );
+}
+
+function getWorkoutCatalogIds(workout: WorkoutResponse): Set<string> {
+  return new Set(
+    workout.exercises
+      .map((exercise) => getCatalogEntry(exercise)?.id)
+      .filter((id): id is string => !!id)
+  );
+}
+
+function countSharedMuscles(a: CatalogExercise, b: CatalogExercise): number {
+  return a.primaryMuscles.filter((muscle) => b.primaryMuscles.includes(muscle))
+    .length;
+}
+
+function pickBest<T>(
+  candidates: T[],
+  score: (candidate: T) => number,
+  random: () => number
+): T | null {
+  if (candidates.length === 0) {
+    return null;
+  }
+  const scores = candidates.map(score);
+  const best = Math.max(...scores);
+  const top = candidates.filter(
+    (_, index) => scores[index] >= best - SCORE_TOLERANCE
+  );
+  return top[Math.floor(random() * top.length)];
+}
+
+/**
+ * Turn a catalog exercise into a workout entry that takes the place of
+ * `slot`, keeping its sets and rest and converting reps to time or back
+ */
+export function prescribeExercise(
+  exercise: CatalogExercise,
+  slot: Partial<WorkoutExercise>
+): WorkoutExercise {
+  const slotWork =
+    parseDurationSeconds(slot.duration) ??
+    getRepCount(slot.reps) * SECONDS_PER_REP;
+
+  return {
+    name: exercise.name,
+    catalogId: exercise.id,
+    sets: slot.sets || 3,
+    ...(exercise.timed
+      ? {
+          duration:
+            slot.duration ||
+            `${Math.max(15, Math.round(slotWork / 5) * 5)} seconds`,
+        }
+      : {
+          reps:
+            slot.reps ||
+            `${Math.max(5, Math.round(slotWork / SECONDS_PER_REP))}`,
+        }),
+    ...(slot.restBetweenSets ? { restBetweenSets: slot.restBetweenSets } : {}),
+    instructions: exercise.instructions,
+    ...(exercise.media.videoUrl ? { videoUrl: exercise.media.videoUrl } : {}),
+  };
+}
+
+/**
+ * The catalog exercise that best replaces `current`.
+ * Candidates must work with the selected equipment and aren't already in
+ * the workout. Unknown exercises are matched on the workout's muscle focus.
+ */
+function findReplacement(
+  current: CatalogExercise | undefined,
+  adjustment: ExerciseAdjustment,
+  context: AdjustmentContext,
+  excludeIds: Set<string>,
+  random: () => number
+): CatalogExercise | null {
+  const equipment = context.equipment.split(",");
+  const focus = context.muscleFocus.split(",");
+  const modalities = current
+    ? [current.category]
+    : getWorkoutModalities(context.workoutType);
+  const currentRank = current ? DIFFICULTY_RANK[current.difficulty] : 1;
+
+  const candidates = EXERCISE_CATALOG.filter((exercise) => {
+    if (
+      excludeIds.has(exercise.id) ||
+      !modalities.includes(exercise.category) ||
+      !isExerciseAvailable(exercise, equipment) ||
+      !isSafeForInjuries(exercise, context.injuries || [])
+    ) {
+      return false;
+    }
+
+    const rank = DIFFICULTY_RANK[exercise.difficulty];
+    if (adjustment === "easier" && rank >= currentRank) return false;
+    if (adjustment === "harder" && rank <= currentRank) return false;
+
+    return current
+      ? countSharedMuscles(exercise, current) > 0
+      : targetsMuscleFocus(exercise, focus);
+  });
+
+  return pickBest(
+    candidates,
+    (exercise) => {
+      let score = 0;
+      if (current) {
+        score += countSharedMuscles(exercise, current) * 2;
+        if (exercise.movementPattern === current.movementPattern) score += 3;
+        if (exercise.timed === current.timed) score += 1;
+      }
+      // Closest step in difficulty, the same level for a plain swap
+      score -= Math.abs(DIFFICULTY_RANK[exercise.difficulty] - currentRank);
+      return score;
+    },
+    random
+  );
+}
+
+// Regress or progress the prescription when the catalog has no alternative
+function adjustVolume(
+  exercise: WorkoutExercise,
+  adjustment: "easier" | "harder"
+): WorkoutExercise | null {
+  const sets = exercise.sets || 1;
+  if (adjustment === "easier") {
+    return sets > 1 ? { ...exercise, sets: sets - 1 } : null;
+  }
+  return sets < MAX_SETS ? { ...exercise, sets: sets + 1 } : null;
+}
+
+/**
+ * Swap one exercise for an equivalent one, or for a regression or
+ * progression of it. Falls back to one set fewer or more when the catalog
+ * has no easier or harder exercise for the same muscles. Returns null when
+ * nothing suitable was found.
+ */
+export function adjustExercise(
+  workout: WorkoutResponse,
+  index: number,
+  adjustment: ExerciseAdjustment,
+  context: AdjustmentContext,
+  random: () => number = Math.random
+): WorkoutResponse | null {
+  const exercise = workout.exercises[index];
+  if (!exercise) {
+    return null;
+  }
+
+  const current = getCatalogEntry(exercise);
+  const replacement = findReplacement(
+    current,
+    adjustment,
+    context,
+    getWorkoutCatalogIds(workout),
+    random
+  );
+
+  const updated = replacement
+    ? prescribeExercise(replacement, exercise)
+    : adjustment === "swap"
+      ? null
+      : adjustVolume(exercise, adjustment);
+  if (!updated) {
+    return null;
+  }
+
+  return {
+    ...workout,
+    exercises: workout.exercises.map((item, itemIndex) =>
+      itemIndex === index ? updated : item
+    ),
+    totalTime: shiftTotalTime(
+      workout,
+      estimateExerciseSeconds(updated) - estimateExerciseSeconds(exercise)
+    ),
+  };
+}
+
+/**
+ * Remove one exercise and take its time off the total
+ */
+export function removeExercise(
+  workout: WorkoutResponse,
+  index: number
+): WorkoutResponse {
+  const exercise = workout.exercises[index];
+  if (!exercise) {
+    return workout;
+  }
+
+  return {
+    ...workout,
+    exercises: workout.exercises.filter((_, itemIndex) => itemIndex !== index),
+    ...(workout.blocks
+      ? { blocks: removeBlockExercise(workout.blocks, index) }
+      : {}),
+    totalTime: shiftTotalTime(workout, -estimateExerciseSeconds(exercise)),
+  };
+}
+
+/**
+ * Add an exercise for the workout's muscle focus at the end, prescribed like
+ * the last exercise, and add its time to the total. Returns null when the
+ * catalog has no exercise left that fits.
+ */
+export function addExercise(
+  workout: WorkoutResponse,
+  context: AdjustmentContext,
+  random: () => number = Math.random
+): WorkoutResponse | null {
+  const exercise = findReplacement(
+    undefined,
+    "swap",
+    context,
+    getWorkoutCatalogIds(workout),
+    random
+  );
+  if (!exercise) {
+    return null;
+  }
+
+  const last = workout.exercises[workout.exercises.length - 1];
+  const added = prescribeExercise(
+    exercise,
+    last
+      ? { sets: last.sets, restBetweenSets: last.restBetweenSets }
+      : { restBetweenSets: "60 seconds" }
+  );
+
+  return {
+    ...workout,
+    exercises: [...workout.exercises, added],
+    ...(workout.blocks
+      ? {
+          blocks: appendStraightBlock(
+            workout.blocks,
+            workout.exercises.length
+          ),
+        }
+      : {}),
+    totalTime: shiftTotalTime(workout, estimateExerciseSeconds(added)),
+  };
+}
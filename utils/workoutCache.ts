@@ -0,0 +1,421 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+
+import type { WorkoutHistory, WorkoutSetInput } from "./auth";
+import { supabase } from "./supabase";
+import { migrateWorkoutData } from "./workoutSchema";
+
+/**
+ * Offline-first storage for workout_history and the sets logged for it.
+ * Every write is applied to a local copy of the user's workouts right away
+ * and queued as an operation. The queue is replayed against Supabase in
+ * order whenever the device is online, so workouts can be saved, rated and
+ * completed in a gym with no signal. Reads and writes of the stored cache
+ * and queue, and every replay, run one at a time so none overwrite another.
+ */
+
+type WorkoutChanges = Partial<
+  Pick<
+    WorkoutHistory,
+    | "rating"
+    | "completed"
+    | "workout_data"
+    | "original_workout_data"
+    | "version"
+  >
+>;
+
+export type WorkoutOperation =
+  | {
+      id: string;
+      type: "insert";
+      workoutId: string;
+      queuedAt: string;
+      workout: WorkoutHistory;
+    }
+  | {
+      id: string;
+      type: "update";
+      workoutId: string;
+      queuedAt: string;
+      changes: WorkoutChanges;
+    }
+  | { id: string; type: "delete"; workoutId: string; queuedAt: string }
+  | {
+      id: string;
+      type: "sets";
+      workoutId: string;
+      queuedAt: string;
+      sets: WorkoutSetInput[];
+    };
+
+// Outcome of replaying one operation against Supabase
+type OperationResult =
+  | { status: "applied" }
+  // The server has a newer change or the workout is gone, so the server wins
+  | { status: "conflict" }
+  // Supabase refused the operation, retrying won't help
+  | { status: "rejected"; error: { message: string } }
+  // Couldn't reach Supabase, the operation stays queued
+  | { status: "offline" };
+
+const CACHE_KEY_PREFIX = "workout_history_cache:";
+const QUEUE_KEY_PREFIX = "workout_sync_queue:";
+
+// Error messages fetch produces when there is no connection
+const NETWORK_ERROR_PATTERN =
+  /network request failed|failed to fetch|network error|fetch failed/i;
+
+// Chains every change to the stored cache and queue, and every replay of
+// the queue, so they run one after another
+let storageLock: Promise<unknown> = Promise.resolve();
+
+function withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+  const next = storageLock.then(task);
+  storageLock = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Random v4 UUID, used to give workouts created offline their final id
+ */
+export function generateId() {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === "x" ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
+
+export function isNetworkError(error: unknown) {
+  if (!error) return false;
+  const message =
+    typeof error === "object" && "message" in error
+      ? String((error as { message: unknown }).message)
+      : String(error);
+  return NETWORK_ERROR_PATTERN.test(message);
+}
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const value = await AsyncStorage.getItem(key);
+    return value ? (JSON.parse(value) as T) : fallback;
+  } catch (error) {
+    console.error("Error reading offline cache:", error);
+    return fallback;
+  }
+}
+
+async function writeJson(key: string, value: unknown) {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error("Error writing offline cache:", error);
+  }
+}
+
+export async function getCachedWorkouts(userId: string) {
+  return readJson<WorkoutHistory[]>(CACHE_KEY_PREFIX + userId, []);
+}
+
+export async function setCachedWorkouts(
+  userId: string,
+  workouts: WorkoutHistory[]
+) {
+  await writeJson(CACHE_KEY_PREFIX + userId, workouts);
+}
+
+export async function getQueuedOperations(userId: string) {
+  return readJson<WorkoutOperation[]>(QUEUE_KEY_PREFIX + userId, []);
+}
+
+async function setQueuedOperations(
+  userId: string,
+  operations: WorkoutOperation[]
+) {
+  await writeJson(QUEUE_KEY_PREFIX + userId, operations);
+}
+
+/**
+ * Bring workouts saved before the current workout schema up to date
+ */
+export function migrateWorkoutHistory(
+  workout: WorkoutHistory
+): WorkoutHistory {
+  return {
+    ...workout,
+    workout_data: migrateWorkoutData(workout.workout_data),
+    ...(workout.original_workout_data
+      ? {
+          original_workout_data: migrateWorkoutData(
+            workout.original_workout_data
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Replace the cache with workouts just loaded from Supabase, keeping the
+ * changes that are still waiting to be synced. Returns the new cache.
+ */
+export function refreshCachedWorkouts(
+  userId: string,
+  workouts: WorkoutHistory[]
+) {
+  return withStorageLock(async () => {
+    const refreshed = applyOperations(
+      workouts.map(migrateWorkoutHistory),
+      await getQueuedOperations(userId)
+    );
+    await setCachedWorkouts(userId, refreshed);
+    return refreshed;
+  });
+}
+
+/**
+ * Apply operations to a list of workouts, newest workouts first
+ */
+export function applyOperations(
+  workouts: WorkoutHistory[],
+  operations: WorkoutOperation[]
+) {
+  let result = [...workouts];
+  operations.forEach((operation) => {
+    switch (operation.type) {
+      case "insert":
+        if (!result.some((workout) => workout.id === operation.workoutId)) {
+          result = [operation.workout, ...result];
+        }
+        break;
+      case "update":
+        result = result.map((workout) =>
+          workout.id === operation.workoutId
+            ? { ...workout, ...operation.changes }
+            : workout
+        );
+        break;
+      case "delete":
+        result = result.filter(
+          (workout) => workout.id !== operation.workoutId
+        );
+        break;
+      case "sets":
+        // Logged sets live in workout_sets, not in the cached workouts
+        break;
+    }
+  });
+  return result.sort(
+    (a, b) =>
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+async function replayOperation(
+  userId: string,
+  operation: WorkoutOperation
+): Promise<OperationResult> {
+  try {
+    let error: { message: string } | null = null;
+
+    switch (operation.type) {
+      case "insert": {
+        // Ignoring duplicates makes replaying an insert that already
+        // reached the server harmless
+        ({ error } = await supabase
+          .from("workout_history")
+          .upsert(
+            [{ ...operation.workout, updated_at: operation.queuedAt }],
+            { onConflict: "id", ignoreDuplicates: true }
+          ));
+        break;
+      }
+      case "update": {
+        // Only apply the change if nobody changed the workout after it was
+        // made, otherwise the newer server value wins
+        const { data, error: updateError } = await supabase
+          .from("workout_history")
+          .update({ ...operation.changes, updated_at: operation.queuedAt })
+          .eq("id", operation.workoutId)
+          .eq("user_id", userId)
+          .or(`updated_at.is.null,updated_at.lte.${operation.queuedAt}`)
+          .select("id");
+        if (!updateError && (!data || data.length === 0)) {
+          return { status: "conflict" };
+        }
+        error = updateError;
+        break;
+      }
+      case "delete": {
+        ({ error } = await supabase
+          .from("workout_history")
+          .delete()
+          .eq("id", operation.workoutId)
+          .eq("user_id", userId));
+        break;
+      }
+      case "sets": {
+        // Sets are keyed by their position in the workout, so replaying
+        // them again just overwrites the same rows
+        ({ error } = await supabase.from("workout_sets").upsert(
+          operation.sets.map((set) => ({
+            ...set,
+            workout_id: operation.workoutId,
+            user_id: userId,
+          })),
+          { onConflict: "workout_id,exercise_index,set_number" }
+        ));
+        break;
+      }
+    }
+
+    if (!error) return { status: "applied" };
+    if (isNetworkError(error)) return { status: "offline" };
+    return { status: "rejected", error };
+  } catch (error) {
+    if (isNetworkError(error)) return { status: "offline" };
+    console.error("Replay workout operation error:", error);
+    return {
+      status: "rejected",
+      error: { message: "An unexpected error occurred" },
+    };
+  }
+}
+
+// Load the server's copy of workouts whose queued changes lost a conflict,
+// so the cache stops showing the changes that were dropped
+async function refreshConflictedWorkouts(
+  userId: string,
+  workoutIds: string[],
+  queued: WorkoutOperation[]
+) {
+  const { data, error } = await supabase
+    .from("workout_history")
+    .select("*")
+    .eq("user_id", userId)
+    .in("id", workoutIds);
+  if (error) {
+    console.error("Error refreshing conflicted workouts:", error);
+    return;
+  }
+
+  const serverWorkouts = new Map(
+    (data as WorkoutHistory[]).map((workout) => [
+      workout.id,
+      migrateWorkoutHistory(workout),
+    ])
+  );
+  const workouts = (await getCachedWorkouts(userId))
+    .filter(
+      (workout) =>
+        !workoutIds.includes(workout.id) || serverWorkouts.has(workout.id)
+    )
+    .map((workout) => serverWorkouts.get(workout.id) || workout);
+
+  // Changes still waiting to be synced go back on top of the server copy
+  await setCachedWorkouts(
+    userId,
+    applyOperations(
+      workouts,
+      queued.filter((operation) => workoutIds.includes(operation.workoutId))
+    )
+  );
+}
+
+// Only called while holding the storage lock
+async function flushQueue(userId: string) {
+  const results: Record<string, OperationResult> = {};
+  const operations = await getQueuedOperations(userId);
+
+  for (const operation of operations) {
+    const result = await replayOperation(userId, operation);
+    if (result.status === "offline") break;
+
+    results[operation.id] = result;
+    if (result.status === "rejected") {
+      console.error("Dropping rejected workout operation:", result.error);
+    }
+  }
+
+  const remaining = operations.filter((operation) => !results[operation.id]);
+  await setQueuedOperations(userId, remaining);
+
+  const conflictedIds = [
+    ...new Set(
+      operations
+        .filter((operation) => results[operation.id]?.status === "conflict")
+        .map((operation) => operation.workoutId)
+    ),
+  ];
+  if (conflictedIds.length > 0) {
+    await refreshConflictedWorkouts(userId, conflictedIds, remaining);
+  }
+
+  return results;
+}
+
+/**
+ * Replay queued operations against Supabase in order.
+ * Stops at the first operation that can't reach the server and leaves it
+ * and everything after it queued. Returns the result of each replayed
+ * operation by id.
+ */
+export async function syncWorkoutQueue(userId?: string) {
+  const resolvedUserId =
+    userId || (await supabase.auth.getSession()).data.session?.user.id;
+  if (!resolvedUserId) return {};
+
+  // Replays wait for each other, so no operation is sent twice
+  return withStorageLock(() => flushQueue(resolvedUserId));
+}
+
+/**
+ * Apply an operation locally, queue it and try to send it right away.
+ * Returns an error only when Supabase rejected the operation. When the
+ * device is offline the operation stays queued and `queued` is true.
+ */
+export async function enqueueWorkoutOperation(
+  userId: string,
+  operation: WorkoutOperation
+) {
+  const previous = await withStorageLock(async () => {
+    const workouts = await getCachedWorkouts(userId);
+    await setQueuedOperations(userId, [
+      ...(await getQueuedOperations(userId)),
+      operation,
+    ]);
+    await setCachedWorkouts(userId, applyOperations(workouts, [operation]));
+    return workouts.find((workout) => workout.id === operation.workoutId);
+  });
+
+  const results = await syncWorkoutQueue(userId);
+  const result = results[operation.id];
+
+  if (result?.status === "rejected") {
+    // Undo the local change so the cache matches the server again
+    await withStorageLock(async () => {
+      const current = (await getCachedWorkouts(userId)).filter(
+        (workout) => workout.id !== operation.workoutId
+      );
+      await setCachedWorkouts(
+        userId,
+        applyOperations(previous ? [previous, ...current] : current, [])
+      );
+    });
+    return { queued: false, error: result.error };
+  }
+  return { queued: !result, error: null };
+}
+
+/**
+ * Replay the queue whenever the device comes back online
+ */
+export function startWorkoutSync() {
+  return NetInfo.addEventListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      syncWorkoutQueue().catch((error) =>
+        console.error("Workout sync error:", error)
+      );
+    }
+  });
+}
@@ -0,0 +1,262 @@
+import { TIME_OPTIONS } from "@/constants/TimeAvailable";
+
+import {
+  CatalogExercise,
+  EXERCISE_CATALOG,
+  getCatalogExercise,
+  MUSCLES_BY_FOCUS,
+} from "./exerciseCatalog";
+import { resolveExerciseId } from "./exerciseMatcher";
+import type { WorkoutResponse } from "./openai";
+import {
+  estimateExerciseSeconds,
+  prescribeExercise,
+  WorkoutExercise,
+} from "./workoutAdjustments";
+import {
+  appendStraightBlock,
+  removeBlockExercise,
+  WORKOUT_SCHEMA_VERSION,
+} from "./workoutSchema";
+import { validateWorkoutResponse } from "./workoutValidation";
+
+/**
+ * Helpers for the manual workout editor.
+ * Edits are applied to a copy of the workout so the screen can hold a draft
+ * and only save it as a new version once the user is done.
+ */
+
+// Minutes assumed for a written warmup or cooldown
+const ROUTINE_MINUTES = 5;
+
+const MAX_SEARCH_RESULTS = 20;
+
+// Focus options checked when guessing the focus of a hand-built workout
+const FOCUS_AREAS = ["upper-body", "lower-body", "core"];
+
+export function createEmptyWorkout(): WorkoutResponse {
+  return {
+    title: "",
+    description: "",
+    exercises: [],
+    schemaVersion: WORKOUT_SCHEMA_VERSION,
+    blocks: [],
+    warmup: "",
+    cooldown: "",
+    totalTime: "0 minutes",
+    difficulty: "intermediate",
+  };
+}
+
+/**
+ * Move an exercise up or down, leaving the workout alone at either end.
+ * Blocks keep pointing at the same positions, so the two exercises also
+ * trade places in their blocks.
+ */
+export function moveExercise(
+  workout: WorkoutResponse,
+  index: number,
+  offset: -1 | 1
+): WorkoutResponse {
+  const target = index + offset;
+  if (target < 0 || target >= workout.exercises.length) {
+    return workout;
+  }
+
+  const exercises = [...workout.exercises];
+  [exercises[index], exercises[target]] = [exercises[target], exercises[index]];
+  return { ...workout, exercises };
+}
+
+export function updateExercise(
+  workout: WorkoutResponse,
+  index: number,
+  changes: Partial<WorkoutExercise>
+): WorkoutResponse {
+  return {
+    ...workout,
+    exercises: workout.exercises.map((exercise, itemIndex) =>
+      itemIndex === index ? { ...exercise, ...changes } : exercise
+    ),
+  };
+}
+
+export function deleteExercise(
+  workout: WorkoutResponse,
+  index: number
+): WorkoutResponse {
+  return {
+    ...workout,
+    exercises: workout.exercises.filter((_, itemIndex) => itemIndex !== index),
+    ...(workout.blocks
+      ? { blocks: removeBlockExercise(workout.blocks, index) }
+      : {}),
+  };
+}
+
+/**
+ * Append a catalog exercise, prescribed like the last exercise in the list
+ */
+export function appendCatalogExercise(
+  workout: WorkoutResponse,
+  exercise: CatalogExercise
+): WorkoutResponse {
+  const last = workout.exercises[workout.exercises.length - 1];
+  return {
+    ...workout,
+    exercises: [
+      ...workout.exercises,
+      prescribeExercise(
+        exercise,
+        last
+          ? { sets: last.sets, restBetweenSets: last.restBetweenSets }
+          : { restBetweenSets: "60 seconds" }
+      ),
+    ],
+    ...(workout.blocks
+      ? {
+          blocks: appendStraightBlock(
+            workout.blocks,
+            workout.exercises.length
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Catalog exercises whose name or aliases contain the query, by name
+ */
+export function searchCatalog(query: string): CatalogExercise[] {
+  const normalized = query.trim().toLowerCase();
+  return EXERCISE_CATALOG.filter(
+    (exercise) =>
+      !normalized ||
+      exercise.name.toLowerCase().includes(normalized) ||
+      exercise.aliases.some((alias) => alias.includes(normalized))
+  )
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(0, MAX_SEARCH_RESULTS);
+}
+
+/**
+ * Estimated minutes for the whole workout, warmup and cooldown included
+ */
+export function estimateTotalMinutes(workout: WorkoutResponse): number {
+  const exerciseSeconds = workout.exercises.reduce(
+    (sum, exercise) => sum + estimateExerciseSeconds(exercise),
+    0
+  );
+  const routineMinutes =
+    (workout.warmup ? ROUTINE_MINUTES : 0) +
+    (workout.cooldown ? ROUTINE_MINUTES : 0);
+  return Math.max(1, Math.round(exerciseSeconds / 60) + routineMinutes);
+}
+
+/**
+ * Tidy a draft into a workout that can be saved: empty fields are dropped
+ * and the total time matches the exercises.
+ * Returns the problems when the draft can't be saved.
+ */
+export function finalizeWorkout(
+  draft: WorkoutResponse
+): { workout: WorkoutResponse | null; errors: string[] } {
+  const { workout, errors } = validateWorkoutResponse({
+    ...draft,
+    totalTime: `${estimateTotalMinutes(draft)} minutes`,
+  });
+
+  if (!workout) {
+    return { workout: null, errors };
+  }
+
+  const droppedCount = draft.exercises.length - workout.exercises.length;
+  if (droppedCount > 0) {
+    return {
+      workout: null,
+      errors: [
+        "every exercise needs a name and at least sets, reps or a duration",
+      ],
+    };
+  }
+
+  // Keep track of which generator wrote the version that was edited, and
+  // what the generator explained about it. The validator only keeps what a
+  // model may write, so these are put back here
+  if (draft.generator) {
+    workout.generator = draft.generator;
+  }
+  if (draft.personalization) {
+    workout.personalization = draft.personalization;
+  }
+  if (draft.safetyNotes) {
+    workout.safetyNotes = draft.safetyNotes;
+  }
+  workout.exercises = workout.exercises.map((exercise, index) =>
+    draft.exercises[index].safetyWarning
+      ? { ...exercise, safetyWarning: draft.exercises[index].safetyWarning }
+      : exercise
+  );
+  return { workout, errors: [] };
+}
+
+/**
+ * Guess the workout_history fields for a workout built by hand from the
+ * catalog exercises it contains
+ */
+export function inferWorkoutParams(workout: WorkoutResponse) {
+  const catalogExercises = workout.exercises
+    .map((exercise) =>
+      getCatalogExercise(
+        exercise.catalogId || resolveExerciseId(exercise.name)
+      )
+    )
+    .filter((exercise): exercise is CatalogExercise => !!exercise);
+
+  const categories = new Set(
+    catalogExercises.map((exercise) => exercise.category)
+  );
+  const workoutType =
+    categories.size === 1 && categories.has("strength")
+      ? "strength"
+      : categories.size === 1 && categories.has("cardio")
+        ? "cardio"
+        : categories.size === 1 && categories.has("mobility")
+          ? "flexibility"
+          : "both";
+
+  const muscles = catalogExercises.flatMap(
+    (exercise) => exercise.primaryMuscles
+  );
+  const areas = FOCUS_AREAS.filter((area) =>
+    MUSCLES_BY_FOCUS[area].some((muscle) => muscles.includes(muscle))
+  );
+  const muscleFocus =
+    areas.length === 0 || areas.length === FOCUS_AREAS.length
+      ? "full-body"
+      : areas.join(",");
+
+  const equipment = [
+    ...new Set(
+      catalogExercises.flatMap((exercise) =>
+        exercise.equipment.includes("none") ? [] : [exercise.equipment[0]]
+      )
+    ),
+  ];
+
+  // Smallest time option the workout fits in
+  const minutes = estimateTotalMinutes(workout);
+  const timeAvailable =
+    TIME_OPTIONS.find(
+      (option) =>
+        minutes <= Math.max(...(option.value.match(/\d+/g) || []).map(Number))
+    )?.value || TIME_OPTIONS[TIME_OPTIONS.length - 1].value;
+
+  return {
+    workoutType,
+    timeAvailable,
+    mood: "normal",
+    muscleFocus,
+    equipment: equipment.length > 0 ? equipment.join(",") : "none",
+  };
+}
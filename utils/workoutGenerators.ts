@@ -0,0 +1,155 @@
+import OpenAI from "openai";
+
+import type { UserProfile } from "./auth";
+import { buildOfflineWorkout } from "./offlineWorkout";
+import type { WorkoutParams } from "./openai";
+
+/**
+ * Pluggable backends for workout generation.
+ * The active generator is chosen with the WORKOUT_GENERATOR environment variable:
+ * "openai" (default), "openai-compatible" or "offline".
+ */
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export interface WorkoutGenerationRequest {
+  messages: ChatMessage[];
+  params: WorkoutParams;
+  // The fields generators read from the user's profile, if they have one
+  profile: Pick<UserProfile, "fitness_level"> | null;
+}
+
+export interface WorkoutGenerator {
+  name: string;
+  // Returns the raw JSON text of a workout plan, validated by the caller
+  generate(request: WorkoutGenerationRequest): Promise<string>;
+}
+
+export type WorkoutGeneratorType = "openai" | "openai-compatible" | "offline";
+
+/**
+ * Generator backed by the official OpenAI SDK
+ */
+export function createOpenAIGenerator(options: {
+  apiKey?: string;
+  model: string;
+}): WorkoutGenerator {
+  let client: OpenAI | null = null;
+
+  return {
+    name: "openai",
+    async generate({ messages }) {
+      // Created lazily so other generators can run without an API key
+      if (!client) {
+        client = new OpenAI({ apiKey: options.apiKey });
+      }
+
+      const response = await client.chat.completions.create({
+        model: options.model,
+        messages,
+        response_format: { type: "json_object" },
+      });
+
+      return response.choices[0].message.content || "{}";
+    },
+  };
+}
+
+/**
+ * Generator for self-hosted models exposing an OpenAI-compatible chat completions API
+ */
+export function createOpenAICompatibleGenerator(options: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}): WorkoutGenerator {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: "openai-compatible",
+    async generate({ messages }) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey
+            ? { Authorization: `Bearer ${options.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          messages,
+          response_format: { type: "json_object" },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Model server responded with ${response.status}: ${await response.text()}`
+        );
+      }
+
+      const data = await response.json();
+      return data?.choices?.[0]?.message?.content || "{}";
+    },
+  };
+}
+
+/**
+ * Deterministic generator backed by the local exercise catalog
+ */
+export function createOfflineGenerator(): WorkoutGenerator {
+  return {
+    name: "offline",
+    async generate({ params, profile }) {
+      return JSON.stringify(
+        buildOfflineWorkout(params, { fitnessLevel: profile?.fitness_level })
+      );
+    },
+  };
+}
+
+let activeGenerator: WorkoutGenerator | null = null;
+
+/**
+ * Get the generator configured for this server
+ */
+export function getWorkoutGenerator(): WorkoutGenerator {
+  if (activeGenerator) {
+    return activeGenerator;
+  }
+
+  const type = (process.env.WORKOUT_GENERATOR ||
+    "openai") as WorkoutGeneratorType;
+
+  switch (type) {
+    case "offline":
+      activeGenerator = createOfflineGenerator();
+      break;
+    case "openai-compatible":
+      if (!process.env.WORKOUT_LLM_BASE_URL) {
+        throw new Error(
+          "WORKOUT_LLM_BASE_URL is required for the openai-compatible generator"
+        );
+      }
+      activeGenerator = createOpenAICompatibleGenerator({
+        baseUrl: process.env.WORKOUT_LLM_BASE_URL,
+        apiKey: process.env.WORKOUT_LLM_API_KEY,
+        model: process.env.WORKOUT_LLM_MODEL || "llama3.1",
+      });
+      break;
+    case "openai":
+      activeGenerator = createOpenAIGenerator({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_WORKOUT_MODEL || "gpt-5-mini",
+      });
+      break;
+    default:
+      throw new Error(`Unknown WORKOUT_GENERATOR "${type}"`);
+  }
+
+  return activeGenerator;
+}
@@ -0,0 +1,257 @@
+import { describeInjuries } from "./injuries";
+import type { WorkoutParams } from "./openai";
+import type { GenerationPreferences } from "./preferenceModel";
+import { getProgramGoal, ProgramSessionContext } from "./programPlan";
+import { formatQuantity, parseUnitSystem, UnitSystem } from "./units";
+
+// System message sent ahead of every workout generation prompt
+export const WORKOUT_SYSTEM_PROMPT =
+  "You are a professional fitness coach specialized in creating personalized workout routines. Provide detailed, safe, and effective workout plans based on the user's preferences and profile information. Format your response as structured JSON.";
+
+/**
+ * Builds a detailed prompt for OpenAI based on workout parameters and user profile
+ */
+export function buildWorkoutPrompt(
+  params: WorkoutParams,
+  userProfile: any
+): string {
+  const { workoutType, timeAvailable, mood, muscleFocus, equipment } = params;
+
+  // Convert time available to minutes for clearer instructions
+  const timeRangeMap: Record<string, string> = {
+    "10-15": "10-15 minutes",
+    "15-25": "15-25 minutes",
+    "25-40": "25-40 minutes",
+    "40-60": "40-60 minutes",
+    "60-90": "60-90 minutes",
+    "120": "120 minutes (2 hours)",
+  };
+
+  const timeRange = timeRangeMap[timeAvailable] || timeAvailable;
+
+  // Describe measurements in the units the user thinks in
+  const unitSystem = parseUnitSystem(userProfile?.unit_system);
+
+  // Parse equipment list
+  const equipmentList = equipment.split(",");
+  const equipmentString =
+    equipmentList.length === 1
+      ? equipmentList[0]
+      : equipmentList
+          .map((item, index) => {
+            if (index === equipmentList.length - 1) {
+              return `and ${item}`;
+            }
+            return item;
+          })
+          .join(", ");
+
+  // Base prompt with workout parameters
+  let prompt = `Create a detailed ${workoutType} workout plan that:
+- Takes approximately ${timeRange} to complete
+- Focuses on the ${muscleFocus} muscle group(s)
+- Uses the following equipment: ${equipmentString}
+- Is suitable for someone who is feeling ${mood}
+`;
+
+  // Add user profile information if available
+  if (userProfile) {
+    prompt += `\nAdditional information about the user:`;
+
+    if (userProfile.fitness_level) {
+      prompt += `\n- Fitness level: ${userProfile.fitness_level}`;
+    }
+
+    if (userProfile.age) {
+      prompt += `\n- Age: ${userProfile.age}`;
+    }
+
+    if (userProfile.weight) {
+      prompt += `\n- Weight: ${formatQuantity(
+        { kind: "bodyWeight", value: Number(userProfile.weight) },
+        unitSystem
+      )}`;
+    }
+
+    if (userProfile.body_fat_percentage) {
+      prompt += `\n- Body fat: ${userProfile.body_fat_percentage}%`;
+    }
+
+    if (userProfile.height) {
+      prompt += `\n- Height: ${formatQuantity(
+        { kind: "height", value: Number(userProfile.height) },
+        unitSystem
+      )}`;
+    }
+
+    if (userProfile.fitness_goals) {
+      prompt += `\n- Fitness goals: ${userProfile.fitness_goals}`;
+    }
+
+    if (params.injuries?.length) {
+      prompt += `\n- Injuries by body region and severity: ${describeInjuries(
+        params.injuries
+      )}. Do NOT include exercises that load a region with a moderate or severe injury; for mild ones choose controlled, low-impact variations`;
+    }
+
+    if (userProfile.injuries) {
+      prompt += `\n- Injuries or limitations to consider: ${userProfile.injuries}`;
+    }
+  }
+
+  if (params.program) {
+    prompt += `\n\n${buildProgramPrompt(params.program, unitSystem)}`;
+  }
+
+  if (params.preferences) {
+    prompt += `\n\n${buildPreferencePrompt(params.preferences)}`;
+  }
+
+  // Instructions for response format
+  prompt += `\n\nPlease provide a complete workout plan in JSON format with the following structure:
+{
+  "title": "Catchy title for the workout",
+  "description": "Brief description of the workout and its benefits",
+  "blocks": [
+    {
+      "type": "straight/superset/circuit/emom/tabata/amrap",
+      "rounds": number of rounds (superset, circuit and tabata) or intervals (emom),
+      "restSeconds": rest in seconds after each round (superset and circuit) or interval (tabata),
+      "workSeconds": work in seconds per interval (tabata only),
+      "intervalSeconds": length of each interval in seconds (emom only, usually 60),
+      "timeCapMinutes": time cap in minutes (amrap only),
+      "exercises": [
+        {
+          "name": "Exercise name",
+          "sets": number of sets (if applicable),
+          "reps": "number or range of repetitions" (if applicable),
+          "duration": "time duration" (if applicable for timed exercises),
+          "restBetweenSets": "rest time between sets",
+          "instructions": "detailed instructions on how to perform the exercise correctly",
+          "videoUrl": "YouTube video URL demonstrating the exercise (search for high-quality fitness demonstrations)"
+        }
+      ]
+    }
+  ],
+  "warmup": "brief warmup routine description",
+  "cooldown": "brief cooldown routine description",
+  "totalTime": "estimated total time",
+  "difficulty": "beginner/intermediate/advanced"
+}
+
+IMPORTANT: 
+- Group the exercises into blocks in the order they are done. Use "straight" blocks (one exercise, all its sets with rest in between) unless another format suits the workout better
+- "superset" pairs two or three exercises done back to back with rest after each round; "circuit" does the same with more exercises
+- "emom" starts one exercise every interval, cycling through the block's exercises; "tabata" alternates work and rest intervals; "amrap" repeats the block's exercises as many rounds as possible within the time cap
+- Prefer circuits, EMOM, Tabata and AMRAP blocks for HIIT and cardio workouts, and supersets to save time in strength workouts
+- Only include the timing fields a block's type uses
+- ALWAYS include a videoUrl for each exercise - provide specific YouTube URLs for exercise demonstrations
+- For each exercise, imagine you're searching YouTube with terms like "[exercise name] tutorial", "[exercise name] proper form", or "[exercise name] how to"
+- Use standard, searchable exercise names that would have many YouTube videos available (e.g., "Push-up", "Squat", "Plank", "Deadlift", "Bicep Curl")
+- Provide complete YouTube URLs in the format: https://www.youtube.com/watch?v=VIDEO_ID
+- Consider popular fitness channels and common demonstration videos that would exist for standard exercises
+- If an exercise has variations, choose the most basic/standard form for better video availability
+- Focus on clear, detailed instructions for each exercise to ensure proper form and safety
+- The instructions should be comprehensive enough that users can perform exercises safely even if the video fails to load
+
+Examples of good exercise naming and video URL format:
+- "Push-up" with videoUrl: "https://www.youtube.com/watch?v=IODxDxX7oi4"
+- "Bodyweight Squat" with videoUrl: "https://www.youtube.com/watch?v=aclHkVaku9U"
+- "Plank" with videoUrl: "https://www.youtube.com/watch?v=pSHjTRCQxIw"`;
+
+  return prompt;
+}
+
+/**
+ * Describes where a session sits in its program and how the last session went
+ */
+function buildProgramPrompt(
+  program: ProgramSessionContext,
+  unitSystem: UnitSystem
+): string {
+  const goalLabel = getProgramGoal(program.goal)?.label || program.goal;
+
+  let prompt = `This workout is session ${program.sessionNumber} of ${program.sessionsPerWeek} in week ${program.weekNumber} of a ${program.totalWeeks}-week "${goalLabel}" program.`;
+
+  if (program.phase === "deload") {
+    prompt += `\n- This is a deload week: cut the volume by about a third, keep loads light and stop every set well short of failure`;
+  } else {
+    prompt += `\n- Apply progressive overload: target about ${Math.round(
+      program.intensity * 100
+    )}% of the first week's training load`;
+  }
+
+  if (program.previousResults && program.previousResults.length > 0) {
+    prompt += `\n\nResults logged in the previous session:`;
+    program.previousResults.forEach((result) => {
+      let line = `\n- ${result.exerciseName}: ${result.completedSets}/${result.totalSets} sets completed`;
+      if (result.bestReps !== undefined) {
+        line += `, best set ${result.bestReps} reps`;
+      }
+      if (result.topWeight !== undefined) {
+        line += ` at ${formatQuantity(
+          { kind: "load", value: result.topWeight },
+          unitSystem
+        )}`;
+      }
+      if (result.averageRpe !== undefined) {
+        line += `, average RPE ${result.averageRpe}`;
+      }
+      prompt += line;
+    });
+    prompt += `\nProgress the load or reps for exercises that were completed at RPE 8 or below. Repeat or reduce them where sets were skipped or RPE was 9 or higher.`;
+  }
+
+  return prompt;
+}
+
+/**
+ * Describes what the user's workout history says about their preferences
+ */
+function buildPreferencePrompt(preferences: GenerationPreferences): string {
+  let prompt = `Adapt the workout to what this user's history shows:`;
+
+  if (preferences.avoidExercises?.length) {
+    prompt += `\n- Do NOT include these exercises or close variations of them: ${preferences.avoidExercises.join(
+      ", "
+    )}`;
+  }
+
+  if (preferences.favoriteExercises?.length) {
+    prompt += `\n- Exercises from their best-rated workouts, include some where they fit: ${preferences.favoriteExercises.join(
+      ", "
+    )}`;
+  }
+
+  if (preferences.maxMinutes) {
+    prompt += `\n- They don't finish workouts longer than about ${preferences.maxMinutes} minutes, so keep the total time at or under that`;
+  }
+
+  if (preferences.volume === "lower") {
+    prompt += `\n- They often skip sets or find them very hard: use one set fewer per exercise than usual`;
+  } else if (preferences.volume === "higher") {
+    prompt += `\n- They finish every set comfortably: add one set per exercise or slightly more reps`;
+  }
+
+  if (preferences.lowRatedWorkoutType) {
+    const { averageRating, recentExercises } = preferences.lowRatedWorkoutType;
+    prompt += `\n- They rated their recent workouts of this type ${averageRating}/5 on average: use different exercises and structure`;
+    if (recentExercises?.length) {
+      prompt += ` and avoid repeating ${recentExercises.join(", ")}`;
+    }
+  }
+
+  return prompt;
+}
+
+/**
+ * Builds a follow-up prompt asking the model to fix an invalid workout plan
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  const errorList = errors.map((error) => `- ${error}`).join("\n");
+
+  return `Your previous response was not a valid workout plan:
+${errorList}
+
+Return the complete corrected workout plan as JSON using the structure described above.`;
+}
@@ -0,0 +1,133 @@
+import {
+  describeInjuries,
+  getInjuryConflicts,
+  getRegionLabel,
+  ProfileInjury,
+} from "./injuries";
+import type { WorkoutResponse } from "./openai";
+import {
+  AdjustmentContext,
+  adjustExercise,
+  getCatalogEntry,
+  removeExercise,
+} from "./workoutAdjustments";
+
+/**
+ * Safety pass run on every generated workout before it is shown.
+ * Each exercise is checked against the catalog contraindications for the
+ * user's injuries: mild injuries only flag the exercise, moderate ones swap
+ * it for a safe alternative, and severe ones remove it when nothing safe
+ * can take its place. Exercises that aren't in the catalog can't be checked,
+ * so they are flagged for the user to check themselves.
+ */
+
+function joinRegions(injuries: ProfileInjury[]): string {
+  const labels = injuries.map((injury) =>
+    getRegionLabel(injury.region).toLowerCase()
+  );
+  return labels.length > 1
+    ? `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`
+    : labels[0];
+}
+
+function withSafetyWarning(
+  workout: WorkoutResponse,
+  index: number,
+  safetyWarning: string
+): WorkoutResponse {
+  return {
+    ...workout,
+    exercises: workout.exercises.map((item, itemIndex) =>
+      itemIndex === index ? { ...item, safetyWarning } : item
+    ),
+  };
+}
+
+/**
+ * Make a workout safe for the user's injuries. What was changed is listed
+ * in safetyNotes and exercises kept despite a risk carry a safetyWarning.
+ */
+export function applyInjurySafety(
+  workout: WorkoutResponse,
+  injuries: ProfileInjury[],
+  context: AdjustmentContext,
+  random: () => number = Math.random
+): WorkoutResponse {
+  if (injuries.length === 0) {
+    return workout;
+  }
+
+  let result = workout;
+  const notes: string[] = [];
+  const unverified: string[] = [];
+
+  // From the end so removing an exercise doesn't shift the ones left to check
+  for (let index = workout.exercises.length - 1; index >= 0; index--) {
+    const exercise = result.exercises[index];
+    const catalogExercise = getCatalogEntry(exercise);
+    if (!catalogExercise) {
+      unverified.unshift(exercise.name);
+      result = withSafetyWarning(
+        result,
+        index,
+        `Couldn't verify this against your injuries. Make sure it doesn't load your ${joinRegions(injuries)} before doing it.`
+      );
+      continue;
+    }
+
+    const conflicts = getInjuryConflicts(catalogExercise, injuries);
+    if (conflicts.length === 0) {
+      continue;
+    }
+
+    const regions = joinRegions(conflicts);
+    const { severity } = conflicts[0];
+
+    if (severity !== "mild") {
+      const swapped = adjustExercise(
+        result,
+        index,
+        "swap",
+        { ...context, injuries },
+        random
+      );
+      if (swapped) {
+        notes.unshift(
+          `Swapped ${exercise.name} for ${swapped.exercises[index].name} to protect your ${regions}`
+        );
+        result = swapped;
+        continue;
+      }
+
+      if (severity === "severe" && result.exercises.length > 1) {
+        notes.unshift(
+          `Removed ${exercise.name}: it loads your ${regions} and no safe alternative fits this workout`
+        );
+        result = removeExercise(result, index);
+        continue;
+      }
+    }
+
+    result = withSafetyWarning(
+      result,
+      index,
+      `Can aggravate your ${regions}. Go lighter and stop if you feel pain.`
+    );
+  }
+
+  if (unverified.length > 0) {
+    notes.push(
+      `Couldn't verify ${unverified.join(", ")} against your injuries`
+    );
+  }
+
+  return notes.length > 0
+    ? {
+        ...result,
+        safetyNotes: [
+          ...notes,
+          `Checked against your injuries: ${describeInjuries(injuries)}`,
+        ],
+      }
+    : result;
+}
@@ -0,0 +1,230 @@
+import type { WorkoutResponse } from "./openai";
+
+/**
+ * Versioned structure of workout_data.
+ * Version 1 is a flat list of exercises done as straight sets. Version 2
+ * keeps that list and groups it into blocks (supersets, circuits and
+ * interval formats) that reference exercises by index, so set logging and
+ * anything else keyed by exercise index keeps working across versions.
+ */
+
+export const WORKOUT_SCHEMA_VERSION = 2;
+
+export type WorkoutBlockType =
+  | "straight"
+  | "superset"
+  | "circuit"
+  | "emom"
+  | "tabata"
+  | "amrap";
+
+export interface WorkoutBlock {
+  type: WorkoutBlockType;
+  // Indexes into WorkoutResponse.exercises, in the order they are done
+  exerciseIndexes: number[];
+  // Times through the block; minutes for EMOM. Straight sets use each
+  // exercise's own sets instead
+  rounds?: number;
+  // Tabata work and rest per interval
+  workSeconds?: number;
+  // Rest after each round of a superset or circuit, or each Tabata interval
+  restSeconds?: number;
+  // Length of each EMOM interval
+  intervalSeconds?: number;
+  // Time cap of an AMRAP
+  timeCapMinutes?: number;
+}
+
+export const BLOCK_TYPES: WorkoutBlockType[] = [
+  "straight",
+  "superset",
+  "circuit",
+  "emom",
+  "tabata",
+  "amrap",
+];
+
+export const BLOCK_LABELS: Record<WorkoutBlockType, string> = {
+  straight: "Straight Sets",
+  superset: "Superset",
+  circuit: "Circuit",
+  emom: "EMOM",
+  tabata: "Tabata",
+  amrap: "AMRAP",
+};
+
+// Classic Tabata protocol: 8 rounds of 20 seconds on, 10 seconds off
+export const TABATA_DEFAULTS = { rounds: 8, workSeconds: 20, restSeconds: 10 };
+
+export const DEFAULT_EMOM_INTERVAL_SECONDS = 60;
+
+export const DEFAULT_BLOCK_ROUNDS = 3;
+
+export const DEFAULT_AMRAP_MINUTES = 10;
+
+/**
+ * One straight-sets block per exercise, which is how version 1 workouts
+ * are performed
+ */
+export function createStraightBlocks(exerciseCount: number): WorkoutBlock[] {
+  return Array.from({ length: exerciseCount }, (_, index) => ({
+    type: "straight",
+    exerciseIndexes: [index],
+  }));
+}
+
+/**
+ * Fill in the rounds and timing a block needs from its exercises, or from
+ * the defaults for its type
+ */
+export function resolveBlockTiming(
+  block: WorkoutBlock,
+  exercises: WorkoutResponse["exercises"]
+): WorkoutBlock {
+  const mostSets =
+    Math.max(
+      0,
+      ...block.exerciseIndexes.map((index) => exercises[index]?.sets || 0)
+    ) || DEFAULT_BLOCK_ROUNDS;
+
+  switch (block.type) {
+    case "superset":
+    case "circuit":
+      return { ...block, rounds: block.rounds ?? mostSets };
+    case "tabata":
+      return {
+        ...block,
+        rounds: block.rounds ?? TABATA_DEFAULTS.rounds,
+        workSeconds: block.workSeconds ?? TABATA_DEFAULTS.workSeconds,
+        restSeconds: block.restSeconds ?? TABATA_DEFAULTS.restSeconds,
+      };
+    case "emom":
+      // Every exercise gets its usual number of sets, one per minute
+      return {
+        ...block,
+        rounds: block.rounds ?? block.exerciseIndexes.length * mostSets,
+        intervalSeconds:
+          block.intervalSeconds ?? DEFAULT_EMOM_INTERVAL_SECONDS,
+      };
+    case "amrap":
+      return {
+        ...block,
+        timeCapMinutes: block.timeCapMinutes ?? DEFAULT_AMRAP_MINUTES,
+      };
+    default:
+      return block;
+  }
+}
+
+/**
+ * The workout's blocks with their timing filled in, derived from the
+ * exercise list for version 1 data
+ */
+export function getWorkoutBlocks(workout: WorkoutResponse): WorkoutBlock[] {
+  const blocks =
+    workout.blocks && workout.blocks.length > 0
+      ? workout.blocks
+      : createStraightBlocks(workout.exercises.length);
+  return blocks.map((block) => resolveBlockTiming(block, workout.exercises));
+}
+
+/**
+ * Blocks other than straight sets, keyed by the index of their first
+ * exercise, for labelling exercise lists
+ */
+export function getGroupedBlockStarts(
+  workout: WorkoutResponse
+): Map<number, WorkoutBlock> {
+  return new Map(
+    getWorkoutBlocks(workout)
+      .filter((block) => block.type !== "straight")
+      .map((block) => [block.exerciseIndexes[0], block])
+  );
+}
+
+/**
+ * Upgrade stored workout_data to the current schema version. Rows saved
+ * before blocks existed get one straight-sets block per exercise.
+ */
+export function migrateWorkoutData(workout: WorkoutResponse): WorkoutResponse {
+  if (
+    !Array.isArray(workout?.exercises) ||
+    (workout.schemaVersion ?? 1) >= WORKOUT_SCHEMA_VERSION
+  ) {
+    return workout;
+  }
+  return {
+    ...workout,
+    schemaVersion: WORKOUT_SCHEMA_VERSION,
+    blocks: getWorkoutBlocks(workout),
+  };
+}
+
+/**
+ * Rewrite block exercise indexes after exercises were moved or removed.
+ * `mapIndex` returns the new index of an exercise, or null if it is gone;
+ * blocks left without exercises are dropped.
+ */
+export function remapBlocks(
+  blocks: WorkoutBlock[],
+  mapIndex: (index: number) => number | null
+): WorkoutBlock[] {
+  return blocks
+    .map((block) => ({
+      ...block,
+      exerciseIndexes: block.exerciseIndexes
+        .map(mapIndex)
+        .filter((index): index is number => index !== null),
+    }))
+    .filter((block) => block.exerciseIndexes.length > 0);
+}
+
+/**
+ * Blocks after removing the exercise at `removedIndex` from the list
+ */
+export function removeBlockExercise(
+  blocks: WorkoutBlock[],
+  removedIndex: number
+): WorkoutBlock[] {
+  return remapBlocks(blocks, (index) =>
+    index === removedIndex ? null : index > removedIndex ? index - 1 : index
+  );
+}
+
+/**
+ * Blocks after an exercise was added at the end of the list, done as
+ * straight sets after everything else
+ */
+export function appendStraightBlock(
+  blocks: WorkoutBlock[],
+  addedIndex: number
+): WorkoutBlock[] {
+  return [...blocks, { type: "straight", exerciseIndexes: [addedIndex] }];
+}
+
+/**
+ * Short description of how a block is performed, e.g. "Circuit · 3 rounds".
+ * Expects a block from getWorkoutBlocks, with its timing filled in.
+ */
+export function describeBlock(block: WorkoutBlock): string {
+  const label = BLOCK_LABELS[block.type];
+  switch (block.type) {
+    case "superset":
+    case "circuit":
+      return `${label} · ${block.rounds} rounds`;
+    case "emom": {
+      const minutes = Math.round(
+        ((block.rounds ?? 0) * (block.intervalSeconds ?? 0)) / 60
+      );
+      return block.intervalSeconds === DEFAULT_EMOM_INTERVAL_SECONDS
+        ? `${label} · ${minutes} minutes`
+        : `${label} · ${block.rounds} rounds every ${block.intervalSeconds}s`;
+    }
+    case "tabata":
+      return `${label} · ${block.rounds} rounds of ${block.workSeconds}s on / ${block.restSeconds}s off`;
+    case "amrap":
+      return `${label} · ${block.timeCapMinutes} minutes`;
+    default:
+      return label;
+  }
+}
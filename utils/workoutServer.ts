@@ -0,0 +1,174 @@
+import { createClient, SupabaseClient, User } from "@supabase/supabase-js";
+
+import { enhanceWorkoutWithVisuals } from "./exerciseVisuals";
+import { parseInjuries } from "./injuries";
+import type { WorkoutParams, WorkoutResponse } from "./openai";
+import { ChatMessage, getWorkoutGenerator } from "./workoutGenerators";
+import {
+  buildRepairPrompt,
+  buildWorkoutPrompt,
+  WORKOUT_SYSTEM_PROMPT,
+} from "./workoutPrompt";
+import {
+  validateWorkoutResponse,
+  WorkoutValidationError,
+} from "./workoutValidation";
+
+/**
+ * Server-only helpers for workout generation.
+ * These are imported by API routes only, so model API keys never ship in the app bundle.
+ */
+
+// How many times the model is re-prompted with validation errors before giving up
+const MAX_VALIDATION_RETRIES = Number(
+  process.env.WORKOUT_VALIDATION_RETRIES ?? 2
+);
+
+/**
+ * Verify the caller's Supabase JWT and return a client scoped to that user
+ */
+export async function authenticateRequest(request: Request): Promise<{
+  user: User | null;
+  supabase: SupabaseClient | null;
+  error: { message: string } | null;
+}> {
+  const authHeader = request.headers.get("Authorization") || "";
+  const accessToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+
+  if (!accessToken) {
+    return {
+      user: null,
+      supabase: null,
+      error: { message: "Missing access token" },
+    };
+  }
+
+  // Queries made with this client run under the caller's RLS policies
+  const supabase = createClient(
+    process.env.EXPO_PUBLIC_SUPABASE_URL!,
+    process.env.EXPO_PUBLIC_SUPABASE_KEY!,
+    {
+      global: {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      },
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+        detectSessionInUrl: false,
+      },
+    }
+  );
+
+  const { data, error } = await supabase.auth.getUser(accessToken);
+
+  if (error || !data.user) {
+    return {
+      user: null,
+      supabase: null,
+      error: { message: "Invalid or expired access token" },
+    };
+  }
+
+  return { user: data.user, supabase, error: null };
+}
+
+/**
+ * The user's latest logged weight and body fat, which are newer than the
+ * weight saved on their profile
+ */
+async function getLatestBodyMetrics(supabase: SupabaseClient, userId: string) {
+  const latest = (column: string) =>
+    supabase
+      .from("body_measurements")
+      .select(column)
+      .eq("user_id", userId)
+      .not(column, "is", null)
+      .order("measured_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+  const [{ data: weight }, { data: bodyFat }] = await Promise.all([
+    latest("weight"),
+    latest("body_fat_percentage"),
+  ]);
+
+  return {
+    weight: (weight as { weight: number } | null) ?? null,
+    bodyFat:
+      (bodyFat as { body_fat_percentage: number } | null)
+        ?.body_fat_percentage ?? null,
+  };
+}
+
+/**
+ * Generate a workout for an authenticated user
+ */
+export async function generateWorkoutForUser(
+  supabase: SupabaseClient,
+  userId: string,
+  params: WorkoutParams
+): Promise<WorkoutResponse> {
+  const [{ data: savedProfile }, bodyMetrics] = await Promise.all([
+    supabase.from("profiles").select("*").eq("id", userId).single(),
+    getLatestBodyMetrics(supabase, userId),
+  ]);
+
+  const profile = savedProfile && {
+    ...savedProfile,
+    ...bodyMetrics.weight,
+    body_fat_percentage: bodyMetrics.bodyFat,
+  };
+
+  // The profile is the source of truth for what the workout has to avoid
+  params = { ...params, injuries: parseInjuries(profile?.injury_details) };
+
+  // Build the prompt based on workout parameters and user profile
+  const prompt = buildWorkoutPrompt(params, profile);
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: WORKOUT_SYSTEM_PROMPT },
+    { role: "user", content: prompt },
+  ];
+
+  const generator = getWorkoutGenerator();
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_VALIDATION_RETRIES; attempt++) {
+    const content = await generator.generate({ messages, params, profile });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content || "{}");
+    } catch {
+      parsed = undefined;
+    }
+
+    const result =
+      parsed === undefined
+        ? {
+            workout: null,
+            errors: ["response is not valid JSON"],
+            warnings: [],
+          }
+        : validateWorkoutResponse(parsed);
+
+    if (result.warnings.length > 0) {
+      console.warn("Repaired generated workout:", result.warnings);
+    }
+
+    if (result.workout) {
+      // Enhance with visual elements if they're missing
+      return enhanceWorkoutWithVisuals(result.workout) as WorkoutResponse;
+    }
+
+    errors = result.errors;
+
+    // Ask the model to fix its own output
+    messages.push(
+      { role: "assistant", content },
+      { role: "user", content: buildRepairPrompt(errors) }
+    );
+  }
+
+  throw new WorkoutValidationError(errors);
+}
@@ -0,0 +1,375 @@
+import type { WorkoutSet } from "./auth";
+import type { WorkoutResponse } from "./openai";
+import {
+  formatQuantity,
+  parseDisplayValue,
+  roundQuantity,
+  UnitSystem,
+} from "./units";
+import { BLOCK_LABELS, getWorkoutBlocks, WorkoutBlock } from "./workoutSchema";
+
+/**
+ * Turns a workout into the ordered steps of a guided session:
+ * warmup, every set of every exercise with rests in between, then cooldown.
+ * Supersets and circuits go round the exercises, interval blocks count down
+ * each interval and an AMRAP is a single timed step.
+ */
+
+export type WorkoutStepKind =
+  | "warmup"
+  | "exercise"
+  | "rest"
+  | "block"
+  | "cooldown";
+
+export interface WorkoutStep {
+  kind: WorkoutStepKind;
+  title: string;
+  description: string;
+  // Countdown length, or null when the step is done at the user's own pace
+  durationSeconds: number | null;
+  exerciseIndex?: number;
+  // 1-based set number for exercise and rest steps
+  set?: number;
+  totalSets?: number;
+  reps?: string;
+  // Where the step sits in its block, e.g. "Circuit round 2 of 3"
+  label?: string;
+  // Move on when the countdown ends, for timed intervals
+  autoAdvance?: boolean;
+}
+
+/**
+ * Parse text like "45 seconds", "1 minute", "1:30" or "30-45 sec" into seconds.
+ * Ranges use the lower bound. Returns null when no duration can be found.
+ */
+export function parseDurationSeconds(text?: string | null): number | null {
+  if (!text) {
+    return null;
+  }
+
+  const clock = text.match(/(\d+):(\d{2})/);
+  if (clock) {
+    return parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+  }
+
+  const match = text
+    .toLowerCase()
+    .match(/(\d+(?:\.\d+)?)(?:\s*(?:-|to)\s*\d+(?:\.\d+)?)?\s*([a-z]+)?/);
+  if (!match) {
+    return null;
+  }
+
+  const value = parseFloat(match[1]);
+  const unit = match[2];
+  let seconds: number;
+  if (!unit || /^(s|secs?|seconds?)$/.test(unit)) {
+    seconds = value;
+  } else if (/^(m|mins?|minutes?)$/.test(unit)) {
+    seconds = value * 60;
+  } else if (/^(h|hrs?|hours?)$/.test(unit)) {
+    seconds = value * 3600;
+  } else {
+    // "10 reps" is a count, not a duration
+    return null;
+  }
+
+  return seconds > 0 ? Math.round(seconds) : null;
+}
+
+/**
+ * Format seconds as m:ss for countdowns
+ */
+export function formatCountdown(seconds: number): string {
+  const safeSeconds = Math.max(0, Math.ceil(seconds));
+  const minutes = Math.floor(safeSeconds / 60);
+  return `${minutes}:${String(safeSeconds % 60).padStart(2, "0")}`;
+}
+
+// Work step for one set or round of an exercise
+function buildExerciseStep(
+  workout: WorkoutResponse,
+  exerciseIndex: number,
+  set: number,
+  totalSets: number,
+  overrides: Partial<WorkoutStep> = {}
+): WorkoutStep {
+  const exercise = workout.exercises[exerciseIndex];
+  return {
+    kind: "exercise",
+    title: exercise.name,
+    description: exercise.instructions,
+    durationSeconds: parseDurationSeconds(exercise.duration),
+    exerciseIndex,
+    set,
+    totalSets,
+    reps: exercise.reps,
+    ...overrides,
+  };
+}
+
+// "12 reps" or "30 seconds"
+function describeWork(exercise: WorkoutResponse["exercises"][number]) {
+  return exercise.reps ? `${exercise.reps} reps` : exercise.duration || "";
+}
+
+function buildRestStep(durationSeconds: number | null): WorkoutStep[] {
+  return durationSeconds
+    ? [{ kind: "rest", title: "Rest", description: "", durationSeconds }]
+    : [];
+}
+
+// How often each exercise comes up when a block cycles through them
+function countOccurrences(block: WorkoutBlock): number[] {
+  const exerciseCount = block.exerciseIndexes.length;
+  return block.exerciseIndexes.map((_, position) =>
+    Math.ceil(((block.rounds ?? 1) - position) / exerciseCount)
+  );
+}
+
+/**
+ * Steps for one block of exercises
+ */
+function buildBlockSteps(
+  workout: WorkoutResponse,
+  block: WorkoutBlock
+): WorkoutStep[] {
+  const steps: WorkoutStep[] = [];
+  const { exerciseIndexes } = block;
+  const rounds = block.rounds ?? 1;
+
+  switch (block.type) {
+    case "superset":
+    case "circuit": {
+      // Every exercise back to back, resting once the round is done
+      const restSeconds =
+        block.restSeconds ??
+        Math.max(
+          0,
+          ...exerciseIndexes.map(
+            (index) =>
+              parseDurationSeconds(workout.exercises[index].restBetweenSets) ??
+              0
+          )
+        );
+      for (let round = 1; round <= rounds; round++) {
+        exerciseIndexes.forEach((index) =>
+          steps.push(
+            buildExerciseStep(workout, index, round, rounds, {
+              label: `${BLOCK_LABELS[block.type]} round ${round} of ${rounds}`,
+            })
+          )
+        );
+        steps.push(...buildRestStep(restSeconds));
+      }
+      break;
+    }
+
+    case "tabata":
+    case "emom": {
+      // Timed intervals that cycle through the exercises
+      const occurrences = countOccurrences(block);
+      for (let round = 1; round <= rounds; round++) {
+        const position = (round - 1) % exerciseIndexes.length;
+        const set = Math.floor((round - 1) / exerciseIndexes.length) + 1;
+        const exercise = workout.exercises[exerciseIndexes[position]];
+        const isEmom = block.type === "emom";
+        steps.push(
+          buildExerciseStep(
+            workout,
+            exerciseIndexes[position],
+            set,
+            occurrences[position],
+            {
+              label: isEmom
+                ? `EMOM interval ${round} of ${rounds}`
+                : `Tabata round ${round} of ${rounds}`,
+              description: isEmom
+                ? `Do ${describeWork(exercise)}, then rest until the ` +
+                  `next interval. ${exercise.instructions}`
+                : exercise.instructions,
+              durationSeconds: isEmom
+                ? block.intervalSeconds!
+                : block.workSeconds!,
+              autoAdvance: true,
+            }
+          )
+        );
+        if (!isEmom) {
+          steps.push(...buildRestStep(block.restSeconds ?? null));
+        }
+      }
+      break;
+    }
+
+    case "amrap":
+      // One countdown for the whole block; rounds aren't logged as sets
+      steps.push({
+        kind: "block",
+        title: "AMRAP",
+        description: `As many rounds as possible of:\n${exerciseIndexes
+          .map((index) => {
+            const exercise = workout.exercises[index];
+            return `• ${exercise.name}: ${describeWork(exercise)}`;
+          })
+          .join("\n")}`,
+        durationSeconds: block.timeCapMinutes! * 60,
+        label: `${block.timeCapMinutes} minute time cap`,
+        autoAdvance: true,
+      });
+      break;
+
+    default:
+      // Straight sets: every set of an exercise before the next one
+      exerciseIndexes.forEach((index) => {
+        const exercise = workout.exercises[index];
+        const totalSets = Math.max(1, exercise.sets || 1);
+        const restSeconds = parseDurationSeconds(exercise.restBetweenSets);
+        for (let set = 1; set <= totalSets; set++) {
+          steps.push(buildExerciseStep(workout, index, set, totalSets));
+          steps.push(...buildRestStep(restSeconds));
+        }
+      });
+  }
+
+  return steps;
+}
+
+/**
+ * Tell each rest what comes next, and drop rests with nothing after them
+ */
+function describeRests(steps: WorkoutStep[]): WorkoutStep[] {
+  return steps.flatMap((step, index) => {
+    if (step.kind !== "rest") {
+      return [step];
+    }
+
+    const next = steps.slice(index + 1).find((item) => item.kind !== "rest");
+    if (!next || next.kind === "cooldown") {
+      return [];
+    }
+
+    const progress =
+      next.set !== undefined && next.set > 1
+        ? `, ${
+            next.label
+              ? next.label.charAt(0).toLowerCase() + next.label.slice(1)
+              : `set ${next.set} of ${next.totalSets}`
+          }`
+        : "";
+    return [{ ...step, description: `Up next: ${next.title}${progress}` }];
+  });
+}
+
+/**
+ * Build the guided session steps for a workout
+ */
+export function buildWorkoutSteps(workout: WorkoutResponse): WorkoutStep[] {
+  const steps: WorkoutStep[] = [];
+
+  if (workout.warmup) {
+    steps.push({
+      kind: "warmup",
+      title: "Warm Up",
+      description: workout.warmup,
+      durationSeconds: parseDurationSeconds(workout.warmup),
+    });
+  }
+
+  getWorkoutBlocks(workout).forEach((block) =>
+    steps.push(...buildBlockSteps(workout, block))
+  );
+
+  if (workout.cooldown) {
+    steps.push({
+      kind: "cooldown",
+      title: "Cool Down",
+      description: workout.cooldown,
+      durationSeconds: parseDurationSeconds(workout.cooldown),
+    });
+  }
+
+  return describeRests(steps);
+}
+
+/**
+ * Key used to track which sets have been checked off
+ */
+export function getSetKey(exerciseIndex: number, set: number): string {
+  return `${exerciseIndex}-${set}`;
+}
+
+// What the user typed in the player for one set
+export interface SetEntry {
+  reps?: string;
+  weight?: string;
+  rpe?: string;
+  // Seconds the countdown ran before the set was checked off
+  durationSeconds?: number;
+}
+
+function parseEntryNumber(text?: string): number | null {
+  if (!text?.trim()) {
+    return null;
+  }
+  const value = Number(text.trim().replace(",", "."));
+  return isNaN(value) ? null : value;
+}
+
+/**
+ * Values the user actually entered for a set, ready for logWorkoutSets.
+ * The load is typed in the user's unit system and stored in kg. Anything
+ * left empty or out of range is null so the prescription is never recorded
+ * as what was performed.
+ */
+export function parseSetEntry(entry: SetEntry | undefined, system: UnitSystem) {
+  const reps = parseEntryNumber(entry?.reps);
+  const weight = entry?.weight
+    ? parseDisplayValue("load", entry.weight, system)
+    : null;
+  const rpe = parseEntryNumber(entry?.rpe);
+
+  return {
+    reps_performed:
+      reps !== null && Number.isInteger(reps) && reps >= 0 ? reps : null,
+    weight: weight ? roundQuantity(weight.value, 2) : null,
+    rpe: rpe !== null && rpe >= 1 && rpe <= 10 ? rpe : null,
+    duration_seconds: entry?.durationSeconds || null,
+  };
+}
+
+/**
+ * Whether logged sets line up with a version of a workout: every set's
+ * exercise_index points at the exercise it was logged for
+ */
+export function wereSetsLoggedAgainst(
+  workout: WorkoutResponse,
+  sets: WorkoutSet[]
+): boolean {
+  return sets.every(
+    (set) => workout.exercises[set.exercise_index]?.name === set.exercise_name
+  );
+}
+
+/**
+ * Summary of a logged set in the given unit system, e.g.
+ * "10 reps · 60 kg · RPE 8"
+ */
+export function describeLoggedSet(
+  set: WorkoutSet,
+  system: UnitSystem
+): string {
+  if (set.skipped) {
+    return "Skipped";
+  }
+
+  const parts: string[] = [];
+  if (set.reps_performed != null) parts.push(`${set.reps_performed} reps`);
+  if (set.weight != null) {
+    const load = { kind: "load" as const, value: Number(set.weight) };
+    parts.push(formatQuantity(load, system));
+  }
+  if (set.duration_seconds) parts.push(formatCountdown(set.duration_seconds));
+  if (set.rpe != null) parts.push(`RPE ${Number(set.rpe)}`);
+  return parts.join(" · ") || "Completed";
+}
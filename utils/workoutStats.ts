@@ -0,0 +1,246 @@
+import { parseDurationSeconds } from "./workoutSession";
+
+/**
+ * Pure aggregation of workout history into progress stats.
+ * Everything takes the current date as an argument so results are
+ * reproducible, and all day and week boundaries use local time.
+ * Workouts are dated by when they were completed, falling back to when they
+ * were generated for workouts that weren't.
+ */
+
+// The workout_history fields the stats are computed from
+export interface StatsWorkout {
+  created_at: string;
+  completed_at?: string | null;
+  workout_type: string;
+  muscle_focus: string;
+  time_available: string;
+  completed?: boolean;
+  rating?: number | null;
+  workout_data?: { totalTime?: string } | null;
+}
+
+export interface WeeklyCount {
+  weekStart: Date;
+  count: number;
+}
+
+export interface WeeklyRating {
+  weekStart: Date;
+  // null for weeks without any rated workouts
+  averageRating: number | null;
+}
+
+export interface DistributionEntry {
+  value: string;
+  count: number;
+}
+
+export interface WorkoutStats {
+  totalWorkouts: number;
+  completedWorkouts: number;
+  totalMinutes: number;
+  currentStreak: number;
+  longestStreak: number;
+  workoutsPerWeek: WeeklyCount[];
+  averageRatingPerWeek: WeeklyRating[];
+  workoutTypeDistribution: DistributionEntry[];
+  muscleFocusDistribution: DistributionEntry[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_STATS_WEEKS = 8;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Weeks start on Monday
+export function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  const daysSinceMonday = (day.getDay() + 6) % 7;
+  return new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate() - daysSinceMonday
+  );
+}
+
+// When a workout was done, or generated if it hasn't been completed
+function getWorkoutDate(workout: StatsWorkout): Date {
+  return new Date(workout.completed_at ?? workout.created_at);
+}
+
+// Whole calendar days between two dates, ignoring daylight saving shifts
+function daysBetween(from: Date, to: Date): number {
+  return Math.round(
+    (startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS
+  );
+}
+
+/**
+ * Minutes spent on a workout: its totalTime, or the middle of its time range
+ */
+export function estimateWorkoutMinutes(workout: StatsWorkout): number {
+  const totalSeconds = parseDurationSeconds(workout.workout_data?.totalTime);
+  if (totalSeconds) {
+    return Math.round(totalSeconds / 60);
+  }
+
+  const bounds = (workout.time_available.match(/\d+/g) || []).map(Number);
+  if (bounds.length === 0) {
+    return 0;
+  }
+  return Math.round(
+    bounds.reduce((sum, value) => sum + value, 0) / bounds.length
+  );
+}
+
+/**
+ * Current and longest runs of consecutive days with at least one workout.
+ * The current streak stays alive until a full day passes without a workout.
+ */
+export function computeStreaks(
+  workouts: StatsWorkout[],
+  now: Date
+): { currentStreak: number; longestStreak: number } {
+  const dayOffsets = [
+    ...new Set(
+      workouts.map((workout) => daysBetween(getWorkoutDate(workout), now))
+    ),
+  ]
+    .filter((offset) => offset >= 0)
+    .sort((a, b) => a - b);
+
+  let longestStreak = 0;
+  let run = 0;
+  dayOffsets.forEach((offset, index) => {
+    run = index > 0 && offset === dayOffsets[index - 1] + 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+
+  let currentStreak = 0;
+  if (dayOffsets[0] === 0 || dayOffsets[0] === 1) {
+    currentStreak = 1;
+    while (dayOffsets[currentStreak] === dayOffsets[0] + currentStreak) {
+      currentStreak++;
+    }
+  }
+
+  return { currentStreak, longestStreak };
+}
+
+function getWeekStarts(now: Date, weeks: number): Date[] {
+  const currentWeek = startOfWeek(now);
+  return Array.from({ length: weeks }, (_, index) => {
+    const offset = weeks - 1 - index;
+    return new Date(
+      currentWeek.getFullYear(),
+      currentWeek.getMonth(),
+      currentWeek.getDate() - offset * 7
+    );
+  });
+}
+
+// Group workouts by the Monday of their week
+function groupByWeek(workouts: StatsWorkout[]): Map<number, StatsWorkout[]> {
+  const groups = new Map<number, StatsWorkout[]>();
+  workouts.forEach((workout) => {
+    const key = startOfWeek(getWorkoutDate(workout)).getTime();
+    groups.set(key, [...(groups.get(key) || []), workout]);
+  });
+  return groups;
+}
+
+/**
+ * Workout counts for each of the last `weeks` weeks, oldest first
+ */
+export function computeWorkoutsPerWeek(
+  workouts: StatsWorkout[],
+  now: Date,
+  weeks = DEFAULT_STATS_WEEKS
+): WeeklyCount[] {
+  const groups = groupByWeek(workouts);
+  return getWeekStarts(now, weeks).map((weekStart) => ({
+    weekStart,
+    count: groups.get(weekStart.getTime())?.length || 0,
+  }));
+}
+
+/**
+ * Average rating for each of the last `weeks` weeks, oldest first
+ */
+export function computeAverageRatingPerWeek(
+  workouts: StatsWorkout[],
+  now: Date,
+  weeks = DEFAULT_STATS_WEEKS
+): WeeklyRating[] {
+  const groups = groupByWeek(workouts);
+  return getWeekStarts(now, weeks).map((weekStart) => {
+    const ratings = (groups.get(weekStart.getTime()) || [])
+      .map((workout) => workout.rating)
+      .filter((rating): rating is number => typeof rating === "number");
+
+    return {
+      weekStart,
+      averageRating:
+        ratings.length > 0
+          ? Math.round(
+              (ratings.reduce((sum, rating) => sum + rating, 0) /
+                ratings.length) *
+                10
+            ) / 10
+          : null,
+    };
+  });
+}
+
+/**
+ * Count how often each value appears, most common first.
+ * Comma-separated fields like muscle_focus count every listed value.
+ */
+export function computeDistribution(values: string[]): DistributionEntry[] {
+  const counts = new Map<string, number>();
+  values
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean)
+    .forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Compute every stat shown on the Stats tab.
+ * Minutes, streaks and weekly counts only include completed workouts, the
+ * same ones the feed's streak milestones count; generated workouts that
+ * were never done don't add to them.
+ */
+export function computeWorkoutStats(
+  workouts: StatsWorkout[],
+  now: Date = new Date(),
+  weeks = DEFAULT_STATS_WEEKS
+): WorkoutStats {
+  const completed = workouts.filter((workout) => workout.completed);
+
+  return {
+    totalWorkouts: workouts.length,
+    completedWorkouts: completed.length,
+    totalMinutes: completed.reduce(
+      (sum, workout) => sum + estimateWorkoutMinutes(workout),
+      0
+    ),
+    ...computeStreaks(completed, now),
+    workoutsPerWeek: computeWorkoutsPerWeek(completed, now, weeks),
+    averageRatingPerWeek: computeAverageRatingPerWeek(workouts, now, weeks),
+    workoutTypeDistribution: computeDistribution(
+      workouts.map((workout) => workout.workout_type)
+    ),
+    muscleFocusDistribution: computeDistribution(
+      workouts.map((workout) => workout.muscle_focus)
+    ),
+  };
+}
@@ -0,0 +1,405 @@
+import { getCatalogExercise } from "./exerciseCatalog";
+import type { WorkoutResponse } from "./openai";
+import {
+  BLOCK_TYPES,
+  createStraightBlocks,
+  WORKOUT_SCHEMA_VERSION,
+  WorkoutBlock,
+  WorkoutBlockType,
+} from "./workoutSchema";
+import { parseDurationSeconds } from "./workoutSession";
+
+/**
+ * Runtime validation and repair of AI-generated workout payloads.
+ * Recoverable problems are fixed in place and reported as warnings;
+ * anything that leaves the workout unusable is reported as an error.
+ */
+
+type WorkoutExercise = WorkoutResponse["exercises"][number];
+
+type BlockTimingField = Exclude<
+  keyof WorkoutBlock,
+  "type" | "exerciseIndexes"
+>;
+
+export interface WorkoutValidationResult {
+  workout: WorkoutResponse | null;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Thrown when a workout payload cannot be repaired into a valid WorkoutResponse
+ */
+export class WorkoutValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid workout: ${errors.join("; ")}`);
+    this.name = "WorkoutValidationError";
+    this.errors = errors;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Accept trimmed non-empty strings, and numbers when a unit suffix is given
+function coerceText(value: unknown, numberSuffix?: string): string | null {
+  if (typeof value === "string" && value.trim()) {
+    return value.trim();
+  }
+  if (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    numberSuffix !== undefined
+  ) {
+    return `${value}${numberSuffix}`;
+  }
+  return null;
+}
+
+// Models sometimes return warmup/cooldown as a list of steps
+function coerceRoutine(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    const steps = value.map((step) => coerceText(step)).filter(Boolean);
+    return steps.length > 0 ? steps.join(", ") : null;
+  }
+  return coerceText(value);
+}
+
+function coerceSets(value: unknown): number | null {
+  const parsed =
+    typeof value === "number" ? value : parseInt(String(value).trim(), 10);
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    return null;
+  }
+  return Math.round(parsed);
+}
+
+// Accept a count or text like "10-12" or "AMRAP", but not zero or fewer reps
+function coerceReps(value: unknown): string | null {
+  const reps = coerceText(value, "");
+  const leading = reps?.match(/^-?\d+(?:\.\d+)?/);
+  return leading && parseFloat(leading[0]) <= 0 ? null : reps;
+}
+
+// Accept a number of seconds or text like "30 seconds"
+function coerceSeconds(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+  }
+  return typeof value === "string" ? parseDurationSeconds(value) : null;
+}
+
+function validateExercise(
+  raw: unknown,
+  path: string,
+  warnings: string[]
+): WorkoutExercise | null {
+  if (!isRecord(raw)) {
+    warnings.push(`${path} dropped: not an object`);
+    return null;
+  }
+
+  const name = coerceText(raw.name);
+  if (!name) {
+    warnings.push(`${path} dropped: name must be a non-empty string`);
+    return null;
+  }
+
+  const exercise: WorkoutExercise = {
+    name,
+    instructions: coerceText(raw.instructions) || "",
+  };
+  if (!exercise.instructions) {
+    warnings.push(`${path}.instructions missing for "${name}"`);
+  }
+
+  if (raw.sets !== undefined && raw.sets !== null) {
+    const sets = coerceSets(raw.sets);
+    if (sets !== null) {
+      if (typeof raw.sets !== "number") {
+        warnings.push(`${path}.sets coerced from "${raw.sets}" to ${sets}`);
+      }
+      exercise.sets = sets;
+    } else {
+      warnings.push(`${path}.sets removed: "${raw.sets}" is not a count`);
+    }
+  }
+
+  const reps = coerceReps(raw.reps);
+  if (reps) {
+    exercise.reps = reps;
+  } else if (raw.reps !== undefined && raw.reps !== null) {
+    warnings.push(`${path}.reps removed: "${raw.reps}" is not a rep count`);
+  }
+
+  const duration = coerceText(raw.duration, " seconds");
+  if (duration) exercise.duration = duration;
+
+  const rest = coerceText(raw.restBetweenSets, " seconds");
+  if (rest) exercise.restBetweenSets = rest;
+
+  if (!exercise.sets && !exercise.reps && !exercise.duration) {
+    warnings.push(`${path} dropped: "${name}" has no sets, reps or duration`);
+    return null;
+  }
+
+  const videoUrl = coerceText(raw.videoUrl);
+  if (videoUrl && /^https?:\/\//i.test(videoUrl)) {
+    exercise.videoUrl = videoUrl;
+  } else if (raw.videoUrl) {
+    warnings.push(`${path}.videoUrl removed: not an http(s) URL`);
+  }
+
+  if (typeof raw.catalogId === "string" && getCatalogExercise(raw.catalogId)) {
+    exercise.catalogId = raw.catalogId;
+  } else if (raw.catalogId) {
+    warnings.push(`${path}.catalogId removed: "${raw.catalogId}" is unknown`);
+  }
+
+  return exercise;
+}
+
+/**
+ * Check a block's type and timing. The exercises it refers to are checked
+ * by the caller.
+ */
+function validateBlock(
+  raw: Record<string, any>,
+  exerciseIndexes: number[],
+  path: string,
+  warnings: string[]
+): WorkoutBlock {
+  let type = coerceText(raw.type)?.toLowerCase() as WorkoutBlockType;
+  if (!BLOCK_TYPES.includes(type)) {
+    const fallback = exerciseIndexes.length > 1 ? "circuit" : "straight";
+    warnings.push(
+      `${path}.type "${raw.type}" is not a block type, using ${fallback}`
+    );
+    type = fallback;
+  } else if (type === "superset" && exerciseIndexes.length < 2) {
+    warnings.push(`${path} has a single exercise, using straight sets`);
+    type = "straight";
+  }
+
+  const block: WorkoutBlock = { type, exerciseIndexes };
+  if (type === "straight") {
+    return block;
+  }
+
+  const timing: Record<BlockTimingField, number | null> = {
+    rounds: coerceSets(raw.rounds),
+    workSeconds: coerceSeconds(raw.workSeconds),
+    restSeconds: coerceSeconds(raw.restSeconds),
+    intervalSeconds: coerceSeconds(raw.intervalSeconds),
+    timeCapMinutes: coerceSets(raw.timeCapMinutes),
+  };
+  (Object.keys(timing) as BlockTimingField[]).forEach((field) => {
+    const value = timing[field];
+    if (value !== null) {
+      block[field] = value;
+    } else if (raw[field] !== undefined && raw[field] !== null) {
+      warnings.push(`${path}.${field} removed: "${raw[field]}" is invalid`);
+    }
+  });
+
+  // Timing the block type needs but the payload lacks is filled with the
+  // defaults when the workout is read, see getWorkoutBlocks
+  return block;
+}
+
+/**
+ * Flatten blocks that list their own exercises, as the model returns them,
+ * into the exercise list and blocks that point into it
+ */
+function flattenNestedBlocks(
+  rawBlocks: unknown[],
+  warnings: string[]
+): { exercises: WorkoutExercise[]; blocks: WorkoutBlock[] } {
+  const exercises: WorkoutExercise[] = [];
+  const blocks: WorkoutBlock[] = [];
+
+  rawBlocks.forEach((rawBlock, blockIndex) => {
+    const path = `blocks[${blockIndex}]`;
+    if (!isRecord(rawBlock) || !Array.isArray(rawBlock.exercises)) {
+      warnings.push(`${path} dropped: exercises must be an array`);
+      return;
+    }
+
+    const exerciseIndexes: number[] = [];
+    rawBlock.exercises.forEach((rawExercise, index) => {
+      const exercise = validateExercise(
+        rawExercise,
+        `${path}.exercises[${index}]`,
+        warnings
+      );
+      if (exercise) {
+        exerciseIndexes.push(exercises.push(exercise) - 1);
+      }
+    });
+
+    if (exerciseIndexes.length === 0) {
+      warnings.push(`${path} dropped: no valid exercises`);
+      return;
+    }
+    blocks.push(validateBlock(rawBlock, exerciseIndexes, path, warnings));
+  });
+
+  return { exercises, blocks };
+}
+
+/**
+ * Check blocks that refer to the exercise list by index. `mapIndex` gives
+ * the index of each raw exercise after invalid ones were dropped. Every
+ * exercise ends up in exactly one block; exercises no block mentions are
+ * done as straight sets at the end.
+ */
+function validateIndexedBlocks(
+  rawBlocks: unknown[],
+  exerciseCount: number,
+  mapIndex: (index: number) => number | null,
+  warnings: string[]
+): WorkoutBlock[] {
+  const used = new Set<number>();
+  const blocks: WorkoutBlock[] = [];
+
+  rawBlocks.forEach((rawBlock, blockIndex) => {
+    const path = `blocks[${blockIndex}]`;
+    if (!isRecord(rawBlock) || !Array.isArray(rawBlock.exerciseIndexes)) {
+      warnings.push(`${path} dropped: exerciseIndexes must be an array`);
+      return;
+    }
+
+    const exerciseIndexes = rawBlock.exerciseIndexes
+      .map((index) => (Number.isInteger(index) ? mapIndex(index) : null))
+      .filter(
+        (index): index is number =>
+          index !== null && index < exerciseCount && !used.has(index)
+      );
+    if (exerciseIndexes.length < rawBlock.exerciseIndexes.length) {
+      warnings.push(`${path}.exerciseIndexes had unknown or repeated entries`);
+    }
+    if (exerciseIndexes.length === 0) {
+      warnings.push(`${path} dropped: no valid exercises`);
+      return;
+    }
+
+    exerciseIndexes.forEach((index) => used.add(index));
+    blocks.push(validateBlock(rawBlock, exerciseIndexes, path, warnings));
+  });
+
+  const unused = createStraightBlocks(exerciseCount).filter(
+    (block) => !used.has(block.exerciseIndexes[0])
+  );
+  if (blocks.length > 0 && unused.length > 0) {
+    warnings.push(`${unused.length} exercise(s) in no block done as sets`);
+  }
+  return [...blocks, ...unused];
+}
+
+/**
+ * Check every field of a workout payload, repairing what can be repaired
+ */
+export function validateWorkoutResponse(
+  raw: unknown
+): WorkoutValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isRecord(raw)) {
+    return {
+      workout: null,
+      errors: ["workout must be a JSON object"],
+      warnings,
+    };
+  }
+
+  const title = coerceText(raw.title);
+  if (!title) errors.push("title must be a non-empty string");
+
+  const description = coerceText(raw.description) || "";
+  if (!description) warnings.push("description missing");
+
+  let exercises: WorkoutExercise[] = [];
+  let blocks: WorkoutBlock[] = [];
+  const hasNestedBlocks =
+    Array.isArray(raw.blocks) &&
+    raw.blocks.some(
+      (block) => isRecord(block) && Array.isArray(block.exercises)
+    );
+
+  if (hasNestedBlocks) {
+    ({ exercises, blocks } = flattenNestedBlocks(raw.blocks, warnings));
+  } else if (!Array.isArray(raw.exercises)) {
+    errors.push("exercises must be an array");
+  } else {
+    // Where each raw exercise ends up once invalid ones are dropped
+    const newIndexes: (number | null)[] = [];
+    raw.exercises.forEach((rawExercise, index) => {
+      const exercise = validateExercise(
+        rawExercise,
+        `exercises[${index}]`,
+        warnings
+      );
+      newIndexes.push(exercise ? exercises.push(exercise) - 1 : null);
+    });
+
+    // Version 1 payloads have no blocks and are done as straight sets
+    blocks = Array.isArray(raw.blocks)
+      ? validateIndexedBlocks(
+          raw.blocks,
+          exercises.length,
+          (index) => newIndexes[index] ?? null,
+          warnings
+        )
+      : createStraightBlocks(exercises.length);
+  }
+
+  if (
+    (hasNestedBlocks || Array.isArray(raw.exercises)) &&
+    exercises.length === 0
+  ) {
+    errors.push("exercises must contain at least one valid exercise");
+  }
+
+  const totalTime = coerceText(raw.totalTime, " minutes");
+  if (!totalTime) errors.push("totalTime must be a non-empty string");
+
+  const difficulty = coerceText(raw.difficulty)?.toLowerCase();
+  if (!difficulty) errors.push("difficulty must be a non-empty string");
+
+  const warmup = coerceRoutine(raw.warmup);
+  const cooldown = coerceRoutine(raw.cooldown);
+
+  if (errors.length > 0) {
+    return { workout: null, errors, warnings };
+  }
+
+  const workout: WorkoutResponse = {
+    title: title!,
+    description,
+    exercises,
+    schemaVersion: WORKOUT_SCHEMA_VERSION,
+    blocks,
+    totalTime: totalTime!,
+    difficulty: difficulty!,
+  };
+  if (warmup) workout.warmup = warmup;
+  if (cooldown) workout.cooldown = cooldown;
+
+  return { workout, errors, warnings };
+}
+
+/**
+ * Validate a payload and throw a WorkoutValidationError if it is unusable
+ */
+export function assertValidWorkout(raw: unknown): WorkoutResponse {
+  const { workout, errors } = validateWorkoutResponse(raw);
+  if (!workout) {
+    throw new WorkoutValidationError(errors);
+  }
+  return workout;
+}